@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
+import './index.css';
 import { 
   Trash2, 
   Search, 
@@ -11,21 +12,368 @@ import {
   Copy,
   ClipboardList,
   Save,
-  Wallet
+  Wallet,
+  Trophy,
+  StickyNote,
+  Download,
+  Upload,
+  Undo2,
+  Redo2,
+  History as HistoryIcon,
+  Lock,
+  KeyRound,
+  Shield,
+  ShieldCheck,
+  ChevronDown,
+  Pencil,
+  Check,
+  Layers,
+  FolderPlus,
+  ArrowRightLeft,
+  Tag,
+  WrapText,
+  Languages,
+  RefreshCw,
+  Cloud,
+  CloudOff,
+  AppWindow,
+  CalendarClock,
+  Landmark,
+  Hourglass,
+  ChevronUp,
+  ChevronRight,
+  CalendarDays,
+  ListCollapse,
+  ChartColumn,
+  Printer,
+  ScrollText,
+  QrCode as QrCodeIcon,
+  Camera,
+  ImageUp,
+  Pause,
+  Play,
+  ChevronLeft
 } from 'lucide-react';
+import {
+  DRAWS_STORAGE_KEY,
+  Draw,
+  DrawMatch,
+  PrizeTier,
+  PRIZE_TIERS,
+  PRIZE_AMOUNTS,
+  emptyWinners,
+  findWinningBonds,
+  formatTaka,
+  loadDraws,
+  parseStoredDraws,
+  parseWinningNumbers,
+  saveDraws,
+  upsertDraw,
+  winningIntervals
+} from './utils/draws';
+import { BOND_NUMBER_LENGTH, formatBondNumber, formatBondRange, isValidBondNumber, matchBondRange } from './utils/bondNumbers';
+import { UnplacedLine, UnplacedReason, parseDrawResultText } from './utils/drawParser';
+import {
+  Bond,
+  BatchDetails,
+  DEFAULT_DENOMINATION,
+  DENOMINATIONS,
+  addNoteTag,
+  bondKey,
+  normalizeSeries,
+  todayIso
+} from './utils/bonds';
+import {
+  BondListing,
+  BondRun,
+  addIntervals,
+  countBonds,
+  createListing,
+  listingAt,
+  listingIndexOf,
+  listingNumbers,
+  listingSlice,
+  removeInterval,
+  updateBond,
+  updateNotes
+} from './utils/bondStore';
+import {
+  LEGACY_BACKUP_KEY,
+  LEGACY_STORAGE_KEY,
+  StorageError,
+  StorageProblem,
+  decryptStore,
+  encryptStore,
+  exportRawStore,
+  loadBondStore,
+  loadEncryptionConfig,
+  loadStoredActivity,
+  loadStoredClaims,
+  loadStoredDrawCalendar,
+  loadStoredDraws,
+  loadStoredHistory,
+  loadStoredPortfolios,
+  loadStoredSync,
+  loadStoredValueHistory,
+  resetBondStore,
+  saveStoredActivity,
+  saveStoredClaims,
+  saveStoredDrawCalendar,
+  saveStoredDraws,
+  saveStoredHistory,
+  saveStoredPortfolios,
+  saveStoredSync,
+  saveStoredValueHistory,
+  unlockStore,
+  writeRunChanges
+} from './utils/bondDatabase';
+import { downloadFile, printHtml, timestampForFilename } from './utils/files';
+import {
+  MAX_LISTED_NUMBERS,
+  ReportLayout,
+  ReportOptions,
+  createReport,
+  loadReportOptions,
+  reportFilename,
+  reportHtml,
+  reportPdf,
+  saveReportOptions
+} from './utils/report';
+import {
+  ACTIVITY_KINDS,
+  ACTIVITY_LIMIT,
+  COUNT_KEYS,
+  ActivityDetails,
+  ActivityEntry,
+  ActivityKind,
+  ActivityOutcome,
+  appendActivity,
+  createActivityEntry,
+  exportActivityCsv,
+  filterActivity,
+  intervalRanges,
+  parseStoredActivity,
+  runRanges
+} from './utils/activity';
+import {
+  SYNC_DELAY_MS,
+  SYNC_INTERVAL_MS,
+  SyncError,
+  SyncFailure,
+  SyncPhase,
+  SyncState,
+  applySyncPortfolios,
+  applySyncRuns,
+  changedPortfolios,
+  changedRuns,
+  createSyncState,
+  exchangeChanges,
+  parseStoredSyncState,
+  pendingChangeCount,
+  requestSyncCode,
+  verifySyncCode
+} from './utils/sync';
+import { SyncChanges, combineChanges, formatSyncCode, isEmptyChanges, normalizeSyncCode } from './utils/syncProtocol';
+import {
+  NO_RECENT_CHANGES,
+  RecentChanges,
+  TabChannel,
+  TabMessage,
+  changedBondCount,
+  claimSyncLeadership,
+  openTabChannel,
+  rememberChanges
+} from './utils/tabSync';
+import { createId } from './utils/ids';
+import {
+  CLAIM_STATUSES,
+  ClaimEntry,
+  ClaimRecord,
+  ClaimStatus,
+  ClaimSummary,
+  Claims,
+  EXPIRING_SOON_DAYS,
+  claimEntries,
+  isOpenClaim,
+  parseStoredClaims,
+  summarizeClaims,
+  validateClaim
+} from './utils/claims';
+import {
+  DRAW_CALENDAR_KEY,
+  DrawCalendar,
+  DrawReminder,
+  ScheduledDraw,
+  countEligible,
+  defaultDrawCalendar,
+  dueReminder,
+  eligibilityCutoff,
+  eligibleDraws,
+  extendSchedule,
+  isEligibleFor,
+  loadDismissedReminder,
+  loadDrawCalendar,
+  nextDraw,
+  nextEligibleDraw,
+  parseStoredDrawCalendar,
+  saveDismissedReminder,
+  saveDrawCalendar,
+  scheduleDraw,
+  unscheduleDraw
+} from './utils/drawCalendar';
+import {
+  ListView,
+  RunGroup,
+  createGroupedRows,
+  groupKey,
+  groupRuns,
+  groupSize,
+  groupedRowAt,
+  groupedRowOf,
+  listingGroups,
+  listingRanges,
+  loadListView,
+  saveListView
+} from './utils/runGroups';
+import {
+  AdditionsOverTime,
+  DistributionBucket,
+  DrawWins,
+  MAX_GAP_SIZE,
+  NumberGap,
+  additionsOverTime,
+  findGaps,
+  gapSize,
+  numberDistribution,
+  winHistory
+} from './utils/analytics';
+import { InputAnalysis, InputSegment, SegmentReason, SegmentStatus, analyzeInput } from './utils/bondInput';
+import {
+  NUMERAL_SYSTEMS,
+  NumeralSystem,
+  formatCount,
+  loadNumeralSystem,
+  normalizeDigits,
+  saveNumeralSystem,
+  toNumerals
+} from './utils/numerals';
+import { LANGUAGES, Language, MessageKey, loadLanguage, saveLanguage, translate } from './utils/i18n';
+import { computeWindow, scrollTopForIndex } from './utils/virtualWindow';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { QueryError, QueryHint, filterRuns, parseQuery, queryHints } from './utils/bondQuery';
+import { Interval } from './utils/intervals';
+import {
+  EMPTY_SELECTION,
+  Selection,
+  addToSelection,
+  isSelected,
+  removeFromSelection,
+  selectedRuns
+} from './utils/selection';
+import {
+  PortfolioSummary,
+  ValueBreakdownRow,
+  ValueSnapshot,
+  loadValueHistory,
+  parseStoredValueHistory,
+  recordSnapshot,
+  saveValueHistory,
+  summarizePortfolio,
+  valueByQuarter
+} from './utils/valuation';
+import {
+  ExportFormat,
+  ImportMode,
+  ImportPreview,
+  ParsedImport,
+  applyImport,
+  exportBonds,
+  exportJson,
+  parseImportFile,
+  parseJsonImport,
+  previewImport
+} from './utils/transfer';
+import {
+  AUTO_LOCK_OPTIONS,
+  MIN_PASSPHRASE_LENGTH,
+  createEncryptedBackup,
+  isEncryptedBackup,
+  loadAutoLockMinutes,
+  openEncryptedBackup,
+  saveAutoLockMinutes
+} from './utils/encryption';
+import {
+  ALL_PORTFOLIOS,
+  Holdings,
+  Portfolio,
+  TransferMode,
+  allRuns,
+  createPortfolio,
+  defaultPortfolio,
+  heldElsewhere,
+  loadActivePortfolioId,
+  parseStoredPortfolios,
+  portfolioName,
+  saveActivePortfolioId,
+  transferRuns,
+  viewRuns
+} from './utils/portfolios';
+import {
+  EMPTY_HISTORY,
+  HISTORY_LIMITS,
+  History,
+  RemovedPortfolio,
+  createHistoryEntry,
+  entryCounts,
+  loadHistoryLimit,
+  parseStoredHistory,
+  reapplyEntry,
+  recordHistory,
+  relistPortfolio,
+  revertEntry,
+  saveHistoryLimit,
+  trimHistory
+} from './utils/history';
+import { QrCode, encodeQr, qrSvgPath } from './utils/qrCode';
+import { scanForQr } from './utils/qrDecode';
+import {
+  TransferError,
+  TransferReceiver,
+  createTransferFrames,
+  missingChunks,
+  openTransfer,
+  receiveFrame,
+  receivedChunks
+} from './utils/qrTransfer';
 
 // --- Types ---
 type NotificationType = 'success' | 'error' | 'warning';
 
 interface Notification {
-  id: number;
+  id: string;
   type: NotificationType;
   message: string;
+  action?: { label: string; onClick: () => void };
+  logId?: string; // the activity log entry it reports
 }
 
+type StorageState =
+  | { status: 'loading' }
+  | { status: 'locked' }
+  | { status: 'ready' }
+  | { status: 'recovery'; problem: StorageProblem; damaged?: number };
+
 // --- Components ---
 
-const NotificationToast = ({ notifications, removeNotification }: { notifications: Notification[], removeNotification: (id: number) => void }) => (
+interface NotificationToastProps {
+  notifications: Notification[];
+  removeNotification: (id: string) => void;
+  onOpenLog: (logId: string) => void;
+}
+
+const NotificationToast = ({ notifications, removeNotification, onOpenLog }: NotificationToastProps) => {
+  const { t } = useDisplay();
+  return (
   <div className="fixed bottom-4 right-4 z-[100] flex flex-col gap-3 pointer-events-none w-full max-w-sm px-4 sm:px-0">
     {notifications.map((notif) => (
       <div 
@@ -45,16 +393,55 @@ const NotificationToast = ({ notifications, removeNotification }: { notification
           {notif.type === 'warning' && <AlertCircle size={18} />}
         </div>
         <p className="text-sm font-medium leading-tight pt-0.5">{notif.message}</p>
+        {notif.action && (
+          <button
+            onClick={() => { notif.action!.onClick(); removeNotification(notif.id); }}
+            className="shrink-0 px-2 py-0.5 rounded-lg text-xs font-bold underline underline-offset-2 hover:bg-black/5 dark:hover:bg-white/10 transition-colors"
+          >
+            {notif.action.label}
+          </button>
+        )}
+        {notif.logId && (
+          <button
+            onClick={() => { onOpenLog(notif.logId!); removeNotification(notif.id); }}
+            className="shrink-0 p-1 rounded-lg opacity-60 hover:opacity-100 hover:bg-black/5 dark:hover:bg-white/10 transition"
+            title={t('toast.showInLog')}
+          >
+            <ScrollText size={14} />
+          </button>
+        )}
         <button onClick={() => removeNotification(notif.id)} className="ml-auto text-current opacity-40 hover:opacity-100 p-1 rounded-full transition-opacity">
           <X size={14} />
         </button>
       </div>
     ))}
   </div>
-);
+  );
+};
+
+// Stays until dismissed: reloading is the user's call, not a timeout's
+const UpdatePrompt = ({ onReload, onDismiss }: { onReload: () => void; onDismiss: () => void }) => {
+  const { t } = useDisplay();
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] flex items-center gap-3 pl-4 pr-2 py-2.5 rounded-xl shadow-xl shadow-black/5 backdrop-blur-xl border bg-indigo-50 border-indigo-200 text-indigo-800 dark:bg-indigo-950/60 dark:border-indigo-500/20 dark:text-indigo-100 animate-in">
+      <RefreshCw size={16} className="shrink-0 text-indigo-600 dark:text-indigo-400" />
+      <p className="text-sm font-medium">{t('update.ready')}</p>
+      <button onClick={onReload} className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-semibold transition-colors">
+        {t('update.reload')}
+      </button>
+      <button onClick={onDismiss} className="px-2 py-1 rounded-lg text-xs font-medium opacity-70 hover:opacity-100 transition-opacity">
+        {t('update.later')}
+      </button>
+    </div>
+  );
+};
 
-const StatCard = ({ icon: Icon, label, value, colorClass, bgClass }: { icon: any, label: string, value: string, colorClass: string, bgClass?: string }) => (
-  <div className="bg-white/50 dark:bg-slate-900/40 border border-slate-200 dark:border-white/5 rounded-xl p-3 flex items-center gap-3 shadow-sm transition-colors">
+const StatCard = ({ icon: Icon, label, value, colorClass, bgClass, onClick }: { icon: any, label: string, value: string, colorClass: string, bgClass?: string, onClick?: () => void }) => (
+  <div
+    onClick={onClick}
+    role={onClick ? 'button' : undefined}
+    className={`bg-white/50 dark:bg-slate-900/40 border border-slate-200 dark:border-white/5 rounded-xl p-3 flex items-center gap-3 shadow-sm transition-colors ${onClick ? 'cursor-pointer hover:border-indigo-200 dark:hover:border-indigo-500/20 hover:bg-white dark:hover:bg-slate-900/70' : ''}`}
+  >
     <div className={`p-2 rounded-lg ${bgClass ? bgClass : 'bg-slate-100 dark:bg-white/5'} ${colorClass}`}>
       <Icon size={18} />
     </div>
@@ -76,6 +463,7 @@ const ConfirmationModal = ({
   onConfirm: () => void; 
   count: number; 
 }) => {
+  const { t, bonds } = useDisplay();
   if (!isOpen) return null;
 
   return (
@@ -93,10 +481,10 @@ const ConfirmationModal = ({
             <Trash2 size={24} />
           </div>
           <div>
-            <h3 className="text-lg font-bold text-slate-900 dark:text-white">Clear Database?</h3>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('clear.title')}</h3>
             <p className="text-sm text-slate-500 dark:text-slate-400 mt-2 leading-relaxed">
-              You are about to delete <span className="font-mono font-bold text-slate-900 dark:text-slate-200">{count}</span> saved bonds. 
-              <br/>This action cannot be undone.
+              {t('clear.aboutTo', { bonds: bonds(count) })}
+              <br/>{t('clear.canUndo')}
             </p>
           </div>
           <div className="grid grid-cols-2 gap-3 w-full mt-4">
@@ -104,13 +492,13 @@ const ConfirmationModal = ({
               onClick={onClose}
               className="px-4 py-2.5 rounded-xl text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors bg-slate-50 dark:bg-slate-800/50"
             >
-              Cancel
+              {t('common.cancel')}
             </button>
             <button
               onClick={() => { onConfirm(); onClose(); }}
               className="px-4 py-2.5 rounded-xl bg-red-600 hover:bg-red-700 text-white font-medium shadow-lg shadow-red-500/20 transition-all active:scale-95"
             >
-              Yes, Clear All
+              {t('clear.confirm')}
             </button>
           </div>
         </div>
@@ -119,470 +507,5272 @@ const ConfirmationModal = ({
   );
 };
 
-// --- Sub-components extracted to prevent re-render focus loss ---
+/** Words why a pasted result line could not be placed; see UnplacedReason in drawParser.ts. */
+const unplacedReason = (reason: UnplacedReason, { t, count, digits }: Display): string => {
+  switch (reason.code) {
+    case 'draw-number':
+      return t('draws.problem.draw-number', { number: count(reason.drawNumber) });
+    case 'draw-date':
+      return t('draws.problem.draw-date', { date: digits(reason.date) });
+    case 'no-heading':
+      return t(reason.count === 1 ? 'draws.problem.no-heading.one' : 'draws.problem.no-heading', { count: count(reason.count) });
+    case 'malformed':
+      return t('draws.problem.malformed', { numbers: reason.tokens.map(digits).join(', '), length: count(BOND_NUMBER_LENGTH) });
+    case 'repeated': {
+      const numbers = reason.numbers.map(({ number, tier }) => t('draws.problem.repeatedIn', { number: digits(number), tier: t(`tier.${tier}`) }));
+      return t('draws.problem.repeated', { numbers: numbers.join(', ') });
+    }
+  }
+};
 
-interface AddBondsPanelProps {
-  inputValue: string;
-  setInputValue: (val: string) => void;
-  onSave: () => void;
+interface DrawCheckModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  draws: Draw[];
+  matches: DrawMatch[];
+  bondCount: number;
+  onSaveDraw: (draw: Draw) => void;
+  onDeleteDraw: (drawNumber: number) => void;
 }
 
-const AddBondsPanel = ({ inputValue, setInputValue, onSave }: AddBondsPanelProps) => {
-  const [isFocused, setIsFocused] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+const DrawCheckModal = ({ isOpen, onClose, draws, matches, bondCount, onSaveDraw, onDeleteDraw }: DrawCheckModalProps) => {
+  const [view, setView] = useState<'results' | 'paste' | 'add'>('results');
+  const [pastedText, setPastedText] = useState('');
+  const [parseIssues, setParseIssues] = useState<UnplacedLine[] | null>(null);
+  const [drawNumber, setDrawNumber] = useState('');
+  const [drawDate, setDrawDate] = useState('');
+  const [tierInputs, setTierInputs] = useState<Record<PrizeTier, string>>({ 1: '', 2: '', 3: '', 4: '', 5: '' });
+  const [formError, setFormError] = useState('');
+  const display = useDisplay();
+  const { t, bonds, count } = display;
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSave();
-    // Maintain focus on input after submission
-    requestAnimationFrame(() => {
-      inputRef.current?.focus();
+  if (!isOpen) return null;
+
+  const totalPrize = matches.reduce((sum, m) => sum + m.prize, 0);
+
+  const resetForm = () => {
+    setDrawNumber('');
+    setDrawDate('');
+    setTierInputs({ 1: '', 2: '', 3: '', 4: '', 5: '' });
+    setFormError('');
+    setPastedText('');
+    setParseIssues(null);
+  };
+
+  // Parsed results are loaded into the regular form so they can be
+  // reviewed and corrected before saving.
+  const handleParseText = () => {
+    const parsed = parseDrawResultText(pastedText);
+    setDrawNumber(parsed.drawNumber !== null ? String(parsed.drawNumber) : '');
+    setDrawDate(parsed.drawDate ?? '');
+    setTierInputs({
+      1: parsed.winners[1].join(', '),
+      2: parsed.winners[2].join(', '),
+      3: parsed.winners[3].join(', '),
+      4: parsed.winners[4].join(', '),
+      5: parsed.winners[5].join(', '),
     });
+    setParseIssues(parsed.unplaced);
+    setFormError('');
+    setView('add');
   };
 
-  return (
-    <div className="flex-none mb-6 animate-in relative z-30">
-      <form 
-          onSubmit={handleSubmit}
-          className={`
-            relative group flex items-start gap-2 p-2 rounded-2xl border transition-all duration-300
-            ${isFocused 
-              ? 'bg-white dark:bg-slate-900 border-indigo-500/30 ring-4 ring-indigo-500/10 shadow-xl shadow-indigo-500/10' 
-              : 'bg-white/60 dark:bg-slate-900/60 border-slate-200 dark:border-white/10 hover:border-indigo-500/20 hover:bg-white dark:hover:bg-slate-900 shadow-sm'}
-          `}
-      >
-          <div className="relative flex-1">
-              <div className={`absolute left-3 top-3.5 transition-colors duration-300 ${isFocused ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400 dark:text-slate-500'}`}>
-                  <Plus size={20} />
-              </div>
-              
-              <div className="flex flex-col">
-                <input
-                    ref={inputRef}
-                    type="text"
-                    value={inputValue}
-                    onChange={(e) => setInputValue(e.target.value)}
-                    onFocus={() => setIsFocused(true)}
-                    onBlur={() => setIsFocused(false)}
-                    placeholder="Enter bonds (e.g. 1234567 or 0000001-0000100)..."
-                    className="w-full bg-transparent border-none p-0 pl-10 pr-8 py-3 text-base font-mono text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600 focus:ring-0"
-                    autoComplete="off"
-                    autoCorrect="off"
-                    spellCheck="false"
-                />
-                
-                {/* Collapsible Help Text */}
-                <div className={`
-                  overflow-hidden transition-all duration-300 ease-in-out pl-10
-                  ${isFocused ? 'max-h-20 opacity-100 pb-2 mt-1' : 'max-h-0 opacity-0'}
-                `}>
-                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] font-medium text-slate-500 dark:text-slate-400">
-                    <span className="flex items-center gap-1.5">
-                      <span className="w-1 h-1 rounded-full bg-indigo-500"></span>
-                      Single: 1234567 (Exact 7 digits)
-                    </span>
-                    <span className="flex items-center gap-1.5">
-                      <span className="w-1 h-1 rounded-full bg-emerald-500"></span>
-                      Range: 0000001-0000100 (Exact 7 digits)
-                    </span>
-                  </div>
-                </div>
-              </div>
+  const handleSubmitDraw = (e: React.FormEvent) => {
+    e.preventDefault();
 
-              {inputValue && (
-                <button 
-                  type="button"
-                  onClick={() => { 
-                    setInputValue(''); 
-                    inputRef.current?.focus(); 
-                  }}
-                  className="absolute right-2 top-3 p-1 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
-                >
-                  <X size={16} />
-                </button>
-              )}
-          </div>
+    const parsedNumber = parseInt(drawNumber, 10);
+    if (!Number.isInteger(parsedNumber) || parsedNumber <= 0) {
+      setFormError(t('draws.errorNumber'));
+      return;
+    }
+    if (!drawDate) {
+      setFormError(t('draws.errorDate'));
+      return;
+    }
 
-          <button
-              type="submit"
-              disabled={!inputValue.trim()}
-              className={`
-                flex-none self-start h-[48px] rounded-xl font-medium shadow-lg transition-all duration-300 flex items-center justify-center
-                ${inputValue.trim() 
-                  ? 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-indigo-500/25 px-6 cursor-pointer active:scale-95' 
-                  : 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-600 shadow-none px-4 cursor-not-allowed'}
-              `}
-          >
-              <Save size={20} />
-              {inputValue.trim() && <span className="ml-2 animate-in fade-in slide-in-from-left-2 hidden sm:inline">Save</span>}
-          </button>
-      </form>
-    </div>
-  );
-};
+    const winners = emptyWinners();
+    const invalidTokens: string[] = [];
+    PRIZE_TIERS.forEach(tier => {
+      const { numbers, invalid } = parseWinningNumbers(tierInputs[tier]);
+      winners[tier] = numbers;
+      invalidTokens.push(...invalid);
+    });
 
-interface BondListPanelProps {
-  bonds: string[];
-  searchQuery: string;
-  setSearchQuery: (val: string) => void;
-  handleCopyAll: () => void;
-  handleClearAll: () => void;
-  handleCopy: (text: string) => void;
-  handleDelete: (bond: string) => void;
-}
+    if (invalidTokens.length > 0) {
+      setFormError(t('draws.errorInvalid', { numbers: `${invalidTokens.slice(0, 5).join(', ')}${invalidTokens.length > 5 ? '…' : ''}` }));
+      return;
+    }
+    if (PRIZE_TIERS.every(tier => winners[tier].length === 0)) {
+      setFormError(t('draws.errorNoWinners'));
+      return;
+    }
 
-const BondListPanel = ({ 
-  bonds, 
-  searchQuery, 
-  setSearchQuery, 
-  handleCopyAll, 
-  handleClearAll, 
-  handleCopy, 
-  handleDelete 
-}: BondListPanelProps) => {
-  
-  const filteredBonds = useMemo(() => {
-    if (!searchQuery) return bonds;
-    return bonds.filter(b => b.includes(searchQuery));
-  }, [bonds, searchQuery]);
+    onSaveDraw({ drawNumber: parsedNumber, drawDate, winners });
+    resetForm();
+    setView('results');
+  };
 
   return (
-    <div className="flex-1 flex flex-col glass-card rounded-2xl overflow-hidden shadow-xl shadow-black/5 dark:shadow-black/20 min-h-0 animate-in" style={{ animationDelay: '0.1s' }}>
-      {/* List Header */}
-      <div className="flex-none p-4 sm:p-5 border-b border-slate-200 dark:border-white/5 bg-white/40 dark:bg-slate-900/40 backdrop-blur-md z-10 space-y-4">
-        
-        {/* Stats Row */}
-        <div className="grid grid-cols-2 gap-3 mb-2">
-           <StatCard 
-             icon={Database} 
-             label="Stored" 
-             value={bonds.length.toLocaleString()} 
-             bgClass="bg-emerald-100 dark:bg-white/5"
-             colorClass="text-emerald-600 dark:text-emerald-400" 
-           />
-           <StatCard 
-             icon={Wallet} 
-             label="Est. Value" 
-             value="--" 
-             bgClass="bg-indigo-100 dark:bg-white/5"
-             colorClass="text-indigo-600 dark:text-indigo-400" 
-           />
-        </div>
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
 
-        {/* Search Bar */}
-        <div className="flex items-center gap-2">
-          <div className="relative flex-1 group">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 group-focus-within:text-indigo-500 dark:group-focus-within:text-indigo-400 transition-colors" size={16} />
-            <input
-              type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search stored bonds..."
-              className="w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 pl-10 pr-9 py-2.5 rounded-xl focus:outline-none focus:border-indigo-500/50 transition-all text-sm placeholder:text-slate-500 dark:placeholder:text-slate-600"
-            />
-            {searchQuery && (
-              <button 
-                onClick={() => setSearchQuery('')}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-900 dark:hover:text-white p-1"
-              >
-                <X size={14} />
-              </button>
-            )}
+      {/* Modal Card */}
+      <div className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-amber-50 dark:bg-amber-500/10 text-amber-500 flex items-center justify-center">
+              <Trophy size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white leading-none">{t('draws.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {t(draws.length === 1 ? 'draws.against.one' : 'draws.against', { bonds: bonds(bondCount), count: count(draws.length) })}
+              </p>
+            </div>
           </div>
-          
-          <div className="flex gap-1">
-            <button
-              onClick={handleCopyAll}
-              disabled={filteredBonds.length === 0}
-              className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
-              title="Copy All"
-            >
-              <ClipboardList size={18} />
-            </button>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {/* View Switch */}
+        <div className="flex-none grid grid-cols-3 gap-1 p-1 mx-5 mt-4 rounded-xl bg-slate-100 dark:bg-slate-800/50">
+          {(['results', 'paste', 'add'] as const).map(v => (
             <button
-              onClick={handleClearAll}
-              disabled={bonds.length === 0}
-              className="p-2.5 rounded-xl bg-red-50 dark:bg-red-500/10 text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-500/20 border border-transparent hover:border-red-200 dark:hover:border-red-500/30 transition-all disabled:opacity-30"
-              title="Clear All"
+              key={v}
+              onClick={() => setView(v)}
+              className={`py-1.5 rounded-lg text-sm font-medium transition-colors ${view === v ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
             >
-              <Trash2 size={18} />
+              {t(`draws.view.${v}`)}
             </button>
-          </div>
+          ))}
         </div>
-      </div>
 
-      {/* Scrollable List */}
-      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 sm:p-3 space-y-2 bg-slate-50/50 dark:bg-slate-950/20">
-        {filteredBonds.length === 0 ? (
-          <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500 p-8 text-center opacity-80 dark:opacity-60">
-            <div className="w-16 h-16 rounded-full bg-slate-100 dark:bg-slate-800/50 flex items-center justify-center mb-4 ring-1 ring-slate-200 dark:ring-slate-700/50">
-              <Search size={28} className="opacity-50" />
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5">
+          {view === 'results' ? (
+            <div className="space-y-4">
+              {matches.length === 0 ? (
+                <div className="flex flex-col items-center justify-center text-center text-slate-400 dark:text-slate-500 py-8">
+                  <Trophy size={28} className="opacity-50 mb-3" />
+                  <p className="text-sm">
+                    {t(draws.length === 0 ? 'draws.noDraws' : 'draws.noWins')}
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <div className="rounded-xl bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/20 p-3 text-sm text-emerald-800 dark:text-emerald-100">
+                    <span className="font-bold">{t(matches.length === 1 ? 'draws.winners.one' : 'draws.winners', { count: count(matches.length) })}</span> · {t('draws.total')} <span className="font-mono font-bold">{formatTaka(totalPrize)}</span>
+                  </div>
+                  <div className="space-y-2">
+                    {matches.map(match => (
+                      <div
+                        key={`${match.drawNumber}-${match.tier}-${bondKey(match.bond)}`}
+                        className="flex items-center justify-between p-3 rounded-xl bg-white dark:bg-slate-800/20 border border-slate-200 dark:border-white/5"
+                      >
+                        <div>
+                          <p className="font-mono text-lg tracking-widest font-medium text-slate-700 dark:text-slate-300">{match.bond.number}</p>
+                          <p className="text-[11px] text-slate-500 dark:text-slate-400">
+                            {match.bond.series && `${t('draws.series', { series: match.bond.series })} · `}{t('claims.draw', { number: count(match.drawNumber) })} · {match.drawDate}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xs font-semibold text-amber-600 dark:text-amber-400">{t(`tier.${match.tier}`)}</p>
+                          <p className="text-sm font-bold font-mono text-slate-900 dark:text-slate-100">{formatTaka(match.prize)}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {draws.length > 0 && (
+                <div className="pt-2">
+                  <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{t('draws.stored')}</p>
+                  <div className="space-y-1">
+                    {draws.map(draw => (
+                      <div key={draw.drawNumber} className="group flex items-center justify-between px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800/30 text-sm">
+                        <span className="text-slate-700 dark:text-slate-300">
+                          {t('claims.draw', { number: count(draw.drawNumber) })} <span className="text-slate-400 dark:text-slate-500">· {draw.drawDate}</span>
+                        </span>
+                        <button
+                          onClick={() => onDeleteDraw(draw.drawNumber)}
+                          className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                          title={t('draws.delete')}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
-            <p className="text-sm">No results found</p>
-          </div>
-        ) : (
-          filteredBonds.map((bond, index) => (
-            <div 
-              key={`${bond}-${index}`}
-              className="group flex items-center justify-between p-3 rounded-xl bg-white dark:bg-slate-800/20 hover:bg-slate-50 dark:hover:bg-slate-800/60 border border-slate-200 dark:border-white/5 hover:border-indigo-200 dark:hover:border-indigo-500/20 transition-all duration-200 shadow-sm dark:shadow-none"
-            >
-              <div className="flex items-center gap-3">
-                <div className="w-8 h-8 rounded-lg bg-slate-100 dark:bg-slate-900/80 text-slate-500 flex items-center justify-center text-[10px] font-mono border border-slate-200 dark:border-white/5">
-                  {index + 1}
+          ) : view === 'paste' ? (
+            <div className="space-y-3">
+              <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">
+                {t('draws.pasteHelp')}
+              </p>
+              <textarea
+                rows={12}
+                value={pastedText}
+                onChange={(e) => setPastedText(e.target.value)}
+                placeholder={'Draw No. 115 held on 31-07-2024\n1st Prize Tk. 6,00,000/- 0544222\n...'}
+                className="w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-xs font-mono resize-y placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                autoComplete="off"
+                spellCheck="false"
+              />
+              <button
+                type="button"
+                onClick={handleParseText}
+                disabled={!pastedText.trim()}
+                className="w-full px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-medium shadow-lg shadow-indigo-500/25 transition-all active:scale-95 flex items-center justify-center gap-2 disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <ClipboardList size={16} /> {t('draws.parse')}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmitDraw} className="space-y-3">
+              {parseIssues && (
+                <div className={`rounded-xl border p-3 text-xs ${parseIssues.length > 0 ? 'bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/20 text-amber-800 dark:text-amber-100' : 'bg-emerald-50 dark:bg-emerald-500/10 border-emerald-200 dark:border-emerald-500/20 text-emerald-800 dark:text-emerald-100'}`}>
+                  {parseIssues.length === 0 ? (
+                    <p>{t('draws.parsed')}</p>
+                  ) : (
+                    <>
+                      <p className="font-semibold mb-2">{t(parseIssues.length === 1 ? 'draws.unplaced.one' : 'draws.unplaced', { count: count(parseIssues.length) })}</p>
+                      <ul className="space-y-1 max-h-32 overflow-y-auto custom-scrollbar">
+                        {parseIssues.map((issue, i) => (
+                          <li key={`${issue.lineNumber}-${i}`}>
+                            <span className="font-mono opacity-60">L{count(issue.lineNumber)}</span> {unplacedReason(issue.reason, display)}
+                            <span className="block font-mono opacity-60 truncate">{issue.text}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                 </div>
-                <span className="font-mono text-lg tracking-widest font-medium text-slate-700 dark:text-slate-300 group-hover:text-indigo-600 dark:group-hover:text-indigo-200 transition-colors">
-                  {bond}
-                </span>
-              </div>
-              
-              <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
-                <button
-                  onClick={() => handleCopy(bond)}
-                  className="p-2 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 transition-colors"
-                  title="Copy"
-                >
-                  <Copy size={16} />
-                </button>
-                <button
-                  onClick={() => handleDelete(bond)}
-                  className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
-                  title="Delete"
-                >
-                  <Trash2 size={16} />
-                </button>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('draws.number')}</span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={drawNumber}
+                    onChange={(e) => setDrawNumber(e.target.value)}
+                    className="mt-1 w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm font-mono"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('draws.date')}</span>
+                  <input
+                    type="date"
+                    value={drawDate}
+                    onChange={(e) => setDrawDate(e.target.value)}
+                    className="mt-1 w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm font-mono"
+                  />
+                </label>
               </div>
-            </div>
-          ))
-        )}
-      </div>
-      
-      {/* Footer Stat */}
-      <div className="p-2 text-center border-t border-slate-200 dark:border-white/5 bg-slate-50/50 dark:bg-slate-950/30">
-        <p className="text-[10px] text-slate-500 font-mono">
-          Showing {filteredBonds.length} of {bonds.length} records
-        </p>
+
+              {PRIZE_TIERS.map(tier => (
+                <label key={tier} className="block">
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">
+                    {t(`tier.${tier}`)} · {formatTaka(PRIZE_AMOUNTS[tier])}
+                    {tierInputs[tier].trim() && ` · ${t('draws.numbers', { count: count(parseWinningNumbers(tierInputs[tier]).numbers.length) })}`}
+                  </span>
+                  <textarea
+                    rows={tier === 5 ? 3 : 1}
+                    value={tierInputs[tier]}
+                    onChange={(e) => setTierInputs(prev => ({ ...prev, [tier]: e.target.value }))}
+                    placeholder={t('draws.numbersPlaceholder')}
+                    className="mt-1 w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm font-mono resize-y placeholder:text-slate-400 dark:placeholder:text-slate-600"
+                    autoComplete="off"
+                    spellCheck="false"
+                  />
+                </label>
+              ))}
+
+              {formError && (
+                <p className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+                  <AlertCircle size={14} /> {formError}
+                </p>
+              )}
+
+              <button
+                type="submit"
+                className="w-full px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-medium shadow-lg shadow-indigo-500/25 transition-all active:scale-95 flex items-center justify-center gap-2"
+              >
+                <Save size={16} /> {t('draws.save')}
+              </button>
+            </form>
+          )}
+        </div>
       </div>
     </div>
   );
 };
 
-const PrizeBondApp = () => {
-  // State
-  const [bonds, setBonds] = useState<string[]>([]);
-  const [inputValue, setInputValue] = useState('');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
-  
-  // Persistence
-  useEffect(() => {
-    const saved = localStorage.getItem('prize_bonds');
-    if (saved) {
-      try {
-        setBonds(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load bonds", e);
-      }
-    }
-  }, []);
+const CLAIM_STATUS_STYLES: Record<ClaimStatus, string> = {
+  unclaimed: 'bg-amber-50 text-amber-700 dark:bg-amber-500/10 dark:text-amber-300',
+  submitted: 'bg-sky-50 text-sky-700 dark:bg-sky-500/10 dark:text-sky-300',
+  paid: 'bg-emerald-50 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-300',
+  expired: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+};
 
-  useEffect(() => {
-    localStorage.setItem('prize_bonds', JSON.stringify(bonds));
-  }, [bonds]);
+interface ClaimModalProps {
+  entry: ClaimEntry;
+  onClose: () => void;
+  onSave: (key: string, claim: ClaimRecord) => void;
+}
 
-  // Notifications Helper
-  const showNotification = (type: NotificationType, message: string) => {
-    const id = Date.now();
-    setNotifications(prev => [...prev, { id, type, message }]);
-    setTimeout(() => {
-      setNotifications(prev => prev.filter(n => n.id !== id));
-    }, 4000);
-  };
+const ClaimModal = ({ entry, onClose, onSave }: ClaimModalProps) => {
+  const { match, claim } = entry;
+  const [status, setStatus] = useState<ClaimStatus>(entry.status);
+  const [claimDate, setClaimDate] = useState(claim.claimDate);
+  const [bank, setBank] = useState(claim.bank);
+  const [branch, setBranch] = useState(claim.branch);
+  const [grossPrize, setGrossPrize] = useState(String(claim.grossPrize));
+  const [taxDeducted, setTaxDeducted] = useState(String(claim.taxDeducted));
+  const [netAmount, setNetAmount] = useState(String(claim.netAmount));
+  const [error, setError] = useState('');
+  const { t, count } = useDisplay();
 
-  const removeNotification = (id: number) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
+  const inputClass = "mt-1 w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm";
+  const labelClass = "text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold";
+
+  // Marking a claim paid suggests the usual amount: the prize less tax
+  const handleStatus = (next: ClaimStatus) => {
+    setStatus(next);
+    if (next === 'paid' && !(Number(netAmount) > 0)) {
+      setNetAmount(String(Math.max(0, Number(grossPrize) - Number(taxDeducted))));
+    }
+    if ((next === 'submitted' || next === 'paid') && !claimDate) setClaimDate(todayIso());
   };
 
-  // Logic
-  const handleProcessInput = () => {
-    if (!inputValue.trim()) {
-      showNotification('warning', 'Please enter bond numbers to add.');
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const record: ClaimRecord = {
+      status,
+      claimDate,
+      bank: bank.trim(),
+      branch: branch.trim(),
+      grossPrize: Number(grossPrize),
+      taxDeducted: Number(taxDeducted),
+      netAmount: Number(netAmount),
+    };
+    const problem = validateClaim(record);
+    if (problem) {
+      setError(t(`claim.problem.${problem}`));
       return;
     }
+    onSave(entry.key, record);
+  };
 
-    // Split by comma, space, or newline
-    const segments = inputValue.split(/[,\s\n]+/).map(s => s.trim()).filter(Boolean);
-    
-    const newBondsToAdd: string[] = [];
-    const keptSegments: string[] = [];
-    const existingSet = new Set(bonds);
-    // To track duplicates within the current batch
-    const batchSet = new Set<string>();
-    
-    let duplicatesCount = 0;
-    
-    // Error tracking for notification details
-    let rangeSizeErrors = 0;
-    let rangeFormatErrors = 0;
-    let singleFormatErrors = 0;
-
-    const MAX_RANGE_SIZE = 50000;
-
-    segments.forEach(segment => {
-      let isProcessed = false; // "Processed" means handled (saved or identified as duplicate)
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
 
-      // 1. Check for Range
-      const rangeMatch = segment.match(/^(\d{7})\s*-\s*(\d{7})$/);
-      
-      if (rangeMatch) {
-        const startStr = rangeMatch[1];
-        const endStr = rangeMatch[2];
-        let start = parseInt(startStr, 10);
-        let end = parseInt(endStr, 10);
-
-        if (start > end) {
-          [start, end] = [end, start];
-        }
+      {/* Modal Card */}
+      <form onSubmit={handleSubmit} className="relative w-full max-w-md max-h-[85vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 p-6 animate-in zoom-in-95 duration-200 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-amber-50 dark:bg-amber-500/10 text-amber-500 flex items-center justify-center">
+            <Landmark size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('claim.title')}</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              <span className="font-mono">{match.bond.number}</span>
+              {match.bond.series && ` · ${t('draws.series', { series: match.bond.series })}`} · {t('claims.draw', { number: count(match.drawNumber) })} · {t(`tier.${match.tier}`)}
+            </p>
+          </div>
+        </div>
+
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {t('claim.drawn', { date: match.drawDate })} {t('claim.until')} <span className="font-semibold text-slate-700 dark:text-slate-200">{entry.deadline}</span>
+          {entry.daysLeft >= 0 ? ` ${t(entry.daysLeft === 1 ? 'claim.daysLeft.one' : 'claim.daysLeft', { count: count(entry.daysLeft) })}` : t('claim.passed')}
+        </p>
+
+        <div className="grid grid-cols-4 gap-1 p-1 rounded-xl bg-slate-100 dark:bg-slate-800/50">
+          {CLAIM_STATUSES.map(s => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => handleStatus(s)}
+              className={`py-1.5 rounded-lg text-xs font-medium transition-colors ${status === s ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+            >
+              {t(`claims.status.${s}`)}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block col-span-2">
+            <span className={labelClass}>{t('claim.date')}</span>
+            <input type="date" value={claimDate} onChange={(e) => setClaimDate(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('claim.bank')}</span>
+            <input value={bank} onChange={(e) => setBank(e.target.value)} placeholder={t('claim.bankPlaceholder')} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('claim.branch')}</span>
+            <input value={branch} onChange={(e) => setBranch(e.target.value)} placeholder={t('claim.branchPlaceholder')} className={inputClass} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('claim.gross')}</span>
+            <input type="number" min={0} value={grossPrize} onChange={(e) => setGrossPrize(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="block">
+            <span className={labelClass}>{t('claim.tax')}</span>
+            <input type="number" min={0} value={taxDeducted} onChange={(e) => setTaxDeducted(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+          <label className="block col-span-2">
+            <span className={labelClass}>{t('claim.net')}</span>
+            <input type="number" min={0} value={netAmount} onChange={(e) => setNetAmount(e.target.value)} className={`${inputClass} font-mono`} />
+          </label>
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+            <AlertCircle size={14} /> {error}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors bg-slate-50 dark:bg-slate-800/50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 flex items-center justify-center gap-2"
+          >
+            <Save size={16} /> {t('add.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+interface DrawCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  calendar: DrawCalendar;
+  runs: BondRun[];
+  today: string;
+  onChange: (calendar: DrawCalendar) => void;
+}
+
+const DrawCalendarModal = ({ isOpen, onClose, calendar, runs, today, onChange }: DrawCalendarModalProps) => {
+  const [showPast, setShowPast] = useState(false);
+  const [drawNumber, setDrawNumber] = useState('');
+  const [drawDate, setDrawDate] = useState('');
+  const [formError, setFormError] = useState('');
+  const { t, count } = useDisplay();
+
+  const totalCount: number = useMemo(() => countBonds(runs), [runs]);
+  if (!isOpen) return null;
+
+  const upcoming = calendar.draws.filter(draw => draw.drawDate >= today);
+  const shown = showPast ? calendar.draws : upcoming;
+  const inputClass = "mt-1 w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm font-mono";
+  const labelClass = "text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold";
+
+  const setDays = (field: 'minHoldingDays' | 'reminderDays', value: string) => {
+    const days = parseInt(value, 10);
+    if (Number.isInteger(days) && days >= 0) onChange({ ...calendar, [field]: days });
+  };
+
+  const handleAddDraw = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsedNumber = parseInt(drawNumber, 10);
+    if (!Number.isInteger(parsedNumber) || parsedNumber <= 0) {
+      setFormError(t('draws.errorNumber'));
+      return;
+    }
+    if (!drawDate) {
+      setFormError(t('draws.errorDate'));
+      return;
+    }
+    onChange(scheduleDraw(calendar, { drawNumber: parsedNumber, drawDate }));
+    setDrawNumber('');
+    setDrawDate('');
+    setFormError('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-sky-50 dark:bg-sky-500/10 text-sky-500 flex items-center justify-center">
+              <CalendarDays size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white leading-none">{t('calendar.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {t(upcoming.length === 1 ? 'calendar.upcoming.one' : 'calendar.upcoming', { count: count(upcoming.length) })}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className={labelClass}>{t('calendar.minHolding')}</span>
+              <input type="number" min={0} value={calendar.minHoldingDays} onChange={(e) => setDays('minHoldingDays', e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('calendar.remindBefore')}</span>
+              <input type="number" min={0} value={calendar.reminderDays} onChange={(e) => setDays('reminderDays', e.target.value)} className={inputClass} />
+            </label>
+            <p className="col-span-2 text-xs text-slate-500 dark:text-slate-400">
+              {t(calendar.minHoldingDays === 1 ? 'calendar.help.one' : 'calendar.help', { count: count(calendar.minHoldingDays) })}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className={labelClass}>{t('calendar.schedule')}</p>
+              <div className="flex items-center gap-3 text-xs">
+                <label className="flex items-center gap-1.5 text-slate-500 dark:text-slate-400">
+                  <input type="checkbox" checked={showPast} onChange={() => setShowPast(past => !past)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
+                  {t('calendar.showPast')}
+                </label>
+                <button
+                  onClick={() => onChange(extendSchedule(calendar, today))}
+                  className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {t('calendar.extend')}
+                </button>
+              </div>
+            </div>
+            {shown.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500 py-4 text-center">{t('calendar.none')}</p>
+            ) : (
+              <div className="rounded-xl border border-slate-200 dark:border-white/5 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-800/40 text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="text-left font-semibold px-3 py-2">{t('calendar.draw')}</th>
+                      <th className="text-left font-semibold px-3 py-2">{t('calendar.date')}</th>
+                      <th className="text-left font-semibold px-3 py-2">{t('calendar.acquiredBy')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('list.eligible')}</th>
+                      <th className="px-2 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono text-slate-700 dark:text-slate-300">
+                    {shown.map(draw => (
+                      <tr key={draw.drawNumber} className={`border-t border-slate-100 dark:border-white/5 ${draw.drawDate < today ? 'opacity-50' : ''}`}>
+                        <td className="px-3 py-2">#{draw.drawNumber}</td>
+                        <td className="px-3 py-2">{draw.drawDate}</td>
+                        <td className="px-3 py-2">{eligibilityCutoff(draw, calendar.minHoldingDays)}</td>
+                        <td className="px-3 py-2 text-right">
+                          {count(countEligible(runs, draw, calendar.minHoldingDays))} / {count(totalCount)}
+                        </td>
+                        <td className="px-2 py-2 text-right">
+                          <button
+                            onClick={() => onChange(unscheduleDraw(calendar, draw.drawNumber))}
+                            className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                            title={t('calendar.remove')}
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <form onSubmit={handleAddDraw} className="space-y-2">
+            <p className={labelClass}>{t('calendar.add')}</p>
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <input
+                type="number"
+                min={1}
+                value={drawNumber}
+                onChange={(e) => setDrawNumber(e.target.value)}
+                placeholder={t('draws.number')}
+                className={inputClass}
+              />
+              <input type="date" value={drawDate} onChange={(e) => setDrawDate(e.target.value)} className={inputClass} />
+              <button
+                type="submit"
+                className="px-3 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white font-medium shadow-lg shadow-indigo-500/25 transition-all active:scale-95 flex items-center gap-1.5 text-sm"
+              >
+                <Plus size={16} /> {t('calendar.addButton')}
+              </button>
+            </div>
+            {formError && (
+              <p className="flex items-center gap-2 text-xs text-red-600 dark:text-red-400">
+                <AlertCircle size={14} /> {formError}
+              </p>
+            )}
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BreakdownTable = ({ title, rows, labelOf }: { title: string; rows: ValueBreakdownRow[]; labelOf: (key: string) => string }) => {
+  const { t, count } = useDisplay();
+  return (
+  <div>
+    <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{title}</p>
+    <div className="rounded-xl border border-slate-200 dark:border-white/5 overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-50 dark:bg-slate-800/40 text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400">
+          <tr>
+            <th className="text-left font-semibold px-3 py-2"></th>
+            <th className="text-right font-semibold px-3 py-2">{t('value.count')}</th>
+            <th className="text-right font-semibold px-3 py-2">{t('value.value')}</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-700 dark:text-slate-300">
+          {rows.map(row => (
+            <tr key={row.key} className="border-t border-slate-100 dark:border-white/5">
+              <td className="px-3 py-2">{labelOf(row.key)}</td>
+              <td className="px-3 py-2 text-right">{count(row.count)}</td>
+              <td className="px-3 py-2 text-right">{formatTaka(row.value)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+  );
+};
+
+interface ValuationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  summary: PortfolioSummary;
+  prizeWinnings: number;
+  history: ValueSnapshot[];
+}
+
+const ValuationModal = ({ isOpen, onClose, summary, prizeWinnings, history }: ValuationModalProps) => {
+  const quarters = useMemo(() => valueByQuarter(history), [history]);
+  const { t, count } = useDisplay();
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+              <Wallet size={20} />
+            </div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('value.title')}</h3>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          <div className="grid grid-cols-3 gap-2">
+            <StatCard icon={Database} label={t('value.bonds')} value={count(summary.count)} colorClass="text-emerald-600 dark:text-emerald-400" />
+            <StatCard icon={Wallet} label={t('value.faceValue')} value={formatTaka(summary.faceValue)} colorClass="text-indigo-600 dark:text-indigo-400" />
+            <StatCard icon={Trophy} label={t('value.winnings')} value={formatTaka(prizeWinnings)} colorClass="text-amber-600 dark:text-amber-400" />
+          </div>
+
+          {summary.count > 0 && (
+            <>
+              <BreakdownTable title={t('value.byDenomination')} rows={summary.byDenomination} labelOf={key => formatTaka(Number(key))} />
+              <BreakdownTable title={t('value.bySeries')} rows={summary.bySeries} labelOf={key => key || t('value.unspecified')} />
+            </>
+          )}
+
+          <div>
+            <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{t('value.byQuarter')}</p>
+            {quarters.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500">{t('value.noChanges')}</p>
+            ) : (
+              <div className="rounded-xl border border-slate-200 dark:border-white/5 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-800/40 text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="text-left font-semibold px-3 py-2">{t('value.quarter')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('value.bonds')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('value.value')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('value.change')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono text-slate-700 dark:text-slate-300">
+                    {quarters.map(q => (
+                      <tr key={q.quarter} className="border-t border-slate-100 dark:border-white/5">
+                        <td className="px-3 py-2">{q.quarter}</td>
+                        <td className="px-3 py-2 text-right">{count(q.count)}</td>
+                        <td className="px-3 py-2 text-right">{formatTaka(q.faceValue)}</td>
+                        <td className={`px-3 py-2 text-right ${q.change > 0 ? 'text-emerald-600 dark:text-emerald-400' : q.change < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                          {q.change > 0 ? '+' : q.change < 0 ? '−' : ''}{formatTaka(Math.abs(q.change))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ChartBar {
+  key: string;
+  value: number;
+  title: string;
+}
+
+const ColumnChart = ({ bars, startLabel, endLabel }: { bars: ChartBar[]; startLabel: string; endLabel: string }) => {
+  const max = Math.max(1, ...bars.map(bar => bar.value));
+  return (
+    <div>
+      <div className="h-28 flex items-end gap-px rounded-xl border border-slate-200 dark:border-white/5 p-2">
+        {bars.map(bar => (
+          <div
+            key={bar.key}
+            title={bar.title}
+            className="flex-1 rounded-t-sm bg-indigo-500/80 dark:bg-indigo-400/70 hover:bg-indigo-600 dark:hover:bg-indigo-300 transition-colors"
+            style={{ height: `${(bar.value / max) * 100}%`, minHeight: bar.value > 0 ? 2 : 0 }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] font-mono text-slate-400 dark:text-slate-500">
+        <span>{startLabel}</span>
+        <span>{endLabel}</span>
+      </div>
+    </div>
+  );
+};
+
+const BarList = ({ rows, labelOf }: { rows: ValueBreakdownRow[]; labelOf: (key: string) => string }) => {
+  const { count } = useDisplay();
+  const max = Math.max(1, ...rows.map(row => row.count));
+  return (
+    <div className="space-y-1.5">
+      {rows.map(row => (
+        <div key={row.key} className="flex items-center gap-3 text-sm">
+          <span className="w-24 flex-none truncate text-slate-600 dark:text-slate-300">{labelOf(row.key)}</span>
+          <div className="flex-1 h-3 rounded-full bg-slate-100 dark:bg-slate-800/60 overflow-hidden">
+            <div className="h-full rounded-full bg-emerald-500/80 dark:bg-emerald-400/70" style={{ width: `${(row.count / max) * 100}%` }} />
+          </div>
+          <span className="w-20 flex-none text-right font-mono text-slate-700 dark:text-slate-300">{count(row.count)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ChartTitle = ({ children }: { children: React.ReactNode }) => (
+  <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{children}</p>
+);
+
+// A long list of gaps is still copied in full
+const LISTED_GAPS = 200;
+
+interface AnalyticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runs: BondRun[];
+  summary: PortfolioSummary;
+  matches: DrawMatch[];
+  portfolios: Portfolio[];
+}
+
+const AnalyticsModal = ({ isOpen, onClose, runs, summary, matches, portfolios }: AnalyticsModalProps) => {
+  const [copiedGaps, setCopiedGaps] = useState(false);
+  // Only worked out while the dialog is open
+  const distribution: DistributionBucket[] = useMemo(() => (isOpen ? numberDistribution(runs) : []), [isOpen, runs]);
+  const additions: AdditionsOverTime = useMemo(() => (isOpen ? additionsOverTime(runs) : { months: [], undated: 0 }), [isOpen, runs]);
+  const gaps: NumberGap[] = useMemo(() => (isOpen ? findGaps(runs) : []), [isOpen, runs]);
+  const wins: DrawWins[] = useMemo(() => (isOpen ? winHistory(matches) : []), [isOpen, matches]);
+  const { t, bonds, count } = useDisplay();
+
+  useEffect(() => {
+    setCopiedGaps(false);
+  }, [gaps]);
+
+  if (!isOpen) return null;
+
+  const missingCount = gaps.reduce((sum, gap) => sum + gapSize(gap), 0);
+
+  const handleCopyGaps = async () => {
+    try {
+      await navigator.clipboard.writeText(gaps.map(gap => formatBondRange(gap.start, gap.end)).join(', '));
+      setCopiedGaps(true);
+    } catch (err) {
+      console.error("Failed to copy gaps", err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-emerald-50 dark:bg-emerald-500/10 text-emerald-500 flex items-center justify-center">
+              <ChartColumn size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('analytics.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('analytics.subtitle', { bonds: bonds(summary.count), count: count(summary.bySeries.length) })}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-6">
+          {summary.count === 0 ? (
+            <p className="text-sm text-slate-400 dark:text-slate-500">{t('analytics.empty')}</p>
+          ) : (
+            <>
+              <div>
+                <ChartTitle>{t('analytics.distribution')}</ChartTitle>
+                <ColumnChart
+                  bars={distribution.map(bucket => ({
+                    key: String(bucket.start),
+                    value: bucket.count,
+                    title: `${formatBondRange(bucket.start, bucket.end)}: ${bonds(bucket.count)}`,
+                  }))}
+                  startLabel={formatBondNumber(0)}
+                  endLabel={formatBondNumber(distribution[distribution.length - 1].end)}
+                />
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-6">
+                <div>
+                  <ChartTitle>{t('value.bySeries')}</ChartTitle>
+                  <BarList rows={summary.bySeries} labelOf={key => key || t('value.unspecified')} />
+                </div>
+                <div>
+                  <ChartTitle>{t('value.byDenomination')}</ChartTitle>
+                  <BarList rows={summary.byDenomination} labelOf={key => formatTaka(Number(key))} />
+                </div>
+              </div>
+
+              <div>
+                <ChartTitle>{t('analytics.additions')}</ChartTitle>
+                {additions.months.length === 0 ? (
+                  <p className="text-sm text-slate-400 dark:text-slate-500">{t('analytics.noDates')}</p>
+                ) : (
+                  <ColumnChart
+                    bars={additions.months.map(({ month, count: added }) => ({ key: month, value: added, title: `${month}: ${bonds(added)}` }))}
+                    startLabel={additions.months[0].month}
+                    endLabel={additions.months[additions.months.length - 1].month}
+                  />
+                )}
+                {additions.undated > 0 && (
+                  <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">{t('analytics.undated', { bonds: bonds(additions.undated) })}</p>
+                )}
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('analytics.gaps')}</p>
+                  {gaps.length > 0 && (
+                    <button
+                      onClick={handleCopyGaps}
+                      className="flex items-center gap-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      {copiedGaps ? <Check size={12} /> : <Copy size={12} />}
+                      {t(copiedGaps ? 'analytics.copied' : 'analytics.copyGaps')}
+                    </button>
+                  )}
+                </div>
+                {gaps.length === 0 ? (
+                  <p className="text-sm text-slate-400 dark:text-slate-500">{t('analytics.noGaps')}</p>
+                ) : (
+                  <>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                      {t(missingCount === 1 ? 'analytics.missing.one' : 'analytics.missing', { count: count(missingCount), size: count(MAX_GAP_SIZE) })}
+                    </p>
+                    <div className="max-h-48 overflow-y-auto custom-scrollbar rounded-xl border border-slate-200 dark:border-white/5 divide-y divide-slate-100 dark:divide-white/5">
+                      {gaps.slice(0, LISTED_GAPS).map(gap => (
+                        <div key={`${gap.portfolioId ?? ''}/${gap.series}:${gap.start}`} className="flex items-center gap-2 px-3 py-1.5 text-sm">
+                          <span className="font-mono text-slate-700 dark:text-slate-300">{formatBondRange(gap.start, gap.end)}</span>
+                          {gap.series && <span className="text-[10px] font-semibold uppercase px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400">{gap.series}</span>}
+                          {gap.portfolioId !== undefined && <span className="text-xs text-slate-400 dark:text-slate-500">{portfolioName(portfolios, gap.portfolioId)}</span>}
+                          <span className="ml-auto text-xs text-slate-400 dark:text-slate-500">{t('analytics.gapSize', { count: count(gapSize(gap)) })}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {gaps.length > LISTED_GAPS && (
+                      <p className="mt-1 text-xs text-slate-400 dark:text-slate-500">{t('analytics.gapsShown', { shown: count(LISTED_GAPS), total: count(gaps.length) })}</p>
+                    )}
+                  </>
+                )}
+              </div>
+            </>
+          )}
+
+          <div>
+            <ChartTitle>{t('analytics.wins')}</ChartTitle>
+            {wins.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500">{t('analytics.noWins')}</p>
+            ) : (
+              <div className="rounded-xl border border-slate-200 dark:border-white/5 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-800/40 text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="text-left font-semibold px-3 py-2">{t('calendar.draw')}</th>
+                      <th className="text-left font-semibold px-3 py-2">{t('calendar.date')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('analytics.winCount')}</th>
+                      <th className="text-right font-semibold px-3 py-2">{t('analytics.prize')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono text-slate-700 dark:text-slate-300">
+                    {[...wins].reverse().map(draw => (
+                      <tr key={draw.drawNumber} className="border-t border-slate-100 dark:border-white/5">
+                        <td className="px-3 py-2">#{draw.drawNumber}</td>
+                        <td className="px-3 py-2">{draw.drawDate}</td>
+                        <td className="px-3 py-2 text-right">{count(draw.wins)}</td>
+                        <td className="px-3 py-2 text-right">{formatTaka(draw.prize)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  count: number; // bonds shown in the list
+  filter: string;
+  onPrint: (options: ReportOptions) => void;
+  onDownload: (options: ReportOptions) => void;
+}
+
+const ReportModal = ({ isOpen, onClose, count, filter, onPrint, onDownload }: ReportModalProps) => {
+  const [options, setOptions] = useState<ReportOptions>(() => loadReportOptions());
+  const { t, bonds } = useDisplay();
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ReportOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+  const layouts: { layout: ReportLayout; label: string; hint: string }[] = [
+    { layout: 'ranges', label: t('report.ranges'), hint: t('report.rangesHint') },
+    { layout: 'numbers', label: t('report.numbers'), hint: t('report.numbersHint', { bonds: bonds(MAX_LISTED_NUMBERS) }) },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-md bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+              <Printer size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('report.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t('report.shown', { bonds: bonds(count) })}{filter && <> · {t('report.filtered')} <span className="font-mono">{filter}</span></>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <label className="block">
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('report.owner')}</span>
+            <input
+              value={options.owner}
+              onChange={e => update({ owner: e.target.value })}
+              placeholder={t('report.ownerPlaceholder')}
+              className="mt-1 w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-white/10 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
+            />
+          </label>
+
+          <div>
+            <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('report.layout')}</span>
+            <div className="mt-1 grid grid-cols-2 gap-2">
+              {layouts.map(({ layout, label, hint }) => (
+                <button
+                  key={layout}
+                  onClick={() => update({ layout })}
+                  className={`text-left px-3 py-2 rounded-xl border transition-colors ${options.layout === layout
+                    ? 'border-indigo-300 dark:border-indigo-500/40 bg-indigo-50 dark:bg-indigo-500/10'
+                    : 'border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-slate-800/50'}`}
+                >
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">{label}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{hint}</p>
+                </button>
+              ))}
+            </div>
+            {options.layout === 'numbers' && count > MAX_LISTED_NUMBERS && (
+              <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">{t('report.tooMany')}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={options.includeNotes} onChange={e => update({ includeNotes: e.target.checked })} className="w-4 h-4 rounded accent-indigo-600" />
+              {t('report.includeNotes')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+              <input type="checkbox" checked={options.includeWinners} onChange={e => update({ includeWinners: e.target.checked })} className="w-4 h-4 rounded accent-indigo-600" />
+              {t('report.includeWinners')}
+            </label>
+          </div>
+        </div>
+
+        <div className="flex gap-3 p-5 pt-0">
+          <button
+            onClick={() => onPrint(options)}
+            disabled={count === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-40"
+          >
+            <Printer size={16} /> {t('report.print')}
+          </button>
+          <button
+            onClick={() => onDownload(options)}
+            disabled={count === 0}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition-colors disabled:opacity-40"
+          >
+            <Download size={16} /> {t('report.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+type QrTransferTab = 'send' | 'receive';
+
+// Long enough for a phone camera to settle on each frame
+const QR_FRAME_INTERVAL_MS = 400;
+const QR_SCAN_INTERVAL_MS = 150;
+
+interface QrTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  runs: BondRun[];
+  name: string; // of the portfolio or view being sent
+  canReceive: boolean; // false in the all-portfolios view
+  onReceived: (name: string, parsed: ParsedImport) => void;
+}
+
+const QrTransferModal = ({ isOpen, onClose, runs, name, canReceive, onReceived }: QrTransferModalProps) => {
+  const [tab, setTab] = useState<QrTransferTab>('send');
+  const [frames, setFrames] = useState<string[] | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [receiver, setReceiver] = useState<TransferReceiver | null>(null);
+  const [status, setStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const receiverRef = useRef<TransferReceiver | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  // The scan loop outlives renders, so it reads the latest handler from here
+  const scannedRef = useRef<(text: string, isCamera: boolean) => void>(() => {});
+  const { t, bonds, count } = useDisplay();
+
+  const code: QrCode | null = useMemo(() => (frames && frames.length > 0 ? encodeQr(frames[frameIndex % frames.length], 'M') : null), [frames, frameIndex]);
+
+  const stopCamera = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTab(runs.length > 0 || !canReceive ? 'send' : 'receive');
+    setFrameIndex(0);
+    setIsPlaying(true);
+    setStatus(null);
+    receiverRef.current = null;
+    setReceiver(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || tab !== 'send') return;
+    let cancelled = false;
+    setFrames(null);
+    createTransferFrames(runs, name).then(result => {
+      if (!cancelled) setFrames(result);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, tab, runs, name]);
+
+  useEffect(() => {
+    if (!isOpen || tab !== 'send' || !isPlaying || !frames || frames.length < 2) return;
+    const timer = window.setInterval(() => setFrameIndex(i => (i + 1) % frames.length), QR_FRAME_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isOpen, tab, isPlaying, frames]);
+
+  // The camera stays on only while the receive tab is showing
+  useEffect(() => {
+    if (!isOpen || tab !== 'receive') stopCamera();
+  }, [isOpen, tab]);
+  useEffect(() => stopCamera, []);
+
+  useEffect(() => {
+    if (!isScanning) return;
+    let timer = 0;
+    let stopped = false;
+    const scan = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) (await scanForQr(video)).forEach(text => scannedRef.current(text, true));
+      if (!stopped) timer = window.setTimeout(scan, QR_SCAN_INTERVAL_MS);
+    };
+    scan();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+    };
+  }, [isScanning]);
+
+  if (!isOpen) return null;
+
+  const handleScanned = (text: string, isCamera: boolean) => {
+    const result = receiveFrame(receiverRef.current, text);
+    // The camera sees each part many times over
+    if (result.outcome === 'duplicate' && isCamera) return;
+    receiverRef.current = result.receiver;
+    setReceiver(result.receiver);
+    setStatus({ text: t(`qr.outcome.${result.outcome}`), isError: result.outcome === 'corrupt' || result.outcome === 'foreign' || result.outcome === 'other-transfer' });
+    if (result.receiver && missingChunks(result.receiver).length === 0 && (result.outcome === 'added' || result.outcome === 'restarted')) {
+      stopCamera();
+      openTransfer(result.receiver)
+        .then(({ name: sentName, parsed }) => onReceived(sentName, parsed))
+        .catch((e: Error) => setStatus({ text: t(`qr.problem.${e instanceof TransferError ? e.problem : 'damaged'}`), isError: true }));
+    }
+  };
+  scannedRef.current = handleScanned;
+
+  const startCamera = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamRef.current = stream;
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+      setIsScanning(true);
+      setStatus(null);
+    } catch (e) {
+      console.error("Failed to start camera", e);
+      setStatus({ text: t('qr.noCamera'), isError: true });
+    }
+  };
+
+  const handleImages = async (files: File[]) => {
+    let found = 0;
+    for (const file of files) {
+      try {
+        const bitmap = await createImageBitmap(file);
+        const texts = await scanForQr(bitmap);
+        bitmap.close();
+        found += texts.length;
+        texts.forEach(text => handleScanned(text, false));
+      } catch (e) {
+        console.error("Failed to read image", e);
+      }
+    }
+    if (found === 0) setStatus({ text: t(files.length === 1 ? 'qr.notFound.one' : 'qr.notFound'), isError: true });
+  };
+
+  const missing = receiver ? missingChunks(receiver) : [];
+  const received = receiver ? receivedChunks(receiver) : 0;
+  const tabs: { tab: QrTransferTab; label: string }[] = [
+    { tab: 'send', label: t('qr.send') },
+    { tab: 'receive', label: t('qr.receive') },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-md bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+              <QrCodeIcon size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('qr.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('qr.subtitle')}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-slate-100 dark:bg-slate-800/50">
+            {tabs.map(option => (
+              <button
+                key={option.tab}
+                onClick={() => setTab(option.tab)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${tab === option.tab
+                  ? 'bg-white dark:bg-slate-900 text-slate-900 dark:text-white shadow-sm'
+                  : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {tab === 'send' && (
+            runs.length === 0 ? (
+              <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-8">{t('qr.nothingToSend')}</p>
+            ) : (
+              <div className="space-y-3">
+                <div className="mx-auto w-64 h-64 rounded-xl bg-white border border-slate-200 dark:border-white/10 flex items-center justify-center">
+                  {code ? (
+                    <svg viewBox={`0 0 ${code.size + 8} ${code.size + 8}`} className="w-full h-full" shapeRendering="crispEdges">
+                      <rect width={code.size + 8} height={code.size + 8} fill="#fff" />
+                      <path d={qrSvgPath(code)} fill="#000" />
+                    </svg>
+                  ) : (
+                    <p className="text-xs text-slate-400">{t('qr.preparing')}</p>
+                  )}
+                </div>
+                <p className="text-xs text-center text-slate-500 dark:text-slate-400">
+                  {t('qr.sending', { bonds: bonds(countBonds(runs)) })} <span className="font-medium text-slate-700 dark:text-slate-300">{name}</span>
+                  {frames && frames.length > 1 && <> · {t('qr.part', { number: count((frameIndex % frames.length) + 1), total: count(frames.length) })}</>}
+                </p>
+                {frames && frames.length > 1 && (
+                  <div className="flex items-center justify-center gap-2">
+                    <button
+                      onClick={() => { setIsPlaying(false); setFrameIndex(i => (i + frames.length - 1) % frames.length); }}
+                      className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                      title={t('qr.previous')}
+                    >
+                      <ChevronLeft size={16} />
+                    </button>
+                    <button
+                      onClick={() => setIsPlaying(playing => !playing)}
+                      className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                      title={t(isPlaying ? 'qr.pause' : 'qr.play')}
+                    >
+                      {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                    </button>
+                    <button
+                      onClick={() => { setIsPlaying(false); setFrameIndex(i => (i + 1) % frames.length); }}
+                      className="p-2 rounded-lg text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                      title={t('qr.next')}
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {t('qr.sendHelp')}
+                </p>
+              </div>
+            )
+          )}
+
+          {tab === 'receive' && (
+            !canReceive ? (
+              <p className="text-sm text-center text-slate-500 dark:text-slate-400 py-8">{t('qr.chooseTarget')}</p>
+            ) : (
+              <div className="space-y-3">
+                <div className={`relative mx-auto w-64 h-64 rounded-xl overflow-hidden bg-slate-900 ${isScanning ? '' : 'hidden'}`}>
+                  <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={isScanning ? stopCamera : startCamera}
+                    className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition-colors"
+                  >
+                    <Camera size={16} /> {t(isScanning ? 'qr.stopCamera' : 'qr.useCamera')}
+                  </button>
+                  <button
+                    onClick={() => imageInputRef.current?.click()}
+                    className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <ImageUp size={16} /> {t('qr.pickImages')}
+                  </button>
+                  <input
+                    ref={imageInputRef}
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      const files = Array.from<File>(e.target.files ?? []);
+                      if (files.length > 0) handleImages(files);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
+
+                {receiver && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400">
+                      <span>{t(receiver.total === 1 ? 'qr.received.one' : 'qr.received', { count: count(received), total: count(receiver.total) })}</span>
+                      {missing.length > 0 && <span>{t('qr.missing', { parts: `${missing.slice(0, 12).map(count).join(', ')}${missing.length > 12 ? ', …' : ''}` })}</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-0.5">
+                      {receiver.chunks.map((chunk, i) => (
+                        <span
+                          key={i}
+                          className={`w-2 h-2 rounded-sm ${chunk !== null ? 'bg-emerald-500' : receiver.corrupt.includes(i + 1) ? 'bg-red-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+                          title={t('qr.partNumber', { number: count(i + 1) })}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {status && (
+                  <p className={`text-xs ${status.isError ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>{status.text}</p>
+                )}
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {t('qr.receiveHelp')}
+                </p>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ACTIVITY_OUTCOME_STYLES: Record<ActivityOutcome, string> = {
+  success: 'text-emerald-600 dark:text-emerald-400',
+  warning: 'text-amber-600 dark:text-amber-400',
+  error: 'text-red-600 dark:text-red-400',
+};
+
+interface ActivityLogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  log: ActivityEntry[];
+  highlightId: string | null; // the entry a toast linked to
+  onExport: () => void;
+}
+
+const ActivityLogModal = ({ isOpen, onClose, log, highlightId, onExport }: ActivityLogModalProps) => {
+  const [kinds, setKinds] = useState<ActivityKind[]>(ACTIVITY_KINDS);
+  const [text, setText] = useState('');
+  const entries: ActivityEntry[] = useMemo(() => filterActivity(log, kinds, text), [log, kinds, text]);
+  const { t, count } = useDisplay();
+
+  // Opening from a toast shows that entry, whatever the filters were
+  useEffect(() => {
+    if (!isOpen || !highlightId) return;
+    setKinds(ACTIVITY_KINDS);
+    setText('');
+    requestAnimationFrame(() => document.getElementById(`activity-${highlightId}`)?.scrollIntoView({ block: 'center' }));
+  }, [isOpen, highlightId]);
+
+  if (!isOpen) return null;
+
+  const toggleKind = (kind: ActivityKind) =>
+    setKinds(prev => (prev.includes(kind) ? prev.filter(k => k !== kind) : ACTIVITY_KINDS.filter(k => k === kind || prev.includes(k))));
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-300 flex items-center justify-center">
+              <ScrollText size={20} />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('activity.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{t('activity.subtitle', { count: count(ACTIVITY_LIMIT) })}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onExport}
+              disabled={log.length === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-40"
+            >
+              <Download size={14} /> {t('activity.export')}
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-none flex flex-wrap items-center gap-2 px-5 py-3 border-b border-slate-200 dark:border-white/5">
+          {ACTIVITY_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => toggleKind(kind)}
+              className={`px-2.5 py-1 rounded-lg text-xs font-medium border transition-colors ${kinds.includes(kind)
+                ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-200 dark:border-indigo-500/30 text-indigo-700 dark:text-indigo-300'
+                : 'border-slate-200 dark:border-white/10 text-slate-400 dark:text-slate-500'}`}
+            >
+              {t(`activity.kind.${kind}`)}
+            </button>
+          ))}
+          <input
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder={t('activity.filter')}
+            className="flex-1 min-w-[12rem] px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-white/10 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500/40"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-3">
+          {entries.length === 0 ? (
+            <p className="p-4 text-center text-sm text-slate-400 dark:text-slate-500">{t(log.length === 0 ? 'activity.empty' : 'activity.noMatch')}</p>
+          ) : (
+            <div className="space-y-1">
+              {entries.map(entry => {
+                const counts = COUNT_KEYS.filter(key => entry.counts[key]);
+                return (
+                  <div
+                    key={entry.id}
+                    id={`activity-${entry.id}`}
+                    className={`px-3 py-2 rounded-xl border ${entry.id === highlightId
+                      ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-300 dark:border-indigo-500/40'
+                      : 'border-transparent hover:bg-slate-50 dark:hover:bg-slate-800/40'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span className={`mt-0.5 shrink-0 ${ACTIVITY_OUTCOME_STYLES[entry.outcome]}`}>
+                        {entry.outcome === 'success' ? <CheckCircle2 size={14} /> : <AlertCircle size={14} />}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-baseline gap-x-2">
+                          <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">{t(`activity.kind.${entry.kind}`)}</span>
+                          <span className="text-sm text-slate-800 dark:text-slate-200">{entry.message}</span>
+                        </div>
+                        <p className="text-xs text-slate-400 dark:text-slate-500">
+                          {new Date(entry.at).toLocaleString()} · {entry.portfolio}
+                          {counts.map(key => ` · ${t(`activity.count.${key}`, { count: count(entry.counts[key]!) })}`).join('')}
+                        </p>
+                        {entry.ranges.length > 0 && (
+                          <p className="mt-0.5 font-mono text-xs text-slate-500 dark:text-slate-400 break-words">
+                            {entry.ranges.join(', ')}
+                            {entry.rangeCount > entry.ranges.length && ` ${t('diag.andMore', { count: count(entry.rangeCount - entry.ranges.length) })}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface PendingImport {
+  filename: string;
+  parsed: ParsedImport;
+  preview: ImportPreview;
+}
+
+interface ImportPreviewModalProps {
+  pending: PendingImport | null;
+  currentCount: number;
+  onClose: () => void;
+  onApply: (mode: ImportMode) => void;
+}
+
+// Long lists are cut off; the counts above them stay exact
+const PREVIEW_LIMIT = 50;
+
+const describeRunDetails = (run: BondRun, t: Display['t']) =>
+  [formatTaka(run.denomination), run.acquiredAt || t('import.noDate'), run.notes ? `"${run.notes}"` : t('import.noNote')].join(' · ');
+
+const ImportPreviewModal = ({ pending, currentCount, onClose, onApply }: ImportPreviewModalProps) => {
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [isConfirmingReplace, setIsConfirmingReplace] = useState(false);
+  const { t, bonds, count } = useDisplay();
+
+  useEffect(() => {
+    setOverwriteConflicts(false);
+    setIsConfirmingReplace(false);
+  }, [pending]);
+
+  if (!pending) return null;
+
+  const { filename, parsed, preview } = pending;
+  const incomingCount = preview.newCount + preview.duplicateCount + preview.conflictCount;
+  const canMerge = preview.newCount > 0 || (overwriteConflicts && preview.conflictCount > 0);
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 shrink-0 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+              <Upload size={20} />
+            </div>
+            <div className="min-w-0">
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('import.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 font-mono truncate">{filename}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-5">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <StatCard icon={Plus} label={t('import.new')} value={count(preview.newCount)} colorClass="text-emerald-600 dark:text-emerald-400" />
+            <StatCard icon={Copy} label={t('import.duplicates')} value={count(preview.duplicateCount + parsed.repeated)} colorClass="text-slate-600 dark:text-slate-300" />
+            <StatCard icon={AlertCircle} label={t('import.conflicts')} value={count(preview.conflictCount)} colorClass="text-amber-600 dark:text-amber-400" />
+            <StatCard icon={X} label={t('import.invalid')} value={count(parsed.invalid.length)} colorClass="text-red-600 dark:text-red-400" />
+          </div>
+
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {t('import.holds', { bonds: bonds(incomingCount) })}
+            {parsed.repeated > 0 && ` ${t('import.repeated', { count: count(parsed.repeated) })}`}
+          </p>
+
+          {preview.conflicts.length > 0 && (
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{t('import.conflicting')}</p>
+              <ul className="space-y-1.5 text-xs">
+                {preview.conflicts.slice(0, PREVIEW_LIMIT).map(c => (
+                  <li key={`${c.series}:${c.start}:${c.existing.start}`} className="rounded-lg bg-amber-50 dark:bg-amber-500/10 px-3 py-2 text-amber-800 dark:text-amber-200">
+                    <span className="font-mono font-bold">{formatBondRange(c.start, c.end)}</span>
+                    {c.series && <span className="ml-1.5 font-mono">({c.series})</span>}
+                    <div className="mt-1 text-amber-700/80 dark:text-amber-200/70">{t('import.stored', { details: describeRunDetails(c.existing, t) })}</div>
+                    <div className="text-amber-700/80 dark:text-amber-200/70">{t('import.imported', { details: describeRunDetails(c.incoming, t) })}</div>
+                  </li>
+                ))}
+              </ul>
+              {preview.conflicts.length > PREVIEW_LIMIT && (
+                <p className="mt-1.5 text-xs text-slate-400">{t('diag.andMore', { count: count(preview.conflicts.length - PREVIEW_LIMIT) })}</p>
+              )}
+              <label className="mt-3 flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={overwriteConflicts}
+                  onChange={(e) => setOverwriteConflicts(e.target.checked)}
+                  className="rounded border-slate-300 dark:border-slate-700"
+                />
+                {t('import.overwrite')}
+              </label>
+            </div>
+          )}
+
+          {parsed.invalid.length > 0 && (
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mb-2">{t('import.invalidRows')}</p>
+              <ul className="space-y-1 text-xs">
+                {parsed.invalid.slice(0, PREVIEW_LIMIT).map((row, i) => (
+                  <li key={i} className="rounded-lg bg-red-50 dark:bg-red-500/10 px-3 py-1.5 text-red-700 dark:text-red-300">
+                    {row.line > 0 && <span className="font-mono mr-1.5">{t('import.line', { number: count(row.line) })}</span>}
+                    {t(`import.problem.${row.problem}`, displayValues(row.values, count))}
+                    {row.text && <span className="block font-mono truncate opacity-70">{row.text}</span>}
+                  </li>
+                ))}
+              </ul>
+              {parsed.invalid.length > PREVIEW_LIMIT && (
+                <p className="mt-1.5 text-xs text-slate-400">{t('diag.andMore', { count: count(parsed.invalid.length - PREVIEW_LIMIT) })}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-none p-5 border-t border-slate-200 dark:border-white/5 space-y-3">
+          {isConfirmingReplace && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              {t('import.replaceWarning', { stored: bonds(currentCount), incoming: count(incomingCount) })}
+            </p>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2.5 rounded-xl text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors bg-slate-50 dark:bg-slate-800/50"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={() => isConfirmingReplace ? onApply('replace') : setIsConfirmingReplace(true)}
+              disabled={incomingCount === 0}
+              className="px-4 py-2.5 rounded-xl bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 font-medium hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors disabled:opacity-30"
+            >
+              {t(isConfirmingReplace ? 'import.confirm' : 'import.replace')}
+            </button>
+            <button
+              onClick={() => onApply(overwriteConflicts ? 'merge-overwrite' : 'merge-keep')}
+              disabled={!canMerge}
+              className="px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+            >
+              {t('import.merge')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Display Preferences ---
+// Language and numerals reach every component through context, so only the
+// header needs to know how they are chosen.
+
+interface Display {
+  t: (key: MessageKey, values?: Record<string, string | number>) => string;
+  digits: (text: string) => string; // bond numbers in the chosen numerals
+  count: (value: number) => string;
+  bonds: (value: number) => string; // "1 bond", "5 bonds"
+}
+
+const createDisplay = (language: Language, numerals: NumeralSystem): Display => ({
+  t: (key, values) => translate(language, key, values),
+  digits: text => toNumerals(text, numerals),
+  count: value => formatCount(value, numerals),
+  bonds: value => translate(language, value === 1 ? 'unit.bond' : 'unit.bonds', { count: formatCount(value, numerals) }),
+});
+
+const DisplayContext = createContext<Display>(createDisplay('en', 'latn'));
+
+const useDisplay = (): Display => useContext(DisplayContext);
+
+/** Values in messages from the parsers: numbers in the chosen numerals, text as typed. */
+const displayValues = (values: Record<string, string | number>, count: Display['count']) =>
+  Object.fromEntries(Object.entries(values).map(([name, value]) => [name, typeof value === 'number' ? count(value) : value]));
+
+interface DisplaySettingsProps {
+  language: Language;
+  numerals: NumeralSystem;
+  onChangeLanguage: (language: Language) => void;
+  onChangeNumerals: (numerals: NumeralSystem) => void;
+}
+
+const DisplaySettings = ({ language, numerals, onChangeLanguage, onChangeNumerals }: DisplaySettingsProps) => {
+  const { t } = useDisplay();
+  const [isOpen, setIsOpen] = useState(false);
+  const selectClass = "bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2 py-1 rounded-lg focus:outline-none focus:border-indigo-500/50 text-xs";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+        title={t('display.title')}
+      >
+        <Languages size={18} />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 z-30 w-64 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-3 space-y-3">
+            <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('display.title')}</p>
+            <label className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+              {t('display.language')}
+              <select value={language} onChange={(e) => onChangeLanguage(e.target.value as Language)} className={selectClass}>
+                {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+              {t('display.numerals')}
+              <select value={numerals} onChange={(e) => onChangeNumerals(e.target.value as NumeralSystem)} className={selectClass}>
+                {NUMERAL_SYSTEMS.map(n => <option key={n.id} value={n.id}>{n.sample} · {n.label}</option>)}
+              </select>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface HistoryControlsProps {
+  history: History;
+  limit: number;
+  onUndo: () => void;
+  onRedo: () => void;
+  onChangeLimit: (limit: number) => void;
+}
+
+const HistoryControls = ({ history, limit, onUndo, onRedo, onChangeLimit }: HistoryControlsProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { t, count } = useDisplay();
+  const nextUndo = history.past[history.past.length - 1];
+  const nextRedo = history.future[history.future.length - 1];
+  const buttonClass = "p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button onClick={onUndo} disabled={!nextUndo} className={buttonClass} title={nextUndo ? t('history.undo', { label: nextUndo.label }) : t('history.nothingToUndo')}>
+        <Undo2 size={18} />
+      </button>
+      <button onClick={onRedo} disabled={!nextRedo} className={buttonClass} title={nextRedo ? t('history.redo', { label: nextRedo.label }) : t('history.nothingToRedo')}>
+        <Redo2 size={18} />
+      </button>
+      <button onClick={() => setIsOpen(open => !open)} className={buttonClass} title={t('history.title')}>
+        <HistoryIcon size={18} />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-full mt-2 z-30 w-72 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-3 space-y-3">
+            <p className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('history.title')}</p>
+            {history.past.length === 0 && history.future.length === 0 ? (
+              <p className="text-sm text-slate-400 dark:text-slate-500">{t('value.noChanges')}</p>
+            ) : (
+              <ul className="max-h-60 overflow-y-auto custom-scrollbar space-y-1 text-sm">
+                {/* Newest first; redo steps are dimmed above the current state */}
+                {history.future.map(entry => (
+                  <li key={entry.id} className="flex justify-between gap-2 px-2 py-1 rounded-lg text-slate-400 dark:text-slate-600 line-through">
+                    <span className="truncate">{entry.label}</span>
+                    <span className="shrink-0 text-[10px] font-mono">{new Date(entry.at).toLocaleTimeString()}</span>
+                  </li>
+                ))}
+                {[...history.past].reverse().map(entry => (
+                  <li key={entry.id} className="flex justify-between gap-2 px-2 py-1 rounded-lg text-slate-700 dark:text-slate-300">
+                    <span className="truncate">{entry.label}</span>
+                    <span className="shrink-0 text-[10px] font-mono text-slate-400">{new Date(entry.at).toLocaleTimeString()}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <label className="flex items-center justify-between gap-2 pt-2 border-t border-slate-200 dark:border-white/5 text-xs text-slate-500 dark:text-slate-400">
+              {t('history.limit')}
+              <select
+                value={limit}
+                onChange={(e) => onChangeLimit(Number(e.target.value))}
+                className="bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2 py-1 rounded-lg focus:outline-none focus:border-indigo-500/50 text-xs"
+              >
+                {HISTORY_LIMITS.map(n => <option key={n} value={n}>{count(n)}</option>)}
+              </select>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const passphraseInputClass = "w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2.5 rounded-xl focus:outline-none focus:border-indigo-500/50 transition-all text-sm placeholder:text-slate-500 dark:placeholder:text-slate-600";
+
+/** Null when the new passphrase and its confirmation are acceptable. */
+const validateNewPassphrase = (passphrase: string, confirmation: string, t: Display['t']) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return t('passphrase.tooShort', { count: MIN_PASSPHRASE_LENGTH });
+  if (passphrase !== confirmation) return t('passphrase.mismatch');
+  return null;
+};
+
+const LockScreen = ({ onUnlock }: { onUnlock: (passphrase: string) => Promise<boolean> }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { t } = useDisplay();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isBusy) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError(t('passphrase.wrong'));
+        setIsBusy(false);
+      }
+    } catch (err) {
+      console.error("Failed to unlock", err);
+      setError(t('lock.failed'));
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm glass-card rounded-2xl shadow-xl shadow-black/5 dark:shadow-black/20 p-6 flex flex-col items-center text-center gap-4 animate-in">
+        <div className="w-12 h-12 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+          <Lock size={24} />
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white">{t('lock.title')}</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{t('lock.prompt')}</p>
+        </div>
+        <input
+          autoFocus
+          type="password"
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); setError(''); }}
+          placeholder={t('passphrase.placeholder')}
+          autoComplete="current-password"
+          className={passphraseInputClass}
+        />
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || isBusy}
+          className="w-full px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+        >
+          {t(isBusy ? 'lock.unlocking' : 'lock.unlock')}
+        </button>
+        <p className="text-[11px] text-slate-400 dark:text-slate-500">{t('lock.forgotten')}</p>
+      </form>
+    </div>
+  );
+};
+
+interface PassphraseModalProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  isNew: boolean; // asks for confirmation and enforces the minimum length
+  onSubmit: (passphrase: string) => Promise<string | null>; // resolves to an error message
+  onClose: () => void;
+}
+
+const PassphraseModal = ({ title, description, submitLabel, isNew, onSubmit, onClose }: PassphraseModalProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { t } = useDisplay();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = isNew ? validateNewPassphrase(passphrase, confirmation, t) : null;
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setIsBusy(true);
+    const failure = await onSubmit(passphrase);
+    setIsBusy(false);
+    if (failure) setError(failure);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <form onSubmit={handleSubmit} className="relative w-full max-w-sm bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 p-6 animate-in zoom-in-95 duration-200 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+            <KeyRound size={20} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">{title}</h3>
+        </div>
+        <p className="text-sm text-slate-500 dark:text-slate-400">{description}</p>
+        <input
+          autoFocus
+          type="password"
+          value={passphrase}
+          onChange={(e) => { setPassphrase(e.target.value); setError(''); }}
+          placeholder={t('passphrase.placeholder')}
+          autoComplete={isNew ? 'new-password' : 'current-password'}
+          className={passphraseInputClass}
+        />
+        {isNew && (
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => { setConfirmation(e.target.value); setError(''); }}
+            placeholder={t('passphrase.repeat')}
+            autoComplete="new-password"
+            className={passphraseInputClass}
+          />
+        )}
+        {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        <div className="grid grid-cols-2 gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2.5 rounded-xl text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors bg-slate-50 dark:bg-slate-800/50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!passphrase || isBusy}
+            className="px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+          >
+            {isBusy ? t('passphrase.working') : submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+interface SecurityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  isEncrypted: boolean;
+  canChange: boolean; // false while storage is in recovery mode
+  autoLockMinutes: number;
+  onChangeAutoLock: (minutes: number) => void;
+  onEnable: (passphrase: string) => Promise<string | null>;
+  onChangePassphrase: (current: string, next: string) => Promise<string | null>;
+  onDisable: (current: string) => Promise<string | null>;
+}
+
+const SecurityModal = ({
+  isOpen,
+  onClose,
+  isEncrypted,
+  canChange,
+  autoLockMinutes,
+  onChangeAutoLock,
+  onEnable,
+  onChangePassphrase,
+  onDisable
+}: SecurityModalProps) => {
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const { t, count } = useDisplay();
+
+  useEffect(() => {
+    setCurrent('');
+    setNext('');
+    setConfirmation('');
+    setError('');
+  }, [isOpen, isEncrypted]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setError('');
+    const failure = await action();
+    setIsBusy(false);
+    if (failure) setError(failure);
+    else onClose();
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNewPassphrase(next, confirmation, t);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    run(() => isEncrypted ? onChangePassphrase(current, next) : onEnable(next));
+  };
+
+  const handleDisable = () => {
+    if (!current) {
+      setError(t('security.needCurrent'));
+      return;
+    }
+    run(() => onDisable(current));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-md max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${isEncrypted ? 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-500' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>
+              {isEncrypted ? <ShieldCheck size={20} /> : <Shield size={20} />}
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('security.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t(isEncrypted ? 'security.on' : 'security.off')}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4">
+          {!canChange && (
+            <p className="text-xs text-red-600 dark:text-red-400">{t('security.recovery')}</p>
+          )}
+
+          {isEncrypted && (
+            <div className="space-y-1.5">
+              <label className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('security.current')}</label>
+              <input
+                type="password"
+                value={current}
+                onChange={(e) => { setCurrent(e.target.value); setError(''); }}
+                autoComplete="current-password"
+                className={passphraseInputClass}
+              />
+            </div>
+          )}
+
+          <div className="space-y-1.5">
+            <label className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">
+              {t(isEncrypted ? 'security.new' : 'passphrase.placeholder')}
+            </label>
+            <input
+              type="password"
+              value={next}
+              onChange={(e) => { setNext(e.target.value); setError(''); }}
+              placeholder={t('security.minLength', { count: count(MIN_PASSPHRASE_LENGTH) })}
+              autoComplete="new-password"
+              className={passphraseInputClass}
+            />
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => { setConfirmation(e.target.value); setError(''); }}
+              placeholder={t('passphrase.repeat')}
+              autoComplete="new-password"
+              className={passphraseInputClass}
+            />
+          </div>
+
+          {!isEncrypted && (
+            <p className="text-xs text-amber-700 dark:text-amber-300">
+              {t('security.warning')}
+            </p>
+          )}
+
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={!canChange || isBusy || !next || (isEncrypted && !current)}
+            className="w-full px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+          >
+            {t(isBusy ? 'security.encrypting' : isEncrypted ? 'security.change' : 'security.enable')}
+          </button>
+
+          <label className="flex items-center justify-between gap-2 pt-4 border-t border-slate-200 dark:border-white/5 text-sm text-slate-700 dark:text-slate-300">
+            {t('security.autoLock')}
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => onChangeAutoLock(Number(e.target.value))}
+              className="bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2 py-1 rounded-lg focus:outline-none focus:border-indigo-500/50 text-sm"
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes === 0 ? t('security.never') : t('security.minutes', { count: count(minutes) })}</option>
+              ))}
+            </select>
+          </label>
+
+          {isEncrypted && (
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={!canChange || isBusy}
+              className="w-full px-4 py-2.5 rounded-xl bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 font-medium hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors disabled:opacity-30"
+            >
+              {t('security.disable')}
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface SyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  state: SyncState | null;
+  phase: SyncPhase;
+  error: SyncFailure | null;
+  isEncrypted: boolean;
+  onStart: () => Promise<string | null>;
+  onJoin: (code: string) => Promise<string | null>;
+  onSyncNow: () => void;
+  onStop: () => void;
+}
+
+const SyncModal = ({ isOpen, onClose, state, phase, error, isEncrypted, onStart, onJoin, onSyncNow, onStop }: SyncModalProps) => {
+  const [codeInput, setCodeInput] = useState('');
+  const [problem, setProblem] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [isConfirmingStop, setIsConfirmingStop] = useState(false);
+  const { t, count } = useDisplay();
+
+  useEffect(() => {
+    setCodeInput('');
+    setProblem('');
+    setIsConfirmingStop(false);
+  }, [isOpen, state?.code]);
+
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setProblem('');
+    const failure = await action();
+    setIsBusy(false);
+    if (failure) setProblem(failure);
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => onJoin(codeInput));
+  };
+
+  const pending = state ? pendingChangeCount(state) : 0;
+  const status = phase === 'syncing' ? t('sync.syncing')
+    : phase === 'offline' ? t('sync.offlineDetail')
+    : phase === 'error' ? t('sync.failed', { error: t(`sync.problem.${error ?? 'unreachable'}`) })
+    : state?.lastSyncedAt ? t('sync.lastSynced', { date: new Date(state.lastSyncedAt).toLocaleString() })
+    : t('sync.never');
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-md max-h-[85vh] flex flex-col bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 animate-in zoom-in-95 duration-200">
+        <div className="flex-none flex items-center justify-between p-5 border-b border-slate-200 dark:border-white/5">
+          <div className="flex items-center gap-3">
+            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${state ? 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-500' : 'bg-slate-100 dark:bg-slate-800 text-slate-500'}`}>
+              {state ? <Cloud size={20} /> : <CloudOff size={20} />}
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('sync.title')}</h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t(state ? 'sync.on' : 'sync.localOnly')}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-5 space-y-4 text-sm text-slate-700 dark:text-slate-300">
+          {isEncrypted ? (
+            <p className="text-xs text-amber-700 dark:text-amber-300">
+              {t('sync.encrypted')}
+            </p>
+          ) : state ? (
+            <>
+              <div className="space-y-1.5">
+                <label className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('sync.code')}</label>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 px-3 py-2 rounded-xl bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 font-mono text-base tracking-wider text-slate-900 dark:text-white">
+                    {formatSyncCode(state.code)}
+                  </code>
+                  <button
+                    onClick={() => navigator.clipboard.writeText(formatSyncCode(state.code))}
+                    className="p-2 rounded-xl text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                    title={t('sync.copyCode')}
+                  >
+                    <Copy size={16} />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  {t('sync.codeHelp')}
+                </p>
+              </div>
+
+              <div className="space-y-1 text-xs">
+                <p className={phase === 'error' ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}>{status}</p>
+                {pending > 0 && <p className="text-slate-500 dark:text-slate-400">{t('sync.unsent', { count: count(pending) })}</p>}
+              </div>
+
+              <button
+                onClick={onSyncNow}
+                disabled={phase === 'syncing'}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+              >
+                <RefreshCw size={16} className={phase === 'syncing' ? 'animate-spin' : ''} />
+                {t('sync.now')}
+              </button>
+
+              {isConfirmingStop ? (
+                <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-slate-200 dark:border-white/5 text-xs">
+                  <span className="flex-1">{t(pending > 0 ? 'sync.confirmStopUnsent' : 'sync.confirmStop')}</span>
+                  <button onClick={onStop} className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white font-medium transition-colors">
+                    {t('sync.stop')}
+                  </button>
+                  <button onClick={() => setIsConfirmingStop(false)} className="px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 font-medium transition-colors">
+                    {t('common.cancel')}
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => setIsConfirmingStop(true)}
+                  className="w-full px-4 py-2.5 rounded-xl bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 font-medium hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors"
+                >
+                  {t('sync.stopHere')}
+                </button>
+              )}
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {t('sync.intro')}
+              </p>
+              <button
+                onClick={() => run(onStart)}
+                disabled={isBusy}
+                className="w-full px-4 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+              >
+                {t('sync.start')}
+              </button>
+
+              <form onSubmit={handleJoin} className="space-y-1.5 pt-4 border-t border-slate-200 dark:border-white/5">
+                <label className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('sync.joinCode')}</label>
+                <div className="flex gap-2">
+                  <input
+                    value={codeInput}
+                    onChange={(e) => { setCodeInput(e.target.value); setProblem(''); }}
+                    placeholder="XXXX-XXXX-XXXX-XXXX"
+                    autoCapitalize="characters"
+                    spellCheck={false}
+                    className="flex-1 min-w-0 bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:border-indigo-500/50 font-mono"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isBusy || !codeInput.trim()}
+                    className="px-4 py-2 rounded-xl bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-medium transition-colors disabled:opacity-30"
+                  >
+                    {t('sync.join')}
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">{t('sync.joinHelp')}</p>
+              </form>
+            </>
+          )}
+
+          {problem && <p className="text-xs text-red-600 dark:text-red-400">{problem}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SyncIndicator = ({ state, phase, onClick }: { state: SyncState | null; phase: SyncPhase; onClick: () => void }) => {
+  const { t, count } = useDisplay();
+  const pending = state ? pendingChangeCount(state) : 0;
+  const title = !state ? t('sync.off')
+    : phase === 'syncing' ? t('sync.syncing')
+    : phase === 'offline' ? t('sync.offline')
+    : phase === 'error' ? t('sync.error')
+    : pending > 0 ? t('sync.pending', { count: count(pending) })
+    : t('sync.synced');
+
+  return (
+    <button
+      onClick={onClick}
+      className="relative p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+      title={title}
+    >
+      {!state ? <Cloud size={18} />
+        : phase === 'syncing' ? <RefreshCw size={18} className="animate-spin text-indigo-600 dark:text-indigo-400" />
+        : phase === 'offline' ? <CloudOff size={18} />
+        : phase === 'error' ? <CloudOff size={18} className="text-red-600 dark:text-red-400" />
+        : <Cloud size={18} className="text-emerald-600 dark:text-emerald-400" />}
+      {state && pending > 0 && phase !== 'syncing' && (
+        <span className="absolute top-1.5 right-1.5 w-2 h-2 rounded-full bg-amber-500" />
+      )}
+    </button>
+  );
+};
+
+// How long the note about another tab's change stays in the header
+const TAB_ACTIVITY_MS = 8000;
+
+const TabActivity = ({ count: changed }: { count: number }) => {
+  const { t, count } = useDisplay();
+  return (
+    <span
+      className="hidden sm:inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-sky-50 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300 animate-in fade-in"
+      role="status"
+    >
+      <AppWindow size={14} />
+      {changed > 0 ? t('tabs.changed', { count: count(changed) }) : t('tabs.portfolios')}
+    </span>
+  );
+};
+
+interface PortfolioSwitcherProps {
+  portfolios: Portfolio[];
+  activeId: string;
+  counts: Record<string, number>;
+  totalCount: number;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => string | null; // an error message, or null on success
+  onRename: (id: string, name: string) => string | null;
+  onDelete: (id: string) => void;
+}
+
+const PortfolioSwitcher = ({ portfolios, activeId, counts, totalCount, onSelect, onCreate, onRename, onDelete }: PortfolioSwitcherProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [error, setError] = useState('');
+  const { t, bonds, count } = useDisplay();
+
+  const active = portfolios.find(p => p.id === activeId);
+  const label = activeId === ALL_PORTFOLIOS ? t('portfolio.all') : active?.name ?? t('portfolio.fallback');
+
+  const close = () => {
+    setIsOpen(false);
+    setNewName('');
+    setRenameValue(null);
+    setIsConfirmingDelete(false);
+    setError('');
+  };
+
+  const select = (id: string) => {
+    onSelect(id);
+    close();
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const failure = onCreate(newName);
+    if (failure) setError(failure);
+    else close();
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!active || renameValue === null) return;
+    const failure = onRename(active.id, renameValue);
+    if (failure) setError(failure);
+    else setRenameValue(null);
+  };
+
+  const itemClass = (selected: boolean) => `w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm transition-colors
+    ${selected ? 'bg-indigo-50 dark:bg-indigo-500/10 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800'}`;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => isOpen ? close() : setIsOpen(true)}
+        className="flex items-center gap-1.5 max-w-[10rem] sm:max-w-[14rem] px-2.5 py-1.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 text-sm font-medium transition-colors"
+        title={t('portfolio.switch')}
+      >
+        {activeId === ALL_PORTFOLIOS && <Layers size={14} className="shrink-0" />}
+        <span className="truncate">{label}</span>
+        <ChevronDown size={14} className="shrink-0 opacity-60" />
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-20" onClick={close} />
+          <div className="absolute left-0 top-full mt-2 z-30 w-72 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-2 space-y-1">
+            <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-1">
+              {portfolios.map(p => (
+                <button key={p.id} onClick={() => select(p.id)} className={itemClass(p.id === activeId)}>
+                  <span className="truncate">{p.name}</span>
+                  <span className="shrink-0 text-[10px] font-mono text-slate-400">{count(counts[p.id] ?? 0)}</span>
+                </button>
+              ))}
+            </div>
+            <button onClick={() => select(ALL_PORTFOLIOS)} className={itemClass(activeId === ALL_PORTFOLIOS)}>
+              <span className="flex items-center gap-1.5"><Layers size={14} /> {t('portfolio.all')}</span>
+              <span className="shrink-0 text-[10px] font-mono text-slate-400">{count(totalCount)}</span>
+            </button>
+
+            {active && (
+              <div className="pt-2 mt-1 border-t border-slate-200 dark:border-white/5">
+                {renameValue !== null ? (
+                  <form onSubmit={handleRename} className="flex gap-1.5 px-1">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => { setRenameValue(e.target.value); setError(''); }}
+                      className="flex-1 min-w-0 bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2.5 py-1.5 rounded-lg focus:outline-none focus:border-indigo-500/50 text-sm"
+                    />
+                    <button type="submit" className="p-1.5 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-500/10" title={t('portfolio.saveName')}>
+                      <Check size={16} />
+                    </button>
+                  </form>
+                ) : isConfirmingDelete ? (
+                  <div className="px-2 py-1 space-y-2">
+                    <p className="text-xs text-red-600 dark:text-red-400">
+                      {t('portfolio.confirmDelete', { name: active.name, bonds: bonds(counts[active.id] ?? 0) })}
+                    </p>
+                    <div className="flex gap-2">
+                      <button onClick={() => setIsConfirmingDelete(false)} className="flex-1 px-2 py-1.5 rounded-lg text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300">
+                        {t('common.cancel')}
+                      </button>
+                      <button onClick={() => { onDelete(active.id); close(); }} className="flex-1 px-2 py-1.5 rounded-lg text-xs font-medium bg-red-600 hover:bg-red-700 text-white">
+                        {t('portfolio.delete')}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-1 px-1">
+                    <button
+                      onClick={() => setRenameValue(active.name)}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"
+                    >
+                      <Pencil size={12} /> {t('portfolio.rename')}
+                    </button>
+                    <button
+                      onClick={() => setIsConfirmingDelete(true)}
+                      disabled={portfolios.length === 1}
+                      className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-500/10 disabled:opacity-30 disabled:hover:bg-transparent"
+                      title={t(portfolios.length === 1 ? 'portfolio.lastOne' : 'portfolio.deleteTitle')}
+                    >
+                      <Trash2 size={12} /> {t('portfolio.delete')}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <form onSubmit={handleCreate} className="flex gap-1.5 px-1 pt-2 mt-1 border-t border-slate-200 dark:border-white/5">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => { setNewName(e.target.value); setError(''); }}
+                placeholder={t('portfolio.newName')}
+                className="flex-1 min-w-0 bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2.5 py-1.5 rounded-lg focus:outline-none focus:border-indigo-500/50 text-sm placeholder:text-slate-400 dark:placeholder:text-slate-600"
+              />
+              <button type="submit" disabled={!newName.trim()} className="p-1.5 rounded-lg text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 disabled:opacity-30" title={t('portfolio.create')}>
+                <FolderPlus size={16} />
+              </button>
+            </form>
+            {error && <p className="px-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+interface TransferRequest {
+  runs: BondRun[];
+  description: string;
+}
+
+interface TransferModalProps {
+  request: TransferRequest | null;
+  portfolios: Portfolio[];
+  sourceId: string; // ALL_PORTFOLIOS when the runs carry their own portfolio
+  onClose: () => void;
+  onConfirm: (targetId: string, mode: TransferMode) => void;
+}
+
+const TransferModal = ({ request, portfolios, sourceId, onClose, onConfirm }: TransferModalProps) => {
+  const targets = portfolios.filter(p => p.id !== sourceId);
+  const [targetId, setTargetId] = useState('');
+  const { t } = useDisplay();
+
+  useEffect(() => {
+    setTargetId(targets[0]?.id ?? '');
+  }, [request]);
+
+  if (!request) return null;
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-slate-900/20 dark:bg-black/60 backdrop-blur-sm transition-opacity animate-in fade-in duration-200"
+        onClick={onClose}
+      />
+
+      {/* Modal Card */}
+      <div className="relative w-full max-w-sm bg-white dark:bg-slate-900 rounded-2xl shadow-2xl shadow-black/20 border border-slate-200 dark:border-white/10 p-6 animate-in zoom-in-95 duration-200 space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-indigo-50 dark:bg-indigo-500/10 text-indigo-500 flex items-center justify-center">
+            <ArrowRightLeft size={20} />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{t('row.transfer')}</h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400">{request.description}</p>
+          </div>
+        </div>
+
+        <label className="block space-y-1.5">
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold">{t('transfer.target')}</span>
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="w-full bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-3 py-2.5 rounded-xl focus:outline-none focus:border-indigo-500/50 text-sm"
+          >
+            {targets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </label>
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t('transfer.keepDetails')}</p>
+
+        <div className="grid grid-cols-3 gap-3">
+          <button
+            onClick={onClose}
+            className="px-3 py-2.5 rounded-xl text-slate-700 dark:text-slate-300 font-medium hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors bg-slate-50 dark:bg-slate-800/50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => onConfirm(targetId, 'copy')}
+            disabled={!targetId}
+            className="px-3 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-200 font-medium hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors disabled:opacity-30"
+          >
+            {t('transfer.copy')}
+          </button>
+          <button
+            onClick={() => onConfirm(targetId, 'move')}
+            disabled={!targetId}
+            className="px-3 py-2.5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-medium shadow-lg shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-30 disabled:active:scale-100"
+          >
+            {t('transfer.move')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface DrawReminderBannerProps {
+  reminder: DrawReminder;
+  eligibleCount: number;
+  totalCount: number;
+  onOpenCalendar: () => void;
+  onDismiss: () => void;
+}
+
+const DrawReminderBanner = ({ reminder: { draw, daysLeft }, eligibleCount, totalCount, onOpenCalendar, onDismiss }: DrawReminderBannerProps) => {
+  const { t, digits, count } = useDisplay();
+  const values = { number: count(draw.drawNumber), date: digits(draw.drawDate), days: count(daysLeft) };
+
+  return (
+    <div className="flex-none mb-4 flex items-center gap-3 px-4 py-3 rounded-2xl border border-sky-200 dark:border-sky-500/20 bg-sky-50 dark:bg-sky-950/40 text-sky-800 dark:text-sky-100 animate-in">
+      <CalendarDays size={18} className="shrink-0 text-sky-600 dark:text-sky-400" />
+      <p className="flex-1 text-sm">
+        {daysLeft === 0 ? t('reminder.today', values) : daysLeft === 1 ? t('reminder.tomorrow', values) : t('reminder.inDays', values)}
+        {' '}
+        <span className="opacity-80">{t('reminder.eligible', { count: count(eligibleCount), total: count(totalCount) })}</span>
+      </p>
+      <button onClick={onOpenCalendar} className="px-3 py-1.5 rounded-lg bg-white/60 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-800 text-xs font-medium transition-colors">
+        {t('reminder.calendar')}
+      </button>
+      <button onClick={onDismiss} className="p-1 rounded-lg hover:bg-white/60 dark:hover:bg-slate-800/60 transition-colors" title={t('reminder.dismiss')}>
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+// Open claims nearest their deadline are shown until the list is expanded
+const CLAIM_PREVIEW_LIMIT = 3;
+
+const ClaimCountdown = ({ entry }: { entry: ClaimEntry }) => {
+  const { t, count } = useDisplay();
+  if (!isOpenClaim(entry.status)) return null;
+  const isUrgent = entry.status === 'unclaimed' && entry.daysLeft <= EXPIRING_SOON_DAYS;
+  return (
+    <span className={`inline-flex items-center gap-1 text-[11px] font-medium ${isUrgent ? 'text-red-600 dark:text-red-400' : 'text-slate-500 dark:text-slate-400'}`}>
+      <Hourglass size={12} />
+      {entry.daysLeft > 0 ? t('claims.daysLeft', { count: count(entry.daysLeft) })
+        : entry.daysLeft === 0 ? t('claims.dueToday')
+        : t('claims.overdue', { count: count(-entry.daysLeft) })}
+    </span>
+  );
+};
+
+interface ClaimsDashboardProps {
+  entries: ClaimEntry[];
+  summary: ClaimSummary;
+  onOpenClaim: (entry: ClaimEntry) => void;
+}
+
+/** Upcoming claim deadlines above the bond list; hidden until a bond has won. */
+const ClaimsDashboard = ({ entries, summary, onOpenClaim }: ClaimsDashboardProps) => {
+  const { t, digits, count } = useDisplay();
+  const [isExpanded, setIsExpanded] = useState(false);
+  if (entries.length === 0) return null;
+
+  const shown = isExpanded ? entries : entries.filter(entry => isOpenClaim(entry.status)).slice(0, CLAIM_PREVIEW_LIMIT);
+
+  return (
+    <div className="flex-none mb-4 glass-card rounded-2xl shadow-xl shadow-black/5 dark:shadow-black/20 p-4 space-y-3 animate-in">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-auto">
+          <div className="p-1.5 rounded-lg bg-amber-100 dark:bg-white/5 text-amber-600 dark:text-amber-400">
+            <CalendarClock size={16} />
+          </div>
+          <h2 className="text-sm font-semibold text-slate-900 dark:text-white">{t('claims.title')}</h2>
+        </div>
+        <span className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300">
+          {t('claims.open', { count: count(summary.open) })}
+        </span>
+        {summary.expiringSoon > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-[11px] font-medium bg-red-50 text-red-700 dark:bg-red-500/10 dark:text-red-300">
+            {t('claims.expiringSoon', { count: count(summary.expiringSoon) })}
+          </span>
+        )}
+        {summary.expired > 0 && (
+          <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${CLAIM_STATUS_STYLES.expired}`}>
+            {t('claims.expired', { count: count(summary.expired) })}
+          </span>
+        )}
+        {summary.received > 0 && (
+          <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${CLAIM_STATUS_STYLES.paid}`}>
+            {t('claims.received', { amount: formatTaka(summary.received) })}
+          </span>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-xs text-slate-500 dark:text-slate-400">{t('claims.noneOpen')}</p>
+      ) : (
+        <div className={`space-y-1.5 ${isExpanded ? 'max-h-64 overflow-y-auto custom-scrollbar pr-1' : ''}`}>
+          {shown.map(entry => (
+            <button
+              key={entry.key}
+              onClick={() => onOpenClaim(entry)}
+              className="w-full flex items-center justify-between gap-3 px-3 py-2 rounded-xl bg-white/60 dark:bg-slate-800/30 border border-slate-200 dark:border-white/5 hover:border-indigo-200 dark:hover:border-indigo-500/20 text-left transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="font-mono text-sm tracking-widest font-medium text-slate-700 dark:text-slate-300">{digits(entry.match.bond.number)}</p>
+                <p className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                  {t('claims.draw', { number: count(entry.match.drawNumber) })} · {t(`tier.${entry.match.tier}`)} · {formatTaka(entry.claim.grossPrize)}
+                </p>
+              </div>
+              <div className="flex flex-col items-end gap-1 shrink-0">
+                <span className={`px-2 py-0.5 rounded-md text-[11px] font-medium ${CLAIM_STATUS_STYLES[entry.status]}`}>
+                  {t(`claims.status.${entry.status}`)}
+                </span>
+                <ClaimCountdown entry={entry} />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {entries.length > shown.length || isExpanded ? (
+        <button
+          onClick={() => setIsExpanded(expanded => !expanded)}
+          className="flex items-center gap-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+          {isExpanded ? t('claims.showOpen') : t('claims.showAll', { count: count(entries.length) })}
+        </button>
+      ) : null}
+    </div>
+  );
+};
+
+interface RecoveryBannerProps {
+  problem: StorageProblem;
+  damaged: number; // records that could not be read
+  bondCount: number;
+  onDownloadBackup: () => void;
+  onResume: () => void;
+}
+
+const RecoveryBanner = ({ problem, damaged, bondCount, onDownloadBackup, onResume }: RecoveryBannerProps) => {
+  const [isConfirming, setIsConfirming] = useState(false);
+  const { t, bonds, count } = useDisplay();
+
+  return (
+    <div className="flex-none mb-4 rounded-2xl border border-red-200 dark:border-red-500/20 bg-red-50 dark:bg-red-950/40 p-4 text-red-800 dark:text-red-100 animate-in">
+      <div className="flex items-start gap-3">
+        <AlertCircle size={18} className="mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+        <div className="flex-1 space-y-3">
+          <div>
+            <p className="text-sm font-semibold">{t('recovery.title')}</p>
+            <p className="text-xs mt-1 opacity-80">
+              {t(problem === 'damaged' && damaged === 1 ? 'recovery.problem.damaged.one' : `recovery.problem.${problem}`, { count: count(damaged) })} {t('recovery.untouched')}
+            </p>
+          </div>
+          {isConfirming ? (
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <span>{t('recovery.confirm', { bonds: bonds(bondCount) })}</span>
+              <button onClick={() => { onResume(); setIsConfirming(false); }} className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white font-medium transition-colors">
+                {t('recovery.replace')}
+              </button>
+              <button onClick={() => setIsConfirming(false)} className="px-3 py-1.5 rounded-lg bg-white/60 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-800 font-medium transition-colors">
+                {t('common.cancel')}
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2 text-xs">
+              <button onClick={onDownloadBackup} className="px-3 py-1.5 rounded-lg bg-white/60 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-800 font-medium transition-colors">
+                {t('recovery.download')}
+              </button>
+              <button onClick={() => setIsConfirming(true)} className="px-3 py-1.5 rounded-lg bg-white/60 dark:bg-slate-800/60 hover:bg-white dark:hover:bg-slate-800 font-medium transition-colors">
+                {t('recovery.resume')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Sub-components extracted to prevent re-render focus loss ---
+
+interface AddBondsPanelProps {
+  inputValue: string;
+  setInputValue: (val: string) => void;
+  batchDetails: BatchDetails;
+  setBatchDetails: (details: BatchDetails) => void;
+  onSave: () => void;
+  analysis: InputAnalysis;
+}
+
+const SEGMENT_STYLES: Record<SegmentStatus, string> = {
+  valid: 'bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300 border-emerald-200 dark:border-emerald-500/20',
+  duplicate: 'bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-500/20',
+  'out-of-range': 'bg-orange-50 dark:bg-orange-500/10 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-500/20',
+  malformed: 'bg-red-50 dark:bg-red-500/10 text-red-700 dark:text-red-300 border-red-200 dark:border-red-500/20',
+};
+
+const SEGMENT_LABELS: Record<SegmentStatus, MessageKey> = {
+  valid: 'status.valid',
+  duplicate: 'status.duplicate',
+  'out-of-range': 'status.out-of-range',
+  malformed: 'status.malformed',
+};
+
+/** Words a segment's reason; see SegmentReason in bondInput.ts. */
+const segmentReason = (reason: SegmentReason, { t, count, bonds }: Display): string => {
+  switch (reason.code) {
+    case 'digits': {
+      const digits = t(reason.length === 1 ? 'unit.digit' : 'unit.digits', { count: count(reason.length) });
+      return t(`segment.digits.${reason.part}`, { digits, length: count(BOND_NUMBER_LENGTH) });
+    }
+    case 'counts': {
+      const { size, fresh, held, repeated } = reason;
+      if (size === 1) return t(fresh > 0 ? 'segment.new' : held > 0 ? 'segment.stored' : 'segment.repeated');
+      const parts = [
+        held > 0 && t('segment.storedCount', { count: count(held) }),
+        repeated > 0 && t('segment.repeatedCount', { count: count(repeated) }),
+      ].filter(Boolean).join(', ');
+      if (fresh === 0) return t('segment.allDuplicate', { bonds: bonds(size), parts });
+      return parts ? t('segment.someNew', { count: count(fresh), parts }) : t('segment.allNew', { bonds: bonds(size) });
+    }
+    default:
+      return t(`segment.${reason.code}`, { length: count(BOND_NUMBER_LENGTH) });
+  }
+};
+
+// Long pastes only show their first segments as chips; the totals cover everything
+const SEGMENT_CHIP_LIMIT = 60;
+const PROBLEM_LIST_LIMIT = 5;
+
+interface InputDiagnosticsProps {
+  analysis: InputAnalysis;
+  onSelectSegment: (segment: InputSegment) => void;
+}
+
+const InputDiagnostics = ({ analysis, onSelectSegment }: InputDiagnosticsProps) => {
+  const display = useDisplay();
+  const { t, count } = display;
+  const { segments, newCount, duplicateCount, invalidCount } = analysis;
+  const problems = segments.filter(segment => segment.status !== 'valid');
+
+  return (
+    <div className="mt-2 px-1 space-y-1.5 text-xs">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 font-medium">
+        <span className={newCount > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-slate-500 dark:text-slate-400'}>
+          {t('diag.willAdd', { count: count(newCount) })}
+        </span>
+        {duplicateCount > 0 && (
+          <span className="text-amber-600 dark:text-amber-400">{t('diag.duplicates', { count: count(duplicateCount) })}</span>
+        )}
+        {invalidCount > 0 && (
+          <span className="text-red-600 dark:text-red-400">{t('diag.toFix', { count: count(invalidCount) })}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {segments.slice(0, SEGMENT_CHIP_LIMIT).map(segment => (
+          <button
+            key={segment.offset}
+            type="button"
+            onClick={() => onSelectSegment(segment)}
+            className={`px-1.5 py-0.5 rounded-md border font-mono text-[11px] ${SEGMENT_STYLES[segment.status]}`}
+            title={`${t(SEGMENT_LABELS[segment.status])}: ${segmentReason(segment.reason, display)}`}
+          >
+            {segment.text}
+          </button>
+        ))}
+        {segments.length > SEGMENT_CHIP_LIMIT && (
+          <span className="px-1.5 py-0.5 text-[11px] text-slate-500 dark:text-slate-400">
+            {t('diag.more', { count: count(segments.length - SEGMENT_CHIP_LIMIT) })}
+          </span>
+        )}
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="space-y-0.5">
+          {problems.slice(0, PROBLEM_LIST_LIMIT).map(segment => (
+            <li key={segment.offset} className="flex gap-2 text-slate-600 dark:text-slate-400">
+              <button type="button" onClick={() => onSelectSegment(segment)} className="font-mono hover:underline">{segment.text}</button>
+              <span className="text-slate-400 dark:text-slate-500">{t(SEGMENT_LABELS[segment.status])}:</span>
+              <span>{segmentReason(segment.reason, display)}</span>
+            </li>
+          ))}
+          {problems.length > PROBLEM_LIST_LIMIT && (
+            <li className="text-slate-400 dark:text-slate-500">{t('diag.andMore', { count: count(problems.length - PROBLEM_LIST_LIMIT) })}</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const AddBondsPanel = ({ inputValue, setInputValue, batchDetails, setBatchDetails, onSave, analysis }: AddBondsPanelProps) => {
+  const { t } = useDisplay();
+  const [isFocused, setIsFocused] = useState(false);
+  const [isMultiline, setIsMultiline] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const focusInput = () => (isMultiline ? textareaRef.current : inputRef.current)?.focus();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave();
+    // Maintain focus on input after submission
+    requestAnimationFrame(focusInput);
+  };
+
+  // Selecting a segment in the field shows where a flagged entry is
+  const handleSelectSegment = (segment: InputSegment) => {
+    const field = isMultiline ? textareaRef.current : inputRef.current;
+    if (!field) return;
+    field.focus();
+    field.setSelectionRange(segment.offset, segment.offset + segment.text.length);
+  };
+
+  const toggleMultiline = () => {
+    setIsMultiline(multiline => !multiline);
+    requestAnimationFrame(() => (isMultiline ? inputRef.current : textareaRef.current)?.focus());
+  };
+
+  const fieldProps = {
+    value: inputValue,
+    onFocus: () => setIsFocused(true),
+    onBlur: () => setIsFocused(false),
+    autoComplete: 'off',
+    autoCorrect: 'off',
+    spellCheck: false,
+  };
+
+  return (
+    <div className="flex-none mb-6 animate-in relative z-30">
+      <form 
+          onSubmit={handleSubmit}
+          className={`
+            relative group flex items-start gap-2 p-2 rounded-2xl border transition-all duration-300
+            ${isFocused 
+              ? 'bg-white dark:bg-slate-900 border-indigo-500/30 ring-4 ring-indigo-500/10 shadow-xl shadow-indigo-500/10' 
+              : 'bg-white/60 dark:bg-slate-900/60 border-slate-200 dark:border-white/10 hover:border-indigo-500/20 hover:bg-white dark:hover:bg-slate-900 shadow-sm'}
+          `}
+      >
+          <div className="relative flex-1">
+              <div className={`absolute left-3 top-3.5 transition-colors duration-300 ${isFocused ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-400 dark:text-slate-500'}`}>
+                  <Plus size={20} />
+              </div>
+              
+              <div className="flex flex-col">
+                {isMultiline ? (
+                  <textarea
+                    {...fieldProps}
+                    ref={textareaRef}
+                    rows={6}
+                    onChange={(e) => setInputValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit(e);
+                    }}
+                    placeholder={t('add.placeholderMultiline')}
+                    className="w-full bg-transparent border-none p-0 pl-10 pr-16 py-3 text-sm leading-6 font-mono text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600 focus:ring-0 focus:outline-none resize-y custom-scrollbar"
+                  />
+                ) : (
+                  <input
+                    {...fieldProps}
+                    ref={inputRef}
+                    type="text"
+                    onChange={(e) => setInputValue(e.target.value)}
+                    placeholder={t('add.placeholder')}
+                    className="w-full bg-transparent border-none p-0 pl-10 pr-16 py-3 text-base font-mono text-slate-900 dark:text-slate-100 placeholder:text-slate-400 dark:placeholder:text-slate-600 focus:ring-0"
+                  />
+                )}
+                
+                {/* Collapsible Help Text */}
+                <div className={`
+                  overflow-hidden transition-all duration-300 ease-in-out pl-10
+                  ${isFocused ? 'max-h-20 opacity-100 pb-2 mt-1' : 'max-h-0 opacity-0'}
+                `}>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] font-medium text-slate-500 dark:text-slate-400">
+                    <span className="flex items-center gap-1.5">
+                      <span className="w-1 h-1 rounded-full bg-indigo-500"></span>
+                      {t('add.helpSingle')}
+                    </span>
+                    <span className="flex items-center gap-1.5">
+                      <span className="w-1 h-1 rounded-full bg-emerald-500"></span>
+                      {t('add.helpRange')}
+                    </span>
+                    {isMultiline && (
+                      <span className="flex items-center gap-1.5">
+                        <span className="w-1 h-1 rounded-full bg-slate-400"></span>
+                        {t('add.helpSave')}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              <div className="absolute right-2 top-3 flex items-center gap-0.5">
+                {inputValue && (
+                  <button 
+                    type="button"
+                    onClick={() => { 
+                      setInputValue(''); 
+                      focusInput(); 
+                    }}
+                    className="p-1 rounded-full text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={toggleMultiline}
+                  className={`p-1 rounded-full transition-colors ${isMultiline ? 'text-indigo-600 dark:text-indigo-400 bg-indigo-50 dark:bg-indigo-500/10' : 'text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800'}`}
+                  title={t(isMultiline ? 'add.singleLine' : 'add.multiline')}
+                >
+                  <WrapText size={16} />
+                </button>
+              </div>
+          </div>
+
+          <button
+              type="submit"
+              disabled={!inputValue.trim()}
+              className={`
+                flex-none self-start h-[48px] rounded-xl font-medium shadow-lg transition-all duration-300 flex items-center justify-center
+                ${inputValue.trim() 
+                  ? 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-indigo-500/25 px-6 cursor-pointer active:scale-95' 
+                  : 'bg-slate-100 dark:bg-slate-800 text-slate-400 dark:text-slate-600 shadow-none px-4 cursor-not-allowed'}
+              `}
+          >
+              <Save size={20} />
+              {inputValue.trim() && <span className="ml-2 animate-in fade-in slide-in-from-left-2 hidden sm:inline">{t('add.save')}</span>}
+          </button>
+      </form>
+
+      {inputValue.trim() && <InputDiagnostics analysis={analysis} onSelectSegment={handleSelectSegment} />}
+
+      {/* Batch Details - applied to every bond in the submitted input */}
+      <div className="flex flex-wrap items-center gap-2 mt-2 px-1 text-xs">
+        <span className="text-[10px] uppercase tracking-wider text-slate-500 dark:text-slate-400 font-semibold mr-1">{t('add.batch')}</span>
+        <input
+          type="text"
+          value={batchDetails.series}
+          onChange={(e) => setBatchDetails({ ...batchDetails, series: e.target.value })}
+          placeholder={t('add.series')}
+          maxLength={8}
+          className="w-24 bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 text-slate-900 dark:text-slate-200 px-2.5 py-1.5 rounded-lg focus:outline-none focus:border-indigo-500/50 font-mono uppercase placeholder:normal-case placeholder:text-slate-400 dark:placeholder:text-slate-600"
+          autoComplete="off"
+          spellCheck="false"
+        />
+        <select
+          value={batchDetails.denomination}
+          onChange={(e) => setBatchDetails({ ...batchDetails, denomination: Number(e.target.value) })}
+          className="bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 text-slate-900 dark:text-slate-200 px-2.5 py-1.5 rounded-lg focus:outline-none focus:border-indigo-500/50 font-mono"
+          title={t('add.denomination')}
+        >
+          {DENOMINATIONS.map(d => (
+            <option key={d} value={d}>{formatTaka(d)}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={batchDetails.acquiredAt}
+          onChange={(e) => setBatchDetails({ ...batchDetails, acquiredAt: e.target.value })}
+          className="bg-white/60 dark:bg-slate-900/60 border border-slate-200 dark:border-white/10 text-slate-900 dark:text-slate-200 px-2.5 py-1.5 rounded-lg focus:outline-none focus:border-indigo-500/50 font-mono"
+          title={t('add.acquired')}
+        />
+      </div>
+    </div>
+  );
+};
+
+interface SearchBoxProps {
+  query: string;
+  onChange: (query: string) => void;
+  error: QueryError | null;
+  seriesOptions: string[];
+}
+
+// Hints follow the word being typed; arrow keys pick one, Tab or Enter applies it
+const SearchBox = ({ query, onChange, error, seriesOptions }: SearchBoxProps) => {
+  const { t } = useDisplay();
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeHint, setActiveHint] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const hints = useMemo(() => queryHints(query, seriesOptions), [query, seriesOptions]);
+  const showHints = isFocused && hints.length > 0;
+
+  useEffect(() => setActiveHint(0), [query]);
+
+  const applyHint = (hint: QueryHint) => {
+    onChange(hint.query);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setIsFocused(false);
+      return;
+    }
+    if (!showHints) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveHint(i => (i + step + hints.length) % hints.length);
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      e.preventDefault();
+      applyHint(hints[activeHint] ?? hints[0]);
+    }
+  };
+
+  return (
+    <div className="relative flex-1 group">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400 dark:text-slate-500 group-focus-within:text-indigo-500 dark:group-focus-within:text-indigo-400 transition-colors" size={16} />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => setIsFocused(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('list.search')}
+        spellCheck={false}
+        className={`w-full bg-slate-50 dark:bg-[#0B0F19]/80 border text-slate-900 dark:text-slate-200 pl-10 pr-9 py-2.5 rounded-xl focus:outline-none transition-all text-sm placeholder:text-slate-500 dark:placeholder:text-slate-600 ${error ? 'border-red-300 dark:border-red-500/40 focus:border-red-400' : 'border-slate-200 dark:border-slate-800 focus:border-indigo-500/50'}`}
+      />
+      {query && (
+        <button 
+          onClick={() => onChange('')}
+          className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-900 dark:hover:text-white p-1"
+        >
+          <X size={14} />
+        </button>
+      )}
+      {showHints && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-30 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-1">
+          {hints.map((hint, i) => (
+            <button
+              key={hint.label}
+              // Keeps focus in the input so the hint list stays open
+              onMouseDown={(e) => { e.preventDefault(); applyHint(hint); }}
+              onMouseEnter={() => setActiveHint(i)}
+              className={`w-full flex items-center justify-between gap-3 text-left px-3 py-1.5 rounded-lg text-sm transition-colors ${i === activeHint ? 'bg-slate-100 dark:bg-slate-800' : ''}`}
+            >
+              <span className="font-mono text-slate-800 dark:text-slate-200">{hint.label}</span>
+              <span className="text-xs text-slate-500 dark:text-slate-400 truncate">{hint.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+type AnnotateMode = 'tag' | 'note';
+
+interface BulkActionBarProps {
+  count: number;
+  onCopy: () => void;
+  onDelete: () => void;
+  onExport: (format: ExportFormat) => void;
+  onAnnotate: (text: string, mode: AnnotateMode) => void;
+  onClear: () => void;
+}
+
+const BulkActionBar = ({ count, onCopy, onDelete, onExport, onAnnotate, onClear }: BulkActionBarProps) => {
+  const display = useDisplay();
+  const { t } = display;
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [annotateMode, setAnnotateMode] = useState<AnnotateMode | null>(null);
+  const [text, setText] = useState('');
+
+  const closeAnnotate = () => {
+    setAnnotateMode(null);
+    setText('');
+  };
+
+  const handleAnnotate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!annotateMode || (annotateMode === 'tag' && !text.trim())) return;
+    onAnnotate(text.trim(), annotateMode);
+    closeAnnotate();
+  };
+
+  const actionClass = 'flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 rounded-xl bg-indigo-50 dark:bg-indigo-500/10 border border-indigo-200 dark:border-indigo-500/20">
+      <span className="px-1.5 text-xs font-semibold text-indigo-700 dark:text-indigo-300">
+        {t('bulk.selected', { count: display.count(count) })}
+      </span>
+      {annotateMode ? (
+        <form onSubmit={handleAnnotate} className="flex flex-1 items-center gap-1 min-w-[12rem]">
+          <input
+            autoFocus
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') closeAnnotate(); }}
+            placeholder={t(annotateMode === 'tag' ? 'bulk.tagPlaceholder' : 'bulk.notePlaceholder')}
+            className="flex-1 min-w-0 h-7 bg-white dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2.5 rounded-lg focus:outline-none focus:border-indigo-500/50 text-xs"
+          />
+          <button
+            type="submit"
+            disabled={annotateMode === 'tag' && !text.trim()}
+            className="px-2.5 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-500 transition-colors disabled:opacity-40"
+          >
+            {t(annotateMode === 'tag' ? 'bulk.addTag' : 'bulk.setNote')}
+          </button>
+          <button type="button" onClick={closeAnnotate} className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white">
+            <X size={14} />
+          </button>
+        </form>
+      ) : (
+        <>
+          <button onClick={onCopy} className={actionClass}>
+            <Copy size={14} /> {t('bulk.copy')}
+          </button>
+          <div className="relative">
+            <button onClick={() => setIsExportMenuOpen(open => !open)} className={actionClass}>
+              <Download size={14} /> {t('bulk.export')}
+            </button>
+            {isExportMenuOpen && (
+              <>
+                <div className="fixed inset-0 z-20" onClick={() => setIsExportMenuOpen(false)} />
+                <div className="absolute left-0 top-full mt-1 z-30 w-48 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-1">
+                  {EXPORT_OPTIONS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      onClick={() => { onExport(format); setIsExportMenuOpen(false); }}
+                      className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                    >
+                      {display.t(label)}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+          <button onClick={() => setAnnotateMode('tag')} className={actionClass}>
+            <Tag size={14} /> {t('bulk.tag')}
+          </button>
+          <button onClick={() => setAnnotateMode('note')} className={actionClass}>
+            <StickyNote size={14} /> {t('bulk.note')}
+          </button>
+          <button onClick={onDelete} className={`${actionClass} hover:text-red-600 dark:hover:text-red-400`}>
+            <Trash2 size={14} /> {t('bulk.delete')}
+          </button>
+        </>
+      )}
+      <button
+        onClick={onClear}
+        className="ml-auto p-1.5 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white transition-colors"
+        title={t('bulk.clear')}
+      >
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
+
+interface BondListPanelProps {
+  listing: BondListing;
+  totalCount: number;
+  isLoading: boolean;
+  searchQuery: string;
+  setSearchQuery: (val: string) => void;
+  searchError: QueryError | null;
+  seriesOptions: string[]; // offered as series: hints
+  handleCopyAll: () => void;
+  handleClearAll: () => void;
+  handleCopy: (text: string) => void;
+  handleDelete: (bond: Bond) => void;
+  handleUpdateNotes: (bond: Bond, notes: string) => void;
+  handleCheckDraw: () => void;
+  winCount: number;
+  faceValue: number;
+  handleShowValuation: () => void;
+  handleShowAnalytics: () => void;
+  handleShowReport: () => void;
+  handleShowQrTransfer: () => void;
+  drawCalendar: DrawCalendar;
+  upcomingDraw: ScheduledDraw | null;
+  eligibleCount: number; // for the upcoming draw
+  today: string;
+  handleShowCalendar: () => void;
+  handleExport: (format: ExportFormat) => void;
+  handleImportFile: (file: File) => void;
+  handleExportEncrypted: () => void;
+  listView: ListView;
+  setListView: (view: ListView) => void;
+  handleDeleteRuns: (runs: BondRun[]) => void; // a whole group of the grouped view
+  portfolios: Portfolio[];
+  canEdit: boolean; // false in the all-portfolios view
+  canTransfer: boolean;
+  handleTransferBond: (bond: Bond) => void;
+  handleTransferShown: () => void;
+  selection: Selection;
+  selectedCount: number;
+  shownSelectedCount: number; // selected bonds the current search shows
+  handleSelect: (runs: BondRun[], selected: boolean) => void;
+  handleClearSelection: () => void;
+  handleCopySelected: () => void;
+  handleDeleteSelected: () => void;
+  handleExportSelected: (format: ExportFormat) => void;
+  handleAnnotateSelected: (text: string, mode: AnnotateMode) => void;
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: MessageKey }[] = [
+  { format: 'csv', label: 'export.csv' },
+  { format: 'json', label: 'export.json' },
+  { format: 'txt', label: 'export.txt' },
+];
+
+// Row pitch in px: 58px row + 8px gap. Rows must stay this height for the
+// windowed list to line up.
+const ROW_HEIGHT = 66;
+
+// A row of the windowed list: a bond, or in the grouped view also a run of consecutive numbers
+type ListRow =
+  | { row: number; kind: 'group'; group: RunGroup; isExpanded: boolean }
+  | { row: number; kind: 'bond'; index: number; isNested: boolean; bond: Bond };
+
+// The combined view can list one bond once per portfolio holding it
+const rowKey = (bond: Bond) => bond.portfolioId !== undefined ? `${bond.portfolioId}/${bondKey(bond)}` : bondKey(bond);
+
+/** Shown on bonds held too briefly for the next draw: the first draw they will be in. */
+const EligibilityBadge = ({ acquiredAt, calendar, today }: { acquiredAt: string; calendar: DrawCalendar; today: string }) => {
+  const { t, count } = useDisplay();
+  const first = nextEligibleDraw(acquiredAt, calendar, today);
+  return (
+    <span
+      className="px-1.5 py-0.5 rounded-md bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-300 font-sans whitespace-nowrap"
+      title={t('row.eligibleCutoff', { days: count(calendar.minHoldingDays) })}
+    >
+      {first ? t('row.eligibleFrom', { number: count(first.drawNumber) }) : t('row.notEligible')}
+    </span>
+  );
+};
+
+const BondListPanel = ({ 
+  listing, 
+  totalCount, 
+  isLoading, 
+  searchQuery, 
+  setSearchQuery, 
+  searchError,
+  seriesOptions,
+  handleCopyAll, 
+  handleClearAll, 
+  handleCopy, 
+  handleDelete,
+  handleUpdateNotes,
+  handleCheckDraw,
+  winCount,
+  faceValue,
+  handleShowValuation,
+  handleShowAnalytics,
+  handleShowReport,
+  handleShowQrTransfer,
+  drawCalendar,
+  upcomingDraw,
+  eligibleCount,
+  today,
+  handleShowCalendar,
+  handleExport,
+  handleImportFile,
+  handleExportEncrypted,
+  listView,
+  setListView,
+  handleDeleteRuns,
+  portfolios,
+  canEdit,
+  canTransfer,
+  handleTransferBond,
+  handleTransferShown,
+  selection,
+  selectedCount,
+  shownSelectedCount,
+  handleSelect,
+  handleClearSelection,
+  handleCopySelected,
+  handleDeleteSelected,
+  handleExportSelected,
+  handleAnnotateSelected
+}: BondListPanelProps) => {
+  const { t, digits, count } = useDisplay();
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [noteDraft, setNoteDraft] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [jumpValue, setJumpValue] = useState('');
+  const [jumpError, setJumpError] = useState('');
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(() => new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selectAllRef = useRef<HTMLInputElement>(null);
+  // Listing position of the last checkbox clicked, where a shift-click range starts
+  const selectionAnchor = useRef<number | null>(null);
+
+  const allShownSelected = listing.total > 0 && shownSelectedCount === listing.total;
+
+  useEffect(() => {
+    selectionAnchor.current = null;
+  }, [listing]);
+
+  useEffect(() => {
+    if (selectAllRef.current) selectAllRef.current.indeterminate = shownSelectedCount > 0 && !allShownSelected;
+  }, [shownSelectedCount, allShownSelected]);
+
+  // Shift-click applies the clicked row's new state to every row since the anchor
+  const handleRowCheck = (index: number, bond: Bond, shiftKey: boolean) => {
+    const select = !isSelected(selection, bond);
+    const anchor = selectionAnchor.current;
+    handleSelect(shiftKey && anchor !== null ? listingSlice(listing, anchor, index) : listingSlice(listing, index, index), select);
+    selectionAnchor.current = index;
+  };
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    setViewportHeight(el.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // A new search starts from the top; deletions keep the current position
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (highlightedRow === null) return;
+    const timer = setTimeout(() => setHighlightedRow(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedRow]);
+
+  const groupedRows = useMemo(
+    () => (listView === 'grouped' ? createGroupedRows(listingGroups(listing), expandedGroups) : null),
+    [listing, listView, expandedGroups]
+  );
+
+  // Only the rows in and around the viewport are materialised
+  const view = computeWindow(groupedRows ? groupedRows.total : listing.total, ROW_HEIGHT, scrollTop, viewportHeight);
+  const visibleRows = useMemo(() => {
+    const rows: ListRow[] = [];
+    for (let row = view.first; row <= view.last; row++) {
+      const item = groupedRows ? groupedRowAt(groupedRows, row) : { kind: 'bond' as const, index: row, isNested: false };
+      rows.push(item.kind === 'group' ? { row, ...item } : { row, ...item, bond: listingAt(listing, item.index) });
+    }
+    return rows;
+  }, [listing, groupedRows, view.first, view.last]);
+
+  const toggleGroup = (group: RunGroup) => {
+    setExpandedGroups(prev => {
+      const next = new Set(prev);
+      if (!next.delete(groupKey(group))) next.add(groupKey(group));
+      return next;
+    });
+  };
+
+  // Every scheduled draw a bond is or was in, for the acquisition date's tooltip
+  const eligibilityTitle = (acquiredAt: string) => {
+    const draws = eligibleDraws(acquiredAt, drawCalendar);
+    return draws.length > 0
+      ? t('row.eligibleSince', { count: count(draws.length), number: count(draws[0].drawNumber) })
+      : t('row.notEligible');
+  };
+
+  const startEditingNote = (bond: Bond) => {
+    setEditingKey(rowKey(bond));
+    setNoteDraft(bond.notes);
+  };
+
+  const commitNote = (bond: Bond) => {
+    if (noteDraft !== bond.notes) handleUpdateNotes(bond, noteDraft.trim());
+    setEditingKey(null);
+  };
+
+  const renderGroupRow = ({ row, group, isExpanded }: { row: number; group: RunGroup; isExpanded: boolean }) => {
+    const size = groupSize(group);
+    const runsInGroup = groupRuns(listing, group);
+    const selectedInGroup = countBonds(selectedRuns(runsInGroup, selection));
+    const range = formatBondRange(group.start, group.end);
+
+    return (
+      <div
+        key={`group/${groupKey(group)}`}
+        style={{ top: view.top(row), height: ROW_HEIGHT - 8 }}
+        className={`group absolute inset-x-0 flex items-center justify-between gap-2 p-3 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800/60 border hover:border-indigo-200 dark:hover:border-indigo-500/20 transition-colors duration-200 shadow-sm dark:shadow-none
+          ${highlightedRow === row
+            ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-300 dark:border-indigo-500/40'
+            : 'bg-white dark:bg-slate-800/20 border-slate-200 dark:border-white/5'}
+        `}
+      >
+        <div className="flex items-center gap-3 min-w-0 flex-1">
+          <input
+            type="checkbox"
+            checked={selectedInGroup === size}
+            ref={el => { if (el) el.indeterminate = selectedInGroup > 0 && selectedInGroup < size; }}
+            readOnly
+            onClick={() => handleSelect(runsInGroup, selectedInGroup < size)}
+            className="w-4 h-4 flex-none rounded accent-indigo-600 cursor-pointer"
+            aria-label={t('list.select', { item: range })}
+          />
+          <button
+            onClick={() => toggleGroup(group)}
+            className="min-w-8 h-8 px-1.5 rounded-lg bg-slate-100 dark:bg-slate-900/80 text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-300 flex items-center justify-center border border-slate-200 dark:border-white/5 transition-colors"
+            title={t(isExpanded ? 'group.collapse' : 'group.expand')}
+          >
+            {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+          <span className="font-mono text-lg tracking-widest font-medium text-slate-700 dark:text-slate-300 group-hover:text-indigo-600 dark:group-hover:text-indigo-200 transition-colors whitespace-nowrap">
+            {digits(formatBondNumber(group.start))} – {digits(formatBondNumber(group.end))}
+          </span>
+          <div className="hidden sm:flex items-center gap-1.5 min-w-0 text-[10px] font-mono text-slate-500 dark:text-slate-400">
+            {group.portfolioId !== undefined && (
+              <span className="px-1.5 py-0.5 rounded-md bg-violet-50 dark:bg-violet-500/10 text-violet-600 dark:text-violet-300 font-sans truncate max-w-[8rem]">
+                {portfolioName(portfolios, group.portfolioId)}
+              </span>
+            )}
+            {group.series && (
+              <span className="px-1.5 py-0.5 rounded-md bg-indigo-50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-300">{group.series}</span>
+            )}
+            <span className="font-sans">{t('group.count', { count: count(size) })}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => handleCopy(range)}
+            className="p-2 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 transition-colors"
+            title={t('group.copy')}
+          >
+            <Copy size={16} />
+          </button>
+          <button
+            onClick={() => handleDeleteRuns(runsInGroup)}
+            className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+            title={t('group.delete')}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // 7 digits jump to that bond number; anything else is a 1-based position
+  const handleJump = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = normalizeDigits(jumpValue).trim().replace(/^#/, '');
+    if (!/^\d+$/.test(value)) {
+      setJumpError(t('jump.invalid'));
+      return;
+    }
+
+    const index = isValidBondNumber(value)
+      ? listingIndexOf(listing, parseInt(value, 10))
+      : parseInt(value, 10) - 1;
+
+    if (index < 0 || index >= listing.total) {
+      setJumpError(isValidBondNumber(value)
+        ? t('jump.notListed', { number: digits(value) })
+        : t('jump.position', { total: count(listing.total) }));
+      return;
+    }
+
+    // A bond in a collapsed group is found at its group's row
+    const row = groupedRows ? groupedRowOf(groupedRows, index) : index;
+    const el = scrollRef.current;
+    if (el) {
+      const target = scrollTopForIndex(row, groupedRows ? groupedRows.total : listing.total, ROW_HEIGHT, el.clientHeight);
+      el.scrollTop = target;
+      setScrollTop(el.scrollTop);
+    }
+    setHighlightedRow(row);
+    setJumpError('');
+    setJumpValue('');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col glass-card rounded-2xl overflow-hidden shadow-xl shadow-black/5 dark:shadow-black/20 min-h-0 animate-in" style={{ animationDelay: '0.1s' }}>
+      {/* List Header */}
+      <div className="flex-none p-4 sm:p-5 border-b border-slate-200 dark:border-white/5 bg-white/40 dark:bg-slate-900/40 backdrop-blur-md z-10 space-y-4">
+        
+        {/* Stats Row */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-2">
+           <StatCard 
+             icon={Database} 
+             label={t('list.stored')} 
+             value={count(totalCount)} 
+             bgClass="bg-emerald-100 dark:bg-white/5"
+             colorClass="text-emerald-600 dark:text-emerald-400" 
+             onClick={handleShowAnalytics}
+           />
+           <StatCard 
+             icon={Wallet} 
+             label={t('list.value')} 
+             value={formatTaka(faceValue)} 
+             bgClass="bg-indigo-100 dark:bg-white/5"
+             colorClass="text-indigo-600 dark:text-indigo-400" 
+             onClick={handleShowValuation}
+           />
+           <StatCard
+             icon={CalendarDays}
+             label={t('list.nextDraw')}
+             value={upcomingDraw ? digits(`#${upcomingDraw.drawNumber} · ${upcomingDraw.drawDate}`) : t('list.noDraw')}
+             bgClass="bg-sky-100 dark:bg-white/5"
+             colorClass="text-sky-600 dark:text-sky-400"
+             onClick={handleShowCalendar}
+           />
+           <StatCard
+             icon={CheckCircle2}
+             label={t('list.eligible')}
+             value={upcomingDraw ? t('list.eligibleCount', { count: count(eligibleCount), total: count(totalCount) }) : '—'}
+             bgClass="bg-amber-100 dark:bg-white/5"
+             colorClass="text-amber-600 dark:text-amber-400"
+             onClick={handleShowCalendar}
+           />
+        </div>
+
+        {/* Search Bar */}
+        <div className="flex items-center gap-2">
+          <SearchBox
+            query={searchQuery}
+            onChange={setSearchQuery}
+            error={searchError}
+            seriesOptions={seriesOptions}
+          />
+          
+          <div className="flex gap-1">
+            <button
+              onClick={() => setListView(listView === 'grouped' ? 'flat' : 'grouped')}
+              className={`p-2.5 rounded-xl border border-transparent transition-all ${listView === 'grouped'
+                ? 'bg-indigo-50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 hover:border-indigo-200 dark:hover:border-indigo-500/30'
+                : 'bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 hover:border-slate-300 dark:hover:border-slate-600'}`}
+              title={t(listView === 'grouped' ? 'list.showFlat' : 'list.showGrouped')}
+            >
+              <ListCollapse size={18} />
+            </button>
+            <button
+              onClick={handleCheckDraw}
+              className="relative p-2.5 rounded-xl bg-amber-50 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 hover:bg-amber-100 dark:hover:bg-amber-500/20 border border-transparent hover:border-amber-200 dark:hover:border-amber-500/30 transition-all"
+              title={t('list.checkDraw')}
+            >
+              <Trophy size={18} />
+              {winCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-emerald-500 text-white text-[10px] font-bold flex items-center justify-center">
+                  {winCount}
+                </span>
+              )}
+            </button>
+            <button
+              onClick={handleCopyAll}
+              disabled={listing.total === 0}
+              className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+              title={t('list.copyAll')}
+            >
+              <ClipboardList size={18} />
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setIsExportMenuOpen(open => !open)}
+                disabled={totalCount === 0}
+                className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+                title={t('list.export')}
+              >
+                <Download size={18} />
+              </button>
+              {isExportMenuOpen && (
+                <>
+                  <div className="fixed inset-0 z-20" onClick={() => setIsExportMenuOpen(false)} />
+                  <div className="absolute right-0 top-full mt-1 z-30 w-48 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 shadow-xl shadow-black/10 p-1">
+                    {EXPORT_OPTIONS.map(({ format, label }) => (
+                      <button
+                        key={format}
+                        onClick={() => { handleExport(format); setIsExportMenuOpen(false); }}
+                        className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => { handleExportEncrypted(); setIsExportMenuOpen(false); }}
+                      className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors border-t border-slate-100 dark:border-white/5"
+                    >
+                      {t('list.encryptedBackup')}
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+            <button
+              onClick={handleShowReport}
+              disabled={listing.total === 0}
+              className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+              title={t('list.report')}
+            >
+              <Printer size={18} />
+            </button>
+            <button
+              onClick={handleShowQrTransfer}
+              disabled={totalCount === 0 && !canEdit}
+              className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+              title={t('list.qrTransfer')}
+            >
+              <QrCodeIcon size={18} />
+            </button>
+            {canTransfer && (
+              <button
+                onClick={handleTransferShown}
+                disabled={listing.total === 0}
+                className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+                title={t('list.transferShown')}
+              >
+                <ArrowRightLeft size={18} />
+              </button>
+            )}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canEdit}
+              className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800/50 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-200 dark:hover:bg-slate-700 border border-transparent hover:border-slate-300 dark:hover:border-slate-600 transition-all disabled:opacity-30"
+              title={t(canEdit ? 'list.import' : 'list.importChoose')}
+            >
+              <Upload size={18} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                // Clearing lets the same file be picked again
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={handleClearAll}
+              disabled={totalCount === 0 || !canEdit}
+              className="p-2.5 rounded-xl bg-red-50 dark:bg-red-500/10 text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-500/20 border border-transparent hover:border-red-200 dark:hover:border-red-500/30 transition-all disabled:opacity-30"
+              title={t('list.clearAll')}
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        </div>
+
+        {selectedCount > 0 && (
+          <BulkActionBar
+            count={selectedCount}
+            onCopy={handleCopySelected}
+            onDelete={handleDeleteSelected}
+            onExport={handleExportSelected}
+            onAnnotate={handleAnnotateSelected}
+            onClear={handleClearSelection}
+          />
+        )}
+      </div>
+
+      {/* Scrollable List - windowed, only visible rows are rendered */}
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="flex-1 overflow-y-auto custom-scrollbar p-2 sm:p-3 bg-slate-50/50 dark:bg-slate-950/20"
+      >
+        {listing.total === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500 p-8 text-center opacity-80 dark:opacity-60">
+            <div className="w-16 h-16 rounded-full bg-slate-100 dark:bg-slate-800/50 flex items-center justify-center mb-4 ring-1 ring-slate-200 dark:ring-slate-700/50">
+              <Search size={28} className="opacity-50" />
+            </div>
+            {searchError ? (
+              <>
+                <p className="text-sm text-red-500 dark:text-red-400">{t(`query.${searchError.problem}`, displayValues(searchError.values, count))}</p>
+                <p className="text-xs mt-1">{t('list.searchErrorAt', { position: count(searchError.position + 1) })}</p>
+              </>
+            ) : (
+              <p className="text-sm">{t(isLoading ? 'list.loading' : 'list.noResults')}</p>
+            )}
+          </div>
+        ) : (
+          <div className="relative" style={{ height: view.scrollHeight }}>
+            {visibleRows.map(item => {
+              if (item.kind === 'group') return renderGroupRow(item);
+              const { row, index, bond, isNested } = item;
+              return (
+                <div
+                  key={rowKey(bond)}
+                  style={{ top: view.top(row), height: ROW_HEIGHT - 8 }}
+                  className={`group absolute ${isNested ? 'left-6 right-0' : 'inset-x-0'} flex items-center justify-between gap-2 p-3 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800/60 border hover:border-indigo-200 dark:hover:border-indigo-500/20 transition-colors duration-200 shadow-sm dark:shadow-none
+                    ${highlightedRow === row
+                      ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-300 dark:border-indigo-500/40'
+                      : 'bg-white dark:bg-slate-800/20 border-slate-200 dark:border-white/5'}
+                  `}
+                >
+                  <div className="flex items-center gap-3 min-w-0 flex-1">
+                    <input
+                      type="checkbox"
+                      checked={isSelected(selection, bond)}
+                      readOnly
+                      onClick={(e) => handleRowCheck(index, bond, e.shiftKey)}
+                      className="w-4 h-4 flex-none rounded accent-indigo-600 cursor-pointer"
+                      aria-label={t('list.select', { item: digits(bond.number) })}
+                    />
+                    <div className="min-w-8 h-8 px-1.5 rounded-lg bg-slate-100 dark:bg-slate-900/80 text-slate-500 flex items-center justify-center text-[10px] font-mono border border-slate-200 dark:border-white/5">
+                      {count(index + 1)}
+                    </div>
+                    <span className="font-mono text-lg tracking-widest font-medium text-slate-700 dark:text-slate-300 group-hover:text-indigo-600 dark:group-hover:text-indigo-200 transition-colors">
+                      {digits(bond.number)}
+                    </span>
+                    {editingKey === rowKey(bond) ? (
+                      <input
+                        autoFocus
+                        type="text"
+                        value={noteDraft}
+                        onChange={(e) => setNoteDraft(e.target.value)}
+                        onBlur={() => commitNote(bond)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitNote(bond);
+                          if (e.key === 'Escape') setEditingKey(null);
+                        }}
+                        placeholder={t('row.addNote')}
+                        className="flex-1 min-w-0 h-8 bg-slate-50 dark:bg-[#0B0F19]/80 border border-slate-200 dark:border-slate-800 text-slate-900 dark:text-slate-200 px-2.5 rounded-lg focus:outline-none focus:border-indigo-500/50 text-xs"
+                      />
+                    ) : (
+                      <div className="hidden sm:flex items-center gap-1.5 min-w-0 text-[10px] font-mono text-slate-500 dark:text-slate-400">
+                        {bond.portfolioId !== undefined && (
+                          <span className="px-1.5 py-0.5 rounded-md bg-violet-50 dark:bg-violet-500/10 text-violet-600 dark:text-violet-300 font-sans truncate max-w-[8rem]">
+                            {portfolioName(portfolios, bond.portfolioId)}
+                          </span>
+                        )}
+                        {bond.series && (
+                          <span className="px-1.5 py-0.5 rounded-md bg-indigo-50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-300">{bond.series}</span>
+                        )}
+                        <span className="px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-900/80">{formatTaka(bond.denomination)}</span>
+                        {bond.acquiredAt && <span title={eligibilityTitle(bond.acquiredAt)}>{bond.acquiredAt}</span>}
+                        {upcomingDraw && !isEligibleFor(bond.acquiredAt, upcomingDraw, drawCalendar.minHoldingDays) && (
+                          <EligibilityBadge acquiredAt={bond.acquiredAt} calendar={drawCalendar} today={today} />
+                        )}
+                        {bond.notes && <span className="font-sans text-xs truncate">· {bond.notes}</span>}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1 opacity-100 sm:opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => startEditingNote(bond)}
+                      className="p-2 rounded-lg text-slate-400 hover:text-amber-500 hover:bg-amber-50 dark:hover:bg-amber-500/10 transition-colors"
+                      title={t('row.editNote')}
+                    >
+                      <StickyNote size={16} />
+                    </button>
+                    {canTransfer && (
+                      <button
+                        onClick={() => handleTransferBond(bond)}
+                        className="p-2 rounded-lg text-slate-400 hover:text-violet-500 hover:bg-violet-50 dark:hover:bg-violet-500/10 transition-colors"
+                        title={t('row.transfer')}
+                      >
+                        <ArrowRightLeft size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleCopy(bond.number)}
+                      className="p-2 rounded-lg text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 transition-colors"
+                      title={t('row.copy')}
+                    >
+                      <Copy size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(bond)}
+                      className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                      title={t('row.delete')}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Footer Stat */}
+      <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-t border-slate-200 dark:border-white/5 bg-slate-50/50 dark:bg-slate-950/30">
+        <label className="flex items-center gap-2 text-[10px] text-slate-500 font-mono">
+          <input
+            ref={selectAllRef}
+            type="checkbox"
+            checked={allShownSelected}
+            disabled={listing.total === 0}
+            onChange={() => handleSelect(listing.runs, !allShownSelected)}
+            className="w-3.5 h-3.5 rounded accent-indigo-600 cursor-pointer disabled:opacity-30"
+            title={t(allShownSelected ? 'list.deselectAll' : 'list.selectAll')}
+          />
+          {t('list.showing', { shown: count(listing.total), total: count(totalCount) })}
+        </label>
+        <form onSubmit={handleJump} className="flex items-center gap-2">
+          {jumpError && <span className="text-[10px] text-red-500 dark:text-red-400">{jumpError}</span>}
+          <input
+            type="text"
+            value={jumpValue}
+            onChange={(e) => { setJumpValue(e.target.value); setJumpError(''); }}
+            placeholder={t('list.jump')}
+            disabled={listing.total === 0}
+            className="w-32 bg-transparent border border-slate-200 dark:border-slate-800 text-slate-700 dark:text-slate-300 px-2 py-1 rounded-lg focus:outline-none focus:border-indigo-500/50 text-[10px] font-mono placeholder:text-slate-400 dark:placeholder:text-slate-600 disabled:opacity-30"
+            autoComplete="off"
+            spellCheck="false"
+          />
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const PrizeBondApp = () => {
+  // State
+  const [holdings, setHoldings] = useState<Holdings>({});
+  const [portfolios, setPortfolios] = useState<Portfolio[]>(() => [defaultPortfolio()]);
+  const [activePortfolioId, setActivePortfolioId] = useState(() => loadActivePortfolioId());
+  const [storageState, setStorageState] = useState<StorageState>({ status: 'loading' });
+  // Holdings as last written to IndexedDB; writes only send the difference
+  const persistedHoldings = useRef<Holdings>({});
+  const [inputValue, setInputValue] = useState('');
+  const [batchDetails, setBatchDetails] = useState<BatchDetails>(() => ({
+    series: '',
+    denomination: DEFAULT_DENOMINATION,
+    acquiredAt: todayIso(),
+  }));
+  // Each portfolio keeps its own search
+  const [searchQueries, setSearchQueries] = useState<Record<string, string>>({});
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [isClearDialogOpen, setIsClearDialogOpen] = useState(false);
+  const [draws, setDraws] = useState<Draw[]>(() => loadDraws());
+  const [isDrawCheckOpen, setIsDrawCheckOpen] = useState(false);
+  const [today, setToday] = useState(() => todayIso());
+  const [drawCalendar, setDrawCalendar] = useState<DrawCalendar>(() => loadDrawCalendar(todayIso()));
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [listView, setListView] = useState<ListView>(() => loadListView());
+  const [dismissedReminder, setDismissedReminder] = useState<number | null>(() => loadDismissedReminder());
+  const [valueHistory, setValueHistory] = useState<ValueSnapshot[]>(() => loadValueHistory());
+  const [isValuationOpen, setIsValuationOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isQrTransferOpen, setIsQrTransferOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [claims, setClaims] = useState<Claims>({});
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [highlightedActivity, setHighlightedActivity] = useState<string | null>(null);
+  const [editingClaim, setEditingClaim] = useState<ClaimEntry | null>(null);
+  const [historyLimit, setHistoryLimit] = useState(() => loadHistoryLimit());
+  // Only ever held in memory; dropped again when the app locks
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | null>(null);
+  const [isEncrypted, setIsEncrypted] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(() => loadAutoLockMinutes());
+  const [language, setLanguage] = useState(() => loadLanguage());
+  const [numerals, setNumerals] = useState(() => loadNumeralSystem());
+  const display: Display = useMemo(() => createDisplay(language, numerals), [language, numerals]);
+  const { t, bonds, count } = display;
+  const [isSecurityOpen, setIsSecurityOpen] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<
+    { purpose: 'export-backup' } | { purpose: 'import-backup'; filename: string; text: string } | null
+  >(null);
+  const [transferRequest, setTransferRequest] = useState<TransferRequest | null>(null);
+  const [selection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  // Wrapped in an object: a bare function would be treated as a state updater
+  const [pendingUpdate, setPendingUpdate] = useState<{ apply: () => void } | null>(null);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [syncPhase, setSyncPhase] = useState<SyncPhase>('idle');
+  const [syncError, setSyncError] = useState<SyncFailure | null>(null);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  // What sync has accounted for; anything that differs from these is a local change still to record
+  const syncedHoldings = useRef<Holdings>({});
+  const syncedPortfolios = useRef<Portfolio[]>([]);
+  const syncStateRef = useRef<SyncState | null>(null);
+  syncStateRef.current = syncState;
+  const isSyncing = useRef(false);
+  const [isSyncLeader, setIsSyncLeader] = useState(false);
+  const tabId = useRef(createId());
+  const tabChannel = useRef<TabChannel | null>(null);
+  const recentChanges = useRef<RecentChanges>(NO_RECENT_CHANGES);
+  const [tabActivity, setTabActivity] = useState<{ count: number } | null>(null);
+
+  const isAllView = activePortfolioId === ALL_PORTFOLIOS;
+  const viewName = isAllView ? t('portfolio.all') : portfolioName(portfolios, activePortfolioId);
+  const searchQuery = searchQueries[activePortfolioId] ?? '';
+  const setSearchQuery = (query: string) => setSearchQueries(prev => ({ ...prev, [activePortfolioId]: query }));
+  
+  // Persistence (older localStorage formats are imported on first load)
+  const openStore = (key: CryptoKey | null) => {
+    // History, portfolio names, claims and the activity log are a convenience; losing them never blocks loading
+    const storedMeta = Promise.all([
+      loadStoredHistory(key),
+      loadStoredPortfolios(key),
+      loadStoredClaims(key),
+      loadStoredActivity(key),
+      key ? null : loadStoredSync(),
+    ]).catch(e => {
+      console.error("Failed to load history, portfolios, claims and activity", e);
+      return [null, null, null, null, null];
+    });
+    // Unencrypted, draws, the draw calendar and value history are read from localStorage instead
+    const storedDrawData = Promise.all(key
+      ? [loadStoredDraws(key), loadStoredDrawCalendar(key), loadStoredValueHistory(key)]
+      : [null, null, null]
+    ).catch(e => {
+      console.error("Failed to load draws, draw calendar and value history", e);
+      return [null, null, null];
+    });
+    return Promise.all([loadBondStore(key), storedMeta, storedDrawData]).then(([
+      result,
+      [savedHistory, savedPortfolios, savedClaims, savedActivity, savedSync],
+      [savedDraws, savedCalendar, savedValueHistory],
+    ]) => {
+      const loadedPortfolios = parseStoredPortfolios(savedPortfolios, result.holdings);
+      setHoldings(result.holdings);
+      setPortfolios(loadedPortfolios);
+      syncedHoldings.current = result.holdings;
+      syncedPortfolios.current = loadedPortfolios;
+      recentChanges.current = NO_RECENT_CHANGES;
+      setSyncState(parseStoredSyncState(savedSync));
+      setActivePortfolioId(id => id === ALL_PORTFOLIOS || loadedPortfolios.some(p => p.id === id) ? id : loadedPortfolios[0].id);
+      setHistory(trimHistory(parseStoredHistory(savedHistory), loadHistoryLimit()));
+      setClaims(parseStoredClaims(savedClaims));
+      setActivity(parseStoredActivity(savedActivity));
+      setDraws(key ? parseStoredDraws(savedDraws) : loadDraws());
+      setDrawCalendar(key ? parseStoredDrawCalendar(savedCalendar, todayIso()) : loadDrawCalendar(todayIso()));
+      setValueHistory(key ? parseStoredValueHistory(savedValueHistory) : loadValueHistory());
+      if (result.status === 'ready') {
+        persistedHoldings.current = result.persisted;
+        setStorageState({ status: 'ready' });
+        if (result.importedLegacy > 0) {
+          showNotification('success', t('storage.migrated', { bonds: bonds(result.importedLegacy) }));
+        }
+      } else {
+        setStorageState({ status: 'recovery', problem: result.problem, damaged: result.damaged });
+      }
+    });
+  };
+
+  // An encrypted store waits on the lock screen for its passphrase. Also
+  // used when another tab replaced the stored data: an unlocked tab may hold
+  // a key that no longer fits, so it locks.
+  const reloadStore = () => {
+    loadEncryptionConfig().then(config => {
+      if (config) {
+        handleLock();
+        setIsEncrypted(true);
+      } else {
+        setEncryptionKey(null);
+        setIsEncrypted(false);
+        openStore(null);
+      }
+    }).catch(e => {
+      console.error("Failed to read encryption settings", e);
+      setStorageState({ status: 'recovery', problem: e instanceof StorageError ? e.problem : 'open-failed' });
+    });
+  };
+
+  useEffect(() => {
+    reloadStore();
+  }, []);
+
+  useEffect(() => {
+    if (storageState.status !== 'ready' || holdings === persistedHoldings.current) return;
+
+    const previous = persistedHoldings.current;
+    persistedHoldings.current = holdings;
+    writeRunChanges(previous, holdings, encryptionKey).catch(e => {
+      console.error("Failed to save bonds", e);
+      setStorageState({ status: 'recovery', problem: 'save-failed' });
+    });
+  }, [holdings, storageState.status, encryptionKey]);
+
+  useEffect(() => {
+    if (storageState.status !== 'ready') return;
+    saveStoredPortfolios(portfolios, encryptionKey).catch(e => console.error("Failed to save portfolios", e));
+  }, [portfolios, storageState.status, encryptionKey]);
+
+  useEffect(() => {
+    saveActivePortfolioId(activePortfolioId);
+  }, [activePortfolioId]);
+
+  // The active portfolio can disappear when another device deletes it
+  useEffect(() => {
+    if (activePortfolioId !== ALL_PORTFOLIOS && !portfolios.some(p => p.id === activePortfolioId)) {
+      setActivePortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, activePortfolioId]);
+
+  // --- Sync ---
+  // Every local change is stamped with the time it was made and sent to the
+  // other open tabs; the sync leader tab also queues it for the server.
+  // Changes from other tabs or the server are applied with the refs already
+  // moved past them, so they are not recorded again.
+  useEffect(() => {
+    if (storageState.status !== 'ready') return;
+    if (holdings === syncedHoldings.current && portfolios === syncedPortfolios.current) return;
+    const stamp = { at: new Date().toISOString(), device: tabId.current };
+    const changes = {
+      runs: changedRuns(syncedHoldings.current, holdings, stamp),
+      portfolios: changedPortfolios(syncedPortfolios.current, portfolios, stamp),
+    };
+    syncedHoldings.current = holdings;
+    syncedPortfolios.current = portfolios;
+    if (isEmptyChanges(changes)) return;
+
+    recentChanges.current = rememberChanges(recentChanges.current, changes).recent;
+    tabChannel.current?.post({ type: 'changes', changes });
+    queueForSync(changes);
+  }, [holdings, portfolios, storageState.status]);
+
+  const queueForSync = (changes: SyncChanges) => {
+    if (!isSyncLeader || isEncrypted) return;
+    setSyncState(prev => prev && { ...prev, pending: [...prev.pending, changes] });
+  };
+
+  /** Applies changes from another tab or the server, settling recently touched bonds to their newest stamp. */
+  const applyExternalChanges = (changes: SyncChanges) => {
+    const { recent, resolved } = rememberChanges(recentChanges.current, changes);
+    recentChanges.current = recent;
+    setHoldings(prev => {
+      const next = applySyncRuns(prev, resolved.runs);
+      syncedHoldings.current = next;
+      return next;
+    });
+    setPortfolios(prev => {
+      const next = applySyncPortfolios(prev, resolved.portfolios);
+      syncedPortfolios.current = next;
+      return next;
+    });
+  };
+
+  // Only the leader saves the sync state; the other tabs mirror what it broadcasts
+  useEffect(() => {
+    if (storageState.status !== 'ready' || isEncrypted || !isSyncLeader) return;
+    saveStoredSync(syncState).catch(e => console.error("Failed to save sync state", e));
+    tabChannel.current?.post({ type: 'sync', state: syncState, phase: syncPhase, error: syncError });
+  }, [syncState, syncPhase, syncError, storageState.status, isEncrypted, isSyncLeader]);
+
+  // A tab that takes over from a closed leader picks up what that leader saved last
+  useEffect(() => {
+    if (!isSyncLeader || storageState.status !== 'ready' || isEncrypted) return;
+    loadStoredSync()
+      .then(stored => setSyncState(parseStoredSyncState(stored)))
+      .catch(e => console.error("Failed to load sync state", e));
+  }, [isSyncLeader]);
+
+  /** Pushes pending batches and applies what the server sends back. Only one exchange runs at a time. */
+  const runSync = async () => {
+    const state = syncStateRef.current;
+    if (!state || isSyncing.current || storageState.status !== 'ready' || isEncrypted) return;
+    if (!isSyncLeader) {
+      tabChannel.current?.post({ type: 'sync-now' });
+      return;
+    }
+    if (!navigator.onLine) {
+      setSyncPhase('offline');
+      return;
+    }
+
+    isSyncing.current = true;
+    setSyncPhase('syncing');
+    const sent = state.pending.length;
+    try {
+      const { cursor, changes } = await exchangeChanges(state.code, state.cursor, combineChanges(state.pending));
+      const current = syncStateRef.current;
+      if (current?.code !== state.code) { // stopped or re-paired meanwhile
+        setSyncPhase('idle');
+        return;
+      }
+
+      // Edits made during the exchange are newer than anything it returned
+      applyExternalChanges(changes);
+      const later = combineChanges(current.pending.slice(sent));
+      if (!isEmptyChanges(later)) applyExternalChanges(later);
+      if (!isEmptyChanges(changes)) tabChannel.current?.post({ type: 'changes', changes });
+      setSyncState(prev => prev && prev.code === state.code
+        ? { ...prev, cursor, lastSyncedAt: new Date().toISOString(), pending: prev.pending.slice(sent) }
+        : prev);
+      setSyncPhase('idle');
+      setSyncError(null);
+    } catch (e) {
+      console.error("Sync failed", e);
+      setSyncPhase(navigator.onLine ? 'error' : 'offline');
+      setSyncError(e instanceof SyncError ? e.problem : 'unreachable');
+    } finally {
+      isSyncing.current = false;
+    }
+  };
+
+  const syncRef = useRef(runSync);
+  syncRef.current = runSync;
+
+  const hasPendingSync = (syncState?.pending.length ?? 0) > 0;
+  useEffect(() => {
+    if (!hasPendingSync || !isSyncLeader) return;
+    const timer = setTimeout(() => syncRef.current(), SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [syncState?.pending.length, isSyncLeader]);
+
+  useEffect(() => {
+    if (!syncState || !isSyncLeader || storageState.status !== 'ready' || isEncrypted) return;
+    const sync = () => syncRef.current();
+    const handleOffline = () => setSyncPhase('offline');
+    const handleVisible = () => {
+      if (document.visibilityState === 'visible') sync();
+    };
+    sync();
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', handleOffline);
+    document.addEventListener('visibilitychange', handleVisible);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, [syncState?.code, isSyncLeader, storageState.status, isEncrypted]);
+
+  // --- Other Tabs ---
+  const handleTabMessage = (message: TabMessage) => {
+    if (message.type === 'reload') {
+      reloadStore();
+      return;
+    }
+    if (storageState.status !== 'ready') return;
+
+    if (message.type === 'changes') {
+      applyExternalChanges(message.changes);
+      queueForSync(message.changes);
+      setTabActivity({ count: changedBondCount(message.changes) });
+    } else if (message.type === 'sync') {
+      // Followers mirror the leader; the leader adopts pairing changes made in a follower
+      setSyncState(message.state);
+      if (!isSyncLeader) {
+        setSyncPhase(message.phase);
+        setSyncError(message.error);
+      }
+    } else if (message.type === 'claims') {
+      setClaims(message.claims);
+    } else if (message.type === 'activity') {
+      setActivity(prev => appendActivity(prev, message.entry));
+    } else if (message.type === 'sync-now' && isSyncLeader) {
+      syncRef.current();
+    }
+  };
+
+  const tabMessageRef = useRef(handleTabMessage);
+  tabMessageRef.current = handleTabMessage;
+
+  useEffect(() => {
+    const channel = openTabChannel(message => tabMessageRef.current(message));
+    tabChannel.current = channel;
+    const releaseLeadership = claimSyncLeadership(() => setIsSyncLeader(true));
+    // Unencrypted, draws live in localStorage, which reports changes from other tabs itself
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === DRAWS_STORAGE_KEY) setDraws(loadDraws());
+      if (e.key === DRAW_CALENDAR_KEY) setDrawCalendar(loadDrawCalendar(todayIso()));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      channel.close();
+      tabChannel.current = null;
+      releaseLeadership();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!tabActivity) return;
+    const timer = setTimeout(() => setTabActivity(null), TAB_ACTIVITY_MS);
+    return () => clearTimeout(timer);
+  }, [tabActivity]);
+
+  // With encryption on these are saved in the encrypted store, and only while unlocked
+  useEffect(() => {
+    if (!isEncrypted) {
+      saveDraws(draws);
+    } else if (encryptionKey && storageState.status === 'ready') {
+      saveStoredDraws(draws, encryptionKey).catch(e => console.error("Failed to save draws", e));
+    }
+  }, [draws, isEncrypted, encryptionKey, storageState.status]);
+
+  useEffect(() => {
+    if (!isEncrypted) {
+      saveDrawCalendar(drawCalendar);
+    } else if (encryptionKey && storageState.status === 'ready') {
+      saveStoredDrawCalendar(drawCalendar, encryptionKey).catch(e => console.error("Failed to save draw calendar", e));
+    }
+  }, [drawCalendar, isEncrypted, encryptionKey, storageState.status]);
 
-        if (end - start > MAX_RANGE_SIZE) { 
-          rangeSizeErrors++;
-          // Large ranges are not processed, they are kept in input
-        } else {
-          isProcessed = true; // Valid range format, we handle it
-          for (let i = start; i <= end; i++) {
-            const bondStr = i.toString().padStart(7, '0');
-            if (existingSet.has(bondStr) || batchSet.has(bondStr)) {
-              duplicatesCount++;
-            } else {
-              batchSet.add(bondStr);
-              newBondsToAdd.push(bondStr);
-            }
-          }
-        }
-      } 
-      else if (segment.includes('-')) {
-        rangeFormatErrors++;
-        // Invalid range format, kept in input
-      }
-      else {
-        // 2. Check for Single Bond
-        if (/^\d{7}$/.test(segment)) {
-          isProcessed = true; // Valid single format
-          const bondStr = segment;
-          if (existingSet.has(bondStr) || batchSet.has(bondStr)) {
-            duplicatesCount++;
-          } else {
-            batchSet.add(bondStr);
-            newBondsToAdd.push(bondStr);
-          }
-        } 
-        else {
-          singleFormatErrors++;
-          // Invalid format, kept in input
-        }
-      }
+  useEffect(() => {
+    saveListView(listView);
+  }, [listView]);
+
+  // Countdowns and reminders move on when the date changes while the app is open
+  useEffect(() => {
+    const timer = setInterval(() => setToday(todayIso()), 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isEncrypted) {
+      saveValueHistory(valueHistory);
+    } else if (encryptionKey && storageState.status === 'ready') {
+      saveStoredValueHistory(valueHistory, encryptionKey).catch(e => console.error("Failed to save value history", e));
+    }
+  }, [valueHistory, isEncrypted, encryptionKey, storageState.status]);
+
+  // History is saved separately from the runs; a failed write only costs undo steps
+  useEffect(() => {
+    if (storageState.status !== 'ready') return;
+    saveStoredHistory(history, encryptionKey).catch(e => console.error("Failed to save history", e));
+  }, [history, storageState.status, encryptionKey]);
+
+  useEffect(() => {
+    if (storageState.status !== 'ready') return;
+    saveStoredClaims(claims, encryptionKey).catch(e => console.error("Failed to save claims", e));
+  }, [claims, storageState.status, encryptionKey]);
+
+  useEffect(() => {
+    if (storageState.status !== 'ready') return;
+    saveStoredActivity(activity, encryptionKey).catch(e => console.error("Failed to save activity log", e));
+  }, [activity, storageState.status, encryptionKey]);
+
+  useEffect(() => {
+    saveHistoryLimit(historyLimit);
+    setHistory(prev => trimHistory(prev, historyLimit));
+  }, [historyLimit]);
+
+  useEffect(() => {
+    saveAutoLockMinutes(autoLockMinutes);
+  }, [autoLockMinutes]);
+
+  useEffect(() => {
+    saveLanguage(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  useEffect(() => {
+    saveNumeralSystem(numerals);
+  }, [numerals]);
+
+  useEffect(() => {
+    registerServiceWorker({
+      onOfflineReady: () => showNotification('success', translate(language, 'update.offlineReady')),
+      onUpdateReady: apply => setPendingUpdate({ apply }),
+    }).catch(e => console.error("Failed to register service worker", e));
+  }, []);
+
+  // A selection belongs to the portfolio it was made in
+  useEffect(() => {
+    setSelection(EMPTY_SELECTION);
+  }, [activePortfolioId]);
+
+  // Locking drops the key and every piece of decrypted data from memory.
+  // Nothing is written: the save effects only run while storage is ready.
+  const handleLock = () => {
+    setStorageState({ status: 'locked' });
+    setEncryptionKey(null);
+    setHoldings({});
+    persistedHoldings.current = {};
+    syncedHoldings.current = {};
+    setPortfolios([defaultPortfolio()]);
+    syncedPortfolios.current = [];
+    setSyncState(null);
+    setIsSyncOpen(false);
+    setHistory(EMPTY_HISTORY);
+    setClaims({});
+    setEditingClaim(null);
+    setActivity([]);
+    setIsActivityOpen(false);
+    setDraws([]);
+    setDrawCalendar(defaultDrawCalendar(todayIso()));
+    setValueHistory([]);
+    setInputValue('');
+    setSearchQueries({});
+    setTransferRequest(null);
+    setSelection(EMPTY_SELECTION);
+    setNotifications([]);
+    setPendingImport(null);
+    setPassphrasePrompt(null);
+    setIsClearDialogOpen(false);
+    setIsDrawCheckOpen(false);
+    setIsValuationOpen(false);
+    setIsAnalyticsOpen(false);
+    setIsQrTransferOpen(false);
+    setIsReportOpen(false);
+    setIsSecurityOpen(false);
+  };
+
+  const handleUnlock = async (passphrase: string) => {
+    const key = await unlockStore(passphrase);
+    if (!key) return false;
+    setEncryptionKey(key);
+    setStorageState({ status: 'loading' });
+    await openStore(key);
+    return true;
+  };
+
+  // Any input counts as activity; the check runs on an interval so a
+  // sleeping device locks as soon as it wakes
+  useEffect(() => {
+    if (!encryptionKey || autoLockMinutes === 0) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60_000) handleLock();
+    }, 15_000);
+
+    return () => {
+      events.forEach(name => window.removeEventListener(name, markActive));
+      clearInterval(timer);
+    };
+  }, [encryptionKey, autoLockMinutes]);
+
+  // The selected portfolio, or every portfolio tagged with its id
+  const runs = useMemo(
+    () => viewRuns(holdings, portfolios, activePortfolioId),
+    [holdings, portfolios, activePortfolioId]
+  );
+
+  // Every stored bond is re-checked against every stored draw
+  const winningMatches = useMemo(() => findWinningBonds(runs, draws), [runs, draws]);
+
+  const portfolioSummary = useMemo(() => summarizePortfolio(runs), [runs]);
+  const inputAnalysis = useMemo(
+    () => analyzeInput(inputValue, runs, normalizeSeries(batchDetails.series)),
+    [inputValue, runs, batchDetails.series]
+  );
+  // Value history tracks everything held, whichever portfolio is shown
+  const totalSummary = useMemo(() => summarizePortfolio(allRuns(holdings)), [holdings]);
+  const portfolioCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.keys(holdings).forEach(id => { counts[id] = countBonds(holdings[id]); });
+    return counts;
+  }, [holdings]);
+
+  const parsedSearch = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const winningNumbers = useMemo(() => winningIntervals(draws), [draws]);
+  const filteredListing = useMemo(
+    () => createListing(filterRuns(runs, parsedSearch, { winningNumbers })),
+    [runs, parsedSearch, winningNumbers]
+  );
+  // Selected bonds that still exist; deleted ones drop out of the selection
+  const selectedBondRuns: BondRun[] = useMemo(() => selectedRuns(runs, selection), [runs, selection]);
+  const selectedCount = useMemo(() => countBonds(selectedBondRuns), [selectedBondRuns]);
+  const shownSelectedCount = useMemo(
+    () => countBonds(selectedRuns(filteredListing.runs, selection)),
+    [filteredListing, selection]
+  );
+  const seriesOptions = useMemo(() => [...new Set(runs.map(run => run.series))].sort(), [runs]);
+  const prizeWinnings = useMemo(() => winningMatches.reduce((sum, m) => sum + m.prize, 0), [winningMatches]);
+  const claimList: ClaimEntry[] = useMemo(() => claimEntries(winningMatches, claims, today), [winningMatches, claims, today]);
+  const claimSummary: ClaimSummary = useMemo(() => summarizeClaims(claimList), [claimList]);
+  const upcomingDraw = useMemo(() => nextDraw(drawCalendar, today), [drawCalendar, today]);
+  const eligibleCount = useMemo(
+    () => (upcomingDraw ? countEligible(runs, upcomingDraw, drawCalendar.minHoldingDays) : 0),
+    [runs, upcomingDraw, drawCalendar.minHoldingDays]
+  );
+  const drawReminder = useMemo(() => dueReminder(drawCalendar, today), [drawCalendar, today]);
+
+  // Any change to the holdings (add, delete, clear) is captured as a snapshot
+  useEffect(() => {
+    if (storageState.status === 'loading' || storageState.status === 'locked') return;
+    setValueHistory(prev => recordSnapshot(prev, {
+      date: todayIso(),
+      count: totalSummary.count,
+      faceValue: totalSummary.faceValue,
+    }));
+  }, [totalSummary.count, totalSummary.faceValue, storageState.status]);
+
+  // Notifications Helper
+  const showNotification = (type: NotificationType, message: string, action?: Notification['action'], logId?: string) => {
+    const id = createId();
+    setNotifications(prev => [...prev, { id, type, message, action, logId }]);
+    // Toasts with an action stay a little longer so there is time to use it
+    setTimeout(() => {
+      setNotifications(prev => prev.filter(n => n.id !== id));
+    }, action ? 8000 : 4000);
+  };
+
+  const removeNotification = (id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  };
+
+  // Logged actions show their toast as usual, linked to the entry
+  const logActivity = (kind: ActivityKind, outcome: ActivityOutcome, message: string, details: ActivityDetails, action?: Notification['action']) => {
+    const entry = createActivityEntry(kind, outcome, message, details);
+    setActivity(prev => appendActivity(prev, entry));
+    tabChannel.current?.post({ type: 'activity', entry });
+    showNotification(outcome, message, action, entry.id);
+  };
+
+  const handleOpenLog = (logId: string | null = null) => {
+    setHighlightedActivity(logId);
+    setIsActivityOpen(true);
+  };
+
+  const handleExportActivity = () => {
+    downloadFile(`activity-log-${timestampForFilename()}.csv`, exportActivityCsv(activity), 'text/csv');
+  };
 
-      if (!isProcessed) {
-        keptSegments.push(segment);
+  // History: every add, delete, clear, import and transfer goes through commitChange
+  const commitChange = (label: string, next: Holdings, removedPortfolio?: RemovedPortfolio) => {
+    const entry = createHistoryEntry(label, holdings, next, removedPortfolio);
+    setHoldings(next);
+    if (!entry) return undefined;
+    setHistory(prev => recordHistory(prev, entry, historyLimit));
+    return { label: t('toast.undo'), onClick: () => undoRef.current(entry.id) };
+  };
+
+  /** Undoes the latest step; with an id, only if that step is still the latest. */
+  const handleUndo = (entryId?: string) => {
+    const entry = history.past[history.past.length - 1];
+    if (!entry) return;
+    if (entryId && entry.id !== entryId) {
+      showNotification('warning', t('history.undoLaterFirst'));
+      return;
+    }
+    setHoldings(revertEntry(holdings, entry));
+    const { removedPortfolio } = entry;
+    if (removedPortfolio) setPortfolios(prev => relistPortfolio(prev, removedPortfolio));
+    setHistory({ past: history.past.slice(0, -1), future: [...history.future, entry] });
+    const { added, removed } = entryCounts(entry);
+    showNotification('success', t('history.undid', { label: entry.label, restored: count(removed), removed: count(added) }));
+  };
+
+  const handleRedo = () => {
+    const entry = history.future[history.future.length - 1];
+    if (!entry) return;
+    const next = reapplyEntry(holdings, entry);
+    const { removedPortfolio } = entry;
+    if (removedPortfolio) {
+      // The active portfolio falls back to the first one if it was the deleted one
+      delete next[removedPortfolio.portfolio.id];
+      setPortfolios(prev => prev.filter(p => p.id !== removedPortfolio.portfolio.id));
+    }
+    setHoldings(next);
+    setHistory({ past: [...history.past, entry], future: history.future.slice(0, -1) });
+    showNotification('success', t('history.redid', { label: entry.label }));
+  };
+
+  // Toast actions and the key handler outlive the render that created them
+  const undoRef = useRef(handleUndo);
+  const redoRef = useRef(handleRedo);
+  undoRef.current = handleUndo;
+  redoRef.current = handleRedo;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoRef.current();
       }
-    });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-    // Update State
-    if (newBondsToAdd.length > 0) {
-      setBonds(prev => [...newBondsToAdd.reverse(), ...prev]);
+  // Logic
+  // Replaces one portfolio's runs, leaving the others untouched
+  const withRuns = (portfolioId: string, next: BondRun[]): Holdings => ({ ...holdings, [portfolioId]: next });
+
+  const describeBond = (bond: Bond) => t(bond.series ? 'bond.withSeries' : 'bond.single', { number: bond.number, series: bond.series });
+
+  const handleProcessInput = () => {
+    if (isAllView) {
+      showNotification('warning', t('app.chooseToAdd'));
+      return;
+    }
+    if (!inputValue.trim()) {
+      showNotification('warning', t('add.empty'));
+      return;
     }
 
-    // Update Input - Only keep failed/unprocessed segments
-    if (keptSegments.length === 0) {
-      setInputValue('');
-    } else {
-      setInputValue(keptSegments.join(', '));
+    const { intervals: intervalsToAdd, segments } = inputAnalysis;
+    const keptSegments = segments.filter(segment => !segment.interval).map(segment => segment.text);
+    const series = normalizeSeries(batchDetails.series);
+
+    // Duplicates (already stored in this series, or repeated within the batch)
+    // are whatever the interval subtraction leaves out
+    const { runs: nextRuns, addedRuns, added: addedCount, duplicates: duplicatesCount } = addIntervals(runs, intervalsToAdd, batchDetails);
+
+    // Update State
+    const undo = addedCount > 0
+      ? commitChange(t('step.add', { bonds: bonds(addedCount) }), withRuns(activePortfolioId, nextRuns))
+      : undefined;
+
+    // The same number in another portfolio is allowed but almost always a mistake
+    const elsewhere = heldElsewhere(holdings, activePortfolioId, series, intervalsToAdd);
+    if (elsewhere.length > 0) {
+      const where = elsewhere.map(e => `${portfolioName(portfolios, e.portfolioId)} (${count(e.count)})`).join(', ');
+      showNotification('warning', t('add.heldElsewhere', { where }));
     }
+
+    // Update Input - Only keep failed/unprocessed segments, one per line if pasted as lines
+    setInputValue(keptSegments.join(inputValue.includes('\n') ? '\n' : ', '));
     
-    // Notifications
-    if (newBondsToAdd.length > 0) {
-      let message = `Added ${newBondsToAdd.length} bond${newBondsToAdd.length > 1 ? 's' : ''}.`;
-      if (duplicatesCount > 0) message += ` ${duplicatesCount} duplicate${duplicatesCount > 1 ? 's' : ''} skipped.`;
-      if (keptSegments.length > 0) message += ` Some invalid entries remained.`;
-      
-      showNotification('success', message);
-    } else {
-      // No new bonds added
-      if (duplicatesCount > 0) {
-        // Only duplicates (and possibly errors) found
-        let message = `${duplicatesCount} duplicate${duplicatesCount > 1 ? 's' : ''} found and removed from input.`;
-        if (keptSegments.length > 0) message += ` Please check remaining entries.`;
-        
-        showNotification('warning', message);
-      } else {
-        // Only errors
-        const parts = [];
-        if (rangeSizeErrors > 0) parts.push(`${rangeSizeErrors} ranges too large (max ${MAX_RANGE_SIZE})`);
-        if (rangeFormatErrors > 0) parts.push(`${rangeFormatErrors} ranges with invalid digits`);
-        if (singleFormatErrors > 0) parts.push(`${singleFormatErrors} invalid number(s)`);
-        
-        if (parts.length > 0) {
-          showNotification('warning', `Issues: ${parts.join(', ')}.`);
-        } else {
-          showNotification('error', 'No valid bonds found.');
-        }
+    // Notifications; the reasons for anything left behind are shown under the input
+    const remaining = keptSegments.length > 0
+      ? ' ' + t(keptSegments.length === 1 ? 'add.leftToFix.one' : 'add.leftToFix', { count: count(keptSegments.length) })
+      : '';
+    const details: ActivityDetails = {
+      portfolio: viewName,
+      ranges: intervalRanges(intervalsToAdd, series),
+      counts: { added: addedCount, duplicates: duplicatesCount, invalid: keptSegments.length },
+    };
+    if (addedCount > 0) {
+      let message = t('add.added', { bonds: bonds(addedCount) });
+      if (duplicatesCount > 0) message += ' ' + t(duplicatesCount === 1 ? 'add.skipped.one' : 'add.skipped', { count: count(duplicatesCount) });
+      logActivity('add', 'success', message + remaining, details, undo);
+
+      const newWins = findWinningBonds(addedRuns, draws);
+      if (newWins.length > 0) {
+        showNotification('success', t('add.newWins', { count: count(newWins.length) }));
       }
+    } else if (duplicatesCount > 0) {
+      logActivity('add', 'warning', t(duplicatesCount === 1 ? 'add.duplicatesRemoved.one' : 'add.duplicatesRemoved', { count: count(duplicatesCount) }) + remaining, details);
+    } else {
+      logActivity('add', 'warning', t('add.nothing') + remaining, details);
     }
   };
 
-  const handleDelete = (bondToDelete: string) => {
-    setBonds(prev => prev.filter(b => b !== bondToDelete));
-    showNotification('success', `Bond ${bondToDelete} deleted.`);
+  // In the combined view bonds carry their own portfolio
+  const handleDelete = (bondToDelete: Bond) => {
+    const portfolioId = bondToDelete.portfolioId ?? activePortfolioId;
+    const value = parseInt(bondToDelete.number, 10);
+    const undo = commitChange(
+      t('step.delete', { item: bondToDelete.number }),
+      withRuns(portfolioId, removeInterval(holdings[portfolioId] ?? [], bondToDelete.series, [value, value]))
+    );
+    logActivity('delete', 'success', t('delete.done', { item: describeBond(bondToDelete) }), {
+      portfolio: portfolioName(portfolios, portfolioId),
+      ranges: intervalRanges([[value, value]], bondToDelete.series),
+      counts: { removed: 1 },
+    }, undo);
+  };
+
+  const handleDismissReminder = (drawNumber: number) => {
+    setDismissedReminder(drawNumber);
+    saveDismissedReminder(drawNumber);
+  };
+
+  const handleSaveClaim = (key: string, claim: ClaimRecord) => {
+    const next = { ...claims, [key]: claim };
+    setClaims(next);
+    setEditingClaim(null);
+    tabChannel.current?.post({ type: 'claims', claims: next });
+    showNotification('success', t('claim.marked', { status: t(`claims.status.${claim.status}`).toLowerCase() }));
+  };
+
+  const handleUpdateNotes = (bondToUpdate: Bond, notes: string) => {
+    const portfolioId = bondToUpdate.portfolioId ?? activePortfolioId;
+    const value = parseInt(bondToUpdate.number, 10);
+    const undo = commitChange(
+      t('step.noteBond', { item: bondToUpdate.number }),
+      withRuns(portfolioId, updateBond(holdings[portfolioId] ?? [], bondToUpdate.series, value, { notes }))
+    );
+    if (!undo) return;
+    logActivity('note', 'success', t(notes ? 'note.saved' : 'note.cleared', { item: describeBond(bondToUpdate) }), {
+      portfolio: portfolioName(portfolios, portfolioId),
+      ranges: intervalRanges([[value, value]], bondToUpdate.series),
+      counts: { updated: 1 },
+    }, undo);
   };
   
   const handleClearAllClick = () => {
-    if (bonds.length === 0) return;
+    if (runs.length === 0 || isAllView) return;
     setIsClearDialogOpen(true);
   };
 
   const confirmClearAll = () => {
-    setBonds([]);
-    showNotification('success', 'Database cleared successfully.');
+    const undo = commitChange(t('step.clear', { bonds: bonds(portfolioSummary.count) }), withRuns(activePortfolioId, []));
+    logActivity('clear', 'success', t('clear.done', { name: viewName }), {
+      portfolio: viewName,
+      ranges: runRanges(runs),
+      counts: { removed: portfolioSummary.count },
+    }, undo);
+  };
+
+  // --- Portfolios ---
+
+  /** Null when the name is usable; names must be non-empty and unique. */
+  const checkPortfolioName = (name: string, exceptId?: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return t('portfolio.nameEmpty');
+    if (portfolios.some(p => p.id !== exceptId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      return t('portfolio.nameTaken', { name: trimmed });
+    }
+    return null;
+  };
+
+  const handleCreatePortfolio = (name: string) => {
+    const problem = checkPortfolioName(name);
+    if (problem) return problem;
+    const portfolio = createPortfolio(name);
+    setPortfolios(prev => [...prev, portfolio]);
+    setActivePortfolioId(portfolio.id);
+    showNotification('success', t('portfolio.created', { name: portfolio.name }));
+    return null;
+  };
+
+  const handleRenamePortfolio = (id: string, name: string) => {
+    const problem = checkPortfolioName(name, id);
+    if (problem) return problem;
+    setPortfolios(prev => prev.map(p => p.id === id ? { ...p, name: name.trim() } : p));
+    return null;
+  };
+
+  const handleDeletePortfolio = (id: string) => {
+    const index = portfolios.findIndex(p => p.id === id);
+    const remaining = portfolios.filter(p => p.id !== id);
+    if (index < 0 || remaining.length === 0) return;
+    const { [id]: removed = [], ...rest } = holdings;
+    const name = portfolios[index].name;
+    const removedCount = countBonds(removed);
+    const undo = commitChange(t('step.deletePortfolio', { name }), rest, { portfolio: portfolios[index], index });
+    setPortfolios(remaining);
+    setSearchQueries(({ [id]: _, ...others }) => others);
+    if (activePortfolioId === id) setActivePortfolioId(remaining[0].id);
+    logActivity('delete', 'success', t('portfolio.deleted', { name, bonds: bonds(removedCount) }), {
+      portfolio: name,
+      ranges: runRanges(removed),
+      counts: { removed: removedCount },
+    }, undo);
+  };
+
+  const handleTransferBond = (bond: Bond) => {
+    const value = parseInt(bond.number, 10);
+    setTransferRequest({
+      runs: [{ ...bond, start: value, end: value }],
+      description: describeBond(bond),
+    });
+  };
+
+  const handleTransferShown = () => {
+    setTransferRequest({
+      runs: filteredListing.runs,
+      description: t('transfer.shown', { bonds: bonds(filteredListing.total) }),
+    });
+  };
+
+  const handleConfirmTransfer = (targetId: string, mode: TransferMode) => {
+    if (!transferRequest) return;
+    const result = transferRuns(holdings, transferRequest.runs, activePortfolioId, targetId, mode);
+    setTransferRequest(null);
+    if (result.count === 0) {
+      showNotification('warning', t('transfer.alreadyThere'));
+      return;
+    }
+
+    const target = portfolioName(portfolios, targetId);
+    const values = { count: count(result.count), bonds: bonds(result.count), target };
+    const undo = commitChange(t(mode === 'move' ? 'step.move' : 'step.copy', values), result.holdings);
+    let message = t(mode === 'move' ? 'transfer.moved' : 'transfer.copied', values);
+    if (result.added < result.count) message += ' ' + t('transfer.wereThere', { count: count(result.count - result.added) });
+    const ranges = runRanges(transferRequest.runs);
+    // A move takes bonds out of this portfolio; a copy only adds them to the other
+    if (mode === 'move') {
+      logActivity('delete', 'success', message, { portfolio: viewName, ranges, counts: { removed: result.count, added: result.added } }, undo);
+    } else {
+      logActivity('add', 'success', message, { portfolio: target, ranges, counts: { added: result.added, duplicates: result.count - result.added } }, undo);
+    }
+  };
+
+  const handleSaveDraw = (draw: Draw) => {
+    const isUpdate = draws.some(d => d.drawNumber === draw.drawNumber);
+    setDraws(prev => upsertDraw(prev, draw));
+
+    const wins = findWinningBonds(runs, [draw]);
+    const summary = wins.length === 0 ? t('draws.noWinners')
+      : t(wins.length === 1 ? 'draws.found.one' : 'draws.found', { count: count(wins.length) });
+    const saved = t(isUpdate ? 'draws.updated' : 'draws.saved', { number: count(draw.drawNumber) });
+    showNotification(wins.length > 0 ? 'success' : 'warning', `${saved} ${summary}`);
+  };
+
+  const handleDeleteDraw = (drawNumber: number) => {
+    setDraws(prev => prev.filter(d => d.drawNumber !== drawNumber));
+    showNotification('success', t('draws.deleted', { number: count(drawNumber) }));
+  };
+
+  const handleDownloadBackup = async () => {
+    try {
+      const raw = await exportRawStore();
+      downloadFile(`prize-bonds-backup-${timestampForFilename()}.json`, JSON.stringify(raw, null, 2), 'application/json');
+    } catch (e) {
+      // The database itself may be unreadable; the legacy copy is still worth saving
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY) ?? localStorage.getItem(LEGACY_BACKUP_KEY);
+      if (legacy) {
+        downloadFile(`prize-bonds-backup-${timestampForFilename()}.json`, legacy, 'application/json');
+      } else {
+        showNotification('error', t('recovery.noBackup'));
+      }
+    }
+  };
+
+  const handleResumeSaving = async () => {
+    try {
+      await resetBondStore(holdings, encryptionKey);
+      persistedHoldings.current = holdings;
+      setStorageState({ status: 'ready' });
+      showNotification('success', t('recovery.resumed'));
+    } catch (e) {
+      console.error("Failed to reset bond store", e);
+      showNotification('error', t('recovery.stillFailing'));
+    }
+  };
+
+  const downloadExport = (exported: BondRun[], format: ExportFormat) => {
+    const types: Record<ExportFormat, string> = { csv: 'text/csv', json: 'application/json', txt: 'text/plain' };
+    downloadFile(`prize-bonds-${timestampForFilename()}.${format}`, exportBonds(exported, format), types[format]);
+    showNotification('success', t('export.done', { bonds: bonds(countBonds(exported)), format: format.toUpperCase() }));
+  };
+
+  const handleExport = (format: ExportFormat) => downloadExport(runs, format);
+
+  // Reports cover what the list shows, so the search narrows them too
+  const buildReport = (options: ReportOptions) => {
+    saveReportOptions(options);
+    return createReport({
+      runs: filteredListing.runs,
+      matches: options.includeWinners ? findWinningBonds(filteredListing.runs, draws) : [],
+      options,
+      scope: viewName,
+      filter: searchQuery.trim(),
+      portfolioNameOf: id => portfolioName(portfolios, id),
+    });
+  };
+
+  const handlePrintReport = (options: ReportOptions) => {
+    printHtml(reportHtml(buildReport(options)));
+    setIsReportOpen(false);
+  };
+
+  const handleDownloadReport = (options: ReportOptions) => {
+    const report = buildReport(options);
+    downloadFile(reportFilename(report, 'pdf'), reportPdf(report), 'application/pdf');
+    setIsReportOpen(false);
+    showNotification('success', t('report.saved', { bonds: bonds(report.count) }));
+  };
+
+  // Nothing is applied until the preview is confirmed
+  const handleImportFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      if (isEncryptedBackup(text)) {
+        setPassphrasePrompt({ purpose: 'import-backup', filename: file.name, text });
+        return;
+      }
+      const parsed = parseImportFile(file.name, text, batchDetails);
+      setPendingImport({ filename: file.name, parsed, preview: previewImport(runs, parsed.runs) });
+    } catch (e) {
+      console.error("Failed to read import file", e);
+      logActivity('import', 'error', t('import.unreadable', { name: file.name }), { portfolio: viewName });
+    }
+  };
+
+  // A QR transfer is previewed like a file import
+  const handleQrReceived = (name: string, parsed: ParsedImport) => {
+    setIsQrTransferOpen(false);
+    setPendingImport({ filename: t('qr.importName', { name }), parsed, preview: previewImport(runs, parsed.runs) });
+  };
+
+  const handleBackupPassphrase = async (passphrase: string): Promise<string | null> => {
+    if (!passphrasePrompt) return null;
+
+    if (passphrasePrompt.purpose === 'export-backup') {
+      const backup = await createEncryptedBackup(exportJson(runs), passphrase);
+      downloadFile(`prize-bonds-${timestampForFilename()}.backup.json`, backup, 'application/json');
+      setPassphrasePrompt(null);
+      showNotification('success', t('backup.exported', { bonds: bonds(portfolioSummary.count) }));
+      return null;
+    }
+
+    const { filename, text } = passphrasePrompt;
+    try {
+      const content = await openEncryptedBackup(text, passphrase);
+      if (content === null) return t('passphrase.wrong');
+      const parsed = parseJsonImport(content);
+      setPassphrasePrompt(null);
+      setPendingImport({ filename, parsed, preview: previewImport(runs, parsed.runs) });
+      return null;
+    } catch (e) {
+      console.error("Failed to open encrypted backup", e);
+      return t('backup.damaged');
+    }
+  };
+
+  // Changing the passphrase re-encrypts everything under a fresh salt
+  const handleEnableEncryption = async (passphrase: string): Promise<string | null> => {
+    try {
+      const key = await encryptStore(holdings, { history, portfolios, claims, activity, draws, drawCalendar, valueHistory }, passphrase);
+      persistedHoldings.current = holdings;
+      setEncryptionKey(key);
+      setIsEncrypted(true);
+      setSyncState(null);
+      tabChannel.current?.post({ type: 'reload' });
+      showNotification('success', t(syncState ? 'security.enabledSyncStopped' : 'security.enabled'));
+      return null;
+    } catch (e) {
+      console.error("Failed to encrypt storage", e);
+      return t('security.encryptFailed');
+    }
+  };
+
+  const handleChangePassphrase = async (current: string, next: string): Promise<string | null> => {
+    if (!(await unlockStore(current))) return t('security.currentWrong');
+    try {
+      const key = await encryptStore(holdings, { history, portfolios, claims, activity, draws, drawCalendar, valueHistory }, next);
+      persistedHoldings.current = holdings;
+      setEncryptionKey(key);
+      tabChannel.current?.post({ type: 'reload' });
+      showNotification('success', t('security.changed'));
+      return null;
+    } catch (e) {
+      console.error("Failed to re-encrypt storage", e);
+      return t('security.reencryptFailed');
+    }
+  };
+
+  const handleDisableEncryption = async (current: string): Promise<string | null> => {
+    if (!(await unlockStore(current))) return t('security.currentWrong');
+    try {
+      await decryptStore(holdings, { history, portfolios, claims, activity, draws, drawCalendar, valueHistory });
+      persistedHoldings.current = holdings;
+      setEncryptionKey(null);
+      setIsEncrypted(false);
+      tabChannel.current?.post({ type: 'reload' });
+      showNotification('warning', t('security.disabled'));
+      return null;
+    } catch (e) {
+      console.error("Failed to decrypt storage", e);
+      return t('security.decryptFailed');
+    }
+  };
+
+  // Pairing is decided in any tab but carried out by the leader
+  const shareSyncState = (state: SyncState | null) => {
+    setSyncState(state);
+    setSyncPhase('idle');
+    setSyncError(null);
+    if (!isSyncLeader) tabChannel.current?.post({ type: 'sync', state, phase: 'idle', error: null });
+  };
+
+  const pairDevice = (code: string) => {
+    syncedHoldings.current = holdings;
+    syncedPortfolios.current = portfolios;
+    shareSyncState(createSyncState(code, holdings, portfolios));
+  };
+
+  const handleStartSync = async (): Promise<string | null> => {
+    try {
+      const code = await requestSyncCode();
+      pairDevice(code);
+      showNotification('success', t('sync.started'));
+      return null;
+    } catch (e) {
+      console.error("Failed to start sync", e);
+      return t(navigator.onLine ? 'sync.noCode' : 'sync.needConnection');
+    }
+  };
+
+  const handleJoinSync = async (input: string): Promise<string | null> => {
+    const code = normalizeSyncCode(input);
+    if (!code) return t('sync.badCode');
+    try {
+      await verifySyncCode(code);
+    } catch (e) {
+      console.error("Failed to join sync", e);
+      return t(`sync.problem.${e instanceof SyncError ? e.problem : 'unreachable'}`);
+    }
+    pairDevice(code);
+    showNotification('success', t('sync.joined'));
+    return null;
+  };
+
+  // Only this device leaves; the synced data stays for the others
+  const handleStopSync = () => {
+    shareSyncState(null);
+    setIsSyncOpen(false);
+    showNotification('warning', t('sync.stopped'));
+  };
+
+  const handleApplyImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    const { parsed, preview } = pendingImport;
+    const undo = commitChange(t('step.import', { name: pendingImport.filename }), withRuns(activePortfolioId, applyImport(runs, parsed.runs, mode)));
+    setPendingImport(null);
+
+    const ranges = runRanges(parsed.runs);
+    const invalid = parsed.invalid.length;
+    if (mode === 'replace') {
+      const total = preview.newCount + preview.duplicateCount + preview.conflictCount;
+      logActivity('import', 'success', t('import.replaced', { bonds: bonds(total), name: pendingImport.filename }), {
+        portfolio: viewName,
+        ranges,
+        counts: { added: total, removed: countBonds(runs), invalid },
+      }, undo);
+    } else {
+      const values = { count: count(preview.newCount), name: pendingImport.filename };
+      let message = t(preview.newCount === 1 ? 'import.merged.one' : 'import.merged', values);
+      const updated = mode === 'merge-overwrite' ? preview.conflictCount : 0;
+      if (updated > 0) message += ' ' + t('import.updated', { count: count(updated) });
+      logActivity('import', 'success', message, {
+        portfolio: viewName,
+        ranges,
+        counts: { added: preview.newCount, duplicates: preview.duplicateCount, updated, invalid },
+      }, undo);
+    }
+
+    const newWins = findWinningBonds(parsed.runs, draws).length;
+    if (newWins > 0) {
+      showNotification('success', t('import.newWins', { count: count(newWins) }));
+    }
   };
 
   const handleCopy = async (text: string) => {
+    const details: ActivityDetails = { portfolio: viewName, ranges: [text] };
     try {
       await navigator.clipboard.writeText(text);
-      showNotification('success', `Copied ${text}`);
+      const range = matchBondRange(text);
+      logActivity('copy', 'success', t('copy.text', { text }), { ...details, counts: { copied: range ? range[1] - range[0] + 1 : 1 } });
+    } catch (err) {
+      logActivity('copy', 'error', t('copy.failed'), details);
+    }
+  };
+
+  // --- Selection ---
+
+  const handleSelect = (picked: BondRun[], selected: boolean) => {
+    setSelection(prev => selected ? addToSelection(prev, picked) : removeFromSelection(prev, picked));
+  };
+
+  /** Applies `change` to each run's portfolio; runs in the combined view name their own. */
+  const changeRuns = (target: BondRun[], change: (list: BondRun[], run: BondRun) => BondRun[]): Holdings => {
+    const next = { ...holdings };
+    target.forEach(({ portfolioId, ...run }) => {
+      const id = portfolioId ?? activePortfolioId;
+      next[id] = change(next[id] ?? [], run);
+    });
+    return next;
+  };
+
+  const handleDeleteSelected = () => {
+    if (selectedCount === 0) return;
+    const next = changeRuns(selectedBondRuns, (list, run) => removeInterval(list, run.series, [run.start, run.end]));
+    const undo = commitChange(t('step.deleteSelected', { count: count(selectedCount) }), next);
+    setSelection(EMPTY_SELECTION);
+    logActivity('delete', 'success', t('delete.bonds', { bonds: bonds(selectedCount) }), {
+      portfolio: viewName,
+      ranges: runRanges(selectedBondRuns),
+      counts: { removed: selectedCount },
+    }, undo);
+  };
+
+  const handleDeleteRuns = (target: BondRun[]) => {
+    const deleted = countBonds(target);
+    if (deleted === 0) return;
+    const ranges = runRanges(target);
+    const range = ranges.length > 2
+      ? `${ranges.slice(0, 2).join(', ')} ${t('diag.andMore', { count: count(ranges.length - 2) })}`
+      : ranges.join(', ');
+    const undo = commitChange(t('step.delete', { item: range }), changeRuns(target, (list, run) => removeInterval(list, run.series, [run.start, run.end])));
+    logActivity('delete', 'success', t('delete.bondsIn', { bonds: bonds(deleted), range }), {
+      portfolio: viewName,
+      ranges,
+      counts: { removed: deleted },
+    }, undo);
+  };
+
+  const handleCopySelected = async () => {
+    const details: ActivityDetails = { portfolio: viewName, ranges: runRanges(selectedBondRuns) };
+    try {
+      await navigator.clipboard.writeText(listingNumbers(createListing(selectedBondRuns)).join(', '));
+      logActivity('copy', 'success', t('copy.selected', { bonds: bonds(selectedCount) }), { ...details, counts: { copied: selectedCount } });
     } catch (err) {
-      showNotification('error', 'Failed to copy');
+      logActivity('copy', 'error', t('copy.failed'), details);
     }
   };
 
-  const filteredBondsForCopy = useMemo(() => {
-    if (!searchQuery) return bonds;
-    return bonds.filter(b => b.includes(searchQuery));
-  }, [bonds, searchQuery]);
+  const handleExportSelected = (format: ExportFormat) => downloadExport(selectedBondRuns, format);
+
+  // A bulk edit is one step, undone for all the selected bonds at once
+  const handleAnnotateSelected = (text: string, mode: AnnotateMode) => {
+    const update = mode === 'tag' ? (notes: string) => addNoteTag(notes, text) : () => text;
+    const next = changeRuns(selectedBondRuns, (list, run) => updateNotes(list, run.series, [run.start, run.end], update));
+    const values = { count: count(selectedCount), bonds: bonds(selectedCount), tag: text.replace(/^#+/, '') };
+    const undo = commitChange(t(mode === 'tag' ? 'step.tag' : 'step.note', values), next);
+    if (!undo) {
+      showNotification('warning', t(mode === 'tag' ? 'bulk.hasTag' : 'bulk.hasNote'));
+      return;
+    }
+    showNotification('success', t(mode === 'tag' ? 'bulk.tagged' : 'bulk.noted', values), undo);
+  };
 
   const handleCopyAll = async () => {
-    if (filteredBondsForCopy.length === 0) {
-      showNotification('warning', 'No bonds to copy.');
+    if (filteredListing.total === 0) {
+      showNotification('warning', t('copy.nothing'));
       return;
     }
     
+    const details: ActivityDetails = { portfolio: viewName, ranges: runRanges(filteredListing.runs) };
     try {
-      const text = filteredBondsForCopy.join(', ');
+      // Runs are copied as ranges, the same form the input reads back
+      const text = listingRanges(filteredListing).join(', ');
       await navigator.clipboard.writeText(text);
-      showNotification('success', `Copied ${filteredBondsForCopy.length} bonds.`);
+      logActivity('copy', 'success', t('copy.bonds', { bonds: bonds(filteredListing.total) }), { ...details, counts: { copied: filteredListing.total } });
     } catch (err) {
-      showNotification('error', 'Failed to copy');
+      logActivity('copy', 'error', t('copy.failed'), details);
     }
   };
 
   return (
+    <DisplayContext.Provider value={display}>
     <div className="fixed inset-0 flex flex-col font-sans selection:bg-indigo-500/30 overflow-hidden">
-      <NotificationToast notifications={notifications} removeNotification={removeNotification} />
+      <NotificationToast notifications={notifications} removeNotification={removeNotification} onOpenLog={handleOpenLog} />
+      <SyncModal
+        isOpen={isSyncOpen}
+        onClose={() => setIsSyncOpen(false)}
+        state={syncState}
+        phase={syncPhase}
+        error={syncError}
+        isEncrypted={isEncrypted}
+        onStart={handleStartSync}
+        onJoin={handleJoinSync}
+        onSyncNow={() => syncRef.current()}
+        onStop={handleStopSync}
+      />
+      {pendingUpdate && <UpdatePrompt onReload={pendingUpdate.apply} onDismiss={() => setPendingUpdate(null)} />}
       <ConfirmationModal 
         isOpen={isClearDialogOpen} 
         onClose={() => setIsClearDialogOpen(false)} 
         onConfirm={confirmClearAll} 
-        count={bonds.length} 
+        count={portfolioSummary.count} 
+      />
+      <DrawCheckModal
+        isOpen={isDrawCheckOpen}
+        onClose={() => setIsDrawCheckOpen(false)}
+        draws={draws}
+        matches={winningMatches}
+        bondCount={portfolioSummary.count}
+        onSaveDraw={handleSaveDraw}
+        onDeleteDraw={handleDeleteDraw}
+      />
+      <ValuationModal
+        isOpen={isValuationOpen}
+        onClose={() => setIsValuationOpen(false)}
+        summary={portfolioSummary}
+        prizeWinnings={prizeWinnings}
+        history={valueHistory}
       />
+      <AnalyticsModal
+        isOpen={isAnalyticsOpen}
+        onClose={() => setIsAnalyticsOpen(false)}
+        runs={runs}
+        summary={portfolioSummary}
+        matches={winningMatches}
+        portfolios={portfolios}
+      />
+      <ActivityLogModal
+        isOpen={isActivityOpen}
+        onClose={() => setIsActivityOpen(false)}
+        log={activity}
+        highlightId={highlightedActivity}
+        onExport={handleExportActivity}
+      />
+      <ReportModal
+        isOpen={isReportOpen}
+        onClose={() => setIsReportOpen(false)}
+        count={filteredListing.total}
+        filter={searchQuery.trim()}
+        onPrint={handlePrintReport}
+        onDownload={handleDownloadReport}
+      />
+      <QrTransferModal
+        isOpen={isQrTransferOpen}
+        onClose={() => setIsQrTransferOpen(false)}
+        runs={runs}
+        name={viewName}
+        canReceive={!isAllView}
+        onReceived={handleQrReceived}
+      />
+      <ImportPreviewModal
+        pending={pendingImport}
+        currentCount={portfolioSummary.count}
+        onClose={() => setPendingImport(null)}
+        onApply={handleApplyImport}
+      />
+      <DrawCalendarModal
+        isOpen={isCalendarOpen}
+        onClose={() => setIsCalendarOpen(false)}
+        calendar={drawCalendar}
+        runs={runs}
+        today={today}
+        onChange={setDrawCalendar}
+      />
+      {editingClaim && (
+        <ClaimModal
+          entry={editingClaim}
+          onClose={() => setEditingClaim(null)}
+          onSave={handleSaveClaim}
+        />
+      )}
+      <TransferModal
+        request={transferRequest}
+        portfolios={portfolios}
+        sourceId={activePortfolioId}
+        onClose={() => setTransferRequest(null)}
+        onConfirm={handleConfirmTransfer}
+      />
+      <SecurityModal
+        isOpen={isSecurityOpen}
+        onClose={() => setIsSecurityOpen(false)}
+        isEncrypted={isEncrypted}
+        canChange={storageState.status === 'ready'}
+        autoLockMinutes={autoLockMinutes}
+        onChangeAutoLock={setAutoLockMinutes}
+        onEnable={handleEnableEncryption}
+        onChangePassphrase={handleChangePassphrase}
+        onDisable={handleDisableEncryption}
+      />
+      {passphrasePrompt && (
+        <PassphraseModal
+          title={t(passphrasePrompt.purpose === 'export-backup' ? 'backup.exportTitle' : 'backup.openTitle')}
+          description={passphrasePrompt.purpose === 'export-backup'
+            ? t('backup.exportPrompt')
+            : t('backup.openPrompt', { name: passphrasePrompt.filename })}
+          submitLabel={t(passphrasePrompt.purpose === 'export-backup' ? 'backup.export' : 'backup.open')}
+          isNew={passphrasePrompt.purpose === 'export-backup'}
+          onSubmit={handleBackupPassphrase}
+          onClose={() => setPassphrasePrompt(null)}
+        />
+      )}
       
       {/* Header */}
       <header className="flex-none pt-4 pb-2 px-4 sm:px-6 z-20">
@@ -592,33 +5782,167 @@ const PrizeBondApp = () => {
               <Database className="text-white" size={20} />
             </div>
             <div>
-              <h1 className="text-lg font-bold text-slate-900 dark:text-white tracking-tight leading-none transition-colors">Bond Manager</h1>
-              <p className="text-[11px] text-slate-500 dark:text-slate-400 font-medium tracking-wide uppercase mt-0.5 transition-colors">Secure Storage</p>
+              <h1 className="text-lg font-bold text-slate-900 dark:text-white tracking-tight leading-none transition-colors">{t('app.title')}</h1>
+              <p className="text-[11px] text-slate-500 dark:text-slate-400 font-medium tracking-wide uppercase mt-0.5 transition-colors">
+                {t(isEncrypted ? 'app.storageEncrypted' : 'app.storageLocal')}
+              </p>
             </div>
+            {storageState.status !== 'locked' && (
+              <PortfolioSwitcher
+                portfolios={portfolios}
+                activeId={activePortfolioId}
+                counts={portfolioCounts}
+                totalCount={totalSummary.count}
+                onSelect={setActivePortfolioId}
+                onCreate={handleCreatePortfolio}
+                onRename={handleRenamePortfolio}
+                onDelete={handleDeletePortfolio}
+              />
+            )}
           </div>
           
-          {/* Theme Toggle - REMOVED */}
+          <div className="flex items-center gap-1">
+            <DisplaySettings
+              language={language}
+              numerals={numerals}
+              onChangeLanguage={setLanguage}
+              onChangeNumerals={setNumerals}
+            />
+            {storageState.status !== 'locked' && (
+            <>
+              <HistoryControls
+                history={history}
+                limit={historyLimit}
+                onUndo={() => handleUndo()}
+                onRedo={handleRedo}
+                onChangeLimit={setHistoryLimit}
+              />
+              <button
+                onClick={() => handleOpenLog()}
+                className="p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title={t('activity.title')}
+              >
+                <ScrollText size={18} />
+              </button>
+              {tabActivity && <TabActivity count={tabActivity.count} />}
+              <SyncIndicator state={syncState} phase={syncPhase} onClick={() => setIsSyncOpen(true)} />
+              <button
+                onClick={() => setIsSecurityOpen(true)}
+                className="p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                title={t('security.title')}
+              >
+                {isEncrypted ? <ShieldCheck size={18} className="text-emerald-600 dark:text-emerald-400" /> : <Shield size={18} />}
+              </button>
+              {encryptionKey && (
+                <button
+                  onClick={handleLock}
+                  className="p-2 rounded-xl text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+                  title={t('security.lockNow')}
+                >
+                  <Lock size={18} />
+                </button>
+              )}
+            </>
+            )}
+          </div>
         </div>
       </header>
 
       {/* Main Content - Unified Column Layout */}
       <main className="flex-1 flex flex-col overflow-hidden w-full max-w-5xl mx-auto p-4 sm:p-6">
-        <AddBondsPanel 
-          inputValue={inputValue} 
-          setInputValue={setInputValue} 
-          onSave={handleProcessInput} 
-        />
-        <BondListPanel 
-          bonds={bonds}
-          searchQuery={searchQuery}
-          setSearchQuery={setSearchQuery}
-          handleCopyAll={handleCopyAll}
-          handleClearAll={handleClearAllClick}
-          handleCopy={handleCopy}
-          handleDelete={handleDelete}
-        />
+        {storageState.status === 'locked' ? (
+          <LockScreen onUnlock={handleUnlock} />
+        ) : (
+          <>
+            {storageState.status === 'recovery' && (
+              <RecoveryBanner
+                problem={storageState.problem}
+                damaged={storageState.damaged ?? 0}
+                bondCount={totalSummary.count}
+                onDownloadBackup={handleDownloadBackup}
+                onResume={handleResumeSaving}
+              />
+            )}
+            {drawReminder && drawReminder.draw.drawNumber !== dismissedReminder && (
+              <DrawReminderBanner
+                reminder={drawReminder}
+                eligibleCount={eligibleCount}
+                totalCount={portfolioSummary.count}
+                onOpenCalendar={() => setIsCalendarOpen(true)}
+                onDismiss={() => handleDismissReminder(drawReminder.draw.drawNumber)}
+              />
+            )}
+            {isAllView ? (
+              <div className="flex-none mb-6 flex items-center gap-2 px-4 py-3 rounded-2xl border border-dashed border-slate-300 dark:border-white/10 text-sm text-slate-500 dark:text-slate-400">
+                <Layers size={16} />
+                {t('app.chooseToAdd')}
+              </div>
+            ) : (
+              <AddBondsPanel 
+                inputValue={inputValue} 
+                setInputValue={setInputValue} 
+                batchDetails={batchDetails}
+                setBatchDetails={setBatchDetails}
+                onSave={handleProcessInput} 
+                analysis={inputAnalysis}
+              />
+            )}
+            <ClaimsDashboard
+              entries={claimList}
+              summary={claimSummary}
+              onOpenClaim={setEditingClaim}
+            />
+            <BondListPanel 
+              listing={filteredListing}
+              totalCount={portfolioSummary.count}
+              isLoading={storageState.status === 'loading'}
+              searchQuery={searchQuery}
+              setSearchQuery={setSearchQuery}
+              searchError={parsedSearch.error}
+              seriesOptions={seriesOptions}
+              handleCopyAll={handleCopyAll}
+              handleClearAll={handleClearAllClick}
+              handleCopy={handleCopy}
+              handleDelete={handleDelete}
+              handleUpdateNotes={handleUpdateNotes}
+              handleCheckDraw={() => setIsDrawCheckOpen(true)}
+              winCount={winningMatches.length}
+              faceValue={portfolioSummary.faceValue}
+              handleShowValuation={() => setIsValuationOpen(true)}
+              handleShowAnalytics={() => setIsAnalyticsOpen(true)}
+              handleShowReport={() => setIsReportOpen(true)}
+              handleShowQrTransfer={() => setIsQrTransferOpen(true)}
+              drawCalendar={drawCalendar}
+              upcomingDraw={upcomingDraw}
+              eligibleCount={eligibleCount}
+              today={today}
+              handleShowCalendar={() => setIsCalendarOpen(true)}
+              handleExport={handleExport}
+              handleImportFile={handleImportFile}
+              handleExportEncrypted={() => setPassphrasePrompt({ purpose: 'export-backup' })}
+              listView={listView}
+              setListView={setListView}
+              handleDeleteRuns={handleDeleteRuns}
+              portfolios={portfolios}
+              canEdit={!isAllView}
+              canTransfer={portfolios.length > 1}
+              handleTransferBond={handleTransferBond}
+              handleTransferShown={handleTransferShown}
+              selection={selection}
+              selectedCount={selectedCount}
+              shownSelectedCount={shownSelectedCount}
+              handleSelect={handleSelect}
+              handleClearSelection={() => setSelection(EMPTY_SELECTION)}
+              handleCopySelected={handleCopySelected}
+              handleDeleteSelected={handleDeleteSelected}
+              handleExportSelected={handleExportSelected}
+              handleAnnotateSelected={handleAnnotateSelected}
+            />
+          </>
+        )}
       </main>
     </div>
+    </DisplayContext.Provider>
   );
 };
 
@@ -0,0 +1,53 @@
+// --- Offline Cache ---
+// Built into sw.js by the service worker plugin in vite.config.ts, which
+// fills in the build's file list and a version derived from its contents.
+// Every file of a build is cached on install; a new build waits until the
+// page asks it to take over (the update prompt), so one page never mixes
+// files from two builds.
+
+const PRECACHE_URLS = self.__PRECACHE_URLS__;
+const CACHE_NAME = `bond-manager-${self.__BUILD_VERSION__}`;
+const APP_SHELL = '/';
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS.map(url => new Request(url, { cache: 'reload' }))))
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('bond-manager-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+// Precached files come from the cache first; anything else (other origins,
+// API calls) goes to the network untouched.
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.open(CACHE_NAME)
+        .then(cache => cache.match(APP_SHELL))
+        .then(cached => cached ?? fetch(request))
+    );
+    return;
+  }
+
+  if (!PRECACHE_URLS.includes(url.pathname)) return;
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.match(url.pathname))
+      .then(cached => cached ?? fetch(request))
+  );
+});
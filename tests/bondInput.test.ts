@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { analyzeInput } from '../utils/bondInput';
+import { BondRun } from '../utils/bondStore';
+
+const stored: BondRun[] = [{ series: 'KA', start: 450000, end: 450009, denomination: 100, acquiredAt: '', notes: '' }];
+
+const statuses = (input: string) => analyzeInput(input, stored, 'KA').segments.map(s => s.status);
+
+describe('add panel analysis', () => {
+  it('accepts a range over the whole number space', () => {
+    const analysis = analyzeInput('0000000-9999999', [], '');
+    assert.deepEqual(analysis.segments.map(s => s.status), ['valid']);
+    assert.equal(analysis.newCount, 10_000_000);
+  });
+
+  it('marks digits of the wrong length as out of range', () => {
+    assert.deepEqual(statuses('12345678 045 0450000-45 99999999-99999999'), ['out-of-range', 'out-of-range', 'out-of-range', 'out-of-range']);
+  });
+
+  it('says which part of a range has the wrong number of digits', () => {
+    const reasons = analyzeInput('045-0450000 0450000-45 045', [], '').segments.map(s => s.reason);
+    assert.deepEqual(reasons, [
+      { code: 'digits', part: 'start', length: 3 },
+      { code: 'digits', part: 'end', length: 2 },
+      { code: 'digits', part: 'number', length: 3 },
+    ]);
+  });
+
+  it('marks anything else that is not a number or range as malformed', () => {
+    assert.deepEqual(statuses('abc 04500O0 0450000-'), ['malformed', 'malformed', 'malformed']);
+  });
+
+  it('counts stored and repeated numbers as duplicates', () => {
+    const analysis = analyzeInput('0450005-0450014, 0450012', stored, 'KA');
+    assert.deepEqual(analysis.segments.map(s => s.status), ['valid', 'duplicate']);
+    assert.equal(analysis.newCount, 5);
+    assert.equal(analysis.duplicateCount, 6);
+    assert.equal(analysis.invalidCount, 0);
+    assert.deepEqual(analysis.segments[0].reason, { code: 'counts', size: 10, fresh: 5, held: 5, repeated: 0 });
+    assert.deepEqual(analysis.segments[1].reason, { code: 'counts', size: 1, fresh: 0, held: 0, repeated: 1 });
+  });
+});
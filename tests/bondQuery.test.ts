@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { filterRuns, parseQuery } from '../utils/bondQuery';
+import { BondRun } from '../utils/bondStore';
+
+// Queries are compiled with parseQuery and run against a few holdings;
+// errors are checked by problem code and position, as the interface shows them.
+
+const run = (series: string, start: number, end: number, notes = ''): BondRun =>
+  ({ series, start, end, denomination: 100, acquiredAt: '2026-03-10', notes });
+
+const runs = [run('KA', 450000, 450009, 'gift'), run('KHA', 460000, 460004), run('KA', 500000, 500000)];
+const context = { winningNumbers: [] };
+const today = '2026-04-15';
+
+const search = (query: string) => {
+  const parsed = parseQuery(query, today);
+  assert.equal(parsed.error, null, `${query} should compile`);
+  return filterRuns(runs, parsed, context).map(r => [r.series, r.start, r.end]);
+};
+
+const problem = (query: string) => {
+  const { error } = parseQuery(query, today);
+  assert.ok(error, `${query} should not compile`);
+  return { problem: error.problem, position: error.position };
+};
+
+describe('bond search queries', () => {
+  it('matches everything for an empty query', () => {
+    assert.equal(search('   ').length, runs.length);
+  });
+
+  it('clips runs to a range', () => {
+    assert.deepEqual(search('0450005-0460001'), [['KA', 450005, 450009], ['KHA', 460000, 460001]]);
+  });
+
+  it('joins bare numbers around a standalone dash into a range', () => {
+    assert.deepEqual(search('0450005 - 0460001'), search('0450005-0460001'));
+    assert.deepEqual(search('(0450008 - 0450009)'), [['KA', 450008, 450009]]);
+  });
+
+  it('does not join a field term across a standalone dash', () => {
+    assert.deepEqual(problem('series:123 - 456'), { problem: 'dash', position: 11 });
+    assert.deepEqual(problem('- 0450000'), { problem: 'dash', position: 0 });
+  });
+
+  it('reports a range missing its end', () => {
+    assert.deepEqual(problem('0450000 -'), { problem: 'range-end', position: 8 });
+    assert.deepEqual(problem('0450000 - KA'), { problem: 'range-end', position: 8 });
+    assert.deepEqual(problem('0450000-'), { problem: 'range-end', position: 7 });
+  });
+
+  it('combines terms with AND, OR and NOT', () => {
+    assert.deepEqual(search('series:KA note:gift'), [['KA', 450000, 450009]]);
+    assert.deepEqual(search('series:KHA OR 0500000'), [['KHA', 460000, 460004], ['KA', 500000, 500000]]);
+    assert.deepEqual(search('series:KA -0450002-0450008'), [['KA', 450000, 450001], ['KA', 450009, 450009], ['KA', 500000, 500000]]);
+  });
+
+  it('matches digit patterns within a run', () => {
+    assert.deepEqual(search('*03'), [['KA', 450003, 450003], ['KHA', 460003, 460003]]);
+  });
+
+  it('reports unbalanced parentheses', () => {
+    assert.equal(problem('(series:KA').problem, 'unclosed');
+    assert.equal(problem('series:KA)').problem, 'unmatched');
+  });
+});
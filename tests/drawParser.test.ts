@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseDrawResultText } from '../utils/drawParser';
+
+// Result text as it comes out of the published PDF: headers, prize amounts
+// and numbers in columns, sometimes in Bangla digits.
+
+const RESULT = `
+Bangladesh Bank
+118th Prize Bond Draw held on 31 October 2024
+1st Prize Tk. 6,00,000/-
+0544222
+2nd Prize Tk. 3,25,000/- each
+0278405
+3rd Prize Tk. 1,00,000/- each
+0147307   0854960
+4th Prize Tk. 50,000/- each
+0076215   0196528
+5th Prize Tk. 10,000/- each
+0014281   0035409   0088123
+`;
+
+describe('parseDrawResultText', () => {
+  it('reads the draw, its date and the winners under each prize heading', () => {
+    const parsed = parseDrawResultText(RESULT);
+    assert.equal(parsed.drawNumber, 118);
+    assert.equal(parsed.drawDate, '2024-10-31');
+    assert.deepEqual(parsed.winners, {
+      1: ['0544222'],
+      2: ['0278405'],
+      3: ['0147307', '0854960'],
+      4: ['0076215', '0196528'],
+      5: ['0014281', '0035409', '0088123'],
+    });
+    assert.deepEqual(parsed.unplaced, []);
+  });
+
+  it('reads Bangla digits', () => {
+    const parsed = parseDrawResultText('Draw No. ১১৮\n1st Prize\n০৫৪৪২২২');
+    assert.equal(parsed.drawNumber, 118);
+    assert.deepEqual(parsed.winners[1], ['0544222']);
+  });
+
+  it('reports numbers before any prize heading', () => {
+    const { unplaced, winners } = parseDrawResultText('0544222 0278405\n1st Prize\n0147307');
+    assert.deepEqual(unplaced, [{ lineNumber: 1, text: '0544222 0278405', reason: { code: 'no-heading', count: 2 } }]);
+    assert.deepEqual(winners[1], ['0147307']);
+  });
+
+  it('reports malformed and repeated numbers with their line', () => {
+    const { unplaced, winners } = parseDrawResultText('1st Prize\n0544222\n2nd Prize\n0544222 12345 0278405');
+    assert.deepEqual(winners[2], ['0278405']);
+    assert.deepEqual(unplaced, [
+      { lineNumber: 4, text: '0544222 12345 0278405', reason: { code: 'malformed', tokens: ['12345'] } },
+      { lineNumber: 4, text: '0544222 12345 0278405', reason: { code: 'repeated', numbers: [{ number: '0544222', tier: 1 }] } },
+    ]);
+  });
+
+  it('keeps the first draw number and date and reports disagreeing repeats', () => {
+    const { drawNumber, drawDate, unplaced } = parseDrawResultText('Draw No. 118 31/10/2024\nDraw No. 119\n2024-11-01');
+    assert.equal(drawNumber, 118);
+    assert.equal(drawDate, '2024-10-31');
+    assert.deepEqual(unplaced.map(line => line.reason), [
+      { code: 'draw-number', drawNumber: 119 },
+      { code: 'draw-date', date: '2024-11-01' },
+    ]);
+  });
+});
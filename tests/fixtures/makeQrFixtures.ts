@@ -0,0 +1,57 @@
+import { readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ALPHANUMERIC_CHARSET, encodeQr } from '../../utils/qrCode';
+import { createTransferFrames } from '../../utils/qrTransfer';
+import { writePng } from '../png';
+import { MULTI_NAME, SINGLE_NAME, multiRuns, singleRuns } from './qrPortfolios';
+
+// --- Rendering the QR Fixtures ---
+// Draws the transfer frames of the fixture portfolios as PNGs, the way the
+// sender shows them: error correction M, with a four-module quiet zone.
+//
+//   npx tsx tests/fixtures/makeQrFixtures.ts
+//
+// single.png     the small portfolio in one frame
+// multi-N.png    chunk N of the larger portfolio
+// damaged.png    chunk 2 with one character changed after its checksum was
+//                taken, as a garbled screen would show it
+
+const DIR = join(import.meta.dirname, 'qr');
+const SCALE = 4; // pixels per module
+const MARGIN = 4; // modules
+
+const render = (frame: string) => {
+  const code = encodeQr(frame, 'M');
+  if (!code) throw new Error(`Frame too long for a QR code: ${frame.length} characters`);
+  const side = (code.size + MARGIN * 2) * SCALE;
+  const grey = new Uint8Array(side * side).fill(255);
+  code.modules.forEach((row, r) => row.forEach((dark, c) => {
+    if (!dark) return;
+    for (let y = 0; y < SCALE; y++) grey.fill(0, ((r + MARGIN) * SCALE + y) * side + (c + MARGIN) * SCALE, ((r + MARGIN) * SCALE + y) * side + (c + MARGIN + 1) * SCALE);
+  }));
+  return writePng(side, side, grey);
+};
+
+/** The frame with its last character swapped for another one. */
+const garble = (frame: string) => {
+  const last = frame[frame.length - 1];
+  const replacement = ALPHANUMERIC_CHARSET[(ALPHANUMERIC_CHARSET.indexOf(last) + 1) % ALPHANUMERIC_CHARSET.length];
+  return frame.slice(0, -1) + replacement;
+};
+
+const main = async () => {
+  readdirSync(DIR).filter(name => name.endsWith('.png')).forEach(name => rmSync(join(DIR, name)));
+
+  const [single, ...extra] = await createTransferFrames(singleRuns, SINGLE_NAME);
+  if (extra.length > 0) throw new Error('The single-frame portfolio no longer fits one frame');
+  writeFileSync(join(DIR, 'single.png'), render(single));
+
+  const frames = await createTransferFrames(multiRuns, MULTI_NAME);
+  if (frames.length < 3) throw new Error('The multi-frame portfolio needs at least three frames');
+  frames.forEach((frame, i) => writeFileSync(join(DIR, `multi-${i + 1}.png`), render(frame)));
+  writeFileSync(join(DIR, 'damaged.png'), render(garble(frames[1])));
+
+  console.log(`Wrote single.png, multi-1.png to multi-${frames.length}.png and damaged.png`);
+};
+
+main();
@@ -0,0 +1,42 @@
+import { BondRun, normalizeRuns } from '../../utils/bondStore';
+
+// --- QR Transfer Fixtures ---
+// The portfolios drawn into the PNGs in ./qr. makeQrFixtures.ts renders
+// them and the tests expect them back, so changing either means rendering
+// the pictures again.
+
+export const SINGLE_NAME = 'Savings';
+
+/** Small enough for one frame. */
+export const singleRuns: BondRun[] = normalizeRuns([
+  { series: 'KA', start: 450000, end: 450099, denomination: 100, acquiredAt: '2024-01-15', notes: '' },
+  { series: 'KA', start: 1234567, end: 1234567, denomination: 100, acquiredAt: '2024-01-15', notes: 'gift' },
+  { series: '', start: 9000000, end: 9000009, denomination: 500, acquiredAt: '', notes: '' },
+]);
+
+export const MULTI_NAME = 'Family sheets';
+
+/** Scattered numbers deflate poorly, so these need several frames. */
+export const multiRuns: BondRun[] = (() => {
+  let seed = 20240115;
+  const next = () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed;
+  };
+  const runs: BondRun[] = [];
+  let start = 100000;
+  for (let i = 0; i < 240; i++) {
+    start += 1 + (next() % 30000);
+    const length = next() % 4 === 0 ? next() % 50 : 0;
+    runs.push({
+      series: ['KA', 'KHA', 'GA'][next() % 3],
+      start,
+      end: start + length,
+      denomination: next() % 5 === 0 ? 500 : 100,
+      acquiredAt: `2023-${String(1 + (next() % 12)).padStart(2, '0')}-01`,
+      notes: i % 40 === 0 ? `sheet ${i / 40 + 1}` : '',
+    });
+    start += length;
+  }
+  return normalizeRuns(runs);
+})();
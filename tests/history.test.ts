@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BondRun } from '../utils/bondStore';
+import { createHistoryEntry, parseStoredHistory, reapplyEntry, relistPortfolio, revertEntry } from '../utils/history';
+import { Holdings, Portfolio } from '../utils/portfolios';
+
+// Undo and redo of a portfolio deletion, done the way the app does it:
+// the runs come back through the entry and the portfolio through relistPortfolio.
+
+const run = (start: number, end: number): BondRun => ({ series: 'KA', start, end, denomination: 100, acquiredAt: '', notes: '' });
+
+const portfolios: Portfolio[] = [
+  { id: 'main', name: 'Main', createdAt: '2026-01-01T00:00:00.000Z' },
+  { id: 'family', name: 'Family', createdAt: '2026-02-01T00:00:00.000Z' },
+  { id: 'gifts', name: 'Gifts', createdAt: '2026-03-01T00:00:00.000Z' },
+];
+
+const holdings: Holdings = { main: [run(100, 199)], family: [run(450000, 450009), run(500000, 500000)], gifts: [] };
+
+const deletePortfolio = (id: string) => {
+  const index = portfolios.findIndex(p => p.id === id);
+  const { [id]: _, ...rest } = holdings;
+  const entry = createHistoryEntry(`delete portfolio ${portfolios[index].name}`, holdings, rest, { portfolio: portfolios[index], index });
+  assert.ok(entry);
+  return { entry, rest, remaining: portfolios.filter(p => p.id !== id) };
+};
+
+describe('portfolio deletion history', () => {
+  it('records the runs and the portfolio the deletion removed', () => {
+    const { entry } = deletePortfolio('family');
+    assert.deepEqual(entry.changes, [{ portfolioId: 'family', removed: holdings.family, added: [] }]);
+    assert.deepEqual(entry.removedPortfolio, { portfolio: portfolios[1], index: 1 });
+  });
+
+  it('records deleting an empty portfolio even though no runs change', () => {
+    const { entry } = deletePortfolio('gifts');
+    assert.deepEqual(entry.changes, []);
+    assert.equal(entry.removedPortfolio?.portfolio.id, 'gifts');
+  });
+
+  it('undo restores the runs and lists the portfolio in its old place', () => {
+    const { entry, rest, remaining } = deletePortfolio('family');
+    assert.deepEqual(revertEntry(rest, entry), holdings);
+    assert.deepEqual(relistPortfolio(remaining, entry.removedPortfolio!), portfolios);
+  });
+
+  it('undo does not list a portfolio twice', () => {
+    const { entry } = deletePortfolio('family');
+    assert.equal(relistPortfolio(portfolios, entry.removedPortfolio!), portfolios);
+  });
+
+  it('undo then redo deletes the runs again', () => {
+    const { entry, rest } = deletePortfolio('family');
+    const redone = reapplyEntry(revertEntry(rest, entry), entry);
+    assert.deepEqual(redone.family, []);
+    assert.deepEqual(redone.main, holdings.main);
+  });
+
+  it('keeps the deleted portfolio when history is read back from storage', () => {
+    const { entry } = deletePortfolio('family');
+    const stored = JSON.parse(JSON.stringify({ past: [entry], future: [] }));
+    assert.deepEqual(parseStoredHistory(stored).past, [entry]);
+  });
+
+  it('drops an unreadable deleted portfolio but keeps the runs', () => {
+    const { entry } = deletePortfolio('family');
+    const stored = { past: [{ ...entry, removedPortfolio: { portfolio: { id: 'family' }, index: -1 } }], future: [] };
+    const [parsed] = parseStoredHistory(stored).past;
+    assert.equal(parsed.removedPortfolio, undefined);
+    assert.deepEqual(parsed.changes, entry.changes);
+  });
+});
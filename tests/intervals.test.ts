@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Interval, clipIntervals, intersectIntervals, intervalsSize, mergeIntervals, subtractIntervals } from '../utils/intervals';
+
+// The interval lists bond runs, draws and search results are built on.
+
+describe('mergeIntervals', () => {
+  it('sorts and merges overlapping and touching intervals', () => {
+    assert.deepEqual(mergeIntervals([[20, 25], [1, 5], [4, 9], [10, 12], [30, 30]]), [[1, 12], [20, 25], [30, 30]]);
+  });
+
+  it('keeps intervals separated by a gap apart', () => {
+    assert.deepEqual(mergeIntervals([[1, 5], [7, 9]]), [[1, 5], [7, 9]]);
+  });
+
+  it('does not change its input', () => {
+    const input: Interval[] = [[5, 8], [1, 6]];
+    mergeIntervals(input);
+    assert.deepEqual(input, [[5, 8], [1, 6]]);
+    const single: Interval[] = [[1, 2]];
+    assert.notEqual(mergeIntervals(single)[0], single[0]);
+  });
+});
+
+describe('subtractIntervals', () => {
+  it('cuts holes and trims ends', () => {
+    assert.deepEqual(subtractIntervals([[1, 20], [30, 40]], [[0, 3], [8, 10], [35, 50]]), [[4, 7], [11, 20], [30, 34]]);
+  });
+
+  it('removes intervals covered completely', () => {
+    assert.deepEqual(subtractIntervals([[5, 9], [12, 12]], [[1, 20]]), []);
+  });
+
+  it('lets one removal span several intervals', () => {
+    assert.deepEqual(subtractIntervals([[1, 5], [7, 9], [11, 15]], [[4, 12]]), [[1, 3], [13, 15]]);
+  });
+
+  it('returns the input when nothing overlaps', () => {
+    assert.deepEqual(subtractIntervals([[1, 5]], [[6, 9]]), [[1, 5]]);
+    assert.deepEqual(subtractIntervals([[1, 5]], []), [[1, 5]]);
+  });
+});
+
+describe('clipIntervals', () => {
+  it('keeps the parts within the bounds', () => {
+    assert.deepEqual(clipIntervals([[1, 5], [8, 12], [20, 30], [40, 45]], [4, 25]), [[4, 5], [8, 12], [20, 25]]);
+  });
+
+  it('returns nothing outside the intervals', () => {
+    assert.deepEqual(clipIntervals([[1, 5], [20, 30]], [6, 19]), []);
+    assert.deepEqual(clipIntervals([], [1, 10]), []);
+  });
+
+  it('agrees with intersecting against the bounds', () => {
+    const intervals: Interval[] = [[3, 3], [6, 10], [14, 17], [19, 40]];
+    for (const bounds of [[0, 50], [4, 15], [10, 14], [18, 18]] as Interval[]) {
+      assert.deepEqual(clipIntervals(intervals, bounds), intersectIntervals(intervals, [bounds]));
+    }
+    assert.equal(intervalsSize(clipIntervals(intervals, [4, 15])), 7);
+  });
+});
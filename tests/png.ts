@@ -0,0 +1,119 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+import { QrImage } from '../utils/qrDecode';
+
+// --- PNG Files ---
+// Just enough PNG for the QR fixtures: 8-bit, non-interlaced greyscale, RGB
+// or RGBA pictures are read into the RGBA pixels decodeQr takes, and
+// greyscale pictures are written.
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Bytes per pixel for each supported colour type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 6: 4 };
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const p = left + up - upLeft;
+  const [a, b, c] = [Math.abs(p - left), Math.abs(p - up), Math.abs(p - upLeft)];
+  return a <= b && a <= c ? left : b <= c ? up : upLeft;
+};
+
+/** Undoes the per-row filters, leaving plain samples. */
+const unfilter = (data: Buffer, width: number, height: number, channels: number) => {
+  const stride = width * channels;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const row = data.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const at = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? out[at + x - channels] : 0;
+      const up = y > 0 ? out[at + x - stride] : 0;
+      const upLeft = y > 0 && x >= channels ? out[at + x - stride - channels] : 0;
+      const predicted = filter === 0 ? 0
+        : filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >>> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : NaN;
+      if (Number.isNaN(predicted)) throw new Error(`Unknown PNG filter ${filter} on row ${y}`);
+      out[at + x] = (row[x] + predicted) & 0xff;
+    }
+  }
+  return out;
+};
+
+export const readPng = (file: Buffer): QrImage => {
+  if (!file.subarray(0, 8).equals(SIGNATURE)) throw new Error('Not a PNG file');
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < file.length;) {
+    const length = file.readUInt32BE(offset);
+    const type = file.toString('latin1', offset + 4, offset + 8);
+    const body = file.subarray(offset + 8, offset + 8 + length);
+    if (file.readUInt32BE(offset + 8 + length) !== crc32(file.subarray(offset + 4, offset + 8 + length))) {
+      throw new Error(`PNG ${type} chunk failed its checksum`);
+    }
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      channels = CHANNELS[body[9]] ?? 0;
+      if (body[8] !== 8 || channels === 0 || body[12] !== 0) throw new Error('Only 8-bit, non-interlaced greyscale, RGB or RGBA PNGs are read');
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += length + 12;
+  }
+
+  const samples = unfilter(inflateSync(Buffer.concat(idat)), width, height, channels);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const pixel = samples.subarray(i * channels, (i + 1) * channels);
+    data[i * 4] = pixel[0];
+    data[i * 4 + 1] = channels === 1 ? pixel[0] : pixel[1];
+    data[i * 4 + 2] = channels === 1 ? pixel[0] : pixel[2];
+    data[i * 4 + 3] = channels === 4 ? pixel[3] : 255;
+  }
+  return { width, height, data };
+};
+
+const chunk = (type: string, body: Buffer) => {
+  const typed = Buffer.concat([Buffer.from(type, 'latin1'), body]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typed));
+  return Buffer.concat([length, typed, crc]);
+};
+
+/** A greyscale PNG; `grey` holds one byte per pixel, row by row. */
+export const writePng = (width: number, height: number, grey: Uint8Array) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth; colour type, compression, filter and interlace stay 0
+
+  const rows = Buffer.alloc((width + 1) * height);
+  for (let y = 0; y < height; y++) rows.set(grey.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  return Buffer.concat([SIGNATURE, chunk('IHDR', header), chunk('IDAT', deflateSync(rows)), chunk('IEND', Buffer.alloc(0))]);
+};
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { decodeQr } from '../utils/qrDecode';
+import { TransferError, TransferReceiver, missingChunks, openTransfer, receiveFrame, receivedChunks } from '../utils/qrTransfer';
+import { readPng } from './png';
+import { MULTI_NAME, SINGLE_NAME, multiRuns, singleRuns } from './fixtures/qrPortfolios';
+
+// Pictures of transfer frames go through the whole receiving side: the
+// decoder reads the pixels, the receiver collects the chunks and the
+// transfer is opened back into bonds.
+
+const FIXTURES = join(import.meta.dirname, 'fixtures', 'qr');
+
+const scan = (name: string) => {
+  const decoded = decodeQr(readPng(readFileSync(join(FIXTURES, name))));
+  assert.ok(decoded, `${name} should decode`);
+  return decoded.text;
+};
+
+const multiFrames = readdirSync(FIXTURES)
+  .filter(name => /^multi-\d+\.png$/.test(name))
+  .sort((a, b) => parseInt(a.slice(6), 10) - parseInt(b.slice(6), 10));
+
+describe('QR transfer from pictures', () => {
+  it('opens a portfolio sent in a single frame', async () => {
+    const { receiver, outcome } = receiveFrame(null, scan('single.png'));
+    assert.equal(outcome, 'added');
+    assert.ok(receiver);
+    assert.deepEqual(missingChunks(receiver), []);
+
+    const { name, parsed } = await openTransfer(receiver);
+    assert.equal(name, SINGLE_NAME);
+    assert.deepEqual(parsed.runs, singleRuns);
+    assert.deepEqual(parsed.invalid, []);
+  });
+
+  it('collects chunks in any order and opens them once all are in', async () => {
+    assert.ok(multiFrames.length >= 3, 'the fixtures should hold several chunks');
+    const texts = multiFrames.map(scan);
+    // The last chunk first, as when the camera joins the loop part way through
+    const order = [texts.length - 1, ...texts.keys()].filter((i, k, all) => all.indexOf(i) === k);
+    let receiver: TransferReceiver | null = null;
+
+    for (const [k, i] of order.entries()) {
+      const result = receiveFrame(receiver, texts[i]);
+      assert.equal(result.outcome, 'added');
+      receiver = result.receiver;
+      assert.ok(receiver);
+      assert.equal(receivedChunks(receiver), k + 1);
+      if (k === 0) {
+        assert.equal(receiver.total, texts.length);
+        await assert.rejects(openTransfer(receiver), (e: unknown) => e instanceof TransferError && e.problem === 'missing');
+        assert.equal(receiveFrame(receiver, texts[i]).outcome, 'duplicate');
+      }
+    }
+
+    assert.ok(receiver);
+    assert.deepEqual(missingChunks(receiver), []);
+    const { name, parsed } = await openTransfer(receiver);
+    assert.equal(name, MULTI_NAME);
+    assert.deepEqual(parsed.runs, multiRuns);
+  });
+
+  it('refuses a damaged frame and takes the clean copy after it', () => {
+    const first = receiveFrame(null, scan(multiFrames[0]));
+    const damaged = receiveFrame(first.receiver, scan('damaged.png'));
+    assert.equal(damaged.outcome, 'corrupt');
+    assert.ok(damaged.receiver);
+    assert.deepEqual(damaged.receiver.corrupt, [2]);
+    assert.ok(missingChunks(damaged.receiver).includes(2));
+
+    const clean = receiveFrame(damaged.receiver, scan(multiFrames[1]));
+    assert.equal(clean.outcome, 'added');
+    assert.ok(clean.receiver);
+    assert.deepEqual(clean.receiver.corrupt, []);
+    assert.ok(!missingChunks(clean.receiver).includes(2));
+  });
+
+  it('switches transfers only on the first chunk of the new one', () => {
+    const single = receiveFrame(null, scan('single.png'));
+    const stray = receiveFrame(single.receiver, scan(multiFrames[1]));
+    assert.equal(stray.outcome, 'other-transfer');
+    assert.equal(stray.receiver, single.receiver);
+
+    const first = receiveFrame(stray.receiver, scan(multiFrames[0]));
+    assert.equal(first.outcome, 'restarted');
+    assert.ok(first.receiver);
+    assert.notEqual(first.receiver.set, single.receiver?.set);
+    assert.deepEqual(missingChunks(first.receiver), multiFrames.slice(1).map((_, i) => i + 2));
+  });
+});
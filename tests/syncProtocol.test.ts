@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BondDetails, SyncRun, resolveRuns } from '../utils/syncProtocol';
+
+// Conflict resolution between devices: every bond takes the state of the
+// newest run covering it.
+
+const details = (notes: string): BondDetails => ({ denomination: 100, acquiredAt: '2026-01-05', notes });
+
+const run = (start: number, end: number, at: string, device: string, state: BondDetails | null, series = 'KA', portfolioId = 'main'): SyncRun =>
+  ({ portfolioId, series, start, end, details: state, at: `2026-05-01T10:00:${at}.000Z`, device });
+
+describe('resolveRuns', () => {
+  it('keeps edits to different parts of one run from both devices', () => {
+    const base = run(100, 199, '00', 'phone', details(''));
+    const phone = run(110, 119, '05', 'phone', details('gift'));
+    const laptop = run(150, 159, '07', 'laptop', details('sold'));
+    assert.deepEqual(resolveRuns([laptop, base, phone]), [
+      { ...base, end: 109 },
+      phone,
+      { ...base, start: 120, end: 149 },
+      laptop,
+      { ...base, start: 160, end: 199 },
+    ]);
+  });
+
+  it('lets the later of two edits to the same bonds win', () => {
+    const early = run(100, 109, '05', 'phone', details('early'));
+    const late = run(105, 114, '06', 'laptop', details('late'));
+    assert.deepEqual(resolveRuns([late, early]), [{ ...early, end: 104 }, late]);
+  });
+
+  it('breaks a tie in time by device', () => {
+    const a = run(100, 109, '05', 'a', details('a'));
+    const b = run(100, 109, '05', 'b', details('b'));
+    assert.deepEqual(resolveRuns([b, a]), [b]);
+    assert.deepEqual(resolveRuns([a, b]), [b]);
+  });
+
+  it('keeps a deletion so an older copy cannot bring the bonds back', () => {
+    const held = run(100, 109, '01', 'phone', details(''));
+    const deleted = run(100, 104, '09', 'laptop', null);
+    assert.deepEqual(resolveRuns([held, deleted]), [deleted, { ...held, start: 105 }]);
+  });
+
+  it('merges touching runs only when details and stamp match', () => {
+    const left = run(100, 109, '01', 'phone', details(''));
+    const right = run(110, 119, '01', 'phone', details(''));
+    const later = run(120, 129, '02', 'phone', details(''));
+    assert.deepEqual(resolveRuns([right, later, left]), [{ ...left, end: 119 }, later]);
+  });
+
+  it('resolves each portfolio and series on its own', () => {
+    const ka = run(100, 109, '05', 'phone', details(''));
+    const kha = run(100, 109, '01', 'phone', details(''), 'KHA');
+    const family = run(100, 109, '01', 'phone', details(''), 'KA', 'family');
+    assert.deepEqual(resolveRuns([ka, kha, family]), [family, ka, kha]);
+  });
+});
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import { BondDetails, SyncChanges, SyncResponse, SyncRun } from '../utils/syncProtocol';
+
+// The sync Worker and its Durable Object, run locally in the Workers
+// runtime: devices push and pull through the HTTP API exactly as the app
+// does, so the SQLite storage and per-bond resolution are exercised for real.
+
+const ROOT = join(import.meta.dirname, '..');
+
+let mf: Miniflare;
+
+before(async () => {
+  const { compatibility_date } = JSON.parse(readFileSync(join(ROOT, 'wrangler.json'), 'utf8'));
+  const bundle = await build({
+    entryPoints: [join(ROOT, 'worker', 'index.ts')],
+    bundle: true,
+    format: 'esm',
+    platform: 'neutral',
+    external: ['cloudflare:workers'],
+    write: false,
+  });
+  mf = new Miniflare({
+    modules: true,
+    script: bundle.outputFiles[0].text,
+    compatibilityDate: compatibility_date,
+    durableObjects: { SYNC_SPACES: { className: 'SyncSpace', useSQLite: true } },
+  });
+  await mf.ready;
+});
+
+after(() => mf?.dispose());
+
+const post = (path: string, body?: unknown, code?: string) =>
+  mf.dispatchFetch(`http://localhost/api/sync/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(code && { Authorization: `Bearer ${code}` }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const createSpace = async () => {
+  const response = await post('spaces');
+  assert.equal(response.status, 200);
+  const { code } = await response.json() as { code: string };
+  return code;
+};
+
+const exchange = async (code: string, since: number, changes: Partial<SyncChanges> = {}): Promise<SyncResponse> => {
+  const response = await post('exchange', { since, changes: { runs: [], portfolios: [], ...changes } }, code);
+  assert.equal(response.status, 200, await response.clone().text());
+  return response.json() as Promise<SyncResponse>;
+};
+
+const details = (notes = ''): BondDetails => ({ denomination: 100, acquiredAt: '2024-01-15', notes });
+
+const run = (start: number, end: number, at: string, device: string, bondDetails: BondDetails | null = details()): SyncRun =>
+  ({ portfolioId: 'main', series: 'KA', start, end, details: bondDetails, at, device });
+
+/** What each bond ended up as, so runs split differently still compare. */
+const byBond = (runs: SyncRun[]) => {
+  const bonds = new Map<number, { details: BondDetails | null; device: string }>();
+  runs.forEach(r => {
+    for (let n = r.start; n <= r.end; n++) bonds.set(n, { details: r.details, device: r.device });
+  });
+  return bonds;
+};
+
+describe('sync Worker', () => {
+  it('gives another device what one device pushed', async () => {
+    const code = await createSpace();
+    const portfolio = { id: 'main', name: 'Savings', createdAt: '2024-01-01T00:00:00.000Z', deleted: false, at: '2024-01-01T00:00:00.000Z', device: 'A' };
+    const pushed = await exchange(code, 0, { runs: [run(100, 109, '2024-01-01T00:00:00.000Z', 'A')], portfolios: [portfolio] });
+    assert.equal(pushed.cursor, 1);
+
+    const pulled = await exchange(code, 0);
+    assert.equal(pulled.cursor, 1);
+    assert.deepEqual(pulled.changes.runs, [run(100, 109, '2024-01-01T00:00:00.000Z', 'A')]);
+    assert.deepEqual(pulled.changes.portfolios, [portfolio]);
+
+    // Nothing new since the cursor
+    const again = await exchange(code, pulled.cursor);
+    assert.equal(again.cursor, 1);
+    assert.deepEqual(again.changes, { runs: [], portfolios: [] });
+  });
+
+  it('resolves edits from two devices bond by bond', async () => {
+    const code = await createSpace();
+    await exchange(code, 0, { runs: [run(100, 109, '2024-01-01T00:00:00.000Z', 'A')] });
+
+    // Both devices edited the run offline: different bonds, and bond 107 on both
+    await exchange(code, 1, { runs: [run(102, 102, '2024-02-01T00:00:00.000Z', 'A', details('gift')), run(107, 107, '2024-02-03T00:00:00.000Z', 'A', details('from A'))] });
+    const { changes } = await exchange(code, 0, { runs: [run(105, 105, '2024-02-02T00:00:00.000Z', 'B', null), run(107, 107, '2024-02-04T00:00:00.000Z', 'B', details('from B'))] });
+
+    const bonds = byBond(changes.runs);
+    assert.deepEqual(bonds.get(102), { details: details('gift'), device: 'A' });
+    assert.deepEqual(bonds.get(105), { details: null, device: 'B' });
+    assert.deepEqual(bonds.get(107), { details: details('from B'), device: 'B' });
+    [100, 101, 103, 104, 106, 108, 109].forEach(n => assert.deepEqual(bonds.get(n), { details: details(), device: 'A' }, `bond ${n}`));
+  });
+
+  it('keeps the newer state when an older stamp arrives late', async () => {
+    const code = await createSpace();
+    const { cursor } = await exchange(code, 0, {
+      runs: [run(200, 200, '2024-03-01T00:00:00.000Z', 'A', details('newer'))],
+      portfolios: [{ id: 'main', name: 'Renamed', createdAt: '2024-01-01T00:00:00.000Z', deleted: false, at: '2024-03-01T00:00:00.000Z', device: 'A' }],
+    });
+
+    // A device that was offline since February sends its older edits
+    const late = await exchange(code, cursor, {
+      runs: [run(200, 200, '2024-02-01T00:00:00.000Z', 'B', null)],
+      portfolios: [{ id: 'main', name: 'Savings', createdAt: '2024-01-01T00:00:00.000Z', deleted: false, at: '2024-02-01T00:00:00.000Z', device: 'B' }],
+    });
+    assert.deepEqual(late.changes, { runs: [], portfolios: [] });
+
+    const { changes } = await exchange(code, 0);
+    assert.deepEqual(changes.runs, [run(200, 200, '2024-03-01T00:00:00.000Z', 'A', details('newer'))]);
+    assert.equal(changes.portfolios[0].name, 'Renamed');
+  });
+
+  it('turns away unknown codes and unreadable changes', async () => {
+    const problem = async (response: { json(): Promise<unknown> }) => ((await response.json()) as { problem: string }).problem;
+    const unknown = await post('exchange', { since: 0, changes: { runs: [], portfolios: [] } }, '0000-0000-0000-0000');
+    assert.equal(unknown.status, 404);
+    assert.equal(await problem(unknown), 'unknown-code');
+    const anonymous = await post('exchange', { since: 0, changes: { runs: [], portfolios: [] } });
+    assert.equal(anonymous.status, 401);
+    assert.equal(await problem(anonymous), 'code-required');
+
+    const code = await createSpace();
+    const broken = await post('exchange', { since: 0, changes: { runs: [{ start: 5 }], portfolios: [] } }, code);
+    assert.equal(broken.status, 400);
+    assert.equal(await problem(broken), 'unreadable');
+  });
+});
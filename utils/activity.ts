@@ -0,0 +1,134 @@
+import { formatBondRange } from './bondNumbers';
+import { BondRun } from './bondStore';
+import { createId } from './ids';
+import { Interval } from './intervals';
+
+// --- Activity Log ---
+// A lasting record of what was done to the bonds: every add batch, delete,
+// clear, import, copy and note edit, with the numbers involved and how it turned out.
+// Unlike undo history it is never rewound, only trimmed to the newest
+// entries. It names bond numbers, so it is stored (and encrypted) with the
+// other metadata.
+
+export type ActivityKind = 'add' | 'delete' | 'clear' | 'import' | 'copy' | 'note';
+
+export const ACTIVITY_KINDS: ActivityKind[] = ['add', 'delete', 'clear', 'import', 'copy', 'note'];
+
+export type ActivityOutcome = 'success' | 'warning' | 'error';
+
+export interface ActivityCounts {
+  added?: number;
+  duplicates?: number;
+  invalid?: number;
+  updated?: number;
+  removed?: number;
+  copied?: number;
+}
+
+export interface ActivityEntry {
+  id: string;
+  at: string; // ISO timestamp
+  kind: ActivityKind;
+  outcome: ActivityOutcome;
+  message: string; // as shown in the toast
+  portfolio: string; // name at the time
+  ranges: string[]; // the numbers involved, as ranges; only the first MAX_LOGGED_RANGES
+  rangeCount: number; // how many ranges there were in all
+  counts: ActivityCounts;
+}
+
+export interface ActivityDetails {
+  portfolio: string;
+  ranges?: string[];
+  counts?: ActivityCounts;
+}
+
+export const ACTIVITY_LIMIT = 1000;
+
+// A clear or import can touch thousands of ranges; the counts still cover all of them
+export const MAX_LOGGED_RANGES = 100;
+
+// The order counts are listed in, on screen and in the CSV export
+export const COUNT_KEYS: (keyof ActivityCounts)[] = ['added', 'duplicates', 'invalid', 'updated', 'removed', 'copied'];
+
+const labelledRange = (series: string, start: number, end: number) =>
+  series ? `${formatBondRange(start, end)} ${series}` : formatBondRange(start, end);
+
+/** Runs as ranges, touching runs of the same series joined whatever their details. */
+export const runRanges = (runs: BondRun[]): string[] => {
+  const ranges: { series: string; start: number; end: number }[] = [];
+  runs.forEach(run => {
+    const last = ranges[ranges.length - 1];
+    if (last && last.series === run.series && last.end + 1 === run.start) last.end = run.end;
+    else ranges.push({ series: run.series, start: run.start, end: run.end });
+  });
+  return ranges.map(range => labelledRange(range.series, range.start, range.end));
+};
+
+export const intervalRanges = (intervals: Interval[], series: string): string[] =>
+  intervals.map(([start, end]) => labelledRange(series, start, end));
+
+export const createActivityEntry = (kind: ActivityKind, outcome: ActivityOutcome, message: string, details: ActivityDetails): ActivityEntry => {
+  const ranges = details.ranges ?? [];
+  return {
+    id: createId(),
+    at: new Date().toISOString(),
+    kind,
+    outcome,
+    message,
+    portfolio: details.portfolio,
+    ranges: ranges.slice(0, MAX_LOGGED_RANGES),
+    rangeCount: ranges.length,
+    counts: details.counts ?? {},
+  };
+};
+
+/** Adds an entry once, dropping the oldest beyond the limit. Entries stay oldest first. */
+export const appendActivity = (log: ActivityEntry[], entry: ActivityEntry): ActivityEntry[] =>
+  log.some(e => e.id === entry.id) ? log : [...log, entry].slice(-ACTIVITY_LIMIT);
+
+/** Entries of the given kinds whose message, portfolio or numbers contain `text`, newest first. */
+export const filterActivity = (log: ActivityEntry[], kinds: ActivityKind[], text: string): ActivityEntry[] => {
+  const needle = text.trim().toLowerCase();
+  return log.filter(entry =>
+    kinds.includes(entry.kind)
+    && (!needle
+      || entry.message.toLowerCase().includes(needle)
+      || entry.portfolio.toLowerCase().includes(needle)
+      || entry.ranges.some(range => range.toLowerCase().includes(needle)))
+  ).reverse();
+};
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const exportActivityCsv = (log: ActivityEntry[]) => {
+  const header = ['time', 'action', 'outcome', 'portfolio', 'message', ...COUNT_KEYS, 'ranges'];
+  const rows = log.map(entry => [
+    entry.at,
+    entry.kind,
+    entry.outcome,
+    entry.portfolio,
+    entry.message,
+    ...COUNT_KEYS.map(key => (entry.counts[key] === undefined ? '' : String(entry.counts[key]))),
+    entry.ranges.join('; ') + (entry.rangeCount > entry.ranges.length ? ` (+${entry.rangeCount - entry.ranges.length} more)` : ''),
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+const isActivityEntry = (value: unknown): value is ActivityEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.id === 'string'
+    && typeof entry.at === 'string'
+    && ACTIVITY_KINDS.includes(entry.kind as ActivityKind)
+    && ['success', 'warning', 'error'].includes(entry.outcome as string)
+    && typeof entry.message === 'string'
+    && typeof entry.portfolio === 'string'
+    && Array.isArray(entry.ranges)
+    && typeof entry.rangeCount === 'number'
+    && !!entry.counts && typeof entry.counts === 'object';
+};
+
+/** The stored log, skipping entries that do not have the expected shape. */
+export const parseStoredActivity = (stored: unknown): ActivityEntry[] =>
+  Array.isArray(stored) ? stored.filter(isActivityEntry).slice(-ACTIVITY_LIMIT) : [];
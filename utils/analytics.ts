@@ -0,0 +1,134 @@
+import { BOND_NUMBER_LENGTH } from './bondNumbers';
+import { BondRun, runSize } from './bondStore';
+import { DrawMatch } from './draws';
+import { Interval, mergeIntervals } from './intervals';
+
+// --- Portfolio Analytics ---
+// Everything here works on runs rather than bonds, so the cost grows with
+// the number of runs and buckets, not with how many bonds they cover.
+
+export interface DistributionBucket {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export const DISTRIBUTION_BUCKETS = 100;
+
+const NUMBER_SPACE = 10 ** BOND_NUMBER_LENGTH;
+
+/** How many bonds fall in each equal slice of the 0000000–9999999 range. */
+export const numberDistribution = (runs: BondRun[], buckets = DISTRIBUTION_BUCKETS): DistributionBucket[] => {
+  const width = Math.ceil(NUMBER_SPACE / buckets);
+  const result: DistributionBucket[] = Array.from({ length: buckets }, (_, i) => ({
+    start: i * width,
+    end: Math.min((i + 1) * width, NUMBER_SPACE) - 1,
+    count: 0,
+  }));
+  runs.forEach(run => {
+    for (let i = Math.floor(run.start / width); i <= Math.floor(run.end / width); i++) {
+      const bucket = result[i];
+      bucket.count += Math.min(run.end, bucket.end) - Math.max(run.start, bucket.start) + 1;
+    }
+  });
+  return result;
+};
+
+export interface MonthlyAdditions {
+  month: string; // YYYY-MM
+  count: number;
+}
+
+export interface AdditionsOverTime {
+  months: MonthlyAdditions[]; // oldest first, with empty months in between included
+  undated: number;
+}
+
+const monthAfter = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, '0')}`;
+};
+
+/** Bonds by the month they were acquired. */
+export const additionsOverTime = (runs: BondRun[]): AdditionsOverTime => {
+  const byMonth = new Map<string, number>();
+  let undated = 0;
+  runs.forEach(run => {
+    if (!/^\d{4}-\d{2}/.test(run.acquiredAt)) {
+      undated += runSize(run);
+      return;
+    }
+    const month = run.acquiredAt.slice(0, 7);
+    byMonth.set(month, (byMonth.get(month) ?? 0) + runSize(run));
+  });
+
+  const sorted = [...byMonth.keys()].sort();
+  const months: MonthlyAdditions[] = [];
+  if (sorted.length > 0) {
+    const last = sorted[sorted.length - 1];
+    for (let month = sorted[0]; month <= last; month = monthAfter(month)) {
+      months.push({ month, count: byMonth.get(month) ?? 0 });
+    }
+  }
+  return { months, undated };
+};
+
+// --- Gaps ---
+// Bonds bought as a sheet are consecutive, so a few numbers missing between
+// two held stretches usually means a bond was lost or mistyped on entry.
+// Wider gaps are taken to be separate purchases.
+
+export const MAX_GAP_SIZE = 5;
+
+export interface NumberGap {
+  series: string;
+  portfolioId?: string;
+  start: number;
+  end: number;
+}
+
+/** Small gaps between held numbers of the same series (and portfolio, in the combined view). */
+export const findGaps = (runs: BondRun[], maxSize = MAX_GAP_SIZE): NumberGap[] => {
+  const held = new Map<string, { series: string; portfolioId?: string; intervals: Interval[] }>();
+  runs.forEach(run => {
+    const key = `${run.portfolioId ?? ''}/${run.series}`;
+    const entry = held.get(key);
+    if (entry) entry.intervals.push([run.start, run.end]);
+    else held.set(key, { series: run.series, portfolioId: run.portfolioId, intervals: [[run.start, run.end]] });
+  });
+
+  const gaps: NumberGap[] = [];
+  held.forEach(({ series, portfolioId, intervals }) => {
+    const merged = mergeIntervals(intervals);
+    for (let i = 1; i < merged.length; i++) {
+      const start = merged[i - 1][1] + 1;
+      const end = merged[i][0] - 1;
+      if (end - start + 1 > maxSize) continue;
+      gaps.push({ series, start, end, ...(portfolioId !== undefined && { portfolioId }) });
+    }
+  });
+  return gaps.sort((a, b) => a.series.localeCompare(b.series) || a.start - b.start);
+};
+
+export const gapSize = (gap: NumberGap) => gap.end - gap.start + 1;
+
+// --- Win History ---
+
+export interface DrawWins {
+  drawNumber: number;
+  drawDate: string;
+  wins: number;
+  prize: number;
+}
+
+/** Wins and prize money per draw, oldest draw first. */
+export const winHistory = (matches: DrawMatch[]): DrawWins[] => {
+  const byDraw = new Map<number, DrawWins>();
+  matches.forEach(match => {
+    const entry = byDraw.get(match.drawNumber) ?? { drawNumber: match.drawNumber, drawDate: match.drawDate, wins: 0, prize: 0 };
+    entry.wins++;
+    entry.prize += match.prize;
+    byDraw.set(match.drawNumber, entry);
+  });
+  return [...byDraw.values()].sort((a, b) => a.drawNumber - b.drawNumber);
+};
@@ -0,0 +1,506 @@
+import { BOND_NUMBER_LENGTH } from './bondNumbers';
+import { BondRun, normalizeRuns, parseStoredRuns } from './bondStore';
+import { DRAW_CALENDAR_KEY } from './drawCalendar';
+import { DRAWS_STORAGE_KEY } from './draws';
+import { DEFAULT_PORTFOLIO_ID, Holdings } from './portfolios';
+import { VALUE_HISTORY_STORAGE_KEY } from './valuation';
+import {
+  EncryptedPayload,
+  EncryptionConfig,
+  createEncryption,
+  decryptJson,
+  encryptJson,
+  isEncryptedPayload,
+  isEncryptionConfig,
+  unlockKey
+} from './encryption';
+
+// --- IndexedDB Persistence ---
+// Runs are stored one record per run, keyed by portfolio, series and start,
+// so a change only rewrites the runs it touched. The schema is upgraded one version at a
+// time through MIGRATIONS. Stored data that fails validation is never
+// overwritten automatically: the app enters recovery mode and waits for an
+// explicit decision.
+//
+// With encryption on, the runs store is left empty and all runs are kept as
+// one encrypted record in the meta store (per-record keys would reveal the
+// bond numbers). Every change then rewrites that record.
+
+const DB_NAME = 'prize_bond_manager';
+const RUNS_STORE = 'runs';
+const META_STORE = 'meta';
+
+export const LEGACY_STORAGE_KEY = 'prize_bonds';
+export const LEGACY_BACKUP_KEY = 'prize_bonds_backup';
+const LEGACY_IMPORTED_FLAG = 'legacyImported';
+const HISTORY_KEY = 'history';
+const PORTFOLIOS_KEY = 'portfolios';
+const CLAIMS_KEY = 'claims';
+const ACTIVITY_KEY = 'activity';
+const ENCRYPTION_KEY = 'encryption';
+const VAULT_KEY = 'vault';
+const SYNC_KEY = 'sync';
+const DRAWS_KEY = 'draws';
+const CALENDAR_KEY = 'drawCalendar';
+const VALUE_HISTORY_KEY = 'valueHistory';
+
+const MAX_BOND_NUMBER = 10 ** BOND_NUMBER_LENGTH - 1;
+
+interface StoredRun extends BondRun {
+  id: string;
+  portfolio: string;
+}
+
+const runId = (portfolio: string, run: Pick<BondRun, 'series' | 'start'>) => `${portfolio}:${run.series}:${run.start}`;
+
+/**
+ * Records written before portfolios existed have no portfolio; they belong
+ * to the default one. Anything else is returned untouched for validation.
+ */
+const upgradeRecord = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object') return value;
+  const record = value as Record<string, unknown>;
+  if (typeof record.portfolio === 'string' || typeof record.series !== 'string') return value;
+  return { ...record, portfolio: DEFAULT_PORTFOLIO_ID, id: runId(DEFAULT_PORTFOLIO_ID, record as unknown as BondRun) };
+};
+
+// MIGRATIONS[n] upgrades a database from version n to n + 1.
+const MIGRATIONS: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  // 0 -> 1: initial schema
+  (db) => {
+    db.createObjectStore(RUNS_STORE, { keyPath: 'id' });
+    db.createObjectStore(META_STORE);
+  },
+  // 1 -> 2: runs belong to a portfolio, which becomes part of the key
+  (db, tx) => {
+    const store = tx.objectStore(RUNS_STORE);
+    store.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const upgraded = upgradeRecord(cursor.value);
+      if (upgraded !== cursor.value) {
+        cursor.delete();
+        store.put(upgraded);
+      }
+      cursor.continue();
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+// `persisted` mirrors the stored records exactly and is the baseline for the
+// next writeRunChanges call; `holdings` holds the normalised in-memory lists.
+export type LoadResult =
+  | { status: 'ready'; holdings: Holdings; persisted: Holdings; importedLegacy: number }
+  | { status: 'recovery'; holdings: Holdings; problem: StorageProblem; damaged?: number };
+
+// Why storage went into recovery mode; 'save-failed' is set by the app when a write fails
+export type StorageProblem =
+  | 'unavailable' | 'blocked' | 'open-failed' | 'legacy' | 'decrypt' | 'damaged' | 'settings' | 'save-failed';
+
+/** Thrown when storage cannot be used; `problem` lets the interface word it in the chosen language. */
+export class StorageError extends Error {
+  constructor(public problem: StorageProblem) {
+    super(problem);
+  }
+}
+
+const toStored = (portfolio: string, run: BondRun): StoredRun => ({
+  id: runId(portfolio, run),
+  portfolio,
+  series: run.series,
+  start: run.start,
+  end: run.end,
+  denomination: run.denomination,
+  acquiredAt: run.acquiredAt,
+  notes: run.notes,
+});
+
+const fromStored = ({ id, portfolio, ...run }: StoredRun): BondRun => run;
+
+const storedRecords = (holdings: Holdings): StoredRun[] =>
+  Object.entries(holdings).flatMap(([portfolio, runs]) => runs.map(run => toStored(portfolio, run)));
+
+const groupRecords = (records: StoredRun[], normalize: boolean): Holdings => {
+  const holdings: Holdings = {};
+  records.forEach(record => {
+    (holdings[record.portfolio] ??= []).push(fromStored(record));
+  });
+  if (normalize) Object.keys(holdings).forEach(id => { holdings[id] = normalizeRuns(holdings[id]); });
+  return holdings;
+};
+
+const isValidRun = (value: unknown): value is StoredRun => {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return typeof run.id === 'string'
+    && typeof run.portfolio === 'string'
+    && typeof run.series === 'string'
+    && Number.isInteger(run.start) && Number.isInteger(run.end)
+    && (run.start as number) >= 0 && (run.end as number) <= MAX_BOND_NUMBER
+    && (run.start as number) <= (run.end as number)
+    && typeof run.denomination === 'number' && run.denomination > 0
+    && typeof run.acquiredAt === 'string'
+    && typeof run.notes === 'string'
+    && run.id === runId(run.portfolio as string, run as unknown as BondRun);
+};
+
+const sameRun = (a: BondRun, b: BondRun) =>
+  a.end === b.end && a.denomination === b.denomination && a.acquiredAt === b.acquiredAt && a.notes === b.notes;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Encryption is async, so encrypted writes are chained to keep them from
+// landing out of order
+let pendingWrites: Promise<unknown> = Promise.resolve();
+
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = pendingWrites.then(write);
+  pendingWrites = result.catch(() => undefined);
+  return result;
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unavailable'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new StorageError('blocked'));
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Imports the pre-IndexedDB localStorage list, once. The original value is
+ * kept under a backup key rather than deleted.
+ */
+const importLegacyStorage = async (db: IDBDatabase): Promise<number> => {
+  const metaTx = db.transaction(META_STORE, 'readonly');
+  const imported = await requestToPromise(metaTx.objectStore(META_STORE).get(LEGACY_IMPORTED_FLAG));
+  if (imported) return 0;
+
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  // Throws on malformed JSON; the caller turns that into recovery mode
+  const runs = saved ? parseStoredRuns(JSON.parse(saved)) : [];
+
+  const tx = db.transaction([RUNS_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(RUNS_STORE);
+  runs.forEach(run => store.put(toStored(DEFAULT_PORTFOLIO_ID, run)));
+  tx.objectStore(META_STORE).put(true, LEGACY_IMPORTED_FLAG);
+  await transactionDone(tx);
+
+  if (saved) {
+    localStorage.setItem(LEGACY_BACKUP_KEY, saved);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+
+  return runs.reduce((sum, run) => sum + run.end - run.start + 1, 0);
+};
+
+const readMeta = async (db: IDBDatabase, key: string): Promise<unknown> => {
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).get(key));
+};
+
+/** Null when the store is not encrypted. */
+export const loadEncryptionConfig = async (): Promise<EncryptionConfig | null> => {
+  const config = await readMeta(await openDatabase(), ENCRYPTION_KEY);
+  if (config === undefined) return null;
+  if (!isEncryptionConfig(config)) throw new StorageError('settings');
+  return config;
+};
+
+/** The key for the stored data, or null when the passphrase is wrong. */
+export const unlockStore = async (passphrase: string): Promise<CryptoKey | null> => {
+  const config = await loadEncryptionConfig();
+  return config ? unlockKey(config, passphrase) : null;
+};
+
+const readVault = async (db: IDBDatabase, key: CryptoKey): Promise<unknown[]> => {
+  const vault = await readMeta(db, VAULT_KEY);
+  if (vault === undefined) return [];
+  if (!isEncryptedPayload(vault)) throw new Error('Encrypted data is damaged.');
+  const records = await decryptJson(key, vault);
+  if (!Array.isArray(records)) throw new Error('Encrypted data is damaged.');
+  // The schema migration cannot see inside the vault, so it is upgraded here
+  return records.map(upgradeRecord);
+};
+
+export const loadBondStore = async (key: CryptoKey | null = null): Promise<LoadResult> => {
+  let db: IDBDatabase;
+  try {
+    db = await openDatabase();
+  } catch (e) {
+    console.error("Failed to open bond database", e);
+    return { status: 'recovery', holdings: {}, problem: e instanceof StorageError ? e.problem : 'open-failed' };
+  }
+
+  let importedLegacy = 0;
+  try {
+    importedLegacy = await importLegacyStorage(db);
+  } catch (e) {
+    console.error("Failed to import legacy bonds", e);
+    return { status: 'recovery', holdings: {}, problem: 'legacy' };
+  }
+
+  let records: unknown[];
+  if (key) {
+    try {
+      records = await readVault(db, key);
+    } catch (e) {
+      console.error("Failed to decrypt bonds", e);
+      return { status: 'recovery', holdings: {}, problem: 'decrypt' };
+    }
+  } else {
+    const tx = db.transaction(RUNS_STORE, 'readonly');
+    records = await requestToPromise(tx.objectStore(RUNS_STORE).getAll());
+  }
+  const valid = records.filter(isValidRun);
+  const holdings = groupRecords(valid, true);
+
+  if (valid.length !== records.length) {
+    return { status: 'recovery', holdings, problem: 'damaged', damaged: records.length - valid.length };
+  }
+
+  return { status: 'ready', holdings, persisted: groupRecords(valid, false), importedLegacy };
+};
+
+const writeVault = async (holdings: Holdings, key: CryptoKey) => {
+  const vault = await encryptJson(key, storedRecords(holdings));
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(vault, VAULT_KEY);
+  await transactionDone(tx);
+};
+
+/**
+ * Persists the difference between two holdings in a single transaction:
+ * new or changed runs are written and vanished runs deleted. With a key the
+ * whole encrypted list is rewritten instead.
+ */
+export const writeRunChanges = async (prev: Holdings, next: Holdings, key: CryptoKey | null = null) => {
+  const previous = new Map(storedRecords(prev).map(record => [record.id, record]));
+  const puts: StoredRun[] = [];
+
+  storedRecords(next).forEach(record => {
+    const old = previous.get(record.id);
+    if (!old || !sameRun(old, record)) puts.push(record);
+    previous.delete(record.id);
+  });
+
+  if (puts.length === 0 && previous.size === 0) return;
+  if (key) return queueWrite(() => writeVault(next, key));
+
+  const db = await openDatabase();
+  const tx = db.transaction(RUNS_STORE, 'readwrite');
+  const store = tx.objectStore(RUNS_STORE);
+  previous.forEach((_, id) => store.delete(id));
+  puts.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+/** Every stored record as-is, including damaged ones, for backup. */
+export const exportRawStore = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([RUNS_STORE, META_STORE], 'readonly');
+  const meta = tx.objectStore(META_STORE);
+  return {
+    runs: await requestToPromise(tx.objectStore(RUNS_STORE).getAll()),
+    portfolios: await requestToPromise(meta.get(PORTFOLIOS_KEY)),
+    claims: await requestToPromise(meta.get(CLAIMS_KEY)),
+    activity: await requestToPromise(meta.get(ACTIVITY_KEY)),
+    // Still encrypted; readable with the passphrase and these settings
+    encryption: await requestToPromise(meta.get(ENCRYPTION_KEY)),
+    vault: await requestToPromise(meta.get(VAULT_KEY)),
+    legacy: localStorage.getItem(LEGACY_STORAGE_KEY),
+  };
+};
+
+/**
+ * Replaces the stored data with the given holdings. Only called after the
+ * user explicitly chose to discard damaged data in recovery mode.
+ */
+export const resetBondStore = async (holdings: Holdings, key: CryptoKey | null = null) => {
+  const vault = key ? await encryptJson(key, storedRecords(holdings)) : null;
+  const db = await openDatabase();
+  const tx = db.transaction([RUNS_STORE, META_STORE], 'readwrite');
+  const store = tx.objectStore(RUNS_STORE);
+  store.clear();
+  if (vault) tx.objectStore(META_STORE).put(vault, VAULT_KEY);
+  else storedRecords(holdings).forEach(record => store.put(record));
+  tx.objectStore(META_STORE).put(true, LEGACY_IMPORTED_FLAG);
+  await transactionDone(tx);
+
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy !== null) {
+    localStorage.setItem(LEGACY_BACKUP_KEY, legacy);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+};
+
+// --- Metadata ---
+// History, portfolio names, prize claims and the activity log live in the
+// meta store, encrypted along with the runs when a key is given. Validation is left to the caller.
+
+const loadMeta = async (name: string, key: CryptoKey | null): Promise<unknown> => {
+  const stored = await readMeta(await openDatabase(), name);
+  return key && isEncryptedPayload(stored) ? decryptJson(key, stored) : stored;
+};
+
+const saveMeta = (name: string, value: unknown, key: CryptoKey | null) => queueWrite(async () => {
+  const stored = key ? await encryptJson(key, value) : value;
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(stored, name);
+  await transactionDone(tx);
+});
+
+export const loadStoredHistory = (key: CryptoKey | null = null) => loadMeta(HISTORY_KEY, key);
+
+export const saveStoredHistory = (history: unknown, key: CryptoKey | null = null) => saveMeta(HISTORY_KEY, history, key);
+
+export const loadStoredPortfolios = (key: CryptoKey | null = null) => loadMeta(PORTFOLIOS_KEY, key);
+
+export const saveStoredPortfolios = (portfolios: unknown, key: CryptoKey | null = null) =>
+  saveMeta(PORTFOLIOS_KEY, portfolios, key);
+
+export const loadStoredClaims = (key: CryptoKey | null = null) => loadMeta(CLAIMS_KEY, key);
+
+export const saveStoredClaims = (claims: unknown, key: CryptoKey | null = null) => saveMeta(CLAIMS_KEY, claims, key);
+
+export const loadStoredActivity = (key: CryptoKey | null = null) => loadMeta(ACTIVITY_KEY, key);
+
+export const saveStoredActivity = (activity: unknown, key: CryptoKey | null = null) => saveMeta(ACTIVITY_KEY, activity, key);
+
+// Sync is only available unencrypted (the server stores bonds as sent), so this is never encrypted
+export const loadStoredSync = () => loadMeta(SYNC_KEY, null);
+
+export const saveStoredSync = (sync: unknown) => saveMeta(SYNC_KEY, sync, null);
+
+// Draws, the draw calendar and value history live in localStorage; only with
+// encryption on are they kept here instead, so these always take a key
+export const loadStoredDraws = (key: CryptoKey) => loadMeta(DRAWS_KEY, key);
+
+export const saveStoredDraws = (draws: unknown, key: CryptoKey) => saveMeta(DRAWS_KEY, draws, key);
+
+export const loadStoredDrawCalendar = (key: CryptoKey) => loadMeta(CALENDAR_KEY, key);
+
+export const saveStoredDrawCalendar = (calendar: unknown, key: CryptoKey) => saveMeta(CALENDAR_KEY, calendar, key);
+
+export const loadStoredValueHistory = (key: CryptoKey) => loadMeta(VALUE_HISTORY_KEY, key);
+
+export const saveStoredValueHistory = (valueHistory: unknown, key: CryptoKey) => saveMeta(VALUE_HISTORY_KEY, valueHistory, key);
+
+// --- Encryption On / Off ---
+// Both directions rewrite everything in one transaction, so the store is
+// never left half encrypted.
+
+export interface StoredMeta {
+  history: unknown;
+  portfolios: unknown;
+  claims: unknown;
+  activity: unknown;
+  draws: unknown;
+  drawCalendar: unknown;
+  valueHistory: unknown;
+}
+
+const removePlaintextCopies = () => {
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_BACKUP_KEY);
+  localStorage.removeItem(DRAWS_STORAGE_KEY);
+  localStorage.removeItem(DRAW_CALENDAR_KEY);
+  localStorage.removeItem(VALUE_HISTORY_STORAGE_KEY);
+};
+
+/**
+ * Encrypts holdings and their metadata (history, portfolio names, claims,
+ * activity log, draws, draw calendar, value history) under a new passphrase
+ * with a fresh salt. Used both to turn encryption on and to change the
+ * passphrase. Plaintext copies in localStorage are deleted, and so is the
+ * sync pairing.
+ */
+export const encryptStore = (holdings: Holdings, meta: StoredMeta, passphrase: string) => queueWrite(async () => {
+  const { key, config } = await createEncryption(passphrase);
+  const vault: EncryptedPayload = await encryptJson(key, storedRecords(holdings));
+  const history = await encryptJson(key, meta.history);
+  const portfolios = await encryptJson(key, meta.portfolios);
+  const claims = await encryptJson(key, meta.claims);
+  const activity = await encryptJson(key, meta.activity);
+  const draws = await encryptJson(key, meta.draws);
+  const drawCalendar = await encryptJson(key, meta.drawCalendar);
+  const valueHistory = await encryptJson(key, meta.valueHistory);
+
+  const db = await openDatabase();
+  const tx = db.transaction([RUNS_STORE, META_STORE], 'readwrite');
+  tx.objectStore(RUNS_STORE).clear();
+  const store = tx.objectStore(META_STORE);
+  store.put(config, ENCRYPTION_KEY);
+  store.put(vault, VAULT_KEY);
+  store.put(history, HISTORY_KEY);
+  store.put(portfolios, PORTFOLIOS_KEY);
+  store.put(claims, CLAIMS_KEY);
+  store.put(activity, ACTIVITY_KEY);
+  store.put(draws, DRAWS_KEY);
+  store.put(drawCalendar, CALENDAR_KEY);
+  store.put(valueHistory, VALUE_HISTORY_KEY);
+  // Pending sync changes are plaintext bond data too
+  store.delete(SYNC_KEY);
+  await transactionDone(tx);
+
+  removePlaintextCopies();
+  return key;
+});
+
+/** Stores everything in plaintext again; draws, the calendar and value history go back to localStorage. */
+export const decryptStore = (holdings: Holdings, meta: StoredMeta) => queueWrite(async () => {
+  const db = await openDatabase();
+  const tx = db.transaction([RUNS_STORE, META_STORE], 'readwrite');
+  const runs = tx.objectStore(RUNS_STORE);
+  runs.clear();
+  storedRecords(holdings).forEach(record => runs.put(record));
+  const store = tx.objectStore(META_STORE);
+  store.delete(ENCRYPTION_KEY);
+  store.delete(VAULT_KEY);
+  store.put(meta.history, HISTORY_KEY);
+  store.put(meta.portfolios, PORTFOLIOS_KEY);
+  store.put(meta.claims, CLAIMS_KEY);
+  store.put(meta.activity, ACTIVITY_KEY);
+  store.delete(DRAWS_KEY);
+  store.delete(CALENDAR_KEY);
+  store.delete(VALUE_HISTORY_KEY);
+  await transactionDone(tx);
+
+  localStorage.setItem(DRAWS_STORAGE_KEY, JSON.stringify(meta.draws));
+  localStorage.setItem(DRAW_CALENDAR_KEY, JSON.stringify(meta.drawCalendar));
+  localStorage.setItem(VALUE_HISTORY_STORAGE_KEY, JSON.stringify(meta.valueHistory));
+});
@@ -0,0 +1,122 @@
+import { BOND_NUMBER_LENGTH, isValidBondNumber, matchBondRange } from './bondNumbers';
+import { BondRun, seriesCoverage } from './bondStore';
+import { Interval, clipIntervals, intervalSize, intervalsSize, subtractIntervals } from './intervals';
+import { normalizeBondInput } from './numerals';
+
+// --- Manual Entry Analysis ---
+// The add panel input is analysed on every keystroke: each segment gets a
+// status and a reason, and the totals say exactly what Save would do. Save
+// uses the same analysis, so the preview and the result cannot disagree.
+// Segments are read from the normalised input (see numerals.ts) but keep
+// the text as typed. Reasons are codes with their counts; the interface
+// words them in the chosen language.
+
+export type SegmentStatus = 'valid' | 'duplicate' | 'out-of-range' | 'malformed';
+
+export type SegmentReason =
+  | { code: 'range-side' } // a dash without a number on one side
+  | { code: 'digits'; part: 'number' | 'start' | 'end'; length: number }
+  | { code: 'range-shape' }
+  | { code: 'characters' }
+  // Readable segments: `size` numbers, of which `held` are stored and `repeated` came earlier in the input
+  | { code: 'counts'; size: number; fresh: number; held: number; repeated: number };
+
+export interface InputSegment {
+  text: string;
+  offset: number; // position in the input
+  status: SegmentStatus;
+  reason: SegmentReason;
+  interval: Interval | null; // null for segments that cannot be added
+  newCount: number;
+}
+
+export interface InputAnalysis {
+  segments: InputSegment[];
+  intervals: Interval[]; // every well-formed segment, duplicates included
+  newCount: number;
+  duplicateCount: number;
+  invalidCount: number; // malformed and out-of-range segments
+}
+
+// Ranges may be written with spaces around the dash; anything else splits on commas and whitespace
+const SEGMENT_PATTERN = /\d+\s*-\s*\d+|[^,\s]+/g;
+
+// Digits only, as a number or a range, but not seven of them on each side
+const DIGITS_PATTERN = /^\d+(\s*-\s*\d+)?$/;
+
+/** Why a segment cannot be read as a bond number or range. */
+const invalidReason = (text: string): SegmentReason => {
+  const range = text.match(/^(\d*)\s*-\s*(\d*)$/);
+  if (range) {
+    if (!range[1] || !range[2]) return { code: 'range-side' };
+    if (range[1].length !== BOND_NUMBER_LENGTH) return { code: 'digits', part: 'start', length: range[1].length };
+    return { code: 'digits', part: 'end', length: range[2].length };
+  }
+  if (/^\d+$/.test(text)) return { code: 'digits', part: 'number', length: text.length };
+  if (text.includes('-')) return { code: 'range-shape' };
+  return { code: 'characters' };
+};
+
+/** Adds an interval to a merged list in place. */
+const insertInterval = (intervals: Interval[], [start, end]: Interval) => {
+  let lo = 0;
+  while (lo < intervals.length && intervals[lo][1] < start - 1) lo++;
+  let hi = lo;
+  let from = start;
+  let to = end;
+  while (hi < intervals.length && intervals[hi][0] <= end + 1) {
+    from = Math.min(from, intervals[hi][0]);
+    to = Math.max(to, intervals[hi][1]);
+    hi++;
+  }
+  intervals.splice(lo, hi - lo, [from, to]);
+};
+
+/**
+ * Splits input into segments and checks each against the stored bonds of
+ * `series` and against earlier segments, so repeats are counted once.
+ */
+export const analyzeInput = (input: string, runs: BondRun[], series: string): InputAnalysis => {
+  const stored = seriesCoverage(runs, series);
+  const batch: Interval[] = []; // numbers taken by earlier segments
+  const segments: InputSegment[] = [];
+  const intervals: Interval[] = [];
+  let newCount = 0;
+  let duplicateCount = 0;
+  let invalidCount = 0;
+
+  for (const match of normalizeBondInput(input).matchAll(SEGMENT_PATTERN)) {
+    const normalized = match[0];
+    const offset = match.index ?? 0;
+    const text = input.slice(offset, offset + normalized.length);
+    const interval = matchBondRange(normalized)
+      ?? (isValidBondNumber(normalized) ? [parseInt(normalized, 10), parseInt(normalized, 10)] as Interval : null);
+
+    // Too few or too many digits reads as a number outside the bond number space.
+    // Runs are stored as intervals, so any range within it is accepted, however large.
+    if (!interval) {
+      invalidCount++;
+      const status = DIGITS_PATTERN.test(normalized) ? 'out-of-range' : 'malformed';
+      segments.push({ text, offset, status, reason: invalidReason(normalized), interval: null, newCount: 0 });
+      continue;
+    }
+
+    const size = intervalSize(interval);
+
+    const held = intervalsSize(clipIntervals(stored, interval));
+    const fresh = subtractIntervals(subtractIntervals([interval], stored), clipIntervals(batch, interval));
+    const count = intervalsSize(fresh);
+    const repeated = size - held - count;
+    intervals.push(interval);
+    insertInterval(batch, interval);
+    newCount += count;
+    duplicateCount += size - count;
+
+    const reason: SegmentReason = { code: 'counts', size, fresh: count, held, repeated };
+    segments.push(count === 0
+      ? { text, offset, status: 'duplicate', reason, interval, newCount: 0 }
+      : { text, offset, status: 'valid', reason, interval, newCount: count });
+  }
+
+  return { segments, intervals, newCount, duplicateCount, invalidCount };
+};
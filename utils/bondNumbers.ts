@@ -0,0 +1,29 @@
+// --- Bond Number Rules ---
+// Shared by manual entry and draw result parsing so both accept exactly the
+// same numbers.
+
+export const BOND_NUMBER_LENGTH = 7;
+
+const SINGLE_PATTERN = /^\d{7}$/;
+const RANGE_PATTERN = /^(\d{7})\s*-\s*(\d{7})$/;
+
+export const isValidBondNumber = (value: string) => SINGLE_PATTERN.test(value);
+
+/**
+ * Parses a `start-end` range of two 7-digit numbers. Returns the bounds in
+ * ascending order, or null when the segment is not a valid range.
+ */
+export const matchBondRange = (value: string): [number, number] | null => {
+  const match = value.match(RANGE_PATTERN);
+  if (!match) return null;
+
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  return start <= end ? [start, end] : [end, start];
+};
+
+export const formatBondNumber = (value: number) => value.toString().padStart(BOND_NUMBER_LENGTH, '0');
+
+/** Formats an interval the way `matchBondRange` reads it back. */
+export const formatBondRange = (start: number, end: number) =>
+  start === end ? formatBondNumber(start) : `${formatBondNumber(start)}-${formatBondNumber(end)}`;
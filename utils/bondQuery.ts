@@ -0,0 +1,485 @@
+import { BOND_NUMBER_LENGTH } from './bondNumbers';
+import { digitMatchIntervals, patternMatchIntervals } from './bondSearch';
+import { BondRun } from './bondStore';
+import { DENOMINATIONS, todayIso } from './bonds';
+import { Interval, intersectIntervals, mergeIntervals, subtractIntervals } from './intervals';
+import { normalizeDigits } from './numerals';
+
+// --- Search Query Language ---
+// Terms separated by spaces must all match; OR, NOT (or a leading `-`) and
+// parentheses combine them further. A query compiles to a matcher returning
+// the matching numbers of a run as intervals, so boolean operators become
+// interval operations and a run can match in part.
+//
+//   0450000-0460000   numbers in a range      >0450000   comparisons
+//   37                numbers containing 37   *37 / 045* / 04?5*   patterns
+//   series:KA  denom:>=500  date:last-month  note:gift  is:won
+//   anything else     series or notes containing the text
+
+export interface SearchContext {
+  winningNumbers: Interval[]; // every number that has won in any stored draw
+}
+
+type RunMatcher = (run: BondRun, context: SearchContext) => Interval[];
+
+export type QueryProblem =
+  | 'dash' | 'range-end' | 'quote' | 'not-number' | 'too-long' | 'not-term' | 'denomination' | 'date' | 'flag'
+  | 'field' | 'no-value' | 'or-after' | 'and-after' | 'not-after' | 'before' | 'early-end'
+  | 'empty-parentheses' | 'unclosed' | 'unmatched';
+
+/** `problem` and `values` let the interface word the error in the chosen language. */
+export interface QueryError {
+  problem: QueryProblem;
+  values: Record<string, string | number>;
+  position: number; // offset in the query text
+}
+
+export type ParsedQuery =
+  | { matcher: RunMatcher | null; error: null } // null matcher: empty query
+  | { matcher: null; error: QueryError };
+
+const FIELD_ALIASES: Record<string, string> = {
+  number: 'number', no: 'number', n: 'number',
+  series: 'series', s: 'series',
+  denom: 'denom', denomination: 'denom', d: 'denom',
+  date: 'date', added: 'date', acquired: 'date',
+  note: 'note', notes: 'note',
+  is: 'is',
+};
+
+const DATE_KEYWORDS = ['today', 'yesterday', 'this-month', 'last-month', 'this-year', 'last-year'];
+
+// Thrown while parsing and turned into a QueryError by parseQuery
+class QuerySyntaxError extends Error {
+  constructor(public problem: QueryProblem, public position: number, public values: Record<string, string | number> = {}) {
+    super(problem);
+  }
+}
+
+// --- Tokens ---
+
+interface Token {
+  type: 'word' | 'open' | 'close' | 'and' | 'or' | 'not';
+  text: string; // quotes removed
+  raw: string;
+  position: number;
+}
+
+const OPERATORS: Record<string, Token['type']> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', text: char, raw: char, position: i });
+      i++;
+    } else if (char === '-' && /\s/.test(query[i + 1] ?? ' ')) {
+      // A dash standing alone joins two bare numbers into a range: 0450000 - 0460000.
+      // Field terms are not joined; `series:123 - 456` must be written without the spaces.
+      const previous = tokens[tokens.length - 1];
+      if (previous?.type !== 'word' || !/^\d+$/.test(previous.raw)) throw new QuerySyntaxError('dash', i);
+      const next = /^\s*(\d+)(?=[\s()]|$)/.exec(query.slice(i + 1));
+      if (!next) throw new QuerySyntaxError('range-end', i);
+      const end = i + 1 + next[0].length;
+      tokens[tokens.length - 1] = { ...previous, text: `${previous.text}-${next[1]}`, raw: query.slice(previous.position, end) };
+      i = end;
+    } else if (char === '-') {
+      // A leading dash negates; dashes inside a word are ranges or dates
+      tokens.push({ type: 'not', text: '-', raw: '-', position: i });
+      i++;
+    } else {
+      const start = i;
+      let text = '';
+      while (i < query.length && !/[\s()]/.test(query[i])) {
+        if (query[i] === '"') {
+          const close = query.indexOf('"', i + 1);
+          if (close < 0) throw new QuerySyntaxError('quote', i);
+          text += query.slice(i + 1, close);
+          i = close + 1;
+        } else {
+          text += query[i++];
+        }
+      }
+      const raw = query.slice(start, i);
+      const operator = raw.includes('"') ? undefined : OPERATORS[text.toUpperCase()];
+      tokens.push({ type: operator ?? 'word', text, raw, position: start });
+    }
+  }
+
+  return tokens;
+};
+
+// --- Matchers ---
+
+const none: Interval[] = [];
+
+/** Matches whole runs whose attributes pass the test. */
+const byAttribute = (test: (run: BondRun) => boolean): RunMatcher =>
+  run => test(run) ? [[run.start, run.end]] : none;
+
+const globPattern = (value: string) =>
+  new RegExp(`^${value.split('').map(c => c === '*' ? '.*' : c === '?' ? '.' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('')}$`, 'i');
+
+const COMPARISON = /^(>=|<=|>|<)(.*)$/;
+
+const parseBondValue = (text: string, position: number): number => {
+  if (!/^\d+$/.test(text)) throw new QuerySyntaxError('not-number', position, { text });
+  if (text.length > BOND_NUMBER_LENGTH) throw new QuerySyntaxError('too-long', position, { text, length: BOND_NUMBER_LENGTH });
+  return parseInt(text, 10);
+};
+
+/** Bounds for `>x`, `>=x`, `<x` and `<=x` over inclusive integers. */
+const comparisonRange = (operator: string, value: number, max: number): Interval => {
+  switch (operator) {
+    case '>': return [value + 1, max];
+    case '>=': return [value, max];
+    case '<': return [0, value - 1];
+    default: return [0, value];
+  }
+};
+
+const numberMatcher = (text: string, position: number): RunMatcher => {
+  const maxNumber = 10 ** BOND_NUMBER_LENGTH - 1;
+  const clip = (range: Interval): RunMatcher => run => intersectIntervals([[run.start, run.end]], [range]);
+
+  const comparison = text.match(COMPARISON);
+  if (comparison) {
+    const value = parseBondValue(comparison[2], position + comparison[1].length);
+    return clip(comparisonRange(comparison[1], value, maxNumber));
+  }
+
+  const range = text.match(/^(\d+)(?:-|\.\.)(\d+)$/);
+  if (range) {
+    const a = parseBondValue(range[1], position);
+    const b = parseBondValue(range[2], position + text.lastIndexOf(range[2]));
+    return clip(a <= b ? [a, b] : [b, a]);
+  }
+
+  if (/^\d+$/.test(text)) {
+    parseBondValue(text, position);
+    return run => digitMatchIntervals(text, [run.start, run.end]);
+  }
+
+  if (/^[\d*?]+$/.test(text)) {
+    // Without a `*` a pattern may match anywhere, like plain digits do
+    const pattern = text.includes('*') ? text : `*${text}*`;
+    if (pattern.replace(/\*/g, '').length > BOND_NUMBER_LENGTH) {
+      throw new QuerySyntaxError('too-long', position, { text, length: BOND_NUMBER_LENGTH });
+    }
+    return run => patternMatchIntervals(pattern, [run.start, run.end]);
+  }
+
+  if (/^\d+(?:-|\.\.)$/.test(text)) throw new QuerySyntaxError('range-end', position + text.length - 1);
+  throw new QuerySyntaxError('not-term', position, { text });
+};
+
+const denominationMatcher = (text: string, position: number): RunMatcher => {
+  const parse = (value: string) => {
+    if (!/^\d+$/.test(value)) throw new QuerySyntaxError('denomination', position, { value });
+    return parseInt(value, 10);
+  };
+
+  const comparison = text.match(COMPARISON);
+  if (comparison) {
+    const [min, max] = comparisonRange(comparison[1], parse(comparison[2]), Infinity);
+    return byAttribute(run => run.denomination >= min && run.denomination <= max);
+  }
+
+  const range = text.match(/^(\d+)(?:-|\.\.)(\d+)$/);
+  if (range) {
+    const [min, max] = [parse(range[1]), parse(range[2])].sort((a, b) => a - b);
+    return byAttribute(run => run.denomination >= min && run.denomination <= max);
+  }
+
+  const value = parse(text);
+  return byAttribute(run => run.denomination === value);
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const shiftDays = (iso: string, days: number) => {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return isoDay(date);
+};
+
+const monthPeriod = (year: number, month: number): [string, string] =>
+  [isoDay(new Date(Date.UTC(year, month - 1, 1))), isoDay(new Date(Date.UTC(year, month, 0)))];
+
+/** The first and last day (inclusive ISO dates) a date value refers to. */
+const datePeriod = (text: string, today: string, position: number): [string, string] => {
+  const value = text.toLowerCase();
+  const [year, month] = today.split('-').map(Number);
+
+  switch (value) {
+    case 'today': return [today, today];
+    case 'yesterday': return [shiftDays(today, -1), shiftDays(today, -1)];
+    case 'this-month': return monthPeriod(year, month);
+    case 'last-month': return monthPeriod(month === 1 ? year - 1 : year, month === 1 ? 12 : month - 1);
+    case 'this-year': return [`${year}-01-01`, `${year}-12-31`];
+    case 'last-year': return [`${year - 1}-01-01`, `${year - 1}-12-31`];
+  }
+
+  let m = value.match(/^(\d+)d$/);
+  if (m) return [shiftDays(today, -parseInt(m[1], 10)), today];
+
+  if (/^\d{4}$/.test(value)) return [`${value}-01-01`, `${value}-12-31`];
+
+  m = value.match(/^(\d{4})-(\d{2})$/);
+  if (m && +m[2] >= 1 && +m[2] <= 12) return monthPeriod(+m[1], +m[2]);
+
+  m = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (m) {
+    const date = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+    if (date.getUTCMonth() === +m[2] - 1) return [value, value];
+  }
+
+  throw new QuerySyntaxError('date', position, { text, keywords: DATE_KEYWORDS.join(', ') });
+};
+
+const dateMatcher = (text: string, today: string, position: number): RunMatcher => {
+  const within = (from: string, to: string) => byAttribute(run => run.acquiredAt !== '' && run.acquiredAt >= from && run.acquiredAt <= to);
+
+  const comparison = text.match(COMPARISON);
+  if (comparison) {
+    const [first, last] = datePeriod(comparison[2], today, position + comparison[1].length);
+    switch (comparison[1]) {
+      case '>': return byAttribute(run => run.acquiredAt > last);
+      case '>=': return byAttribute(run => run.acquiredAt >= first);
+      case '<': return byAttribute(run => run.acquiredAt !== '' && run.acquiredAt < first);
+      default: return byAttribute(run => run.acquiredAt !== '' && run.acquiredAt <= last);
+    }
+  }
+
+  const range = text.split('..');
+  if (range.length === 2) {
+    const [from] = datePeriod(range[0], today, position);
+    const [, to] = datePeriod(range[1], today, position + range[0].length + 2);
+    return from <= to ? within(from, to) : within(to, from);
+  }
+
+  const [from, to] = datePeriod(text, today, position);
+  return within(from, to);
+};
+
+const fieldMatcher = (field: string, value: string, today: string, position: number): RunMatcher => {
+  switch (field) {
+    case 'number':
+      return numberMatcher(value, position);
+    case 'series': {
+      if (/[*?]/.test(value)) {
+        const pattern = globPattern(value);
+        return byAttribute(run => pattern.test(run.series));
+      }
+      const series = value.toUpperCase();
+      return byAttribute(run => run.series === series);
+    }
+    case 'denom':
+      return denominationMatcher(value, position);
+    case 'date':
+      return dateMatcher(value, today, position);
+    case 'note': {
+      const text = value.toUpperCase();
+      return byAttribute(run => run.notes.toUpperCase().includes(text));
+    }
+    default: {
+      const flag = value.toLowerCase();
+      if (flag !== 'won' && flag !== 'winner') throw new QuerySyntaxError('flag', position, { value });
+      return (run, context) => intersectIntervals([[run.start, run.end]], context.winningNumbers);
+    }
+  }
+};
+
+const termMatcher = (token: Token, today: string): RunMatcher => {
+  const { text, raw, position } = token;
+  // A quoted word is always plain text, so `"a:b"` searches for a:b
+  const field = raw.startsWith('"') ? null : text.match(/^([a-z]+):(.*)$/i);
+
+  if (field) {
+    const name = FIELD_ALIASES[field[1].toLowerCase()];
+    if (!name) throw new QuerySyntaxError('field', position, { field: field[1] });
+    const valuePosition = position + field[1].length + 1;
+    // `series:""` asks for bonds without a series; a bare `series:` is unfinished
+    if (raw.length === field[1].length + 1) throw new QuerySyntaxError('no-value', valuePosition, { field: field[1] });
+    return fieldMatcher(name, field[2], today, valuePosition);
+  }
+
+  if (!raw.startsWith('"') && /^[\d*?<>=.-]+$/.test(text) && /[\d*?]/.test(text)) return numberMatcher(text, position);
+
+  const upper = text.toUpperCase();
+  return byAttribute(run => run.series.includes(upper) || run.notes.toUpperCase().includes(upper));
+};
+
+// --- Parser ---
+// or  := and (OR and)*
+// and := not ([AND] not)*
+// not := (NOT | -) not | '(' or ')' | term
+
+const parseTokens = (tokens: Token[], today: string, queryLength: number): RunMatcher => {
+  let index = 0;
+  const peek = () => tokens[index];
+  const endPosition = () => peek()?.position ?? queryLength;
+
+  const parseOr = (): RunMatcher => {
+    let left = parseAnd();
+    while (peek()?.type === 'or') {
+      const operator = tokens[index++];
+      if (!peek() || peek().type === 'close' || peek().type === 'or' || peek().type === 'and') {
+        throw new QuerySyntaxError('or-after', operator.position);
+      }
+      const a = left;
+      const b = parseAnd();
+      left = (run, context) => mergeIntervals([...a(run, context), ...b(run, context)]);
+    }
+    return left;
+  };
+
+  const parseAnd = (): RunMatcher => {
+    let left = parseNot();
+    while (peek() && peek().type !== 'or' && peek().type !== 'close') {
+      if (peek().type === 'and') {
+        const operator = tokens[index++];
+        if (!peek() || peek().type === 'close' || peek().type === 'or' || peek().type === 'and') {
+          throw new QuerySyntaxError('and-after', operator.position);
+        }
+      }
+      const a = left;
+      const b = parseNot();
+      left = (run, context) => {
+        const matched = a(run, context);
+        return matched.length === 0 ? none : intersectIntervals(matched, b(run, context));
+      };
+    }
+    return left;
+  };
+
+  const parseNot = (): RunMatcher => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('early-end', endPosition());
+
+    if (token.type === 'not') {
+      index++;
+      if (!peek() || peek().type === 'close' || peek().type === 'or' || peek().type === 'and') {
+        throw new QuerySyntaxError('not-after', token.position, { operator: token.text === '-' ? '-' : 'NOT' });
+      }
+      const operand = parseNot();
+      return (run, context) => subtractIntervals([[run.start, run.end]], operand(run, context));
+    }
+
+    if (token.type === 'open') {
+      index++;
+      if (peek()?.type === 'close') throw new QuerySyntaxError('empty-parentheses', token.position);
+      const inner = parseOr();
+      if (peek()?.type !== 'close') throw new QuerySyntaxError('unclosed', token.position);
+      index++;
+      return inner;
+    }
+
+    if (token.type === 'word') {
+      index++;
+      return termMatcher(token, today);
+    }
+
+    if (token.type === 'close') throw new QuerySyntaxError('unmatched', token.position);
+    throw new QuerySyntaxError('before', token.position, { operator: token.text.toUpperCase() });
+  };
+
+  const matcher = parseOr();
+  if (index < tokens.length) throw new QuerySyntaxError('unmatched', tokens[index].position);
+  return matcher;
+};
+
+/** Compiles a query. `today` anchors relative dates such as last-month. */
+export const parseQuery = (query: string, today: string = todayIso()): ParsedQuery => {
+  try {
+    const tokens = tokenize(normalizeDigits(query));
+    if (tokens.length === 0) return { matcher: null, error: null };
+    return { matcher: parseTokens(tokens, today, query.length), error: null };
+  } catch (e) {
+    if (e instanceof QuerySyntaxError) return { matcher: null, error: { problem: e.problem, values: e.values, position: e.position } };
+    throw e;
+  }
+};
+
+export const filterRuns = (runs: BondRun[], query: ParsedQuery, context: SearchContext): BondRun[] => {
+  if (query.error) return [];
+  const { matcher } = query;
+  if (!matcher) return runs;
+  return runs.flatMap(run => matcher(run, context).map(([start, end]) => ({ ...run, start, end })));
+};
+
+// --- Hints ---
+// Suggestions for the word being typed at the end of the query. Each hint
+// carries the full query text to use when it is picked.
+
+export interface QueryHint {
+  label: string;
+  description: string;
+  query: string;
+}
+
+const FIELD_HINTS: { field: string; description: string }[] = [
+  { field: 'series:', description: 'One series, e.g. series:KA or series:K*' },
+  { field: 'denom:', description: 'Denomination, e.g. denom:100 or denom:>=500' },
+  { field: 'date:', description: 'Acquired, e.g. date:2024-05 or date:last-month' },
+  { field: 'note:', description: 'Notes containing some text' },
+  { field: 'number:', description: 'Numbers, ranges or patterns' },
+  { field: 'is:won', description: 'Bonds that won in a stored draw' },
+];
+
+const EXAMPLE_HINTS: QueryHint[] = [
+  { label: '0450000-0460000', description: 'Numbers in a range', query: '0450000-0460000' },
+  { label: '*37', description: 'Numbers ending in 37', query: '*37' },
+  { label: '045*', description: 'Numbers starting with 045', query: '045*' },
+  { label: 'series:KA', description: 'One series only', query: 'series:KA' },
+  { label: 'date:last-month', description: 'Acquired last month', query: 'date:last-month' },
+  { label: 'is:won', description: 'Bonds that have won', query: 'is:won' },
+  { label: 'NOT is:won', description: 'Combine with AND, OR, NOT and ( )', query: 'NOT is:won' },
+];
+
+const HINT_LIMIT = 8;
+
+export const queryHints = (query: string, seriesOptions: string[]): QueryHint[] => {
+  if (!query.trim()) return EXAMPLE_HINTS;
+
+  // The word being typed, after any negation or opening parenthesis
+  const start = Math.max(query.lastIndexOf(' '), query.lastIndexOf('(')) + 1;
+  const negated = query[start] === '-' ? 1 : 0;
+  const head = query.slice(0, start + negated);
+  const word = query.slice(start + negated);
+  const replace = (text: string) => head + text + (text.endsWith(':') ? '' : ' ');
+
+  const field = word.match(/^([a-z]+):(.*)$/i);
+  if (!field) {
+    if (!/^[a-z]+$/i.test(word)) return [];
+    const lower = word.toLowerCase();
+    return FIELD_HINTS
+      .filter(h => h.field.startsWith(lower) && h.field !== lower)
+      .map(h => ({ label: h.field, description: h.description, query: replace(h.field) }));
+  }
+
+  const name = FIELD_ALIASES[field[1].toLowerCase()];
+  const prefix = field[2].toLowerCase();
+  const values = (options: { value: string; description: string }[]) => options
+    .filter(o => o.value.toLowerCase().startsWith(prefix) && o.value.toLowerCase() !== prefix)
+    .slice(0, HINT_LIMIT)
+    .map(o => ({ label: `${field[1]}:${o.value}`, description: o.description, query: replace(`${field[1]}:${o.value}`) }));
+
+  switch (name) {
+    case 'series':
+      return values(seriesOptions.filter(Boolean).map(s => ({ value: s, description: 'Series' })));
+    case 'denom':
+      return values(DENOMINATIONS.map(d => ({ value: String(d), description: 'Denomination' })));
+    case 'date':
+      return values([...DATE_KEYWORDS, '30d'].map(k => ({ value: k, description: 'Acquired' })));
+    case 'is':
+      return values([{ value: 'won', description: 'Won in a stored draw' }]);
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,88 @@
+import { BOND_NUMBER_LENGTH } from './bondNumbers';
+import { Interval, mergeIntervals } from './intervals';
+
+// --- Bond Search ---
+// Number matches are computed per run as intervals, so large runs are never
+// expanded. The query language built on these lives in bondQuery.ts.
+
+/**
+ * All numbers within `[start, end]` whose zero-padded form contains
+ * `digits`. For each position the query can occupy, matching numbers form
+ * evenly spaced blocks, which are intersected with the range and merged.
+ */
+export const digitMatchIntervals = (digits: string, [start, end]: Interval): Interval[] => {
+  const length = digits.length;
+  const value = parseInt(digits, 10);
+  const span = 10 ** length;
+  const blocks: Interval[] = [];
+
+  for (let position = 0; position + length <= BOND_NUMBER_LENGTH; position++) {
+    const blockSize = 10 ** (BOND_NUMBER_LENGTH - position - length);
+    const firstK = Math.max(0, Math.ceil((Math.floor(start / blockSize) - value) / span));
+    const lastK = Math.floor((Math.floor(end / blockSize) - value) / span);
+
+    for (let k = firstK; k <= lastK; k++) {
+      const blockStart = (k * span + value) * blockSize;
+      const from = Math.max(start, blockStart);
+      const to = Math.min(end, blockStart + blockSize - 1);
+      if (from <= to) blocks.push([from, to]);
+    }
+  }
+
+  return mergeIntervals(blocks);
+};
+
+/** Every way to fill the `*`s of a pattern so it is exactly one bond number long. */
+const expandWildcards = (pattern: string): string[] => {
+  const parts = pattern.split('*');
+  const free = BOND_NUMBER_LENGTH - parts.join('').length;
+  if (free < 0) return [];
+  if (parts.length === 1) return free === 0 ? [pattern] : [];
+
+  const results: string[] = [];
+  const fill = (index: number, remaining: number, built: string) => {
+    if (index === parts.length - 1) {
+      results.push(built + '?'.repeat(remaining) + parts[index]);
+      return;
+    }
+    for (let used = 0; used <= remaining; used++) {
+      fill(index + 1, remaining - used, built + parts[index] + '?'.repeat(used));
+    }
+  };
+  fill(0, free, '');
+  return results;
+};
+
+/**
+ * All numbers within `[start, end]` matching a digit pattern, where `?` is
+ * any one digit and `*` any run of digits, anchored at both ends of the
+ * zero-padded number. Prefixes are walked digit by digit, skipping those
+ * outside the range and stopping once only `?`s remain.
+ */
+export const patternMatchIntervals = (pattern: string, [start, end]: Interval): Interval[] => {
+  const blocks: Interval[] = [];
+
+  expandWildcards(pattern).forEach(fixed => {
+    const lastDigit = fixed.search(/\?*$/);
+    const visit = (position: number, prefix: number) => {
+      const blockSize = 10 ** (BOND_NUMBER_LENGTH - position);
+      const blockStart = prefix * blockSize;
+      const from = Math.max(start, blockStart);
+      const to = Math.min(end, blockStart + blockSize - 1);
+      if (from > to) return;
+      if (position >= lastDigit) {
+        blocks.push([from, to]);
+        return;
+      }
+      const char = fixed[position];
+      if (char === '?') {
+        for (let digit = 0; digit <= 9; digit++) visit(position + 1, prefix * 10 + digit);
+      } else {
+        visit(position + 1, prefix * 10 + Number(char));
+      }
+    };
+    visit(0, 0);
+  });
+
+  return mergeIntervals(blocks);
+};
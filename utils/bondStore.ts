@@ -0,0 +1,277 @@
+import { formatBondNumber } from './bondNumbers';
+import { BatchDetails, Bond, migrateBonds, normalizeSeries } from './bonds';
+import { Interval, mergeIntervals, subtractIntervals } from './intervals';
+
+// --- Interval Bond Store ---
+// Holdings are stored as runs: consecutive numbers in one series sharing the
+// same denomination, acquisition date and notes. Runs are kept sorted by
+// series then start, never overlap within a series, and neighbouring runs
+// with identical attributes are merged. Individual bonds are only
+// materialised when the UI asks for them.
+
+export interface BondRun {
+  series: string;
+  start: number;
+  end: number;
+  denomination: number;
+  acquiredAt: string;
+  notes: string;
+  portfolioId?: string; // only set on runs in the combined all-portfolios view
+}
+
+export const runSize = (run: BondRun) => run.end - run.start + 1;
+
+export const countBonds = (runs: BondRun[]) => runs.reduce((sum, run) => sum + runSize(run), 0);
+
+export const bondAt = (run: BondRun, offset: number): Bond => ({
+  number: formatBondNumber(run.start + offset),
+  series: run.series,
+  denomination: run.denomination,
+  acquiredAt: run.acquiredAt,
+  notes: run.notes,
+  ...(run.portfolioId !== undefined && { portfolioId: run.portfolioId }),
+});
+
+export const sameAttributes = (a: BondRun, b: BondRun) =>
+  a.series === b.series && a.denomination === b.denomination && a.acquiredAt === b.acquiredAt && a.notes === b.notes;
+
+const compareRuns = (a: BondRun, b: BondRun) =>
+  a.series === b.series ? a.start - b.start : a.series < b.series ? -1 : 1;
+
+/** Sorts runs and merges touching neighbours that share all attributes. */
+export const normalizeRuns = (runs: BondRun[]): BondRun[] => {
+  const sorted = [...runs].sort(compareRuns);
+  const result: BondRun[] = [];
+
+  sorted.forEach(run => {
+    const last = result[result.length - 1];
+    if (last && sameAttributes(last, run) && run.start <= last.end + 1) {
+      result[result.length - 1] = { ...last, end: Math.max(last.end, run.end) };
+    } else {
+      result.push({ ...run });
+    }
+  });
+
+  return result;
+};
+
+/** All numbers held in a series, as merged intervals. */
+export const seriesCoverage = (runs: BondRun[], series: string): Interval[] =>
+  mergeIntervals(runs.filter(r => r.series === series).map(r => [r.start, r.end]));
+
+export interface AddResult {
+  runs: BondRun[];
+  addedRuns: BondRun[];
+  added: number;
+  duplicates: number;
+}
+
+/**
+ * Adds number intervals to a series. Numbers already held in that series are
+ * counted as duplicates and left untouched.
+ */
+export const addIntervals = (runs: BondRun[], intervals: Interval[], details: BatchDetails): AddResult => {
+  const series = normalizeSeries(details.series);
+  const requested = mergeIntervals(intervals);
+  const fresh = subtractIntervals(requested, seriesCoverage(runs, series));
+
+  const addedRuns: BondRun[] = fresh.map(([start, end]) => ({
+    series,
+    start,
+    end,
+    denomination: details.denomination,
+    acquiredAt: details.acquiredAt,
+    notes: '',
+  }));
+
+  const requestedCount = intervals.reduce((sum, [s, e]) => sum + e - s + 1, 0);
+  const added = addedRuns.reduce((sum, run) => sum + runSize(run), 0);
+
+  return {
+    runs: addedRuns.length > 0 ? normalizeRuns([...runs, ...addedRuns]) : runs,
+    addedRuns,
+    added,
+    duplicates: requestedCount - added,
+  };
+};
+
+/**
+ * Adds whole runs. Numbers already held in the same series keep their
+ * current attributes; repeats within `incoming` are added once.
+ */
+export const addRuns = (runs: BondRun[], incoming: BondRun[]): { runs: BondRun[]; added: number } => {
+  const coverage = new Map<string, Interval[]>();
+  const fresh: BondRun[] = [];
+
+  incoming.forEach(run => {
+    const held = coverage.get(run.series) ?? seriesCoverage(runs, run.series);
+    subtractIntervals([[run.start, run.end]], held)
+      .forEach(([start, end]) => fresh.push({ ...run, start, end }));
+    coverage.set(run.series, mergeIntervals([...held, [run.start, run.end]]));
+  });
+
+  return {
+    runs: fresh.length > 0 ? normalizeRuns([...runs, ...fresh]) : runs,
+    added: countBonds(fresh),
+  };
+};
+
+/** Removes an interval of numbers from one series, splitting runs as needed. */
+export const removeInterval = (runs: BondRun[], series: string, [start, end]: Interval): BondRun[] =>
+  runs.flatMap(run => {
+    if (run.series !== series || run.end < start || run.start > end) return [run];
+    return subtractIntervals([[run.start, run.end]], [[start, end]]).map(([s, e]) => ({ ...run, start: s, end: e }));
+  });
+
+/** Rewrites the notes of every bond in an interval of one series, splitting runs as needed. */
+export const updateNotes = (runs: BondRun[], series: string, [start, end]: Interval, update: (notes: string) => string): BondRun[] =>
+  normalizeRuns(runs.flatMap(run => {
+    if (run.series !== series || run.end < start || run.start > end) return [run];
+    const from = Math.max(start, run.start);
+    const to = Math.min(end, run.end);
+    const pieces: BondRun[] = [];
+    if (run.start < from) pieces.push({ ...run, end: from - 1 });
+    pieces.push({ ...run, notes: update(run.notes), start: from, end: to });
+    if (to < run.end) pieces.push({ ...run, start: to + 1 });
+    return pieces;
+  }));
+
+/** Applies an attribute change to a single bond, splitting its run. */
+export const updateBond = (runs: BondRun[], series: string, number: number, changes: Partial<Pick<BondRun, 'notes'>>): BondRun[] =>
+  normalizeRuns(runs.flatMap(run => {
+    if (run.series !== series || number < run.start || number > run.end) return [run];
+    const pieces: BondRun[] = [];
+    if (run.start < number) pieces.push({ ...run, end: number - 1 });
+    pieces.push({ ...run, ...changes, start: number, end: number });
+    if (number < run.end) pieces.push({ ...run, start: number + 1 });
+    return pieces;
+  }));
+
+/** Runs grouped by series, each list sorted by start, for membership checks. */
+export const indexBySeries = (runs: BondRun[]): Map<string, BondRun[]> => {
+  const index = new Map<string, BondRun[]>();
+  runs.forEach(run => {
+    const list = index.get(run.series);
+    if (list) list.push(run);
+    else index.set(run.series, [run]);
+  });
+  index.forEach(list => list.sort((a, b) => a.start - b.start));
+  return index;
+};
+
+/** Finds the held bond with this number in a series-sorted run list. */
+export const findBond = (seriesRuns: BondRun[], number: number): Bond | null => {
+  let lo = 0;
+  let hi = seriesRuns.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const run = seriesRuns[mid];
+    if (number < run.start) hi = mid - 1;
+    else if (number > run.end) lo = mid + 1;
+    else return bondAt(run, number - run.start);
+  }
+  return null;
+};
+
+/**
+ * Groups a flat bond list into runs. Used to migrate the legacy
+ * one-entry-per-bond storage format.
+ */
+export const runsFromBonds = (bonds: Bond[]): BondRun[] =>
+  normalizeRuns(bonds.map(bond => {
+    const number = parseInt(bond.number, 10);
+    return {
+      series: bond.series,
+      start: number,
+      end: number,
+      denomination: bond.denomination,
+      acquiredAt: bond.acquiredAt,
+      notes: bond.notes,
+    };
+  }));
+
+/**
+ * Reads holdings saved to localStorage by earlier versions: either
+ * `{ version: 2, runs }`, or a flat array of numbers or bond records.
+ */
+export const parseStoredRuns = (stored: unknown): BondRun[] => {
+  if (Array.isArray(stored)) return runsFromBonds(migrateBonds(stored));
+  if (stored && typeof stored === 'object' && Array.isArray((stored as { runs?: unknown }).runs)) {
+    return normalizeRuns((stored as { runs: BondRun[] }).runs);
+  }
+  return [];
+};
+
+// --- Listing ---
+// Index-addressable view over runs, so the list can show individual bonds
+// without expanding every run.
+
+export interface BondListing {
+  runs: BondRun[];
+  offsets: number[]; // offsets[i] = index of the first bond of runs[i]
+  total: number;
+}
+
+export const createListing = (runs: BondRun[]): BondListing => {
+  const offsets: number[] = [];
+  let total = 0;
+  runs.forEach(run => {
+    offsets.push(total);
+    total += runSize(run);
+  });
+  return { runs, offsets, total };
+};
+
+/** Index of the run holding the bond at a listing position. */
+const runIndexAt = (listing: BondListing, index: number): number => {
+  let lo = 0;
+  let hi = listing.runs.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (listing.offsets[mid] <= index) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const listingAt = (listing: BondListing, index: number): Bond => {
+  const i = runIndexAt(listing, index);
+  return bondAt(listing.runs[i], index - listing.offsets[i]);
+};
+
+/** The bonds at listing positions `from` to `to` (inclusive), as runs. */
+export const listingSlice = (listing: BondListing, from: number, to: number): BondRun[] => {
+  if (listing.total === 0) return [];
+  const first = Math.max(0, Math.min(from, to));
+  const last = Math.min(listing.total - 1, Math.max(from, to));
+  const runs: BondRun[] = [];
+
+  for (let i = runIndexAt(listing, first); i < listing.runs.length && listing.offsets[i] <= last; i++) {
+    const run = listing.runs[i];
+    const offset = listing.offsets[i];
+    runs.push({
+      ...run,
+      start: run.start + Math.max(0, first - offset),
+      end: Math.min(run.end, run.start + last - offset),
+    });
+  }
+  return runs;
+};
+
+/** Expands a listing into bond numbers. Only call this for bounded output. */
+export const listingNumbers = (listing: BondListing): string[] => {
+  const numbers: string[] = [];
+  listing.runs.forEach(run => {
+    for (let n = run.start; n <= run.end; n++) numbers.push(formatBondNumber(n));
+  });
+  return numbers;
+};
+
+/** Index of the first listed bond with this number, in any series, or -1. */
+export const listingIndexOf = (listing: BondListing, number: number): number => {
+  for (let i = 0; i < listing.runs.length; i++) {
+    const run = listing.runs[i];
+    if (number >= run.start && number <= run.end) return listing.offsets[i] + number - run.start;
+  }
+  return -1;
+};
@@ -0,0 +1,63 @@
+// --- Bond Records ---
+// A bond is identified by its series and number together; the same 7-digit
+// number can legitimately be held in several series. Bonds are stored as
+// runs (see bondStore.ts) and materialised as records for display.
+
+export interface Bond {
+  number: string;
+  series: string; // Uppercased series code, '' when unknown
+  denomination: number;
+  acquiredAt: string; // ISO date (YYYY-MM-DD), '' when unknown
+  notes: string;
+  portfolioId?: string; // set when listed in the combined all-portfolios view
+}
+
+export interface BatchDetails {
+  series: string;
+  denomination: number;
+  acquiredAt: string;
+}
+
+export const DENOMINATIONS = [50, 100, 200, 500, 1000];
+export const DEFAULT_DENOMINATION = 100;
+
+export const todayIso = () => new Date().toISOString().slice(0, 10);
+
+export const normalizeSeries = (series: string) => series.trim().toUpperCase();
+
+/**
+ * Adds a `#tag` word to notes unless it is already there. Tags live in the
+ * notes so they are searched, exported and kept like any other note text.
+ */
+export const addNoteTag = (notes: string, tag: string) => {
+  const word = `#${tag.trim().replace(/^#+/, '').replace(/\s+/g, '-')}`;
+  if (word === '#' || notes.split(/\s+/).includes(word)) return notes;
+  return notes ? `${notes} ${word}` : word;
+};
+
+export const bondKey = (bond: Pick<Bond, 'series' | 'number'>) => `${bond.series}:${bond.number}`;
+
+/**
+ * Accepts both the current record format and the legacy plain `string[]`
+ * format. Legacy numbers are migrated with an unknown series and the
+ * default denomination.
+ */
+export const migrateBonds = (stored: unknown): Bond[] => {
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap((entry): Bond[] => {
+    if (typeof entry === 'string') {
+      return [{ number: entry, series: '', denomination: DEFAULT_DENOMINATION, acquiredAt: '', notes: '' }];
+    }
+    if (entry && typeof entry === 'object' && typeof entry.number === 'string') {
+      return [{
+        number: entry.number,
+        series: typeof entry.series === 'string' ? normalizeSeries(entry.series) : '',
+        denomination: typeof entry.denomination === 'number' ? entry.denomination : DEFAULT_DENOMINATION,
+        acquiredAt: typeof entry.acquiredAt === 'string' ? entry.acquiredAt : '',
+        notes: typeof entry.notes === 'string' ? entry.notes : '',
+      }];
+    }
+    return [];
+  });
+};
@@ -0,0 +1,147 @@
+import { DrawMatch } from './draws';
+
+// --- Prize Claims ---
+// A winning bond has to be claimed at the bank within two years of the
+// draw. Each win starts out unclaimed with the scheduled prize; a record is
+// only stored once the owner changes something. An unclaimed win whose
+// deadline has passed counts as expired, while a claim submitted in time
+// stays open until it is marked paid.
+
+export type ClaimStatus = 'unclaimed' | 'submitted' | 'paid' | 'expired';
+
+export const CLAIM_STATUSES: ClaimStatus[] = ['unclaimed', 'submitted', 'paid', 'expired'];
+
+export const CLAIM_WINDOW_YEARS = 2;
+
+// Source tax deducted from prize bond winnings
+export const PRIZE_TAX_RATE = 0.2;
+
+// Open claims this close to their deadline are shown as urgent
+export const EXPIRING_SOON_DAYS = 90;
+
+export interface ClaimRecord {
+  status: ClaimStatus;
+  claimDate: string; // ISO date the claim was filed, '' until then
+  bank: string;
+  branch: string;
+  grossPrize: number;
+  taxDeducted: number;
+  netAmount: number; // actually received; 0 until paid
+}
+
+// Keyed by `claimKey`
+export type Claims = Record<string, ClaimRecord>;
+
+export interface ClaimEntry {
+  key: string;
+  match: DrawMatch;
+  claim: ClaimRecord;
+  status: ClaimStatus; // the stored status, or expired once an unclaimed win runs out of time
+  deadline: string;
+  daysLeft: number; // negative once the deadline has passed
+}
+
+export interface ClaimSummary {
+  open: number; // unclaimed or submitted
+  expiringSoon: number;
+  expired: number;
+  outstanding: number; // gross prize of open claims
+  received: number; // net amount of paid claims
+}
+
+/** A win is one bond in one draw; the same number can win again in a later draw. */
+export const claimKey = (match: DrawMatch) => `${match.drawNumber}:${match.bond.series}:${match.bond.number}`;
+
+export const defaultClaim = (match: DrawMatch): ClaimRecord => ({
+  status: 'unclaimed',
+  claimDate: '',
+  bank: '',
+  branch: '',
+  grossPrize: match.prize,
+  taxDeducted: Math.round(match.prize * PRIZE_TAX_RATE),
+  netAmount: 0,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseIsoDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+/** The last day a win from a draw on `drawDate` can be claimed. */
+export const claimDeadline = (drawDate: string) => {
+  const { year, month, day } = parseIsoDate(drawDate);
+  // The day before the anniversary; Date.UTC rolls day 0 back into the previous month
+  return new Date(Date.UTC(year + CLAIM_WINDOW_YEARS, month - 1, day - 1)).toISOString().slice(0, 10);
+};
+
+export const daysBetween = (from: string, to: string) => {
+  const a = parseIsoDate(from);
+  const b = parseIsoDate(to);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / DAY_MS);
+};
+
+export const isOpenClaim = (status: ClaimStatus) => status === 'unclaimed' || status === 'submitted';
+
+/** Every win with its claim, open claims first and nearest deadline first within each group. */
+export const claimEntries = (matches: DrawMatch[], claims: Claims, today: string): ClaimEntry[] =>
+  matches.map((match): ClaimEntry => {
+    const key = claimKey(match);
+    const claim = claims[key] ?? defaultClaim(match);
+    const deadline = claimDeadline(match.drawDate);
+    const daysLeft = daysBetween(today, deadline);
+    const status = claim.status === 'unclaimed' && daysLeft < 0 ? 'expired' : claim.status;
+    return { key, match, claim, status, deadline, daysLeft };
+  }).sort((a, b) =>
+    Number(isOpenClaim(b.status)) - Number(isOpenClaim(a.status)) || a.deadline.localeCompare(b.deadline)
+  );
+
+export const summarizeClaims = (entries: ClaimEntry[]): ClaimSummary =>
+  entries.reduce((summary, entry) => {
+    if (isOpenClaim(entry.status)) {
+      summary.open++;
+      summary.outstanding += entry.claim.grossPrize;
+      // A submitted claim is with the bank already; only unclaimed ones can still run out
+      if (entry.status === 'unclaimed' && entry.daysLeft <= EXPIRING_SOON_DAYS) summary.expiringSoon++;
+    } else if (entry.status === 'expired') {
+      summary.expired++;
+    } else {
+      summary.received += entry.claim.netAmount;
+    }
+    return summary;
+  }, { open: 0, expiringSoon: 0, expired: 0, outstanding: 0, received: 0 });
+
+export type ClaimProblem = 'negative' | 'tax' | 'net' | 'date';
+
+/** What is wrong with the entered record, or null when it can be saved. */
+export const validateClaim = (claim: ClaimRecord): ClaimProblem | null => {
+  const amounts = [claim.grossPrize, claim.taxDeducted, claim.netAmount];
+  if (amounts.some(amount => !Number.isFinite(amount) || amount < 0)) return 'negative';
+  if (claim.taxDeducted > claim.grossPrize) return 'tax';
+  if (claim.netAmount > claim.grossPrize) return 'net';
+  if ((claim.status === 'submitted' || claim.status === 'paid') && !claim.claimDate) return 'date';
+  return null;
+};
+
+const isClaimRecord = (value: unknown): value is ClaimRecord => {
+  if (!value || typeof value !== 'object') return false;
+  const claim = value as Record<string, unknown>;
+  return CLAIM_STATUSES.includes(claim.status as ClaimStatus)
+    && typeof claim.claimDate === 'string'
+    && typeof claim.bank === 'string'
+    && typeof claim.branch === 'string'
+    && typeof claim.grossPrize === 'number'
+    && typeof claim.taxDeducted === 'number'
+    && typeof claim.netAmount === 'number';
+};
+
+/** Stored claims, skipping any record that does not have the expected shape. */
+export const parseStoredClaims = (stored: unknown): Claims => {
+  if (!stored || typeof stored !== 'object') return {};
+  const claims: Claims = {};
+  Object.entries(stored as Record<string, unknown>).forEach(([key, value]) => {
+    if (isClaimRecord(value)) claims[key] = value;
+  });
+  return claims;
+};
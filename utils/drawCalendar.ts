@@ -0,0 +1,175 @@
+import { BondRun } from './bondStore';
+import { daysBetween } from './claims';
+
+// --- Draw Calendar ---
+// Draws are held on a fixed schedule: quarterly, on the last day of
+// January, April, July and October, with consecutive draw numbers. A bond
+// only takes part in a draw it has been held for a minimum number of days
+// before. Both the schedule and the rule can be changed, since either may be
+// revised. Bonds without an acquisition date are assumed to have been held
+// long enough.
+
+export interface ScheduledDraw {
+  drawNumber: number;
+  drawDate: string; // ISO date (YYYY-MM-DD)
+}
+
+export interface DrawCalendar {
+  draws: ScheduledDraw[]; // sorted by date
+  minHoldingDays: number;
+  reminderDays: number; // a reminder is shown this many days before a draw; 0 turns it off
+}
+
+export const DRAW_CALENDAR_KEY = 'draw_calendar';
+const DISMISSED_REMINDER_KEY = 'draw_reminder_dismissed';
+
+export const DEFAULT_MIN_HOLDING_DAYS = 60;
+export const DEFAULT_REMINDER_DAYS = 7;
+
+const DRAW_MONTHS = [1, 4, 7, 10];
+
+// A known draw the default schedule counts from
+const ANCHOR_DRAW: ScheduledDraw = { drawNumber: 115, drawDate: '2024-07-31' };
+
+// Generated schedules reach this far past today
+const SCHEDULE_YEARS_AHEAD = 2;
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const parseIsoDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+};
+
+export const addDays = (date: string, days: number) => {
+  const { year, month, day } = parseIsoDate(date);
+  return isoDay(new Date(Date.UTC(year, month - 1, day + days)));
+};
+
+/** The quarterly draw date following `date`. */
+const nextQuarterlyDate = (date: string) => {
+  const { year, month } = parseIsoDate(date);
+  const nextMonth = DRAW_MONTHS.find(m => m > month);
+  // Day 0 of the following month is the last day of the draw month
+  return nextMonth
+    ? isoDay(new Date(Date.UTC(year, nextMonth, 0)))
+    : isoDay(new Date(Date.UTC(year + 1, DRAW_MONTHS[0], 0)));
+};
+
+/** Continues the schedule quarter by quarter after its last draw, up to `until`. */
+const extendQuarterly = (draws: ScheduledDraw[], until: string): ScheduledDraw[] => {
+  const extended = [...draws];
+  let last = extended[extended.length - 1] ?? ANCHOR_DRAW;
+  if (extended.length === 0) extended.push(last);
+  while (last.drawDate < until) {
+    last = { drawNumber: last.drawNumber + 1, drawDate: nextQuarterlyDate(last.drawDate) };
+    extended.push(last);
+  }
+  return extended;
+};
+
+/** Adds quarterly draws after the last scheduled one, reaching a couple of years past today. */
+export const extendSchedule = (calendar: DrawCalendar, today: string): DrawCalendar => ({
+  ...calendar,
+  draws: extendQuarterly(calendar.draws, addDays(today, SCHEDULE_YEARS_AHEAD * 365)),
+});
+
+export const defaultDrawCalendar = (today: string): DrawCalendar => extendSchedule({
+  draws: [ANCHOR_DRAW],
+  minHoldingDays: DEFAULT_MIN_HOLDING_DAYS,
+  reminderDays: DEFAULT_REMINDER_DAYS,
+}, today);
+
+const sortDraws = (draws: ScheduledDraw[]) => [...draws].sort((a, b) => a.drawDate.localeCompare(b.drawDate) || a.drawNumber - b.drawNumber);
+
+/** Adds a draw to the schedule, replacing one with the same number. */
+export const scheduleDraw = (calendar: DrawCalendar, draw: ScheduledDraw): DrawCalendar => ({
+  ...calendar,
+  draws: sortDraws([...calendar.draws.filter(d => d.drawNumber !== draw.drawNumber), draw]),
+});
+
+export const unscheduleDraw = (calendar: DrawCalendar, drawNumber: number): DrawCalendar => ({
+  ...calendar,
+  draws: calendar.draws.filter(d => d.drawNumber !== drawNumber),
+});
+
+const isScheduledDraw = (value: unknown): value is ScheduledDraw => {
+  if (!value || typeof value !== 'object') return false;
+  const draw = value as Record<string, unknown>;
+  return Number.isInteger(draw.drawNumber) && typeof draw.drawDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(draw.drawDate);
+};
+
+const isDayCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/** Also reads the copy kept in the encrypted store; missing parts fall back to the defaults. */
+export const parseStoredDrawCalendar = (stored: unknown, today: string): DrawCalendar => {
+  const fallback = defaultDrawCalendar(today);
+  if (!stored || typeof stored !== 'object') return fallback;
+  const parsed = stored as Record<string, unknown>;
+  return {
+    draws: Array.isArray(parsed.draws) ? sortDraws(parsed.draws.filter(isScheduledDraw)) : fallback.draws,
+    minHoldingDays: isDayCount(parsed.minHoldingDays) ? parsed.minHoldingDays : fallback.minHoldingDays,
+    reminderDays: isDayCount(parsed.reminderDays) ? parsed.reminderDays : fallback.reminderDays,
+  };
+};
+
+export const loadDrawCalendar = (today: string): DrawCalendar => {
+  const saved = localStorage.getItem(DRAW_CALENDAR_KEY);
+  if (!saved) return defaultDrawCalendar(today);
+  try {
+    return parseStoredDrawCalendar(JSON.parse(saved), today);
+  } catch (e) {
+    console.error("Failed to load draw calendar", e);
+    return defaultDrawCalendar(today);
+  }
+};
+
+export const saveDrawCalendar = (calendar: DrawCalendar) => {
+  localStorage.setItem(DRAW_CALENDAR_KEY, JSON.stringify(calendar));
+};
+
+// --- Eligibility ---
+
+/** The last acquisition date that still qualifies for a draw. */
+export const eligibilityCutoff = (draw: ScheduledDraw, minHoldingDays: number) => addDays(draw.drawDate, -minHoldingDays);
+
+export const isEligibleFor = (acquiredAt: string, draw: ScheduledDraw, minHoldingDays: number) =>
+  !acquiredAt || acquiredAt <= eligibilityCutoff(draw, minHoldingDays);
+
+/** Every scheduled draw a bond acquired on `acquiredAt` is or was eligible for, oldest first. */
+export const eligibleDraws = (acquiredAt: string, calendar: DrawCalendar): ScheduledDraw[] =>
+  calendar.draws.filter(draw => isEligibleFor(acquiredAt, draw, calendar.minHoldingDays));
+
+/** The first eligible draw on or after `today`, or null when the schedule has none. */
+export const nextEligibleDraw = (acquiredAt: string, calendar: DrawCalendar, today: string): ScheduledDraw | null =>
+  eligibleDraws(acquiredAt, calendar).find(draw => draw.drawDate >= today) ?? null;
+
+/** The next draw, today's included. */
+export const nextDraw = (calendar: DrawCalendar, today: string): ScheduledDraw | null =>
+  calendar.draws.find(draw => draw.drawDate >= today) ?? null;
+
+export const countEligible = (runs: BondRun[], draw: ScheduledDraw, minHoldingDays: number) =>
+  runs.reduce((sum, run) => sum + (isEligibleFor(run.acquiredAt, draw, minHoldingDays) ? run.end - run.start + 1 : 0), 0);
+
+export interface DrawReminder {
+  draw: ScheduledDraw;
+  daysLeft: number;
+}
+
+/** The next draw when it is within the reminder window. */
+export const dueReminder = (calendar: DrawCalendar, today: string): DrawReminder | null => {
+  const draw = nextDraw(calendar, today);
+  if (!draw || calendar.reminderDays === 0) return null;
+  const daysLeft = daysBetween(today, draw.drawDate);
+  return daysLeft <= calendar.reminderDays ? { draw, daysLeft } : null;
+};
+
+// A dismissed reminder stays away until the next draw's
+export const loadDismissedReminder = (): number | null => {
+  const saved = Number(localStorage.getItem(DISMISSED_REMINDER_KEY));
+  return Number.isInteger(saved) && saved > 0 ? saved : null;
+};
+
+export const saveDismissedReminder = (drawNumber: number) => {
+  localStorage.setItem(DISMISSED_REMINDER_KEY, String(drawNumber));
+};
@@ -0,0 +1,204 @@
+import { isValidBondNumber } from './bondNumbers';
+import { PrizeTier, emptyWinners } from './draws';
+import { normalizeDigits } from './numerals';
+
+// --- Official Draw Result Parser ---
+// Turns pasted result text (plain text or copied from the published PDF) into
+// a structured draw. Numbers are assigned to the most recent prize heading;
+// anything that cannot be assigned is reported back line by line, with a
+// reason the interface words in the chosen language.
+
+export type UnplacedReason =
+  | { code: 'draw-number'; drawNumber: number } // disagrees with the one read first
+  | { code: 'draw-date'; date: string }
+  | { code: 'no-heading'; count: number } // numbers before any prize heading
+  | { code: 'malformed'; tokens: string[] }
+  | { code: 'repeated'; numbers: { number: string; tier: PrizeTier }[] }; // with the tier that already has them
+
+export interface UnplacedLine {
+  lineNumber: number;
+  text: string;
+  reason: UnplacedReason;
+}
+
+export interface ParsedDrawResult {
+  drawNumber: number | null;
+  drawDate: string | null;
+  winners: Record<PrizeTier, string[]>;
+  unplaced: UnplacedLine[];
+}
+
+const TIER_HEADING_PATTERN = /\b(1st|first|2nd|second|3rd|third|4th|fourth|5th|fifth)\s*prizes?\b/i;
+
+const TIER_WORDS: Record<string, PrizeTier> = {
+  '1st': 1, first: 1,
+  '2nd': 2, second: 2,
+  '3rd': 3, third: 3,
+  '4th': 4, fourth: 4,
+  '5th': 5, fifth: 5,
+};
+
+const DRAW_NUMBER_PATTERNS = [
+  /\bdraw\s*(?:no\.?|number|#)\s*[:.\-]?\s*(\d{1,4})\b/i,
+  /\b(\d{1,4})\s*(?:st|nd|rd|th)\s+(?:prize\s+bond\s+)?draw\b/i,
+];
+
+// Prize amounts such as "Tk. 6,00,000/-", "৳10,000 each" or "50,000/-"
+const AMOUNT_PATTERNS = [
+  /(?:tk\.?|taka|৳)\s*[\d,]+(?:\.\d+)?(?:\s*\/-)?/gi,
+  /[\d,]+(?:\.\d+)?\s*\/-/g,
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Finds the first recognisable date in a line. Supports ISO dates,
+ * day-first numeric dates and dates with English month names.
+ */
+const extractDate = (line: string): { iso: string; match: string } | null => {
+  let m = line.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (m) {
+    const iso = toIsoDate(+m[1], +m[2], +m[3]);
+    if (iso) return { iso, match: m[0] };
+  }
+
+  m = line.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})\b/);
+  if (m) {
+    const iso = toIsoDate(+m[3], +m[2], +m[1]);
+    if (iso) return { iso, match: m[0] };
+  }
+
+  m = line.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,9})\.?,?\s+(\d{4})\b/i);
+  if (m) {
+    const month = MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1;
+    const iso = month ? toIsoDate(+m[3], month, +m[1]) : null;
+    if (iso) return { iso, match: m[0] };
+  }
+
+  m = line.match(/\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/i);
+  if (m) {
+    const month = MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1;
+    const iso = month ? toIsoDate(+m[3], month, +m[2]) : null;
+    if (iso) return { iso, match: m[0] };
+  }
+
+  return null;
+};
+
+const extractDrawNumber = (line: string): { value: number; match: string } | null => {
+  for (const pattern of DRAW_NUMBER_PATTERNS) {
+    const m = line.match(pattern);
+    if (m) return { value: parseInt(m[1], 10), match: m[0] };
+  }
+  return null;
+};
+
+export const parseDrawResultText = (text: string): ParsedDrawResult => {
+  const result: ParsedDrawResult = {
+    drawNumber: null,
+    drawDate: null,
+    winners: emptyWinners(),
+    unplaced: [],
+  };
+
+  // Number -> tier it was first placed in, to catch repeats across columns
+  const placed = new Map<string, PrizeTier>();
+  let currentTier: PrizeTier | null = null;
+
+  // Results published in Bangla use Bangla digits
+  normalizeDigits(text).split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    let line = rawLine.trim();
+    if (!line) return;
+
+    // Draw number and date often repeat in page headers; the first one wins
+    // and any disagreeing repeat is reported.
+    const drawNumber = extractDrawNumber(line);
+    if (drawNumber) {
+      line = line.replace(drawNumber.match, ' ');
+      if (result.drawNumber === null) {
+        result.drawNumber = drawNumber.value;
+      } else if (result.drawNumber !== drawNumber.value) {
+        result.unplaced.push({ lineNumber, text: rawLine.trim(), reason: { code: 'draw-number', drawNumber: drawNumber.value } });
+      }
+    }
+
+    const date = extractDate(line);
+    if (date) {
+      line = line.replace(date.match, ' ');
+      if (result.drawDate === null) {
+        result.drawDate = date.iso;
+      } else if (result.drawDate !== date.iso) {
+        result.unplaced.push({ lineNumber, text: rawLine.trim(), reason: { code: 'draw-date', date: date.iso } });
+      }
+    }
+
+    const heading = line.match(TIER_HEADING_PATTERN);
+    if (heading) {
+      currentTier = TIER_WORDS[heading[1].toLowerCase()];
+      line = line.replace(heading[0], ' ');
+    }
+
+    AMOUNT_PATTERNS.forEach(pattern => {
+      line = line.replace(pattern, ' ');
+    });
+
+    // Remaining tokens that carry digits are candidate winning numbers;
+    // words (series markers, "each", headings) are skipped.
+    const tokens = line.split(/[^0-9A-Za-z]+/).filter(token => /\d/.test(token));
+    if (tokens.length === 0) return;
+
+    const malformed: string[] = [];
+    const repeated: { number: string; tier: PrizeTier }[] = [];
+    const numbers: string[] = [];
+
+    tokens.forEach(token => {
+      if (!isValidBondNumber(token)) {
+        malformed.push(token);
+      } else if (placed.has(token)) {
+        repeated.push({ number: token, tier: placed.get(token)! });
+      } else {
+        numbers.push(token);
+      }
+    });
+
+    if (numbers.length > 0) {
+      if (currentTier === null) {
+        result.unplaced.push({
+          lineNumber,
+          text: rawLine.trim(),
+          reason: { code: 'no-heading', count: numbers.length },
+        });
+      } else {
+        const tier = currentTier;
+        numbers.forEach(number => placed.set(number, tier));
+        result.winners[tier].push(...numbers);
+      }
+    }
+
+    if (malformed.length > 0) {
+      result.unplaced.push({
+        lineNumber,
+        text: rawLine.trim(),
+        reason: { code: 'malformed', tokens: malformed },
+      });
+    }
+
+    if (repeated.length > 0) {
+      result.unplaced.push({
+        lineNumber,
+        text: rawLine.trim(),
+        reason: { code: 'repeated', numbers: repeated },
+      });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,139 @@
+import { isValidBondNumber } from './bondNumbers';
+import { Bond } from './bonds';
+import { BondRun, findBond, indexBySeries } from './bondStore';
+import { Interval, mergeIntervals } from './intervals';
+import { normalizeDigits } from './numerals';
+
+// --- Draw Results ---
+// Winning numbers are published per prize tier and apply to every stored bond
+// with a matching 7-digit number in any series, regardless of when the bond
+// was added.
+
+export type PrizeTier = 1 | 2 | 3 | 4 | 5;
+
+export const PRIZE_TIERS: PrizeTier[] = [1, 2, 3, 4, 5];
+
+// Prize money per winning bond (Tk 100 bond schedule)
+export const PRIZE_AMOUNTS: Record<PrizeTier, number> = {
+  1: 600000,
+  2: 325000,
+  3: 100000,
+  4: 50000,
+  5: 10000,
+};
+
+export const TIER_LABELS: Record<PrizeTier, string> = {
+  1: '1st Prize',
+  2: '2nd Prize',
+  3: '3rd Prize',
+  4: '4th Prize',
+  5: '5th Prize',
+};
+
+export interface Draw {
+  drawNumber: number;
+  drawDate: string; // ISO date (YYYY-MM-DD)
+  winners: Record<PrizeTier, string[]>;
+}
+
+export interface DrawMatch {
+  bond: Bond;
+  drawNumber: number;
+  drawDate: string;
+  tier: PrizeTier;
+  prize: number;
+}
+
+export const DRAWS_STORAGE_KEY = 'prize_draws';
+
+export const emptyWinners = (): Record<PrizeTier, string[]> => ({ 1: [], 2: [], 3: [], 4: [], 5: [] });
+
+/** Also reads the copy kept in the encrypted store. */
+export const parseStoredDraws = (stored: unknown): Draw[] => Array.isArray(stored) ? stored : [];
+
+export const loadDraws = (): Draw[] => {
+  const saved = localStorage.getItem(DRAWS_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return parseStoredDraws(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load draws", e);
+    return [];
+  }
+};
+
+export const saveDraws = (draws: Draw[]) => {
+  localStorage.setItem(DRAWS_STORAGE_KEY, JSON.stringify(draws));
+};
+
+/**
+ * Adds a draw, replacing any stored draw with the same draw number.
+ * The result is kept sorted newest draw first.
+ */
+export const upsertDraw = (draws: Draw[], draw: Draw): Draw[] =>
+  [...draws.filter(d => d.drawNumber !== draw.drawNumber), draw]
+    .sort((a, b) => b.drawNumber - a.drawNumber);
+
+/**
+ * Splits free-form winning number input into valid 7-digit numbers and
+ * rejected tokens. Duplicates within the same input are dropped.
+ */
+export const parseWinningNumbers = (text: string): { numbers: string[]; invalid: string[] } => {
+  const numbers: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  normalizeDigits(text).split(/[,\s\n]+/).map(s => s.trim()).filter(Boolean).forEach(token => {
+    if (!isValidBondNumber(token)) {
+      invalid.push(token);
+    } else if (!seen.has(token)) {
+      seen.add(token);
+      numbers.push(token);
+    }
+  });
+
+  return { numbers, invalid };
+};
+
+/**
+ * Checks every bond against every stored draw. Results are ordered by
+ * draw (newest first), then by tier.
+ */
+export const findWinningBonds = (runs: BondRun[], draws: Draw[]): DrawMatch[] => {
+  if (runs.length === 0 || draws.length === 0) return [];
+
+  const bySeries = [...indexBySeries(runs).values()];
+  const matches: DrawMatch[] = [];
+
+  [...draws].sort((a, b) => b.drawNumber - a.drawNumber).forEach(draw => {
+    PRIZE_TIERS.forEach(tier => {
+      (draw.winners[tier] || []).forEach(number => {
+        const value = parseInt(number, 10);
+        bySeries.forEach(seriesRuns => {
+          const bond = findBond(seriesRuns, value);
+          if (!bond) return;
+          matches.push({
+            bond,
+            drawNumber: draw.drawNumber,
+            drawDate: draw.drawDate,
+            tier,
+            prize: PRIZE_AMOUNTS[tier],
+          });
+        });
+      });
+    });
+  });
+
+  return matches;
+};
+
+/** Every number that won in any stored draw, as merged intervals. */
+export const winningIntervals = (draws: Draw[]): Interval[] =>
+  mergeIntervals(draws.flatMap(draw =>
+    PRIZE_TIERS.flatMap(tier => (draw.winners[tier] || []).map((number): Interval => {
+      const value = parseInt(number, 10);
+      return [value, value];
+    }))
+  ));
+
+export const formatTaka = (amount: number) => `৳${amount.toLocaleString('en-IN')}`;
@@ -0,0 +1,139 @@
+// --- Passphrase Encryption ---
+// AES-GCM with a key derived from the passphrase by PBKDF2. The key is
+// created non-extractable and only ever lives in memory; what is stored is
+// the salt, the iteration count and a known value encrypted with the key, so
+// a passphrase can be checked without decrypting any bond data.
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const CHECK_VALUE = 'prize-bond-manager';
+
+export const BACKUP_FORMAT = 'prize-bond-encrypted-backup';
+
+export interface EncryptedPayload {
+  iv: string; // base64
+  data: string; // base64
+}
+
+export interface EncryptionConfig {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedPayload;
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const AUTO_LOCK_KEY = 'auto_lock_minutes';
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60]; // 0 = never
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export const loadAutoLockMinutes = (): number => {
+  const saved = localStorage.getItem(AUTO_LOCK_KEY);
+  const minutes = saved === null ? NaN : Number(saved);
+  return AUTO_LOCK_OPTIONS.includes(minutes) ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+export const saveAutoLockMinutes = (minutes: number) => {
+  localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/** Throws when the key is wrong or the payload was altered. */
+export const decryptJson = async <T = unknown>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data));
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  !!value && typeof value === 'object'
+  && typeof (value as EncryptedPayload).iv === 'string'
+  && typeof (value as EncryptedPayload).data === 'string';
+
+export const isEncryptionConfig = (value: unknown): value is EncryptionConfig => {
+  if (!value || typeof value !== 'object') return false;
+  const config = value as Record<string, unknown>;
+  return config.version === 1
+    && typeof config.salt === 'string'
+    && typeof config.iterations === 'number'
+    && isEncryptedPayload(config.check);
+};
+
+/** A fresh salt and key for a new passphrase. */
+export const createEncryption = async (passphrase: string): Promise<{ key: CryptoKey; config: EncryptionConfig }> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    key,
+    config: { version: 1, salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encryptJson(key, CHECK_VALUE) },
+  };
+};
+
+/** The key for `passphrase`, or null when it does not match the config. */
+export const unlockKey = async (config: EncryptionConfig, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(config.salt), config.iterations);
+  try {
+    return (await decryptJson(key, config.check)) === CHECK_VALUE ? key : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- Encrypted Backups ---
+// A backup carries its own salt so it can be opened on any device with the
+// passphrase it was created with.
+
+export const createEncryptedBackup = async (content: string, passphrase: string) => {
+  const { key, config } = await createEncryption(passphrase);
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: 1,
+    encryption: config,
+    payload: await encryptJson(key, content),
+  }, null, 2);
+};
+
+export const isEncryptedBackup = (text: string) => {
+  try {
+    return JSON.parse(text)?.format === BACKUP_FORMAT;
+  } catch (e) {
+    return false;
+  }
+};
+
+/** The backed-up content, or null when the passphrase is wrong. */
+export const openEncryptedBackup = async (text: string, passphrase: string): Promise<string | null> => {
+  const backup = JSON.parse(text);
+  if (!isEncryptionConfig(backup.encryption) || !isEncryptedPayload(backup.payload)) {
+    throw new Error('Backup file is damaged.');
+  }
+  const key = await unlockKey(backup.encryption, passphrase);
+  return key ? decryptJson<string>(key, backup.payload) : null;
+};
@@ -0,0 +1,180 @@
+import { BondRun, countBonds, normalizeRuns, removeInterval } from './bondStore';
+import { createId } from './ids';
+import { DEFAULT_PORTFOLIO_ID, Holdings, Portfolio } from './portfolios';
+
+// --- Operation History ---
+// Each entry records, per portfolio, the runs an operation removed and the
+// runs it added, so undo and redo are a swap of the two. Entries are applied
+// by interval rather than by identity, so note edits made in between (which
+// are not recorded) do not stop an undo from working. Deleting a portfolio
+// also records the portfolio itself, so undo can list it again.
+
+export interface PortfolioChange {
+  portfolioId: string;
+  removed: BondRun[];
+  added: BondRun[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: string; // ISO timestamp
+  changes: PortfolioChange[]; // one per portfolio touched; a move touches two
+  removedPortfolio?: RemovedPortfolio; // set when the step deleted a portfolio
+}
+
+export interface RemovedPortfolio {
+  portfolio: Portfolio;
+  index: number; // its place in the portfolio list
+}
+
+export interface History {
+  past: HistoryEntry[]; // oldest first; the last entry is undone next
+  future: HistoryEntry[]; // the last entry is redone next
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const HISTORY_LIMIT_KEY = 'history_limit';
+export const HISTORY_LIMITS = [10, 25, 50, 100];
+export const DEFAULT_HISTORY_LIMIT = 25;
+
+export const loadHistoryLimit = (): number => {
+  const saved = Number(localStorage.getItem(HISTORY_LIMIT_KEY));
+  return HISTORY_LIMITS.includes(saved) ? saved : DEFAULT_HISTORY_LIMIT;
+};
+
+export const saveHistoryLimit = (limit: number) => {
+  localStorage.setItem(HISTORY_LIMIT_KEY, String(limit));
+};
+
+const runKey = (run: BondRun) =>
+  [run.series, run.start, run.end, run.denomination, run.acquiredAt, run.notes].join('\u0000');
+
+/** Runs only in `prev` and runs only in `next`; shared runs are left out. */
+export const diffRuns = (prev: BondRun[], next: BondRun[]) => {
+  const before = new Set(prev.map(runKey));
+  const after = new Set(next.map(runKey));
+  return {
+    removed: prev.filter(run => !after.has(runKey(run))),
+    added: next.filter(run => !before.has(runKey(run))),
+  };
+};
+
+/** Null when the operation changed nothing. Untouched portfolios are skipped by reference. */
+export const createHistoryEntry = (label: string, prev: Holdings, next: Holdings, removedPortfolio?: RemovedPortfolio): HistoryEntry | null => {
+  const ids = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const changes: PortfolioChange[] = [];
+  ids.forEach(portfolioId => {
+    if (prev[portfolioId] === next[portfolioId]) return;
+    const { removed, added } = diffRuns(prev[portfolioId] ?? [], next[portfolioId] ?? []);
+    if (removed.length > 0 || added.length > 0) changes.push({ portfolioId, removed, added });
+  });
+  // An empty portfolio changes no runs, but deleting it is still a step
+  if (removedPortfolio) return { id: createId(), label, at: new Date().toISOString(), changes, removedPortfolio };
+  if (changes.length === 0) return null;
+  return { id: createId(), label, at: new Date().toISOString(), changes };
+};
+
+/** Keeps the most recent `limit` entries in total, dropping the oldest undo steps first. */
+export const trimHistory = (history: History, limit: number): History => {
+  const future = history.future.slice(-limit);
+  const past = history.past.slice(Math.max(0, history.past.length - (limit - future.length)));
+  return past.length === history.past.length && future.length === history.future.length
+    ? history
+    : { past, future };
+};
+
+/** A new operation discards anything that could have been redone. */
+export const recordHistory = (history: History, entry: HistoryEntry, limit: number): History =>
+  trimHistory({ past: [...history.past, entry], future: [] }, limit);
+
+const swapRuns = (runs: BondRun[], take: BondRun[], give: BondRun[]) => {
+  let next = runs;
+  [...take, ...give].forEach(run => {
+    next = removeInterval(next, run.series, [run.start, run.end]);
+  });
+  return normalizeRuns([...next, ...give]);
+};
+
+const applyChanges = (holdings: Holdings, entry: HistoryEntry, undo: boolean): Holdings => {
+  const next = { ...holdings };
+  entry.changes.forEach(({ portfolioId, removed, added }) => {
+    const runs = next[portfolioId] ?? [];
+    next[portfolioId] = undo ? swapRuns(runs, added, removed) : swapRuns(runs, removed, added);
+  });
+  return next;
+};
+
+export const revertEntry = (holdings: Holdings, entry: HistoryEntry) => applyChanges(holdings, entry, true);
+
+export const reapplyEntry = (holdings: Holdings, entry: HistoryEntry) => applyChanges(holdings, entry, false);
+
+/** Bonds an entry added and removed, for messages. */
+export const entryCounts = (entry: HistoryEntry) => ({
+  added: entry.changes.reduce((sum, c) => sum + countBonds(c.added), 0),
+  removed: entry.changes.reduce((sum, c) => sum + countBonds(c.removed), 0),
+});
+
+/** Puts a deleted portfolio back in its old place, unless it is already listed. */
+export const relistPortfolio = (portfolios: Portfolio[], { portfolio, index }: RemovedPortfolio): Portfolio[] => {
+  if (portfolios.some(p => p.id === portfolio.id)) return portfolios;
+  return [...portfolios.slice(0, index), portfolio, ...portfolios.slice(index)];
+};
+
+const isStoredRun = (value: unknown): value is BondRun => {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return typeof run.series === 'string'
+    && Number.isInteger(run.start) && Number.isInteger(run.end)
+    && (run.start as number) <= (run.end as number)
+    && typeof run.denomination === 'number'
+    && typeof run.acquiredAt === 'string'
+    && typeof run.notes === 'string';
+};
+
+const isStoredRemovedPortfolio = (value: unknown): value is RemovedPortfolio => {
+  if (!value || typeof value !== 'object') return false;
+  const { portfolio, index } = value as Record<string, unknown>;
+  if (!portfolio || typeof portfolio !== 'object' || !Number.isInteger(index) || (index as number) < 0) return false;
+  const { id, name, createdAt } = portfolio as Record<string, unknown>;
+  return typeof id === 'string' && typeof name === 'string' && typeof createdAt === 'string';
+};
+
+const isStoredChange = (value: unknown): value is Omit<PortfolioChange, 'portfolioId'> => {
+  if (!value || typeof value !== 'object') return false;
+  const change = value as Record<string, unknown>;
+  return Array.isArray(change.removed) && change.removed.every(isStoredRun)
+    && Array.isArray(change.added) && change.added.every(isStoredRun);
+};
+
+/**
+ * Entries saved before portfolios existed hold `removed`/`added` directly;
+ * they belong to the default portfolio.
+ */
+const parseStoredEntry = (value: unknown): HistoryEntry[] => {
+  if (!value || typeof value !== 'object') return [];
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.id !== 'string' || typeof entry.label !== 'string' || typeof entry.at !== 'string') return [];
+
+  const base = { id: entry.id, label: entry.label, at: entry.at };
+  if (Array.isArray(entry.changes)) {
+    const valid = entry.changes.every(c => isStoredChange(c) && typeof (c as PortfolioChange).portfolioId === 'string');
+    if (!valid) return [];
+    const removedPortfolio = isStoredRemovedPortfolio(entry.removedPortfolio) ? entry.removedPortfolio : undefined;
+    return [{ ...base, changes: entry.changes as PortfolioChange[], ...(removedPortfolio && { removedPortfolio }) }];
+  }
+  return isStoredChange(entry)
+    ? [{ ...base, changes: [{ portfolioId: DEFAULT_PORTFOLIO_ID, removed: entry.removed, added: entry.added }] }]
+    : [];
+};
+
+/** Anything unreadable is dropped; history is a convenience, not data. */
+export const parseStoredHistory = (stored: unknown): History => {
+  if (!stored || typeof stored !== 'object') return EMPTY_HISTORY;
+  const { past, future } = stored as Record<string, unknown>;
+  return {
+    past: Array.isArray(past) ? past.flatMap(parseStoredEntry) : [],
+    future: Array.isArray(future) ? future.flatMap(parseStoredEntry) : [],
+  };
+};
@@ -0,0 +1,1217 @@
+// --- Interface Language ---
+// Strings for the whole interface: screens, dialogs, notifications and form
+// errors. Keys are the English text's role rather than the text itself;
+// `{name}` placeholders are filled by `translate`. The parsers (import rows,
+// bond input, search syntax, draw results), storage and the sync server
+// report problems as codes with their values, worded here under keys named
+// after the code; counts among the values are written in the chosen numerals
+// by the caller. The printed report stays English, since its PDF only has
+// fonts for Latin text (see pdf.ts). Activity log messages and undo labels
+// keep the language they were made in.
+
+export type Language = 'en' | 'bn';
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'bn', label: 'বাংলা' },
+];
+
+export const LANGUAGE_KEY = 'ui_language';
+
+const EN = {
+  'app.title': 'Bond Manager',
+  'app.storageEncrypted': 'Encrypted Storage',
+  'app.storageLocal': 'Local Storage',
+  'app.chooseToAdd': 'Choose a portfolio to add or import bonds.',
+
+  'display.title': 'Display',
+  'display.language': 'Language',
+  'display.numerals': 'Numerals',
+
+  'update.ready': 'A new version is available',
+  'update.reload': 'Reload',
+  'update.later': 'Later',
+  'update.offlineReady': 'Saved for offline use',
+
+  'sync.off': 'Sync between devices',
+  'sync.synced': 'Synced',
+  'sync.pending': '{count} changes waiting to sync',
+  'sync.syncing': 'Syncing...',
+  'sync.offline': 'Offline; changes sync when back online',
+  'sync.error': 'Sync failed',
+  'tabs.changed': '{count} bonds changed in another tab',
+  'tabs.portfolios': 'Portfolios changed in another tab',
+  'list.showGrouped': 'Group consecutive numbers',
+  'list.showFlat': 'Show every bond on its own row',
+  'group.count': '({count} bonds)',
+  'group.expand': 'Show the bonds in this run',
+  'group.collapse': 'Hide the bonds in this run',
+  'group.copy': 'Copy range',
+  'group.delete': 'Delete the whole run',
+  'list.nextDraw': 'Next Draw',
+  'list.noDraw': 'None scheduled',
+  'list.eligible': 'Eligible',
+  'list.eligibleCount': '{count} of {total}',
+  'row.eligibleFrom': 'From draw #{number}',
+  'row.notEligible': 'In no scheduled draw yet',
+  'row.eligibleSince': 'In {count} scheduled draws, from #{number}',
+  'row.eligibleCutoff': 'Bonds take part in a draw after {days} days',
+  'reminder.inDays': 'Draw #{number} is in {days} days, on {date}.',
+  'reminder.tomorrow': 'Draw #{number} is tomorrow, {date}.',
+  'reminder.today': 'Draw #{number} is today.',
+  'reminder.eligible': '{count} of {total} bonds are eligible.',
+  'reminder.calendar': 'Calendar',
+  'reminder.dismiss': 'Dismiss',
+  'claims.title': 'Prize Claims',
+  'claims.open': '{count} open',
+  'claims.expiringSoon': '{count} expiring soon',
+  'claims.expired': '{count} expired',
+  'claims.received': '{amount} received',
+  'claims.noneOpen': 'No open claims. Every win has been claimed or has expired.',
+  'claims.showAll': 'Show all {count} wins',
+  'claims.showOpen': 'Show open claims only',
+  'claims.draw': 'Draw #{number}',
+  'claims.daysLeft': '{count} days left',
+  'claims.dueToday': 'Last day to claim',
+  'claims.overdue': 'Deadline passed {count} days ago',
+  'claims.status.unclaimed': 'Unclaimed',
+  'claims.status.submitted': 'Submitted',
+  'claims.status.paid': 'Paid',
+  'claims.status.expired': 'Expired',
+
+  'add.placeholder': 'Enter bonds (e.g. 1234567 or 0000001-0000100)...',
+  'add.placeholderMultiline': 'Paste a list, one entry per line or comma separated:\n1234567\n0000001-0000100',
+  'add.helpSingle': 'Single: 1234567 (Exact 7 digits)',
+  'add.helpRange': 'Range: 0000001-0000100 (Exact 7 digits)',
+  'add.helpSave': 'Ctrl+Enter to save',
+  'add.save': 'Save',
+  'add.singleLine': 'Single Line',
+  'add.multiline': 'Paste a Long List',
+  'add.batch': 'Batch',
+  'add.series': 'Series',
+  'add.denomination': 'Denomination',
+  'add.acquired': 'Acquisition date',
+
+  'diag.willAdd': 'Will add {count} bonds',
+  'diag.duplicates': '{count} duplicates',
+  'diag.toFix': '{count} to fix',
+  'diag.more': '+{count} more',
+  'diag.andMore': 'and {count} more',
+  'status.valid': 'Valid',
+  'status.duplicate': 'Duplicate',
+  'status.out-of-range': 'Out of range',
+  'status.malformed': 'Malformed',
+
+  'list.stored': 'Stored',
+  'list.value': 'Est. Value',
+  'list.search': 'Search: 045*, 0450000-0460000, series:KA, is:won...',
+  'list.checkDraw': 'Check Draw',
+  'list.copyAll': 'Copy All',
+  'list.export': 'Export',
+  'list.report': 'Print or save a report',
+  'list.qrTransfer': 'Send or receive by QR code',
+  'list.encryptedBackup': 'Encrypted backup',
+  'list.transferShown': 'Move or Copy Shown Bonds',
+  'list.import': 'Import',
+  'list.importChoose': 'Choose a portfolio to import into',
+  'list.clearAll': 'Clear All',
+  'list.loading': 'Loading bonds...',
+  'list.noResults': 'No results found',
+  'list.searchErrorAt': 'at character {position} of the search',
+  'list.showing': 'Showing {shown} of {total} records',
+  'list.jump': 'Go to # or number',
+  'list.selectAll': 'Select All Shown',
+  'list.deselectAll': 'Deselect All Shown',
+
+  'row.editNote': 'Edit Note',
+  'row.addNote': 'Add a note...',
+  'row.transfer': 'Move or Copy',
+  'row.copy': 'Copy',
+  'row.delete': 'Delete',
+
+  'bulk.selected': '{count} selected',
+  'bulk.copy': 'Copy',
+  'bulk.export': 'Export',
+  'bulk.tag': 'Tag',
+  'bulk.note': 'Note',
+  'bulk.delete': 'Delete',
+  'bulk.clear': 'Clear Selection',
+  'bulk.tagPlaceholder': 'Tag, e.g. gift',
+  'bulk.notePlaceholder': 'Note for all selected (empty clears)',
+  'bulk.addTag': 'Add Tag',
+  'bulk.setNote': 'Set Note',
+
+  'unit.bond': '{count} bond',
+  'unit.bonds': '{count} bonds',
+
+  'toast.showInLog': 'Show in activity log',
+  'common.cancel': 'Cancel',
+  'clear.title': 'Clear Database?',
+  'clear.aboutTo': 'You are about to delete {bonds}.',
+  'clear.canUndo': 'You can undo this afterwards.',
+  'clear.confirm': 'Yes, Clear All',
+
+  'tier.1': '1st Prize',
+  'tier.2': '2nd Prize',
+  'tier.3': '3rd Prize',
+  'tier.4': '4th Prize',
+  'tier.5': '5th Prize',
+  'draws.title': 'Check Draw',
+  'draws.against.one': '{bonds} against {count} stored draw',
+  'draws.against': '{bonds} against {count} stored draws',
+  'draws.view.results': 'Results',
+  'draws.view.paste': 'Paste Text',
+  'draws.view.add': 'Add Draw',
+  'draws.noDraws': 'No draws stored yet. Add a draw to check your bonds.',
+  'draws.noWins': 'None of your bonds have won in the stored draws.',
+  'draws.winners.one': '{count} winning bond',
+  'draws.winners': '{count} winning bonds',
+  'draws.total': 'Total',
+  'draws.series': 'Series {series}',
+  'draws.stored': 'Stored Draws',
+  'draws.delete': 'Delete draw',
+  'draws.pasteHelp': 'Paste the official result text. Prize headings, amounts and the draw number and date are detected automatically; you can review everything before saving.',
+  'draws.parse': 'Parse & Preview',
+  'draws.parsed': 'Parsed successfully. Review the numbers below before saving.',
+  'draws.unplaced.one': '{count} line could not be placed:',
+  'draws.unplaced': '{count} lines could not be placed:',
+  'draws.number': 'Draw No.',
+  'draws.date': 'Draw Date',
+  'draws.numbers': '{count} numbers',
+  'draws.numbersPlaceholder': 'e.g. 0543210, 1234567',
+  'draws.save': 'Save Draw',
+  'draws.errorNumber': 'Enter a valid draw number.',
+  'draws.errorDate': 'Enter the draw date.',
+  'draws.errorInvalid': 'Invalid number(s): {numbers} (exact 7 digits required)',
+  'draws.errorNoWinners': 'Enter at least one winning number.',
+
+  'claim.title': 'Prize Claim',
+  'claim.drawn': 'Drawn {date}.',
+  'claim.until': 'Claims are accepted until',
+  'claim.daysLeft.one': '({count} day left).',
+  'claim.daysLeft': '({count} days left).',
+  'claim.passed': ', which has passed.',
+  'claim.date': 'Claim Date',
+  'claim.bank': 'Bank',
+  'claim.bankPlaceholder': 'e.g. Sonali Bank',
+  'claim.branch': 'Branch',
+  'claim.branchPlaceholder': 'e.g. Motijheel',
+  'claim.gross': 'Gross Prize',
+  'claim.tax': 'Tax Deducted',
+  'claim.net': 'Net Amount Received',
+  'claim.problem.negative': 'Amounts cannot be negative.',
+  'claim.problem.tax': 'Tax deducted cannot exceed the gross prize.',
+  'claim.problem.net': 'The net amount cannot exceed the gross prize.',
+  'claim.problem.date': 'Enter the date the claim was filed.',
+  'claim.marked': 'Claim marked {status}.',
+  'calendar.title': 'Draw Calendar',
+  'calendar.upcoming.one': '{count} upcoming draw scheduled',
+  'calendar.upcoming': '{count} upcoming draws scheduled',
+  'calendar.minHolding': 'Minimum Holding Days',
+  'calendar.remindBefore': 'Remind Days Before',
+  'calendar.help.one': 'A bond takes part in a draw when it was acquired at least {count} day before it. Bonds without an acquisition date always count. Set reminders to 0 to turn them off.',
+  'calendar.help': 'A bond takes part in a draw when it was acquired at least {count} days before it. Bonds without an acquisition date always count. Set reminders to 0 to turn them off.',
+  'calendar.schedule': 'Schedule',
+  'calendar.showPast': 'Show past draws',
+  'calendar.extend': 'Extend quarterly',
+  'calendar.none': 'No upcoming draws. Add one below or extend the schedule.',
+  'calendar.draw': 'Draw',
+  'calendar.date': 'Date',
+  'calendar.acquiredBy': 'Acquired By',
+  'calendar.remove': 'Remove from schedule',
+  'calendar.add': 'Add or Move a Draw',
+  'calendar.addButton': 'Add',
+
+  'value.title': 'Portfolio Value',
+  'value.bonds': 'Bonds',
+  'value.faceValue': 'Face Value',
+  'value.winnings': 'Winnings',
+  'value.count': 'Count',
+  'value.value': 'Value',
+  'value.byDenomination': 'By Denomination',
+  'value.bySeries': 'By Series',
+  'value.unspecified': 'Unspecified',
+  'value.byQuarter': 'Value by Quarter',
+  'value.noChanges': 'No changes recorded yet.',
+  'value.quarter': 'Quarter',
+  'value.change': 'Change',
+
+  'analytics.title': 'Portfolio Analytics',
+  'analytics.subtitle': '{bonds} in {count} series',
+  'analytics.empty': 'Add bonds to see how they are spread.',
+  'analytics.distribution': 'Number Distribution',
+  'analytics.additions': 'Additions by Month Acquired',
+  'analytics.noDates': 'No bonds have an acquisition date.',
+  'analytics.undated': '{bonds} have no acquisition date.',
+  'analytics.gaps': 'Gaps in Runs',
+  'analytics.copied': 'Copied',
+  'analytics.copyGaps': 'Copy missing numbers',
+  'analytics.noGaps': 'No runs are missing a few numbers.',
+  'analytics.missing.one': '{count} number is missing between held bonds, up to {size} at a time. Check whether it was lost or mistyped.',
+  'analytics.missing': '{count} numbers are missing between held bonds, up to {size} at a time. Check whether they were lost or mistyped.',
+  'analytics.gapSize': '{count} missing',
+  'analytics.gapsShown': 'Showing {shown} of {total} gaps.',
+  'analytics.wins': 'Win History',
+  'analytics.noWins': 'No wins in the recorded draws yet.',
+  'analytics.winCount': 'Wins',
+  'analytics.prize': 'Prize',
+
+  'report.title': 'Portfolio Report',
+  'report.shown': '{bonds} shown in the list',
+  'report.filtered': 'filtered by',
+  'report.owner': 'Owner',
+  'report.ownerPlaceholder': 'Name shown on the report',
+  'report.layout': 'List bonds as',
+  'report.ranges': 'Ranges',
+  'report.rangesHint': 'Consecutive numbers as one range',
+  'report.numbers': 'Every number',
+  'report.numbersHint': 'Up to {bonds}',
+  'report.tooMany': 'Too many bonds to list one by one; the report will use ranges.',
+  'report.includeNotes': 'Include notes',
+  'report.includeWinners': 'Include winning bonds',
+  'report.print': 'Print',
+  'report.download': 'Download PDF',
+
+  'qr.title': 'QR Transfer',
+  'qr.subtitle': 'Between devices, with no network needed',
+  'qr.send': 'Send',
+  'qr.receive': 'Receive',
+  'qr.nothingToSend': 'There are no bonds to send.',
+  'qr.preparing': 'Preparing…',
+  'qr.sending': '{bonds} from',
+  'qr.part': 'part {number} of {total}',
+  'qr.previous': 'Previous part',
+  'qr.next': 'Next part',
+  'qr.pause': 'Pause',
+  'qr.play': 'Play',
+  'qr.sendHelp': 'On the other device, open QR Transfer and choose Receive. Large lists are sent in parts that play in a loop; the receiver says which parts it still needs.',
+  'qr.chooseTarget': 'Choose a portfolio to receive bonds into.',
+  'qr.useCamera': 'Use camera',
+  'qr.stopCamera': 'Stop camera',
+  'qr.pickImages': 'Pick images',
+  'qr.received.one': '{count} of {total} part',
+  'qr.received': '{count} of {total} parts',
+  'qr.missing': 'Missing {parts}',
+  'qr.partNumber': 'Part {number}',
+  'qr.receiveHelp': 'Point the camera at the QR code on the other device, or pick screenshots or photos of it. Nothing changes until you confirm the import.',
+  'qr.noCamera': 'The camera is not available. Pick photos of the codes instead.',
+  'qr.notFound.one': 'No QR code found in that image.',
+  'qr.notFound': 'No QR code found in those images.',
+  'qr.outcome.added': 'Part received.',
+  'qr.outcome.duplicate': 'Already have that part.',
+  'qr.outcome.corrupt': 'A part failed its checksum. Keep the camera on the other screen.',
+  'qr.outcome.restarted': 'A different transfer started; the parts read so far were dropped.',
+  'qr.outcome.other-transfer': 'That part belongs to a different transfer. Scan its first part to switch to it.',
+  'qr.outcome.foreign': 'That QR code is not a portfolio transfer.',
+  'qr.problem.missing': 'Some parts of the transfer are still missing.',
+  'qr.problem.checksum': 'The transfer failed its checksum. Scan it again.',
+  'qr.problem.damaged': 'The transferred data is damaged.',
+  'qr.problem.no-deflate': 'This browser cannot unpack compressed transfers.',
+  'qr.problem.newer': 'The transfer was made by a newer version of the app.',
+  'qr.importName': 'QR transfer: {name}',
+
+  'activity.title': 'Activity Log',
+  'activity.subtitle': 'The latest {count} adds, deletes, clears, imports and copies',
+  'activity.export': 'Export CSV',
+  'activity.filter': 'Filter by number, portfolio or text',
+  'activity.empty': 'Nothing has been logged yet.',
+  'activity.noMatch': 'No entries match.',
+  'activity.kind.add': 'Add',
+  'activity.kind.delete': 'Delete',
+  'activity.kind.clear': 'Clear',
+  'activity.kind.import': 'Import',
+  'activity.kind.copy': 'Copy',
+  'activity.kind.note': 'Note',
+  'activity.count.added': '{count} added',
+  'activity.count.duplicates': '{count} duplicates',
+  'activity.count.invalid': '{count} invalid',
+  'activity.count.updated': '{count} updated',
+  'activity.count.removed': '{count} removed',
+  'activity.count.copied': '{count} copied',
+
+  'import.title': 'Import Preview',
+  'import.new': 'New',
+  'import.duplicates': 'Duplicates',
+  'import.conflicts': 'Conflicts',
+  'import.invalid': 'Invalid',
+  'import.holds': 'The file holds {bonds}.',
+  'import.repeated': '{count} repeated entries within the file were ignored.',
+  'import.conflicting': 'Conflicting Details',
+  'import.stored': 'Stored: {details}',
+  'import.imported': 'Imported: {details}',
+  'import.noDate': 'no date',
+  'import.noNote': 'no note',
+  'import.overwrite': 'Use imported details for conflicting bonds',
+  'import.invalidRows': 'Invalid Rows (skipped)',
+  'import.line': 'Line {number}:',
+  'import.replaceWarning': 'Replace deletes all {stored} stored and keeps only the {incoming} from this file.',
+  'import.confirm': 'Confirm',
+  'import.replace': 'Replace',
+  'import.merge': 'Merge',
+
+  'history.title': 'History',
+  'history.undo': 'Undo {label} (Ctrl+Z)',
+  'history.redo': 'Redo {label} (Ctrl+Shift+Z)',
+  'history.nothingToUndo': 'Nothing to undo',
+  'history.nothingToRedo': 'Nothing to redo',
+  'history.limit': 'Steps kept',
+
+  'passphrase.placeholder': 'Passphrase',
+  'passphrase.repeat': 'Repeat passphrase',
+  'passphrase.tooShort': 'Use at least {count} characters.',
+  'passphrase.mismatch': 'Passphrases do not match.',
+  'passphrase.wrong': 'Wrong passphrase.',
+  'passphrase.working': 'Working...',
+  'lock.title': 'Portfolio Locked',
+  'lock.prompt': 'Enter your passphrase to decrypt your bonds.',
+  'lock.unlock': 'Unlock',
+  'lock.unlocking': 'Unlocking...',
+  'lock.forgotten': 'A forgotten passphrase cannot be recovered.',
+  'lock.failed': 'Storage could not be unlocked.',
+
+  'security.title': 'Encryption',
+  'security.on': 'Bonds are encrypted on this device.',
+  'security.off': 'Bonds are stored unencrypted.',
+  'security.recovery': 'Encryption settings cannot be changed while storage is in recovery mode.',
+  'security.current': 'Current Passphrase',
+  'security.new': 'New Passphrase',
+  'security.minLength': 'At least {count} characters',
+  'security.warning': 'There is no way to recover a forgotten passphrase. Plaintext copies left by older versions are deleted.',
+  'security.encrypting': 'Encrypting...',
+  'security.change': 'Change Passphrase',
+  'security.enable': 'Turn On Encryption',
+  'security.disable': 'Turn Off Encryption',
+  'security.needCurrent': 'Enter your current passphrase to turn encryption off.',
+  'security.autoLock': 'Lock after inactivity',
+  'security.never': 'Never',
+  'security.minutes': '{count} min',
+  'sync.title': 'Sync',
+  'sync.on': 'This device syncs its bonds and portfolios.',
+  'sync.localOnly': 'Bonds are kept on this device only.',
+  'sync.encrypted': 'Sync stores bonds on the server as they are, so it is not available while storage is encrypted.',
+  'sync.code': 'Sync Code',
+  'sync.copyCode': 'Copy Code',
+  'sync.codeHelp': 'Enter this code on your other devices. Anyone with it can see and change these bonds.',
+  'sync.offlineDetail': 'Offline. Changes are kept on this device and sync when the connection is back.',
+  'sync.failed': 'Last attempt failed: {error}',
+  'sync.lastSynced': 'Last synced {date}.',
+  'sync.never': 'Not synced yet.',
+  'sync.unsent': '{count} changes waiting to be sent.',
+  'sync.now': 'Sync Now',
+  'sync.confirmStop': 'Stop syncing? Bonds stay on this device.',
+  'sync.confirmStopUnsent': 'Stop syncing? Bonds stay on this device; unsent changes are not sent.',
+  'sync.stop': 'Stop Syncing',
+  'sync.stopHere': 'Stop Syncing on This Device',
+  'sync.intro': 'Keep the same bonds on several devices. Everything keeps working offline; changes are exchanged whenever a connection is available. When two devices change the same bond, the later change wins.',
+  'sync.start': 'Start Syncing This Device',
+  'sync.joinCode': 'Code From Another Device',
+  'sync.join': 'Join',
+  'sync.joinHelp': 'Bonds on this device are added to the synced ones. Where both hold a bond, the synced details are kept.',
+
+  'portfolio.all': 'All Portfolios',
+  'portfolio.fallback': 'Portfolio',
+  'portfolio.switch': 'Switch Portfolio',
+  'portfolio.saveName': 'Save Name',
+  'portfolio.confirmDelete': 'Delete "{name}" and its {bonds}? You can undo this afterwards.',
+  'portfolio.delete': 'Delete',
+  'portfolio.deleteTitle': 'Delete Portfolio',
+  'portfolio.lastOne': 'The last portfolio cannot be deleted',
+  'portfolio.rename': 'Rename',
+  'portfolio.newName': 'New portfolio name',
+  'portfolio.create': 'Create Portfolio',
+
+  'transfer.target': 'To Portfolio',
+  'transfer.keepDetails': 'Numbers already in that portfolio keep their existing details.',
+  'transfer.copy': 'Copy',
+  'transfer.move': 'Move',
+
+  'recovery.title': 'Recovery mode: changes are not being saved',
+  'recovery.untouched': 'Your stored data has been left untouched. Download a backup before deciding how to continue.',
+  'recovery.confirm': 'Replace all stored data with the {bonds} shown below?',
+  'recovery.replace': 'Yes, Replace',
+  'recovery.download': 'Download Backup',
+  'recovery.resume': 'Replace Stored Data & Resume Saving',
+
+  'export.csv': 'CSV (all fields)',
+  'export.json': 'JSON (all fields)',
+  'export.txt': 'Plain text (numbers)',
+  'list.select': 'Select {item}',
+  'jump.invalid': 'Enter a position or a 7-digit number',
+  'jump.notListed': '{number} is not in the list',
+  'jump.position': 'Position must be 1-{total}',
+
+  'toast.undo': 'Undo',
+  'storage.migrated': 'Moved {bonds} to the new storage.',
+  'history.undoLaterFirst': 'Undo the later changes first (Ctrl+Z).',
+  'history.undid': 'Undid {label}: {restored} restored, {removed} removed.',
+  'history.redid': 'Redid {label}.',
+  'step.add': 'add {bonds}',
+  'step.delete': 'delete {item}',
+  'step.clear': 'clear {bonds}',
+  'step.deletePortfolio': 'delete portfolio {name}',
+  'step.move': 'move {count} to {target}',
+  'step.copy': 'copy {count} to {target}',
+  'bond.single': 'Bond {number}',
+  'bond.withSeries': 'Bond {number} ({series})',
+  'add.empty': 'Please enter bond numbers to add.',
+  'add.heldElsewhere': 'Some of these numbers are also held in {where}.',
+  'add.leftToFix.one': '{count} invalid entry left to fix.',
+  'add.leftToFix': '{count} invalid entries left to fix.',
+  'add.added': 'Added {bonds}.',
+  'add.skipped.one': '{count} duplicate skipped.',
+  'add.skipped': '{count} duplicates skipped.',
+  'add.newWins': '{count} of the new bonds won in stored draws!',
+  'add.duplicatesRemoved.one': '{count} duplicate found and removed from input.',
+  'add.duplicatesRemoved': '{count} duplicates found and removed from input.',
+  'add.nothing': 'Nothing added.',
+  'delete.done': '{item} deleted.',
+  'clear.done': '{name} cleared successfully.',
+  'portfolio.nameEmpty': 'Enter a name.',
+  'portfolio.nameTaken': '"{name}" already exists.',
+  'portfolio.created': 'Portfolio "{name}" created.',
+  'portfolio.deleted': 'Portfolio "{name}" deleted with {bonds}.',
+  'transfer.shown': '{bonds} shown in the list',
+  'transfer.alreadyThere': 'Those bonds are already in that portfolio.',
+  'transfer.moved': 'Moved {bonds} to {target}.',
+  'transfer.copied': 'Copied {bonds} to {target}.',
+  'transfer.wereThere': '{count} were already there.',
+  'draws.noWinners': 'No winning bonds.',
+  'draws.found.one': '{count} winning bond found!',
+  'draws.found': '{count} winning bonds found!',
+  'draws.saved': 'Draw #{number} saved.',
+  'draws.updated': 'Draw #{number} updated.',
+  'draws.deleted': 'Draw #{number} deleted.',
+  'recovery.noBackup': 'No readable backup data found.',
+  'recovery.resumed': 'Storage recovered. Changes are being saved again.',
+  'recovery.stillFailing': 'Storage is still unavailable.',
+  'export.done': 'Exported {bonds} as {format}.',
+  'report.saved': 'Saved a report of {bonds}.',
+  'import.unreadable': 'Could not read {name}.',
+  'backup.exported': 'Exported an encrypted backup of {bonds}.',
+
+  'backup.damaged': 'This backup file is damaged.',
+  'security.enabled': 'Encryption is on. Your bonds are now encrypted.',
+  'security.enabledSyncStopped': 'Encryption is on. Sync is stopped on this device, since the server cannot store encrypted bonds.',
+  'security.encryptFailed': 'Storage could not be encrypted.',
+  'security.currentWrong': 'Current passphrase is wrong.',
+  'security.changed': 'Passphrase changed.',
+  'security.reencryptFailed': 'Storage could not be re-encrypted. The old passphrase still applies.',
+  'security.disabled': 'Encryption is off. Bonds are stored unencrypted.',
+  'security.decryptFailed': 'Storage could not be decrypted.',
+  'sync.started': 'Sync is on. Enter the code on your other devices.',
+  'sync.noCode': 'The sync server could not create a code. Try again later.',
+  'sync.needConnection': 'Connect to the internet to start syncing.',
+  'sync.badCode': 'A sync code has 16 letters and digits, e.g. ABCD-1234-EFGH-5678.',
+  'sync.joined': 'Joined. Bonds from your other devices are on their way.',
+  'sync.stopped': 'Sync is off on this device.',
+  'step.import': 'import {name}',
+  'step.deleteSelected': 'delete {count} selected',
+  'step.tag': 'tag {count} with #{tag}',
+  'step.note': 'note on {count}',
+  'import.replaced': 'Replaced stored bonds with {bonds} from {name}.',
+  'import.merged.one': 'Imported {count} new bond from {name}.',
+  'import.merged': 'Imported {count} new bonds from {name}.',
+  'import.updated': 'Updated {count}.',
+  'import.newWins': '{count} of the imported bonds won in stored draws!',
+  'copy.text': 'Copied {text}',
+  'copy.failed': 'Failed to copy',
+  'copy.selected': 'Copied {bonds} selected.',
+  'copy.bonds': 'Copied {bonds}.',
+  'copy.nothing': 'No bonds to copy.',
+  'delete.bonds': 'Deleted {bonds}.',
+  'delete.bondsIn': 'Deleted {bonds} ({range}).',
+  'bulk.hasTag': 'All selected bonds already have that tag.',
+  'bulk.hasNote': 'All selected bonds already have that note.',
+  'bulk.tagged': 'Tagged {bonds}.',
+  'bulk.noted': 'Updated the note on {bonds}.',
+
+  'backup.exportTitle': 'Encrypted Backup',
+  'backup.openTitle': 'Open Backup',
+  'backup.exportPrompt': 'Choose a passphrase for this backup file. It is needed to import the file again.',
+  'backup.openPrompt': 'Enter the passphrase {name} was created with.',
+  'backup.export': 'Export',
+  'backup.open': 'Open',
+  'security.lockNow': 'Lock Now',
+
+  'unit.digit': '{count} digit',
+  'unit.digits': '{count} digits',
+  'segment.range-side': 'Range needs a number on both sides of the dash',
+  'segment.range-shape': 'Range must be two {length}-digit numbers, e.g. 0450000-0450099',
+  'segment.characters': 'Only digits and a dash for ranges are allowed',
+  'segment.digits.number': 'Number has {digits}; bond numbers have {length}',
+  'segment.digits.start': 'Range start has {digits}; bond numbers have {length}',
+  'segment.digits.end': 'Range end has {digits}; bond numbers have {length}',
+  'segment.new': 'New',
+  'segment.stored': 'Already stored',
+  'segment.repeated': 'Repeated earlier in the list',
+  'segment.storedCount': '{count} already stored',
+  'segment.repeatedCount': '{count} repeated earlier in the list',
+  'segment.allDuplicate': 'All {bonds}: {parts}',
+  'segment.someNew': '{count} new, {parts}',
+  'segment.allNew': '{bonds}, all new',
+  'query.dash': '- must be followed directly by the term it excludes',
+  'query.quote': 'Missing closing quote',
+  'query.not-number': '"{text}" is not a bond number',
+  'query.too-long': '"{text}" is longer than {length} digits',
+  'query.not-term': '"{text}" is not a number, range or pattern',
+  'query.denomination': 'Denomination "{value}" is not a number',
+  'query.date': '"{text}" is not a date. Use 2024-05-31, 2024-05, 2024, 30d or {keywords}',
+  'query.flag': 'Unknown value "is:{value}". Try is:won',
+  'query.field': 'Unknown field "{field}". Try number, series, denom, date, note or is',
+  'query.no-value': '{field}: needs a value',
+  'query.or-after': 'OR needs a term after it',
+  'query.and-after': 'AND needs a term after it',
+  'query.not-after': '{operator} needs a term after it',
+  'query.before': '{operator} needs a term before it',
+  'query.early-end': 'The query ends too early',
+  'query.empty-parentheses': 'Empty parentheses',
+  'query.unclosed': 'Missing closing parenthesis',
+  'query.unmatched': 'Unmatched closing parenthesis',
+  'draws.problem.draw-number': 'Conflicting draw number {number}',
+  'draws.problem.draw-date': 'Conflicting draw date {date}',
+  'draws.problem.no-heading.one': '{count} number before any prize heading',
+  'draws.problem.no-heading': '{count} numbers before any prize heading',
+  'draws.problem.malformed': 'Not {length}-digit numbers: {numbers}',
+  'draws.problem.repeated': 'Repeated: {numbers}',
+  'draws.problem.repeatedIn': '{number} (already in {tier})',
+  'import.problem.number': '"{text}" is not a {length}-digit number or range',
+  'import.problem.no-number': 'Missing number',
+  'import.problem.denomination': 'Invalid denomination "{value}"',
+  'import.problem.date': 'Invalid date "{value}" (use YYYY-MM-DD)',
+  'import.problem.record': 'Not a bond record',
+  'import.problem.start-end': 'Missing start/end',
+  'import.problem.range': 'Invalid range {range}',
+  'import.problem.json': 'File is not valid JSON',
+  'import.problem.not-records': '{count} entries are not bond records',
+  'import.problem.no-data': 'No bond data found in file',
+  'recovery.problem.unavailable': 'This browser cannot store data: IndexedDB is not available.',
+  'recovery.problem.blocked': 'Storage upgrade is blocked by another open tab.',
+  'recovery.problem.open-failed': 'Storage could not be opened.',
+  'recovery.problem.legacy': 'Saved bonds from the previous version could not be read.',
+  'recovery.problem.decrypt': 'Encrypted bonds could not be decrypted.',
+  'recovery.problem.damaged.one': '{count} stored record is damaged and could not be read.',
+  'recovery.problem.damaged': '{count} stored records are damaged and could not be read.',
+  'recovery.problem.settings': 'Encryption settings are damaged.',
+  'recovery.problem.save-failed': 'Recent changes could not be saved.',
+  'sync.problem.code-required': 'A valid sync code is required.',
+  'sync.problem.unreadable': 'The sync server could not read the changes sent.',
+  'sync.problem.unknown-code': 'No devices use this sync code.',
+  'sync.problem.method': 'The sync server refused the request.',
+  'sync.problem.not-found': 'The sync server does not know this address.',
+  'sync.problem.server': 'The sync server could not handle the request.',
+  'sync.problem.reply': 'The sync server sent an unexpected reply.',
+  'sync.problem.unreachable': 'The sync server could not be reached.',
+
+  'query.range-end': 'A range needs a number after the dash',
+
+  'step.noteBond': 'note on {item}',
+  'note.saved': 'Note saved on {item}.',
+  'note.cleared': 'Note removed from {item}.',
+};
+
+export type MessageKey = keyof typeof EN;
+
+const BN: Record<MessageKey, string> = {
+  'app.title': 'বন্ড ম্যানেজার',
+  'app.storageEncrypted': 'এনক্রিপ্টেড স্টোরেজ',
+  'app.storageLocal': 'লোকাল স্টোরেজ',
+  'app.chooseToAdd': 'বন্ড যোগ বা ইমপোর্ট করতে একটি পোর্টফোলিও বেছে নিন।',
+
+  'display.title': 'প্রদর্শন',
+  'display.language': 'ভাষা',
+  'display.numerals': 'সংখ্যা',
+
+  'update.ready': 'নতুন সংস্করণ পাওয়া যাচ্ছে',
+  'update.reload': 'রিলোড',
+  'update.later': 'পরে',
+  'update.offlineReady': 'অফলাইনে ব্যবহারের জন্য সংরক্ষিত',
+
+  'sync.off': 'ডিভাইসের মধ্যে সিঙ্ক',
+  'sync.synced': 'সিঙ্ক হয়েছে',
+  'sync.pending': '{count}টি পরিবর্তন সিঙ্কের অপেক্ষায়',
+  'sync.syncing': 'সিঙ্ক হচ্ছে...',
+  'sync.offline': 'অফলাইন; সংযোগ ফিরলে সিঙ্ক হবে',
+  'sync.error': 'সিঙ্ক ব্যর্থ হয়েছে',
+  'tabs.changed': 'অন্য ট্যাবে {count}টি বন্ড পরিবর্তিত হয়েছে',
+  'tabs.portfolios': 'অন্য ট্যাবে পোর্টফোলিও পরিবর্তিত হয়েছে',
+  'list.showGrouped': 'ক্রমিক নম্বর একসাথে দেখান',
+  'list.showFlat': 'প্রতিটি বন্ড আলাদা সারিতে দেখান',
+  'group.count': '({count}টি বন্ড)',
+  'group.expand': 'এই ক্রমের বন্ডগুলো দেখান',
+  'group.collapse': 'এই ক্রমের বন্ডগুলো লুকান',
+  'group.copy': 'রেঞ্জ কপি করুন',
+  'group.delete': 'পুরো ক্রম মুছুন',
+  'list.nextDraw': 'পরবর্তী ড্র',
+  'list.noDraw': 'নির্ধারিত নেই',
+  'list.eligible': 'যোগ্য',
+  'list.eligibleCount': '{total}টির মধ্যে {count}টি',
+  'row.eligibleFrom': 'ড্র #{number} থেকে',
+  'row.notEligible': 'এখনো কোনো নির্ধারিত ড্রতে নেই',
+  'row.eligibleSince': '#{number} থেকে {count}টি নির্ধারিত ড্রতে',
+  'row.eligibleCutoff': '{days} দিন পর বন্ড ড্রতে অংশ নেয়',
+  'reminder.inDays': 'ড্র #{number} আর {days} দিন পর, {date} তারিখে।',
+  'reminder.tomorrow': 'ড্র #{number} আগামীকাল, {date}।',
+  'reminder.today': 'ড্র #{number} আজ।',
+  'reminder.eligible': '{total}টির মধ্যে {count}টি বন্ড যোগ্য।',
+  'reminder.calendar': 'ক্যালেন্ডার',
+  'reminder.dismiss': 'বন্ধ করুন',
+  'claims.title': 'পুরস্কার দাবি',
+  'claims.open': '{count}টি খোলা',
+  'claims.expiringSoon': '{count}টির মেয়াদ শীঘ্রই শেষ',
+  'claims.expired': '{count}টির মেয়াদ শেষ',
+  'claims.received': '{amount} পাওয়া গেছে',
+  'claims.noneOpen': 'কোনো খোলা দাবি নেই। প্রতিটি পুরস্কার দাবি করা হয়েছে বা মেয়াদ শেষ হয়েছে।',
+  'claims.showAll': 'সব {count}টি পুরস্কার দেখুন',
+  'claims.showOpen': 'শুধু খোলা দাবি দেখুন',
+  'claims.draw': 'ড্র #{number}',
+  'claims.daysLeft': '{count} দিন বাকি',
+  'claims.dueToday': 'দাবির শেষ দিন',
+  'claims.overdue': '{count} দিন আগে মেয়াদ শেষ',
+  'claims.status.unclaimed': 'দাবি করা হয়নি',
+  'claims.status.submitted': 'জমা দেওয়া হয়েছে',
+  'claims.status.paid': 'পরিশোধিত',
+  'claims.status.expired': 'মেয়াদোত্তীর্ণ',
+
+  'add.placeholder': 'বন্ড নম্বর লিখুন (যেমন ১২৩৪৫৬৭ বা ০০০০০০১-০০০০১০০)...',
+  'add.placeholderMultiline': 'তালিকা পেস্ট করুন, প্রতি লাইনে একটি বা কমা দিয়ে আলাদা করে:\n১২৩৪৫৬৭\n০০০০০০১-০০০০১০০',
+  'add.helpSingle': 'একক: ১২৩৪৫৬৭ (ঠিক ৭ অঙ্ক)',
+  'add.helpRange': 'পরিসর: ০০০০০০১-০০০০১০০ (ঠিক ৭ অঙ্ক)',
+  'add.helpSave': 'সংরক্ষণ করতে Ctrl+Enter',
+  'add.save': 'সংরক্ষণ',
+  'add.singleLine': 'এক লাইন',
+  'add.multiline': 'লম্বা তালিকা পেস্ট করুন',
+  'add.batch': 'ব্যাচ',
+  'add.series': 'সিরিজ',
+  'add.denomination': 'মূল্যমান',
+  'add.acquired': 'ক্রয়ের তারিখ',
+
+  'diag.willAdd': '{count}টি বন্ড যোগ হবে',
+  'diag.duplicates': '{count}টি ডুপ্লিকেট',
+  'diag.toFix': '{count}টি ঠিক করতে হবে',
+  'diag.more': 'আরও {count}টি',
+  'diag.andMore': 'এবং আরও {count}টি',
+  'status.valid': 'বৈধ',
+  'status.duplicate': 'ডুপ্লিকেট',
+  'status.out-of-range': 'সীমার বাইরে',
+  'status.malformed': 'ভুল ফরম্যাট',
+
+  'list.stored': 'সংরক্ষিত',
+  'list.value': 'আনুমানিক মূল্য',
+  'list.search': 'খুঁজুন: 045*, 0450000-0460000, series:KA, is:won...',
+  'list.checkDraw': 'ড্র যাচাই',
+  'list.copyAll': 'সব কপি',
+  'list.export': 'এক্সপোর্ট',
+  'list.report': 'রিপোর্ট প্রিন্ট বা সংরক্ষণ করুন',
+  'list.qrTransfer': 'QR কোডে পাঠান বা গ্রহণ করুন',
+  'list.encryptedBackup': 'এনক্রিপ্টেড ব্যাকআপ',
+  'list.transferShown': 'দেখানো বন্ড সরান বা কপি করুন',
+  'list.import': 'ইমপোর্ট',
+  'list.importChoose': 'ইমপোর্টের জন্য একটি পোর্টফোলিও বেছে নিন',
+  'list.clearAll': 'সব মুছুন',
+  'list.loading': 'বন্ড লোড হচ্ছে...',
+  'list.noResults': 'কোনো ফলাফল পাওয়া যায়নি',
+  'list.searchErrorAt': 'অনুসন্ধানের {position} নম্বর অক্ষরে',
+  'list.showing': '{total}টির মধ্যে {shown}টি দেখানো হচ্ছে',
+  'list.jump': '# বা নম্বরে যান',
+  'list.selectAll': 'দেখানো সব নির্বাচন',
+  'list.deselectAll': 'দেখানো সব বাদ দিন',
+
+  'row.editNote': 'নোট সম্পাদনা',
+  'row.addNote': 'নোট লিখুন...',
+  'row.transfer': 'সরান বা কপি',
+  'row.copy': 'কপি',
+  'row.delete': 'মুছুন',
+
+  'bulk.selected': '{count}টি নির্বাচিত',
+  'bulk.copy': 'কপি',
+  'bulk.export': 'এক্সপোর্ট',
+  'bulk.tag': 'ট্যাগ',
+  'bulk.note': 'নোট',
+  'bulk.delete': 'মুছুন',
+  'bulk.clear': 'নির্বাচন বাতিল',
+  'bulk.tagPlaceholder': 'ট্যাগ, যেমন gift',
+  'bulk.notePlaceholder': 'সব নির্বাচিত বন্ডের নোট (খালি রাখলে মুছে যাবে)',
+  'bulk.addTag': 'ট্যাগ যোগ',
+  'bulk.setNote': 'নোট দিন',
+
+  'unit.bond': '{count}টি বন্ড',
+  'unit.bonds': '{count}টি বন্ড',
+
+  'toast.showInLog': 'কার্যকলাপ লগে দেখুন',
+  'common.cancel': 'বাতিল',
+  'clear.title': 'ডেটাবেস খালি করবেন?',
+  'clear.aboutTo': 'আপনি {bonds} মুছে ফেলতে যাচ্ছেন।',
+  'clear.canUndo': 'পরে এটি পূর্বাবস্থায় ফেরানো যাবে।',
+  'clear.confirm': 'হ্যাঁ, সব মুছুন',
+
+  'tier.1': '১ম পুরস্কার',
+  'tier.2': '২য় পুরস্কার',
+  'tier.3': '৩য় পুরস্কার',
+  'tier.4': '৪র্থ পুরস্কার',
+  'tier.5': '৫ম পুরস্কার',
+  'draws.title': 'ড্র যাচাই',
+  'draws.against.one': '{count}টি সংরক্ষিত ড্রয়ের সাথে {bonds}',
+  'draws.against': '{count}টি সংরক্ষিত ড্রয়ের সাথে {bonds}',
+  'draws.view.results': 'ফলাফল',
+  'draws.view.paste': 'লেখা পেস্ট',
+  'draws.view.add': 'ড্র যোগ',
+  'draws.noDraws': 'এখনো কোনো ড্র সংরক্ষিত নেই। বন্ড যাচাই করতে একটি ড্র যোগ করুন।',
+  'draws.noWins': 'সংরক্ষিত ড্রগুলোতে আপনার কোনো বন্ড পুরস্কার পায়নি।',
+  'draws.winners.one': '{count}টি বিজয়ী বন্ড',
+  'draws.winners': '{count}টি বিজয়ী বন্ড',
+  'draws.total': 'মোট',
+  'draws.series': 'সিরিজ {series}',
+  'draws.stored': 'সংরক্ষিত ড্র',
+  'draws.delete': 'ড্র মুছুন',
+  'draws.pasteHelp': 'সরকারি ফলাফলের লেখা পেস্ট করুন। পুরস্কারের শিরোনাম, পরিমাণ, ড্র নম্বর ও তারিখ স্বয়ংক্রিয়ভাবে শনাক্ত হয়; সংরক্ষণের আগে সবকিছু দেখে নিতে পারবেন।',
+  'draws.parse': 'বিশ্লেষণ ও প্রিভিউ',
+  'draws.parsed': 'সফলভাবে বিশ্লেষণ হয়েছে। সংরক্ষণের আগে নিচের নম্বরগুলো দেখে নিন।',
+  'draws.unplaced.one': '{count}টি লাইন কোথাও বসানো যায়নি:',
+  'draws.unplaced': '{count}টি লাইন কোথাও বসানো যায়নি:',
+  'draws.number': 'ড্র নং',
+  'draws.date': 'ড্রয়ের তারিখ',
+  'draws.numbers': '{count}টি নম্বর',
+  'draws.numbersPlaceholder': 'যেমন 0543210, 1234567',
+  'draws.save': 'ড্র সংরক্ষণ',
+  'draws.errorNumber': 'সঠিক ড্র নম্বর লিখুন।',
+  'draws.errorDate': 'ড্রয়ের তারিখ লিখুন।',
+  'draws.errorInvalid': 'অবৈধ নম্বর: {numbers} (ঠিক ৭ অঙ্ক লাগবে)',
+  'draws.errorNoWinners': 'অন্তত একটি বিজয়ী নম্বর লিখুন।',
+
+  'claim.title': 'পুরস্কার দাবি',
+  'claim.drawn': 'ড্র হয়েছে {date}।',
+  'claim.until': 'দাবি গ্রহণের শেষ তারিখ',
+  'claim.daysLeft.one': '({count} দিন বাকি)।',
+  'claim.daysLeft': '({count} দিন বাকি)।',
+  'claim.passed': ', যা পেরিয়ে গেছে।',
+  'claim.date': 'দাবির তারিখ',
+  'claim.bank': 'ব্যাংক',
+  'claim.bankPlaceholder': 'যেমন সোনালী ব্যাংক',
+  'claim.branch': 'শাখা',
+  'claim.branchPlaceholder': 'যেমন মতিঝিল',
+  'claim.gross': 'মোট পুরস্কার',
+  'claim.tax': 'কর্তিত কর',
+  'claim.net': 'প্রাপ্ত নিট অর্থ',
+  'claim.problem.negative': 'পরিমাণ ঋণাত্মক হতে পারে না।',
+  'claim.problem.tax': 'কর্তিত কর মোট পুরস্কারের বেশি হতে পারে না।',
+  'claim.problem.net': 'নিট অর্থ মোট পুরস্কারের বেশি হতে পারে না।',
+  'claim.problem.date': 'দাবি জমার তারিখ লিখুন।',
+  'claim.marked': 'দাবির অবস্থা: {status}।',
+  'calendar.title': 'ড্র ক্যালেন্ডার',
+  'calendar.upcoming.one': '{count}টি আসন্ন ড্র নির্ধারিত',
+  'calendar.upcoming': '{count}টি আসন্ন ড্র নির্ধারিত',
+  'calendar.minHolding': 'ন্যূনতম ধারণকাল (দিন)',
+  'calendar.remindBefore': 'কত দিন আগে মনে করাবে',
+  'calendar.help.one': 'ড্রয়ের অন্তত {count} দিন আগে কেনা বন্ড সেই ড্রতে অংশ নেয়। ক্রয়ের তারিখ ছাড়া বন্ড সবসময় গণ্য হয়। রিমাইন্ডার বন্ধ করতে ০ লিখুন।',
+  'calendar.help': 'ড্রয়ের অন্তত {count} দিন আগে কেনা বন্ড সেই ড্রতে অংশ নেয়। ক্রয়ের তারিখ ছাড়া বন্ড সবসময় গণ্য হয়। রিমাইন্ডার বন্ধ করতে ০ লিখুন।',
+  'calendar.schedule': 'সময়সূচি',
+  'calendar.showPast': 'আগের ড্র দেখান',
+  'calendar.extend': 'ত্রৈমাসিক হারে বাড়ান',
+  'calendar.none': 'কোনো আসন্ন ড্র নেই। নিচে একটি যোগ করুন বা সময়সূচি বাড়ান।',
+  'calendar.draw': 'ড্র',
+  'calendar.date': 'তারিখ',
+  'calendar.acquiredBy': 'যে তারিখের মধ্যে কেনা',
+  'calendar.remove': 'সময়সূচি থেকে সরান',
+  'calendar.add': 'ড্র যোগ করুন বা সরান',
+  'calendar.addButton': 'যোগ',
+
+  'value.title': 'পোর্টফোলিওর মূল্য',
+  'value.bonds': 'বন্ড',
+  'value.faceValue': 'অভিহিত মূল্য',
+  'value.winnings': 'পুরস্কার',
+  'value.count': 'সংখ্যা',
+  'value.value': 'মূল্য',
+  'value.byDenomination': 'মূল্যমান অনুযায়ী',
+  'value.bySeries': 'সিরিজ অনুযায়ী',
+  'value.unspecified': 'উল্লেখ নেই',
+  'value.byQuarter': 'ত্রৈমাসিক মূল্য',
+  'value.noChanges': 'এখনো কোনো পরিবর্তন রেকর্ড হয়নি।',
+  'value.quarter': 'ত্রৈমাসিক',
+  'value.change': 'পরিবর্তন',
+
+  'analytics.title': 'পোর্টফোলিও বিশ্লেষণ',
+  'analytics.subtitle': '{count}টি সিরিজে {bonds}',
+  'analytics.empty': 'বন্ডগুলো কীভাবে ছড়িয়ে আছে দেখতে বন্ড যোগ করুন।',
+  'analytics.distribution': 'নম্বরের বণ্টন',
+  'analytics.additions': 'ক্রয়ের মাস অনুযায়ী সংযোজন',
+  'analytics.noDates': 'কোনো বন্ডের ক্রয়ের তারিখ নেই।',
+  'analytics.undated': '{bonds}-এর ক্রয়ের তারিখ নেই।',
+  'analytics.gaps': 'ক্রমের ফাঁক',
+  'analytics.copied': 'কপি হয়েছে',
+  'analytics.copyGaps': 'অনুপস্থিত নম্বর কপি করুন',
+  'analytics.noGaps': 'কোনো ক্রমে অল্প কিছু নম্বর অনুপস্থিত নেই।',
+  'analytics.missing.one': 'ধারণকৃত বন্ডগুলোর মাঝে {count}টি নম্বর অনুপস্থিত (একবারে সর্বোচ্চ {size}টি)। হারিয়েছে নাকি ভুল লেখা হয়েছে দেখে নিন।',
+  'analytics.missing': 'ধারণকৃত বন্ডগুলোর মাঝে {count}টি নম্বর অনুপস্থিত (একবারে সর্বোচ্চ {size}টি)। হারিয়েছে নাকি ভুল লেখা হয়েছে দেখে নিন।',
+  'analytics.gapSize': '{count}টি অনুপস্থিত',
+  'analytics.gapsShown': '{total}টি ফাঁকের মধ্যে {shown}টি দেখানো হচ্ছে।',
+  'analytics.wins': 'পুরস্কারের ইতিহাস',
+  'analytics.noWins': 'রেকর্ড করা ড্রগুলোতে এখনো কোনো পুরস্কার নেই।',
+  'analytics.winCount': 'পুরস্কার',
+  'analytics.prize': 'পুরস্কারের অর্থ',
+
+  'report.title': 'পোর্টফোলিও রিপোর্ট',
+  'report.shown': 'তালিকায় দেখানো {bonds}',
+  'report.filtered': 'ফিল্টার:',
+  'report.owner': 'মালিক',
+  'report.ownerPlaceholder': 'রিপোর্টে দেখানো নাম',
+  'report.layout': 'বন্ড যেভাবে তালিকাভুক্ত হবে',
+  'report.ranges': 'রেঞ্জ',
+  'report.rangesHint': 'ক্রমিক নম্বর একটি রেঞ্জ হিসেবে',
+  'report.numbers': 'প্রতিটি নম্বর',
+  'report.numbersHint': 'সর্বোচ্চ {bonds}',
+  'report.tooMany': 'একটি একটি করে তালিকাভুক্ত করার জন্য বন্ড অনেক বেশি; রিপোর্টে রেঞ্জ ব্যবহার হবে।',
+  'report.includeNotes': 'নোট অন্তর্ভুক্ত করুন',
+  'report.includeWinners': 'বিজয়ী বন্ড অন্তর্ভুক্ত করুন',
+  'report.print': 'প্রিন্ট',
+  'report.download': 'PDF ডাউনলোড',
+
+  'qr.title': 'QR ট্রান্সফার',
+  'qr.subtitle': 'নেটওয়ার্ক ছাড়াই এক ডিভাইস থেকে অন্যটিতে',
+  'qr.send': 'পাঠান',
+  'qr.receive': 'গ্রহণ করুন',
+  'qr.nothingToSend': 'পাঠানোর মতো কোনো বন্ড নেই।',
+  'qr.preparing': 'প্রস্তুত হচ্ছে…',
+  'qr.sending': '{bonds}, উৎস:',
+  'qr.part': '{total}টির মধ্যে {number} নম্বর অংশ',
+  'qr.previous': 'আগের অংশ',
+  'qr.next': 'পরের অংশ',
+  'qr.pause': 'থামান',
+  'qr.play': 'চালান',
+  'qr.sendHelp': 'অন্য ডিভাইসে QR ট্রান্সফার খুলে "গ্রহণ করুন" বেছে নিন। বড় তালিকা কয়েকটি অংশে ঘুরে ঘুরে দেখানো হয়; কোন অংশগুলো এখনো বাকি, গ্রহণকারী ডিভাইস তা জানিয়ে দেয়।',
+  'qr.chooseTarget': 'যে পোর্টফোলিওতে বন্ড গ্রহণ করবেন সেটি বেছে নিন।',
+  'qr.useCamera': 'ক্যামেরা ব্যবহার করুন',
+  'qr.stopCamera': 'ক্যামেরা বন্ধ করুন',
+  'qr.pickImages': 'ছবি বেছে নিন',
+  'qr.received.one': '{total}টির মধ্যে {count}টি অংশ',
+  'qr.received': '{total}টির মধ্যে {count}টি অংশ',
+  'qr.missing': 'বাকি: {parts}',
+  'qr.partNumber': 'অংশ {number}',
+  'qr.receiveHelp': 'অন্য ডিভাইসের QR কোডের দিকে ক্যামেরা ধরুন, অথবা কোডটির স্ক্রিনশট বা ছবি বেছে নিন। ইমপোর্ট নিশ্চিত না করা পর্যন্ত কিছুই বদলাবে না।',
+  'qr.noCamera': 'ক্যামেরা পাওয়া যাচ্ছে না। এর বদলে কোডগুলোর ছবি বেছে নিন।',
+  'qr.notFound.one': 'ছবিটিতে কোনো QR কোড পাওয়া যায়নি।',
+  'qr.notFound': 'ছবিগুলোতে কোনো QR কোড পাওয়া যায়নি।',
+  'qr.outcome.added': 'অংশ পাওয়া গেছে।',
+  'qr.outcome.duplicate': 'এই অংশটি আগেই পাওয়া গেছে।',
+  'qr.outcome.corrupt': 'একটি অংশ চেকসাম যাচাইয়ে ব্যর্থ হয়েছে। ক্যামেরা অন্য স্ক্রিনের দিকে ধরে রাখুন।',
+  'qr.outcome.restarted': 'অন্য একটি ট্রান্সফার শুরু হয়েছে; এ পর্যন্ত পড়া অংশগুলো বাদ দেওয়া হয়েছে।',
+  'qr.outcome.other-transfer': 'এই অংশটি অন্য একটি ট্রান্সফারের। সেটিতে যেতে তার প্রথম অংশটি স্ক্যান করুন।',
+  'qr.outcome.foreign': 'এই QR কোডটি কোনো পোর্টফোলিও ট্রান্সফার নয়।',
+  'qr.problem.missing': 'ট্রান্সফারের কিছু অংশ এখনো বাকি।',
+  'qr.problem.checksum': 'ট্রান্সফারটি চেকসাম যাচাইয়ে ব্যর্থ হয়েছে। আবার স্ক্যান করুন।',
+  'qr.problem.damaged': 'পাঠানো ডেটা ক্ষতিগ্রস্ত।',
+  'qr.problem.no-deflate': 'এই ব্রাউজার সংকুচিত ট্রান্সফার খুলতে পারে না।',
+  'qr.problem.newer': 'ট্রান্সফারটি অ্যাপের নতুন সংস্করণে তৈরি।',
+  'qr.importName': 'QR ট্রান্সফার: {name}',
+
+  'activity.title': 'কার্যকলাপ লগ',
+  'activity.subtitle': 'সর্বশেষ {count}টি যোগ, মুছে ফেলা, খালি করা, ইমপোর্ট ও কপি',
+  'activity.export': 'CSV এক্সপোর্ট',
+  'activity.filter': 'নম্বর, পোর্টফোলিও বা লেখা দিয়ে ফিল্টার করুন',
+  'activity.empty': 'এখনো কিছু লগ করা হয়নি।',
+  'activity.noMatch': 'কোনো এন্ট্রি মেলেনি।',
+  'activity.kind.add': 'যোগ',
+  'activity.kind.delete': 'মুছে ফেলা',
+  'activity.kind.clear': 'খালি করা',
+  'activity.kind.import': 'ইমপোর্ট',
+  'activity.kind.copy': 'কপি',
+  'activity.kind.note': 'নোট',
+  'activity.count.added': '{count}টি যোগ হয়েছে',
+  'activity.count.duplicates': '{count}টি ডুপ্লিকেট',
+  'activity.count.invalid': '{count}টি অবৈধ',
+  'activity.count.updated': '{count}টি হালনাগাদ',
+  'activity.count.removed': '{count}টি মুছে ফেলা হয়েছে',
+  'activity.count.copied': '{count}টি কপি হয়েছে',
+
+  'import.title': 'ইমপোর্ট প্রিভিউ',
+  'import.new': 'নতুন',
+  'import.duplicates': 'ডুপ্লিকেট',
+  'import.conflicts': 'অমিল',
+  'import.invalid': 'অবৈধ',
+  'import.holds': 'ফাইলটিতে {bonds} আছে।',
+  'import.repeated': 'ফাইলের ভেতরে পুনরাবৃত্ত {count}টি এন্ট্রি বাদ দেওয়া হয়েছে।',
+  'import.conflicting': 'অমিল বিবরণ',
+  'import.stored': 'সংরক্ষিত: {details}',
+  'import.imported': 'ইমপোর্ট করা: {details}',
+  'import.noDate': 'তারিখ নেই',
+  'import.noNote': 'নোট নেই',
+  'import.overwrite': 'অমিল বন্ডের জন্য ইমপোর্ট করা বিবরণ ব্যবহার করুন',
+  'import.invalidRows': 'অবৈধ সারি (বাদ দেওয়া হয়েছে)',
+  'import.line': 'লাইন {number}:',
+  'import.replaceWarning': 'প্রতিস্থাপন করলে সংরক্ষিত সব {stored} মুছে যাবে এবং শুধু এই ফাইলের {incoming}টি থাকবে।',
+  'import.confirm': 'নিশ্চিত করুন',
+  'import.replace': 'প্রতিস্থাপন',
+  'import.merge': 'একত্র করুন',
+
+  'history.title': 'ইতিহাস',
+  'history.undo': 'পূর্বাবস্থা: {label} (Ctrl+Z)',
+  'history.redo': 'পুনরায়: {label} (Ctrl+Shift+Z)',
+  'history.nothingToUndo': 'পূর্বাবস্থায় ফেরানোর কিছু নেই',
+  'history.nothingToRedo': 'পুনরায় করার কিছু নেই',
+  'history.limit': 'যতগুলো ধাপ রাখা হবে',
+
+  'passphrase.placeholder': 'পাসফ্রেজ',
+  'passphrase.repeat': 'পাসফ্রেজ আবার লিখুন',
+  'passphrase.tooShort': 'অন্তত {count}টি অক্ষর ব্যবহার করুন।',
+  'passphrase.mismatch': 'পাসফ্রেজ দুটি মেলেনি।',
+  'passphrase.wrong': 'ভুল পাসফ্রেজ।',
+  'passphrase.working': 'কাজ চলছে...',
+  'lock.title': 'পোর্টফোলিও লক করা',
+  'lock.prompt': 'বন্ড ডিক্রিপ্ট করতে পাসফ্রেজ লিখুন।',
+  'lock.unlock': 'আনলক',
+  'lock.unlocking': 'আনলক হচ্ছে...',
+  'lock.forgotten': 'ভুলে যাওয়া পাসফ্রেজ পুনরুদ্ধার করা যায় না।',
+  'lock.failed': 'স্টোরেজ আনলক করা যায়নি।',
+
+  'security.title': 'এনক্রিপশন',
+  'security.on': 'এই ডিভাইসে বন্ড এনক্রিপ্ট করা আছে।',
+  'security.off': 'বন্ড এনক্রিপশন ছাড়া রাখা আছে।',
+  'security.recovery': 'স্টোরেজ রিকভারি মোডে থাকলে এনক্রিপশন সেটিং বদলানো যায় না।',
+  'security.current': 'বর্তমান পাসফ্রেজ',
+  'security.new': 'নতুন পাসফ্রেজ',
+  'security.minLength': 'অন্তত {count}টি অক্ষর',
+  'security.warning': 'ভুলে যাওয়া পাসফ্রেজ পুনরুদ্ধারের কোনো উপায় নেই। পুরোনো সংস্করণের রেখে যাওয়া এনক্রিপশনহীন কপি মুছে ফেলা হয়।',
+  'security.encrypting': 'এনক্রিপ্ট হচ্ছে...',
+  'security.change': 'পাসফ্রেজ বদলান',
+  'security.enable': 'এনক্রিপশন চালু করুন',
+  'security.disable': 'এনক্রিপশন বন্ধ করুন',
+  'security.needCurrent': 'এনক্রিপশন বন্ধ করতে বর্তমান পাসফ্রেজ লিখুন।',
+  'security.autoLock': 'নিষ্ক্রিয় থাকলে লক করুন',
+  'security.never': 'কখনো না',
+  'security.minutes': '{count} মিনিট',
+  'sync.title': 'সিঙ্ক',
+  'sync.on': 'এই ডিভাইস তার বন্ড ও পোর্টফোলিও সিঙ্ক করে।',
+  'sync.localOnly': 'বন্ড শুধু এই ডিভাইসে রাখা আছে।',
+  'sync.encrypted': 'সিঙ্ক বন্ডগুলো সার্ভারে যেমন আছে তেমন রাখে, তাই স্টোরেজ এনক্রিপ্ট করা থাকলে এটি পাওয়া যায় না।',
+  'sync.code': 'সিঙ্ক কোড',
+  'sync.copyCode': 'কোড কপি করুন',
+  'sync.codeHelp': 'আপনার অন্য ডিভাইসে এই কোড লিখুন। কোডটি যার কাছে আছে সে এই বন্ডগুলো দেখতে ও বদলাতে পারে।',
+  'sync.offlineDetail': 'অফলাইন। পরিবর্তন এই ডিভাইসে রাখা থাকে এবং সংযোগ ফিরলে সিঙ্ক হয়।',
+  'sync.failed': 'শেষ চেষ্টা ব্যর্থ হয়েছে: {error}',
+  'sync.lastSynced': 'শেষ সিঙ্ক {date}।',
+  'sync.never': 'এখনো সিঙ্ক হয়নি।',
+  'sync.unsent': '{count}টি পরিবর্তন পাঠানোর অপেক্ষায়।',
+  'sync.now': 'এখনই সিঙ্ক করুন',
+  'sync.confirmStop': 'সিঙ্ক বন্ধ করবেন? বন্ড এই ডিভাইসে থেকে যাবে।',
+  'sync.confirmStopUnsent': 'সিঙ্ক বন্ধ করবেন? বন্ড এই ডিভাইসে থেকে যাবে; না পাঠানো পরিবর্তন পাঠানো হবে না।',
+  'sync.stop': 'সিঙ্ক বন্ধ করুন',
+  'sync.stopHere': 'এই ডিভাইসে সিঙ্ক বন্ধ করুন',
+  'sync.intro': 'একাধিক ডিভাইসে একই বন্ড রাখুন। অফলাইনেও সব কাজ করে; সংযোগ পেলেই পরিবর্তন আদান-প্রদান হয়। দুটি ডিভাইস একই বন্ড বদলালে পরের পরিবর্তনটি থাকে।',
+  'sync.start': 'এই ডিভাইসে সিঙ্ক শুরু করুন',
+  'sync.joinCode': 'অন্য ডিভাইসের কোড',
+  'sync.join': 'যোগ দিন',
+  'sync.joinHelp': 'এই ডিভাইসের বন্ড সিঙ্ক করা বন্ডের সাথে যোগ হয়। একই বন্ড দুই জায়গায় থাকলে সিঙ্ক করা বিবরণ রাখা হয়।',
+
+  'portfolio.all': 'সব পোর্টফোলিও',
+  'portfolio.fallback': 'পোর্টফোলিও',
+  'portfolio.switch': 'পোর্টফোলিও বদলান',
+  'portfolio.saveName': 'নাম সংরক্ষণ করুন',
+  'portfolio.confirmDelete': '"{name}" ও এর {bonds} মুছবেন? পরে এটি পূর্বাবস্থায় ফেরানো যাবে।',
+  'portfolio.delete': 'মুছুন',
+  'portfolio.deleteTitle': 'পোর্টফোলিও মুছুন',
+  'portfolio.lastOne': 'শেষ পোর্টফোলিওটি মোছা যায় না',
+  'portfolio.rename': 'নাম বদলান',
+  'portfolio.newName': 'নতুন পোর্টফোলিওর নাম',
+  'portfolio.create': 'পোর্টফোলিও তৈরি করুন',
+
+  'transfer.target': 'যে পোর্টফোলিওতে',
+  'transfer.keepDetails': 'ওই পোর্টফোলিওতে আগে থেকে থাকা নম্বরের বিবরণ বদলায় না।',
+  'transfer.copy': 'কপি',
+  'transfer.move': 'সরান',
+
+  'recovery.title': 'রিকভারি মোড: পরিবর্তন সংরক্ষণ হচ্ছে না',
+  'recovery.untouched': 'আপনার সংরক্ষিত ডেটা অপরিবর্তিত রাখা হয়েছে। কীভাবে এগোবেন ঠিক করার আগে একটি ব্যাকআপ ডাউনলোড করুন।',
+  'recovery.confirm': 'সংরক্ষিত সব ডেটা নিচে দেখানো {bonds} দিয়ে বদলাবেন?',
+  'recovery.replace': 'হ্যাঁ, বদলান',
+  'recovery.download': 'ব্যাকআপ ডাউনলোড করুন',
+  'recovery.resume': 'সংরক্ষিত ডেটা বদলে আবার সংরক্ষণ শুরু করুন',
+
+  'export.csv': 'CSV (সব তথ্য)',
+  'export.json': 'JSON (সব তথ্য)',
+  'export.txt': 'সাধারণ টেক্সট (নম্বর)',
+  'list.select': '{item} নির্বাচন করুন',
+  'jump.invalid': 'একটি অবস্থান বা ৭ অঙ্কের নম্বর লিখুন',
+  'jump.notListed': '{number} তালিকায় নেই',
+  'jump.position': 'অবস্থান ১ থেকে {total} হতে হবে',
+
+  'toast.undo': 'আনডু',
+  'storage.migrated': 'সংরক্ষিত {bonds} নতুন স্টোরেজে সরানো হয়েছে।',
+  'history.undoLaterFirst': 'আগে পরের পরিবর্তনগুলো আনডু করুন (Ctrl+Z)।',
+  'history.undid': 'আনডু হয়েছে {label}: {restored}টি ফিরে এসেছে, {removed}টি সরানো হয়েছে।',
+  'history.redid': 'রিডু হয়েছে {label}।',
+  'step.add': '{bonds} যোগ',
+  'step.delete': '{item} মোছা',
+  'step.clear': '{bonds} খালি করা',
+  'step.deletePortfolio': 'পোর্টফোলিও {name} মোছা',
+  'step.move': '{count}টি {target}-এ সরানো',
+  'step.copy': '{count}টি {target}-এ কপি',
+  'bond.single': 'বন্ড {number}',
+  'bond.withSeries': 'বন্ড {number} ({series})',
+  'add.empty': 'যোগ করতে বন্ড নম্বর লিখুন।',
+  'add.heldElsewhere': 'এর কিছু নম্বর {where}-তেও আছে।',
+  'add.leftToFix.one': '{count}টি অবৈধ এন্ট্রি ঠিক করা বাকি।',
+  'add.leftToFix': '{count}টি অবৈধ এন্ট্রি ঠিক করা বাকি।',
+  'add.added': '{bonds} যোগ হয়েছে।',
+  'add.skipped.one': '{count}টি ডুপ্লিকেট বাদ দেওয়া হয়েছে।',
+  'add.skipped': '{count}টি ডুপ্লিকেট বাদ দেওয়া হয়েছে।',
+  'add.newWins': 'নতুন বন্ডের {count}টি সংরক্ষিত ড্রতে পুরস্কার পেয়েছে!',
+  'add.duplicatesRemoved.one': '{count}টি ডুপ্লিকেট পাওয়া গেছে এবং ইনপুট থেকে সরানো হয়েছে।',
+  'add.duplicatesRemoved': '{count}টি ডুপ্লিকেট পাওয়া গেছে এবং ইনপুট থেকে সরানো হয়েছে।',
+  'add.nothing': 'কিছু যোগ হয়নি।',
+  'delete.done': '{item} মুছে ফেলা হয়েছে।',
+  'clear.done': '{name} সফলভাবে খালি করা হয়েছে।',
+  'portfolio.nameEmpty': 'একটি নাম লিখুন।',
+  'portfolio.nameTaken': '"{name}" আগে থেকেই আছে।',
+  'portfolio.created': 'পোর্টফোলিও "{name}" তৈরি হয়েছে।',
+  'portfolio.deleted': 'পোর্টফোলিও "{name}" তার {bonds} সহ মুছে ফেলা হয়েছে।',
+  'transfer.shown': 'তালিকায় দেখানো {bonds}',
+  'transfer.alreadyThere': 'বন্ডগুলো আগে থেকেই ওই পোর্টফোলিওতে আছে।',
+  'transfer.moved': '{bonds} {target}-এ সরানো হয়েছে।',
+  'transfer.copied': '{bonds} {target}-এ কপি হয়েছে।',
+  'transfer.wereThere': '{count}টি আগে থেকেই ছিল।',
+  'draws.noWinners': 'কোনো বিজয়ী বন্ড নেই।',
+  'draws.found.one': '{count}টি বিজয়ী বন্ড পাওয়া গেছে!',
+  'draws.found': '{count}টি বিজয়ী বন্ড পাওয়া গেছে!',
+  'draws.saved': 'ড্র #{number} সংরক্ষিত হয়েছে।',
+  'draws.updated': 'ড্র #{number} হালনাগাদ হয়েছে।',
+  'draws.deleted': 'ড্র #{number} মুছে ফেলা হয়েছে।',
+  'recovery.noBackup': 'পড়ার মতো কোনো ব্যাকআপ ডেটা পাওয়া যায়নি।',
+  'recovery.resumed': 'স্টোরেজ পুনরুদ্ধার হয়েছে। পরিবর্তন আবার সংরক্ষণ হচ্ছে।',
+  'recovery.stillFailing': 'স্টোরেজ এখনো পাওয়া যাচ্ছে না।',
+  'export.done': '{bonds} {format} হিসেবে এক্সপোর্ট হয়েছে।',
+  'report.saved': '{bonds}-এর রিপোর্ট সংরক্ষিত হয়েছে।',
+  'import.unreadable': '{name} পড়া যায়নি।',
+  'backup.exported': '{bonds}-এর এনক্রিপ্টেড ব্যাকআপ এক্সপোর্ট হয়েছে।',
+
+  'backup.damaged': 'এই ব্যাকআপ ফাইলটি ক্ষতিগ্রস্ত।',
+  'security.enabled': 'এনক্রিপশন চালু। আপনার বন্ড এখন এনক্রিপ্ট করা।',
+  'security.enabledSyncStopped': 'এনক্রিপশন চালু। সার্ভার এনক্রিপ্ট করা বন্ড রাখতে পারে না, তাই এই ডিভাইসে সিঙ্ক বন্ধ করা হয়েছে।',
+  'security.encryptFailed': 'স্টোরেজ এনক্রিপ্ট করা যায়নি।',
+  'security.currentWrong': 'বর্তমান পাসফ্রেজ ভুল।',
+  'security.changed': 'পাসফ্রেজ বদলানো হয়েছে।',
+  'security.reencryptFailed': 'স্টোরেজ আবার এনক্রিপ্ট করা যায়নি। পুরোনো পাসফ্রেজই বহাল আছে।',
+  'security.disabled': 'এনক্রিপশন বন্ধ। বন্ড এনক্রিপশন ছাড়া রাখা হচ্ছে।',
+  'security.decryptFailed': 'স্টোরেজ ডিক্রিপ্ট করা যায়নি।',
+  'sync.started': 'সিঙ্ক চালু। আপনার অন্য ডিভাইসে কোডটি লিখুন।',
+  'sync.noCode': 'সিঙ্ক সার্ভার কোড তৈরি করতে পারেনি। পরে আবার চেষ্টা করুন।',
+  'sync.needConnection': 'সিঙ্ক শুরু করতে ইন্টারনেটে সংযুক্ত হন।',
+  'sync.badCode': 'সিঙ্ক কোডে ১৬টি অক্ষর ও অঙ্ক থাকে, যেমন ABCD-1234-EFGH-5678।',
+  'sync.joined': 'যুক্ত হয়েছে। আপনার অন্য ডিভাইসের বন্ড আসছে।',
+  'sync.stopped': 'এই ডিভাইসে সিঙ্ক বন্ধ।',
+  'step.import': '{name} ইমপোর্ট',
+  'step.deleteSelected': 'নির্বাচিত {count}টি মোছা',
+  'step.tag': '{count}টিতে #{tag} ট্যাগ',
+  'step.note': '{count}টিতে নোট',
+  'import.replaced': 'সংরক্ষিত বন্ড {name}-এর {bonds} দিয়ে বদলানো হয়েছে।',
+  'import.merged.one': '{name} থেকে {count}টি নতুন বন্ড ইমপোর্ট হয়েছে।',
+  'import.merged': '{name} থেকে {count}টি নতুন বন্ড ইমপোর্ট হয়েছে।',
+  'import.updated': '{count}টি হালনাগাদ হয়েছে।',
+  'import.newWins': 'ইমপোর্ট করা বন্ডের {count}টি সংরক্ষিত ড্রতে পুরস্কার পেয়েছে!',
+  'copy.text': '{text} কপি হয়েছে',
+  'copy.failed': 'কপি করা যায়নি',
+  'copy.selected': 'নির্বাচিত {bonds} কপি হয়েছে।',
+  'copy.bonds': '{bonds} কপি হয়েছে।',
+  'copy.nothing': 'কপি করার মতো কোনো বন্ড নেই।',
+  'delete.bonds': '{bonds} মুছে ফেলা হয়েছে।',
+  'delete.bondsIn': '{bonds} মুছে ফেলা হয়েছে ({range})।',
+  'bulk.hasTag': 'নির্বাচিত সব বন্ডে ট্যাগটি আগে থেকেই আছে।',
+  'bulk.hasNote': 'নির্বাচিত সব বন্ডে নোটটি আগে থেকেই আছে।',
+  'bulk.tagged': '{bonds}-এ ট্যাগ যোগ হয়েছে।',
+  'bulk.noted': '{bonds}-এর নোট হালনাগাদ হয়েছে।',
+
+  'backup.exportTitle': 'এনক্রিপ্টেড ব্যাকআপ',
+  'backup.openTitle': 'ব্যাকআপ খুলুন',
+  'backup.exportPrompt': 'এই ব্যাকআপ ফাইলের জন্য একটি পাসফ্রেজ বেছে নিন। ফাইলটি আবার ইমপোর্ট করতে এটি লাগবে।',
+  'backup.openPrompt': '{name} তৈরির সময়ের পাসফ্রেজটি লিখুন।',
+  'backup.export': 'এক্সপোর্ট',
+  'backup.open': 'খুলুন',
+  'security.lockNow': 'এখনই লক করুন',
+
+  'unit.digit': '{count}টি অঙ্ক',
+  'unit.digits': '{count}টি অঙ্ক',
+  'segment.range-side': 'পরিসরে ড্যাশের দুই পাশেই নম্বর থাকতে হবে',
+  'segment.range-shape': 'পরিসর হতে হবে {length} অঙ্কের দুটি নম্বর, যেমন ০৪৫০০০০-০৪৫০০৯৯',
+  'segment.characters': 'শুধু অঙ্ক এবং পরিসরের জন্য ড্যাশ লেখা যাবে',
+  'segment.digits.number': 'নম্বরে {digits} আছে; বন্ড নম্বরে থাকে {length}টি',
+  'segment.digits.start': 'পরিসরের শুরুর নম্বরে {digits} আছে; বন্ড নম্বরে থাকে {length}টি',
+  'segment.digits.end': 'পরিসরের শেষের নম্বরে {digits} আছে; বন্ড নম্বরে থাকে {length}টি',
+  'segment.new': 'নতুন',
+  'segment.stored': 'আগেই সংরক্ষিত',
+  'segment.repeated': 'তালিকায় আগেই আছে',
+  'segment.storedCount': '{count}টি আগেই সংরক্ষিত',
+  'segment.repeatedCount': '{count}টি তালিকায় আগেই আছে',
+  'segment.allDuplicate': 'সব {bonds}: {parts}',
+  'segment.someNew': '{count}টি নতুন, {parts}',
+  'segment.allNew': '{bonds}, সবগুলো নতুন',
+  'query.dash': '- এর ঠিক পরেই বাদ দেওয়ার শব্দটি লিখুন',
+  'query.quote': 'শেষের উদ্ধৃতিচিহ্ন নেই',
+  'query.not-number': '"{text}" বন্ড নম্বর নয়',
+  'query.too-long': '"{text}" {length} অঙ্কের চেয়ে লম্বা',
+  'query.not-term': '"{text}" কোনো নম্বর, পরিসর বা প্যাটার্ন নয়',
+  'query.denomination': 'মূল্যমান "{value}" কোনো সংখ্যা নয়',
+  'query.date': '"{text}" তারিখ নয়। লিখুন 2024-05-31, 2024-05, 2024, 30d অথবা {keywords}',
+  'query.flag': 'অজানা মান "is:{value}"। is:won লিখে দেখুন',
+  'query.field': 'অজানা ফিল্ড "{field}"। number, series, denom, date, note বা is লিখে দেখুন',
+  'query.no-value': '{field}: এর পরে একটি মান দরকার',
+  'query.or-after': 'OR এর পরে একটি শব্দ দরকার',
+  'query.and-after': 'AND এর পরে একটি শব্দ দরকার',
+  'query.not-after': '{operator} এর পরে একটি শব্দ দরকার',
+  'query.before': '{operator} এর আগে একটি শব্দ দরকার',
+  'query.early-end': 'অনুসন্ধান অসম্পূর্ণ রয়ে গেছে',
+  'query.empty-parentheses': 'বন্ধনীর ভেতরে কিছু নেই',
+  'query.unclosed': 'শেষের বন্ধনী নেই',
+  'query.unmatched': 'শেষের বন্ধনীর কোনো শুরুর বন্ধনী নেই',
+  'draws.problem.draw-number': 'ভিন্ন ড্র নম্বর {number}',
+  'draws.problem.draw-date': 'ভিন্ন ড্রয়ের তারিখ {date}',
+  'draws.problem.no-heading.one': 'কোনো পুরস্কারের শিরোনামের আগে {count}টি নম্বর',
+  'draws.problem.no-heading': 'কোনো পুরস্কারের শিরোনামের আগে {count}টি নম্বর',
+  'draws.problem.malformed': '{length} অঙ্কের নম্বর নয়: {numbers}',
+  'draws.problem.repeated': 'একাধিকবার আছে: {numbers}',
+  'draws.problem.repeatedIn': '{number} ({tier}-এ আগেই আছে)',
+  'import.problem.number': '"{text}" {length} অঙ্কের নম্বর বা পরিসর নয়',
+  'import.problem.no-number': 'নম্বর নেই',
+  'import.problem.denomination': 'অবৈধ মূল্যমান "{value}"',
+  'import.problem.date': 'অবৈধ তারিখ "{value}" (YYYY-MM-DD লিখুন)',
+  'import.problem.record': 'বন্ডের রেকর্ড নয়',
+  'import.problem.start-end': 'শুরু/শেষ নেই',
+  'import.problem.range': 'অবৈধ পরিসর {range}',
+  'import.problem.json': 'ফাইলটি বৈধ JSON নয়',
+  'import.problem.not-records': '{count}টি এন্ট্রি বন্ডের রেকর্ড নয়',
+  'import.problem.no-data': 'ফাইলে কোনো বন্ডের তথ্য পাওয়া যায়নি',
+  'recovery.problem.unavailable': 'এই ব্রাউজার ডেটা সংরক্ষণ করতে পারে না: IndexedDB নেই।',
+  'recovery.problem.blocked': 'অন্য একটি খোলা ট্যাব স্টোরেজ আপগ্রেড আটকে রেখেছে।',
+  'recovery.problem.open-failed': 'স্টোরেজ খোলা যায়নি।',
+  'recovery.problem.legacy': 'আগের সংস্করণে সংরক্ষিত বন্ড পড়া যায়নি।',
+  'recovery.problem.decrypt': 'এনক্রিপ্ট করা বন্ড ডিক্রিপ্ট করা যায়নি।',
+  'recovery.problem.damaged.one': '{count}টি সংরক্ষিত রেকর্ড ক্ষতিগ্রস্ত, পড়া যায়নি।',
+  'recovery.problem.damaged': '{count}টি সংরক্ষিত রেকর্ড ক্ষতিগ্রস্ত, পড়া যায়নি।',
+  'recovery.problem.settings': 'এনক্রিপশন সেটিং ক্ষতিগ্রস্ত।',
+  'recovery.problem.save-failed': 'সাম্প্রতিক পরিবর্তন সংরক্ষণ করা যায়নি।',
+  'sync.problem.code-required': 'একটি বৈধ সিঙ্ক কোড দরকার।',
+  'sync.problem.unreadable': 'পাঠানো পরিবর্তনগুলো সিঙ্ক সার্ভার পড়তে পারেনি।',
+  'sync.problem.unknown-code': 'কোনো ডিভাইস এই সিঙ্ক কোড ব্যবহার করে না।',
+  'sync.problem.method': 'সিঙ্ক সার্ভার অনুরোধটি গ্রহণ করেনি।',
+  'sync.problem.not-found': 'সিঙ্ক সার্ভারে এই ঠিকানা নেই।',
+  'sync.problem.server': 'সিঙ্ক সার্ভার অনুরোধটি সামলাতে পারেনি।',
+  'sync.problem.reply': 'সিঙ্ক সার্ভার অপ্রত্যাশিত উত্তর পাঠিয়েছে।',
+  'sync.problem.unreachable': 'সিঙ্ক সার্ভারে পৌঁছানো যায়নি।',
+
+  'query.range-end': 'পরিসরে ড্যাশের পরে একটি নম্বর দরকার',
+
+  'step.noteBond': '{item}-এ নোট',
+  'note.saved': '{item}-এর নোট সংরক্ষণ করা হয়েছে।',
+  'note.cleared': '{item}-এর নোট মুছে ফেলা হয়েছে।',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { en: EN, bn: BN };
+
+export const loadLanguage = (): Language => {
+  const saved = localStorage.getItem(LANGUAGE_KEY);
+  return LANGUAGES.some(l => l.id === saved) ? saved as Language : 'en';
+};
+
+export const saveLanguage = (language: Language) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
+
+export const translate = (language: Language, key: MessageKey, values: Record<string, string | number> = {}) =>
+  MESSAGES[language][key].replace(/\{(\w+)\}/g, (match, name) => name in values ? String(values[name]) : match);
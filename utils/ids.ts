@@ -0,0 +1,4 @@
+// --- Identifiers ---
+
+/** Short unique id; time-ordered prefix plus randomness, so ids never collide within a session. */
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
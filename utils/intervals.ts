@@ -0,0 +1,102 @@
+// --- Numeric Intervals ---
+// Inclusive [start, end] integer intervals. Functions taking interval lists
+// expect them sorted by start and merged (no overlapping or touching
+// neighbours), and return lists in the same form.
+
+export type Interval = [number, number];
+
+export const intervalSize = ([start, end]: Interval) => end - start + 1;
+
+export const intervalsSize = (intervals: Interval[]) =>
+  intervals.reduce((sum, interval) => sum + intervalSize(interval), 0);
+
+/** Sorts arbitrary intervals and merges overlapping or adjacent ones. */
+export const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  if (intervals.length <= 1) return intervals.map(([s, e]) => [s, e]);
+
+  const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [[sorted[0][0], sorted[0][1]]];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const last = merged[merged.length - 1];
+    const [start, end] = sorted[i];
+    if (start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+};
+
+/** Returns the parts of `from` not covered by `remove`. */
+export const subtractIntervals = (from: Interval[], remove: Interval[]): Interval[] => {
+  const result: Interval[] = [];
+  let j = 0;
+
+  from.forEach(([start, end]) => {
+    let cursor = start;
+    while (j < remove.length && remove[j][1] < cursor) j++;
+
+    let k = j;
+    while (k < remove.length && remove[k][0] <= end) {
+      if (remove[k][0] > cursor) result.push([cursor, remove[k][0] - 1]);
+      cursor = Math.max(cursor, remove[k][1] + 1);
+      if (cursor > end) break;
+      k++;
+    }
+
+    if (cursor <= end) result.push([cursor, end]);
+  });
+
+  return result;
+};
+
+export const intersectIntervals = (a: Interval[], b: Interval[]): Interval[] => {
+  const result: Interval[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    const start = Math.max(a[i][0], b[j][0]);
+    const end = Math.min(a[i][1], b[j][1]);
+    if (start <= end) result.push([start, end]);
+    if (a[i][1] < b[j][1]) i++;
+    else j++;
+  }
+
+  return result;
+};
+
+/** Binary search for the interval containing `value`, or -1. */
+export const findInterval = (intervals: Interval[], value: number): number => {
+  let lo = 0;
+  let hi = intervals.length - 1;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (value < intervals[mid][0]) hi = mid - 1;
+    else if (value > intervals[mid][1]) lo = mid + 1;
+    else return mid;
+  }
+
+  return -1;
+};
+
+/** The parts of `intervals` that fall within `[start, end]`. */
+export const clipIntervals = (intervals: Interval[], [start, end]: Interval): Interval[] => {
+  let lo = 0;
+  let hi = intervals.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (intervals[mid][1] < start) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const result: Interval[] = [];
+  for (let i = lo; i < intervals.length && intervals[i][0] <= end; i++) {
+    result.push([Math.max(start, intervals[i][0]), Math.min(end, intervals[i][1])]);
+  }
+  return result;
+};
@@ -0,0 +1,92 @@
+// --- Numeral Systems ---
+// Bond numbers arrive in Bangla documents (০-৯), from Arabic-Indic sources
+// and with full-width punctuation. Input is normalised to ASCII before
+// parsing; the replacements keep the text length, so offsets into the
+// normalised text still point at the right place in what was typed.
+
+// Zero of each decimal digit block; the other nine digits follow it
+const DIGIT_ZEROS = [
+  0x0660, // Arabic-Indic
+  0x06f0, // Extended Arabic-Indic (Persian, Urdu)
+  0x0966, // Devanagari
+  0x09e6, // Bangla
+  0x0a66, // Gurmukhi
+  0x0ae6, // Gujarati
+  0x0b66, // Oriya
+  0x0be6, // Tamil
+  0x0c66, // Telugu
+  0x0ce6, // Kannada
+  0x0d66, // Malayalam
+  0x0e50, // Thai
+  0x1040, // Myanmar
+  0xff10, // Full-width
+];
+
+const DIGIT_VALUES = new Map<string, string>(
+  DIGIT_ZEROS.flatMap(zero => Array.from({ length: 10 }, (_, d): [string, string] => [String.fromCharCode(zero + d), String(d)]))
+);
+
+const DIGIT_PATTERN = new RegExp(`[${DIGIT_ZEROS.map(zero => `\\u${zero.toString(16).padStart(4, '0')}-\\u${(zero + 9).toString(16).padStart(4, '0')}`).join('')}]`, 'g');
+
+// Hyphen, non-breaking hyphen, figure dash, en dash, em dash, minus sign, small and full-width hyphen-minus
+const DASH_PATTERN = /[\u2010\u2011\u2012\u2013\u2014\u2212\ufe63\uff0d]/g;
+// Full-width and ideographic commas, semicolons, the Arabic comma and the Bangla danda
+const SEPARATOR_PATTERN = /[\uff0c\u3001\uff1b;\u060c\u061b\u0964]/g;
+// No-break, typographic and ideographic spaces
+const SPACE_PATTERN = /[\u00a0\u2000-\u200a\u202f\u3000]/g;
+
+/** ASCII digits, dashes and separators, keeping the text length. */
+export const normalizeDigits = (text: string) =>
+  text
+    .replace(DIGIT_PATTERN, char => DIGIT_VALUES.get(char) ?? char)
+    .replace(DASH_PATTERN, '-')
+    .replace(SEPARATOR_PATTERN, ',')
+    .replace(SPACE_PATTERN, ' ');
+
+// "0450000 to 0450099" and the Bangla "০৪৫০০০০ থেকে ০৪৫০০৯৯ পর্যন্ত" (from ... until)
+const RANGE_WORD_PATTERN = /(\d)(\s+)(to|থেকে)(\s+)(?=\d)/giu;
+const UNTIL_PATTERN = /(\d)(\s*)পর্যন্ত/gu;
+
+/**
+ * Normalises bond number input: digits and punctuation as in
+ * `normalizeDigits`, plus range words between two numbers turned into a
+ * dash padded with spaces to the same length.
+ */
+export const normalizeBondInput = (text: string) =>
+  normalizeDigits(text)
+    .replace(RANGE_WORD_PATTERN, (_, digit, before, word, after) => `${digit}${before}${' '.repeat(word.length - 1)}-${after}`)
+    .replace(UNTIL_PATTERN, (match, digit) => digit + ' '.repeat(match.length - 1));
+
+// --- Display ---
+
+export type NumeralSystem = 'latn' | 'beng' | 'arab';
+
+export const NUMERAL_SYSTEMS: { id: NumeralSystem; label: string; sample: string }[] = [
+  { id: 'latn', label: 'Western', sample: '0123' },
+  { id: 'beng', label: 'Bangla', sample: '০১২৩' },
+  { id: 'arab', label: 'Arabic-Indic', sample: '٠١٢٣' },
+];
+
+const DISPLAY_ZEROS: Record<NumeralSystem, number> = { latn: 0x30, beng: 0x09e6, arab: 0x0660 };
+
+export const NUMERAL_SYSTEM_KEY = 'numeral_system';
+
+export const loadNumeralSystem = (): NumeralSystem => {
+  const saved = localStorage.getItem(NUMERAL_SYSTEM_KEY);
+  return NUMERAL_SYSTEMS.some(n => n.id === saved) ? saved as NumeralSystem : 'latn';
+};
+
+export const saveNumeralSystem = (system: NumeralSystem) => {
+  localStorage.setItem(NUMERAL_SYSTEM_KEY, system);
+};
+
+/** Rewrites the ASCII digits in `text` in another numeral system. */
+export const toNumerals = (text: string, system: NumeralSystem) => {
+  if (system === 'latn') return text;
+  const zero = DISPLAY_ZEROS[system];
+  return text.replace(/[0-9]/g, d => String.fromCharCode(zero + Number(d)));
+};
+
+/** A count with grouping, in the chosen numerals. */
+export const formatCount = (value: number, system: NumeralSystem) =>
+  toNumerals(value.toLocaleString('en-US'), system);
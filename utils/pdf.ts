@@ -0,0 +1,115 @@
+// --- PDF Writer ---
+// A minimal PDF 1.4 writer for plain text documents. It only uses the
+// standard Helvetica and Courier fonts, which every PDF reader provides, so
+// nothing is embedded and the file stays small. Text is encoded as WinAnsi;
+// characters outside it (Bengali digits, the taka sign) print as '?', so
+// callers should pass Latin text.
+
+export type PdfFont = 'regular' | 'bold' | 'mono';
+
+export interface PdfText {
+  kind: 'text';
+  x: number;
+  y: number; // baseline, from the bottom of the page
+  text: string;
+  font: PdfFont;
+  size: number;
+  gray?: number; // 0 is black, 1 is white
+}
+
+export interface PdfRule {
+  kind: 'rule';
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export type PdfPage = (PdfText | PdfRule)[];
+
+// A4, in points
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+  mono: 'Courier',
+};
+
+const FONT_KEYS: Record<PdfFont, string> = { regular: 'F1', bold: 'F2', mono: 'F3' };
+
+/**
+ * Width of `text` in points. Exact for Courier; Helvetica has no fixed
+ * width, so this slightly overestimates, which is safe for fitting text.
+ */
+export const pdfTextWidth = (text: string, font: PdfFont, size: number) =>
+  text.length * size * (font === 'mono' ? 0.6 : font === 'bold' ? 0.58 : 0.54);
+
+/** Shortens text with an ellipsis until it fits `width`. */
+export const fitPdfText = (text: string, font: PdfFont, size: number, width: number) => {
+  if (pdfTextWidth(text, font, size) <= width) return text;
+  const chars = Math.max(0, Math.floor(width / pdfTextWidth('x', font, size)) - 1);
+  return `${text.slice(0, chars)}…`;
+};
+
+// WinAnsi code points that differ from Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+const encodeText = (text: string) =>
+  [...text].map(char => {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI[char] !== undefined) return String.fromCharCode(WIN_ANSI[char]);
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+    return '?';
+  }).join('').replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const pageContent = (page: PdfPage) =>
+  page.map(item => {
+    if (item.kind === 'rule') {
+      return `0.5 w 0.75 G ${formatNumber(item.x1)} ${formatNumber(item.y1)} m ${formatNumber(item.x2)} ${formatNumber(item.y2)} l S`;
+    }
+    return `BT ${formatNumber(item.gray ?? 0)} g /${FONT_KEYS[item.font]} ${formatNumber(item.size)} Tf ${formatNumber(item.x)} ${formatNumber(item.y)} Td (${encodeText(item.text)}) Tj ET`;
+  }).join('\n');
+
+/** The PDF file for the given pages. */
+export const buildPdf = (pages: PdfPage[], title: string): Uint8Array => {
+  // Object numbers: 1 catalog, 2 page tree, 3 info, 4-6 fonts, then a page and its content per page
+  const fonts: PdfFont[] = ['regular', 'bold', 'mono'];
+  const pageIds = pages.map((_, i) => 7 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Title (${encodeText(title)}) /Producer (Prize Bond Manager) >>`,
+    ...fonts.map(font => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`),
+  ];
+  const fontResources = fonts.map((font, i) => `/${FONT_KEYS[font]} ${4 + i} 0 R`).join(' ');
+  pages.forEach((page, i) => {
+    const content = pageContent(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let file = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = file.length;
+    file += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  file += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  file += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(file.length);
+  for (let i = 0; i < file.length; i++) bytes[i] = file.charCodeAt(i);
+  return bytes;
+};
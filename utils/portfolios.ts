@@ -0,0 +1,120 @@
+import { BondRun, addRuns, countBonds, removeInterval, seriesCoverage } from './bondStore';
+import { Interval, intersectIntervals, intervalsSize, mergeIntervals } from './intervals';
+import { createId } from './ids';
+
+// --- Portfolios ---
+// Bonds are held per portfolio: `Holdings` maps a portfolio id to its own
+// run list, so every run function works on one portfolio unchanged. The
+// combined view concatenates the lists and tags each run with its portfolio.
+
+export interface Portfolio {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+}
+
+export type Holdings = Record<string, BondRun[]>;
+
+export const ALL_PORTFOLIOS = '*';
+export const DEFAULT_PORTFOLIO_ID = 'default';
+const DEFAULT_PORTFOLIO_NAME = 'My Bonds';
+
+export const ACTIVE_PORTFOLIO_KEY = 'active_portfolio';
+
+export type TransferMode = 'move' | 'copy';
+
+export const createPortfolio = (name: string): Portfolio => ({
+  id: createId(),
+  name: name.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+export const defaultPortfolio = (): Portfolio => ({
+  id: DEFAULT_PORTFOLIO_ID,
+  name: DEFAULT_PORTFOLIO_NAME,
+  createdAt: new Date().toISOString(),
+});
+
+export const loadActivePortfolioId = () => localStorage.getItem(ACTIVE_PORTFOLIO_KEY) ?? DEFAULT_PORTFOLIO_ID;
+
+export const saveActivePortfolioId = (id: string) => {
+  localStorage.setItem(ACTIVE_PORTFOLIO_KEY, id);
+};
+
+/**
+ * Validates stored portfolio metadata and makes sure every portfolio that
+ * holds bonds is listed, so no bonds are ever hidden by damaged metadata.
+ */
+export const parseStoredPortfolios = (stored: unknown, holdings: Holdings): Portfolio[] => {
+  const portfolios = Array.isArray(stored)
+    ? stored.filter((p): p is Portfolio =>
+        !!p && typeof p === 'object'
+        && typeof p.id === 'string' && p.id !== ALL_PORTFOLIOS
+        && typeof p.name === 'string'
+        && typeof p.createdAt === 'string')
+    : [];
+
+  const known = new Set(portfolios.map(p => p.id));
+  Object.keys(holdings).forEach(id => {
+    if (known.has(id)) return;
+    known.add(id);
+    portfolios.push(id === DEFAULT_PORTFOLIO_ID
+      ? defaultPortfolio()
+      : { id, name: `Portfolio ${portfolios.length + 1}`, createdAt: new Date().toISOString() });
+  });
+
+  return portfolios.length > 0 ? portfolios : [defaultPortfolio()];
+};
+
+export const portfolioName = (portfolios: Portfolio[], id: string) =>
+  portfolios.find(p => p.id === id)?.name ?? 'Unknown portfolio';
+
+/** The runs shown for a selection; the combined view tags each run with its portfolio. */
+export const viewRuns = (holdings: Holdings, portfolios: Portfolio[], activeId: string): BondRun[] =>
+  activeId === ALL_PORTFOLIOS
+    ? portfolios.flatMap(p => (holdings[p.id] ?? []).map(run => ({ ...run, portfolioId: p.id })))
+    : holdings[activeId] ?? [];
+
+export const allRuns = (holdings: Holdings): BondRun[] => Object.values(holdings).flat();
+
+/** Portfolios other than `portfolioId` already holding some of these numbers in `series`. */
+export const heldElsewhere = (
+  holdings: Holdings,
+  portfolioId: string,
+  series: string,
+  intervals: Interval[]
+): { portfolioId: string; count: number }[] => {
+  const requested = mergeIntervals(intervals);
+  return Object.entries(holdings).flatMap(([id, runs]) => {
+    if (id === portfolioId) return [];
+    const count = intervalsSize(intersectIntervals(requested, seriesCoverage(runs, series)));
+    return count > 0 ? [{ portfolioId: id, count }] : [];
+  });
+};
+
+/**
+ * Moves or copies runs into another portfolio. Runs without a portfolio tag
+ * come from `sourceId`. Numbers the target already holds keep the target's
+ * details; when moving they are still removed from the source.
+ */
+export const transferRuns = (
+  holdings: Holdings,
+  runs: BondRun[],
+  sourceId: string,
+  targetId: string,
+  mode: TransferMode
+): { holdings: Holdings; count: number; added: number } => {
+  const next: Holdings = { ...holdings };
+  const incoming: BondRun[] = [];
+
+  runs.forEach(({ portfolioId, ...run }) => {
+    const from = portfolioId ?? sourceId;
+    if (from === targetId) return;
+    incoming.push(run);
+    if (mode === 'move') next[from] = removeInterval(next[from] ?? [], run.series, [run.start, run.end]);
+  });
+
+  const { runs: targetRuns, added } = addRuns(next[targetId] ?? [], incoming);
+  next[targetId] = targetRuns;
+  return { holdings: next, count: countBonds(incoming), added };
+};
@@ -0,0 +1,417 @@
+// --- QR Code Symbols ---
+// Encodes text as a QR code (ISO/IEC 18004, model 2) entirely in the browser.
+// Only what the transfer needs is supported: one segment per symbol, in
+// alphanumeric mode when the text allows it and as UTF-8 bytes otherwise.
+// The version is the smallest that fits and the mask the one with the
+// lowest penalty, as the standard asks. The layout helpers are shared with
+// the decoder in qrDecode.ts.
+
+export type ErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrCode {
+  version: number; // 1-40
+  size: number; // modules per side: 17 + 4 * version
+  modules: boolean[][]; // [row][column], true is dark
+}
+
+export const MIN_VERSION = 1;
+export const MAX_VERSION = 40;
+
+// The two bits stored in the format information
+export const FORMAT_BITS: Record<ErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: Record<ErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<ErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+export const ALPHANUMERIC_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+export const MODE_NUMERIC = 0x1;
+export const MODE_ALPHANUMERIC = 0x2;
+export const MODE_BYTE = 0x4;
+
+export const symbolSize = (version: number) => 17 + version * 4;
+
+/** Bits used by the character count of a segment. */
+export const countBits = (mode: number, version: number) => {
+  const tier = version <= 9 ? 0 : version <= 26 ? 1 : 2;
+  if (mode === MODE_NUMERIC) return [10, 12, 14][tier];
+  if (mode === MODE_ALPHANUMERIC) return [9, 11, 13][tier];
+  return [8, 16, 16][tier];
+};
+
+/** Centres of the alignment patterns along either axis. */
+export const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = symbolSize(version) - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+};
+
+/** Modules left for data and error correction once the function patterns are drawn. */
+const rawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const count = Math.floor(version / 7) + 2;
+    result -= (25 * count - 10) * count - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+export interface BlockLayout {
+  totalCodewords: number;
+  dataCodewords: number;
+  blocks: number;
+  eccPerBlock: number;
+}
+
+export const blockLayout = (version: number, ecc: ErrorCorrection): BlockLayout => {
+  const totalCodewords = Math.floor(rawDataModules(version) / 8);
+  const blocks = ERROR_CORRECTION_BLOCKS[ecc][version];
+  const eccPerBlock = ECC_CODEWORDS_PER_BLOCK[ecc][version];
+  return { totalCodewords, dataCodewords: totalCodewords - blocks * eccPerBlock, blocks, eccPerBlock };
+};
+
+// --- Galois Field ---
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+
+export const GF_EXP = new Uint8Array(512);
+export const GF_LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) x ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i++) GF_EXP[i] = GF_EXP[i - 255];
+}
+
+export const gfMultiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]]);
+
+/** Generator polynomial with roots α^0 … α^(degree-1), highest power first, leading 1 dropped. */
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => { result[i] ^= gfMultiply(coefficient, factor); });
+  });
+  return result;
+};
+
+// --- Layout ---
+
+/** 15-bit format information for an error correction level and mask, as placed in the symbol. */
+export const formatInformation = (ecc: number, mask: number) => {
+  const data = (ecc << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+/** 18-bit version information, only present from version 7. */
+export const versionInformation = (version: number) => {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+};
+
+/** Where the two copies of the format bits sit, as [row, column] per bit (bit 0 first). */
+export const formatBitPositions = (size: number): [number, number][][] => {
+  const first: [number, number][] = [];
+  for (let i = 0; i <= 5; i++) first.push([i, 8]);
+  first.push([7, 8], [8, 8], [8, 7]);
+  for (let i = 9; i < 15; i++) first.push([8, 14 - i]);
+  const second: [number, number][] = [];
+  for (let i = 0; i < 8; i++) second.push([8, size - 1 - i]);
+  for (let i = 8; i < 15; i++) second.push([size - 15 + i, 8]);
+  return [first, second];
+};
+
+/** Where the two copies of the version bits sit, as [row, column] per bit (bit 0 first). */
+export const versionBitPositions = (size: number): [number, number][][] => {
+  const first: [number, number][] = [];
+  const second: [number, number][] = [];
+  for (let i = 0; i < 18; i++) {
+    const a = size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    first.push([b, a]);
+    second.push([a, b]);
+  }
+  return [first, second];
+};
+
+export const MASKS: ((row: number, col: number) => boolean)[] = [
+  (r, c) => (r + c) % 2 === 0,
+  r => r % 2 === 0,
+  (_, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(c / 3) + Math.floor(r / 2)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+interface Canvas {
+  size: number;
+  modules: boolean[][];
+  isFunction: boolean[][];
+}
+
+const emptyCanvas = (version: number): Canvas => {
+  const size = symbolSize(version);
+  return {
+    size,
+    modules: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+    isFunction: Array.from({ length: size }, () => new Array<boolean>(size).fill(false)),
+  };
+};
+
+const setFunction = (canvas: Canvas, row: number, col: number, dark: boolean) => {
+  canvas.modules[row][col] = dark;
+  canvas.isFunction[row][col] = true;
+};
+
+/** Draws the finder, timing and alignment patterns and reserves the format and version areas. */
+const drawFunctionPatterns = (canvas: Canvas, version: number) => {
+  const { size } = canvas;
+  for (let i = 0; i < size; i++) {
+    setFunction(canvas, 6, i, i % 2 === 0);
+    setFunction(canvas, i, 6, i % 2 === 0);
+  }
+
+  [[3, 3], [3, size - 4], [size - 4, 3]].forEach(([row, col]) => {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const r = row + dr;
+        const c = col + dc;
+        const distance = Math.max(Math.abs(dr), Math.abs(dc));
+        if (r >= 0 && r < size && c >= 0 && c < size) setFunction(canvas, r, c, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((row, i) => positions.forEach((col, j) => {
+    // The three corners hold finder patterns
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) setFunction(canvas, row + dr, col + dc, Math.max(Math.abs(dr), Math.abs(dc)) !== 1);
+    }
+  }));
+
+  drawFormatBits(canvas, 0);
+  if (version >= 7) {
+    const bits = versionInformation(version);
+    versionBitPositions(size).forEach(copy => copy.forEach(([r, c], i) => setFunction(canvas, r, c, ((bits >>> i) & 1) !== 0)));
+  }
+};
+
+const drawFormatBits = (canvas: Canvas, bits: number) => {
+  formatBitPositions(canvas.size).forEach(copy => copy.forEach(([r, c], i) => setFunction(canvas, r, c, ((bits >>> i) & 1) !== 0)));
+  // Always dark
+  setFunction(canvas, canvas.size - 8, 8, true);
+};
+
+/** Which modules belong to function patterns in a symbol of this version. */
+export const functionModules = (version: number): boolean[][] => {
+  const canvas = emptyCanvas(version);
+  drawFunctionPatterns(canvas, version);
+  return canvas.isFunction;
+};
+
+/**
+ * The data modules in reading order, as [row, column]: two-column strips
+ * from the right edge, alternately upwards and downwards, skipping the
+ * vertical timing pattern.
+ */
+export const dataModuleOrder = (isFunction: boolean[][]): [number, number][] => {
+  const size = isFunction.length;
+  const order: [number, number][] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const row = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const col = right - j;
+        if (!isFunction[row][col]) order.push([row, col]);
+      }
+    }
+  }
+  return order;
+};
+
+// --- Encoding ---
+
+const appendBits = (bits: number[], value: number, length: number) => {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+};
+
+const isAlphanumeric = (text: string) => [...text].every(char => ALPHANUMERIC_CHARSET.includes(char));
+
+const segmentBits = (text: string): { mode: number; count: number; bits: number[] } => {
+  const bits: number[] = [];
+  if (isAlphanumeric(text)) {
+    for (let i = 0; i + 1 < text.length; i += 2) {
+      appendBits(bits, ALPHANUMERIC_CHARSET.indexOf(text[i]) * 45 + ALPHANUMERIC_CHARSET.indexOf(text[i + 1]), 11);
+    }
+    if (text.length % 2 === 1) appendBits(bits, ALPHANUMERIC_CHARSET.indexOf(text[text.length - 1]), 6);
+    return { mode: MODE_ALPHANUMERIC, count: text.length, bits };
+  }
+  const bytes = new TextEncoder().encode(text);
+  bytes.forEach(byte => appendBits(bits, byte, 8));
+  return { mode: MODE_BYTE, count: bytes.length, bits };
+};
+
+/** The error-corrected codewords, interleaved across blocks. */
+const addErrorCorrection = (data: number[], version: number, ecc: ErrorCorrection): number[] => {
+  const { totalCodewords, blocks: blockCount, eccPerBlock } = blockLayout(version, ecc);
+  const shortBlocks = blockCount - (totalCodewords % blockCount);
+  const shortBlockLength = Math.floor(totalCodewords / blockCount);
+  const divisor = rsDivisor(eccPerBlock);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const block = data.slice(k, k + shortBlockLength - eccPerBlock + (i < shortBlocks ? 0 : 1));
+    k += block.length;
+    const remainder = rsRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0); // placeholder so all blocks line up
+    blocks.push(block.concat(remainder));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccPerBlock || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const penalty = ({ size, modules }: Canvas) => {
+  let result = 0;
+  let dark = 0;
+  const lines: boolean[][] = [...modules, ...modules.map((_, c) => modules.map(row => row[c]))];
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) result += 3 + run - 5;
+        run = 1;
+      }
+    }
+    // 1:1:3:1:1 with four light modules on either side looks like a finder pattern
+    for (let i = 0; i + 11 <= size; i++) {
+      const slice = line.slice(i, i + 11).map(Number).join('');
+      if (slice === '10111010000' || slice === '00001011101') result += 40;
+    }
+  });
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (modules[r][c]) dark++;
+      if (r + 1 < size && c + 1 < size) {
+        const color = modules[r][c];
+        if (color === modules[r][c + 1] && color === modules[r + 1][c] && color === modules[r + 1][c + 1]) result += 3;
+      }
+    }
+  }
+  const total = size * size;
+  result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return result;
+};
+
+/** Smallest version whose data capacity holds a segment of this many bits. */
+const fittingVersion = (mode: number, dataBits: number, ecc: ErrorCorrection, minVersion: number) => {
+  for (let version = minVersion; version <= MAX_VERSION; version++) {
+    if (4 + countBits(mode, version) + dataBits <= blockLayout(version, ecc).dataCodewords * 8) return version;
+  }
+  return null;
+};
+
+/** Capacity of one symbol in alphanumeric characters. */
+export const alphanumericCapacity = (version: number, ecc: ErrorCorrection) => {
+  const bits = blockLayout(version, ecc).dataCodewords * 8 - 4 - countBits(MODE_ALPHANUMERIC, version);
+  return Math.floor(bits / 11) * 2 + (bits % 11 >= 6 ? 1 : 0);
+};
+
+/** The QR code for `text`, or null when it is too long for any version. */
+export const encodeQr = (text: string, ecc: ErrorCorrection = 'M', minVersion = MIN_VERSION): QrCode | null => {
+  const segment = segmentBits(text);
+  const version = fittingVersion(segment.mode, segment.bits.length, ecc, minVersion);
+  if (version === null) return null;
+
+  const capacity = blockLayout(version, ecc).dataCodewords * 8;
+  const bits: number[] = [];
+  appendBits(bits, segment.mode, 4);
+  appendBits(bits, segment.count, countBits(segment.mode, version));
+  bits.push(...segment.bits);
+  appendBits(bits, 0, Math.min(4, capacity - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) appendBits(bits, pad, 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  const codewords = addErrorCorrection(data, version, ecc);
+
+  const canvas = emptyCanvas(version);
+  drawFunctionPatterns(canvas, version);
+  const order = dataModuleOrder(canvas.isFunction);
+  // Leftover modules (up to 7) stay light
+  order.forEach(([r, c], i) => {
+    canvas.modules[r][c] = i < codewords.length * 8 && ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+  });
+
+  let best: { mask: number; modules: boolean[][]; score: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const masked: Canvas = { ...canvas, modules: canvas.modules.map(row => [...row]) };
+    order.forEach(([r, c]) => { if (MASKS[mask](r, c)) masked.modules[r][c] = !masked.modules[r][c]; });
+    drawFormatBits(masked, formatInformation(FORMAT_BITS[ecc], mask));
+    const score = penalty(masked);
+    if (!best || score < best.score) best = { mask, modules: masked.modules, score };
+  }
+
+  return { version, size: canvas.size, modules: best!.modules };
+};
+
+/** An SVG path drawing the dark modules, one unit per module, offset by a quiet zone. */
+export const qrSvgPath = (code: QrCode, margin = 4) => {
+  const parts: string[] = [];
+  code.modules.forEach((row, r) => row.forEach((dark, c) => {
+    if (dark) parts.push(`M${c + margin},${r + margin}h1v1h-1z`);
+  }));
+  return parts.join('');
+};
@@ -0,0 +1,766 @@
+import {
+  ALPHANUMERIC_CHARSET,
+  ErrorCorrection,
+  FORMAT_BITS,
+  GF_EXP,
+  GF_LOG,
+  MASKS,
+  MAX_VERSION,
+  MODE_ALPHANUMERIC,
+  MODE_BYTE,
+  MODE_NUMERIC,
+  alignmentPositions,
+  blockLayout,
+  countBits,
+  dataModuleOrder,
+  formatBitPositions,
+  formatInformation,
+  functionModules,
+  gfMultiply,
+  symbolSize,
+  versionBitPositions,
+  versionInformation
+} from './qrCode';
+
+// --- QR Code Reader ---
+// Finds and decodes one QR code in a picture, for browsers without a native
+// BarcodeDetector. It takes plain RGBA pixels (the shape of ImageData), so it
+// runs the same on camera frames, uploaded images and fixture files. The
+// steps follow the usual approach: threshold the picture, find the three
+// finder patterns, map the grid through the alignment pattern, then read the
+// format, unmask and correct errors with Reed-Solomon.
+
+export interface QrImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>; // RGBA, 4 bytes per pixel
+}
+
+export interface QrDecoded {
+  text: string;
+  version: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface FinderCandidate extends Point {
+  moduleSize: number;
+  hits: number;
+}
+
+// --- Thresholding ---
+// Each 8×8 block gets a black point from its own pixels, smoothed over the
+// 5×5 blocks around it, so uneven lighting across a photo does not matter.
+// Flat blocks borrow from their neighbours instead of turning noise into
+// modules.
+
+const BLOCK_SIZE = 8;
+const MIN_DYNAMIC_RANGE = 24;
+
+const luminance = ({ width, height, data }: QrImage) => {
+  const result = new Uint8Array(width * height);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return result;
+};
+
+/** 1 for dark pixels, 0 for light. */
+const binarize = (lum: Uint8Array, width: number, height: number) => {
+  const columns = Math.ceil(width / BLOCK_SIZE);
+  const rows = Math.ceil(height / BLOCK_SIZE);
+  const blackPoints = new Float32Array(columns * rows);
+
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      let min = 255;
+      let max = 0;
+      let sum = 0;
+      for (let y = 0; y < BLOCK_SIZE; y++) {
+        const row = Math.min(by * BLOCK_SIZE + y, height - 1) * width;
+        for (let x = 0; x < BLOCK_SIZE; x++) {
+          const value = lum[row + Math.min(bx * BLOCK_SIZE + x, width - 1)];
+          sum += value;
+          if (value < min) min = value;
+          if (value > max) max = value;
+        }
+      }
+      let average = sum / (BLOCK_SIZE * BLOCK_SIZE);
+      if (max - min <= MIN_DYNAMIC_RANGE) {
+        average = min / 2;
+        if (by > 0 && bx > 0) {
+          const neighbours = (blackPoints[(by - 1) * columns + bx] + 2 * blackPoints[by * columns + bx - 1] + blackPoints[(by - 1) * columns + bx - 1]) / 4;
+          if (min < neighbours) average = neighbours;
+        }
+      }
+      blackPoints[by * columns + bx] = average;
+    }
+  }
+
+  const dark = new Uint8Array(width * height);
+  for (let by = 0; by < rows; by++) {
+    for (let bx = 0; bx < columns; bx++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const y = by + dy;
+          const x = bx + dx;
+          if (y < 0 || y >= rows || x < 0 || x >= columns) continue;
+          sum += blackPoints[y * columns + x];
+          count++;
+        }
+      }
+      const threshold = sum / count;
+      for (let y = by * BLOCK_SIZE; y < Math.min((by + 1) * BLOCK_SIZE, height); y++) {
+        for (let x = bx * BLOCK_SIZE; x < Math.min((bx + 1) * BLOCK_SIZE, width); x++) {
+          dark[y * width + x] = lum[y * width + x] <= threshold ? 1 : 0;
+        }
+      }
+    }
+  }
+  return dark;
+};
+
+// --- Finder Patterns ---
+// A finder pattern crosses any line through its centre as dark, light, dark,
+// light, dark runs in the ratio 1:1:3:1:1. Rows are scanned for that ratio
+// and each hit is checked again vertically and horizontally through its
+// centre.
+
+interface BitMatrix {
+  width: number;
+  height: number;
+  dark: Uint8Array;
+}
+
+const isDark = (matrix: BitMatrix, x: number, y: number) => matrix.dark[y * matrix.width + x] === 1;
+
+const finderRatio = (counts: number[]) => {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total < 7) return false;
+  const moduleSize = total / 7;
+  const variance = moduleSize / 2;
+  return Math.abs(moduleSize - counts[0]) < variance
+    && Math.abs(moduleSize - counts[1]) < variance
+    && Math.abs(3 * moduleSize - counts[2]) < 3 * variance
+    && Math.abs(moduleSize - counts[3]) < variance
+    && Math.abs(moduleSize - counts[4]) < variance;
+};
+
+/**
+ * Walks from a point inside the centre of a finder pattern in both
+ * directions along (dx, dy), counting the five runs. Returns the centre
+ * along that line and the total length, or null when the ratio is off.
+ */
+const crossCheck = (matrix: BitMatrix, x: number, y: number, dx: number, dy: number, expectedTotal: number) => {
+  const inside = (px: number, py: number) => px >= 0 && py >= 0 && px < matrix.width && py < matrix.height;
+  const counts = [0, 0, 0, 0, 0];
+  // Backwards from the centre: the centre run, then light, then dark
+  let px = x;
+  let py = y;
+  for (let state = 2; state >= 0; state--) {
+    const wantDark = state !== 1;
+    while (inside(px, py) && isDark(matrix, px, py) === wantDark) {
+      counts[state]++;
+      px -= dx;
+      py -= dy;
+    }
+    if (counts[state] === 0) return null;
+  }
+  px = x + dx;
+  py = y + dy;
+  for (let state = 2; state <= 4; state++) {
+    const wantDark = state !== 3;
+    while (inside(px, py) && isDark(matrix, px, py) === wantDark) {
+      counts[state]++;
+      px += dx;
+      py += dy;
+    }
+    if (counts[state] === 0) return null;
+  }
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (5 * Math.abs(total - expectedTotal) >= 2 * expectedTotal || !finderRatio(counts)) return null;
+  // Distance from the end of the last run back to the middle of the centre run
+  const end = dx !== 0 ? px : py;
+  return { center: end - counts[4] - counts[3] - counts[2] / 2, total };
+};
+
+const findFinderCandidates = (matrix: BitMatrix): FinderCandidate[] => {
+  const candidates: FinderCandidate[] = [];
+  const record = (x: number, y: number, moduleSize: number) => {
+    const near = candidates.find(c =>
+      Math.abs(c.x - x) <= moduleSize && Math.abs(c.y - y) <= moduleSize
+      && Math.abs(c.moduleSize - moduleSize) <= Math.max(1, c.moduleSize / 2));
+    if (!near) {
+      candidates.push({ x, y, moduleSize, hits: 1 });
+      return;
+    }
+    const hits = near.hits + 1;
+    near.x = (near.x * near.hits + x) / hits;
+    near.y = (near.y * near.hits + y) / hits;
+    near.moduleSize = (near.moduleSize * near.hits + moduleSize) / hits;
+    near.hits = hits;
+  };
+
+  for (let y = 0; y < matrix.height; y++) {
+    // Runs along the row, as [dark, start, length]
+    const runs: [boolean, number, number][] = [];
+    for (let x = 0; x < matrix.width; x++) {
+      const dark = isDark(matrix, x, y);
+      const last = runs[runs.length - 1];
+      if (last && last[0] === dark) last[2]++;
+      else runs.push([dark, x, 1]);
+    }
+    for (let i = 0; i + 4 < runs.length; i++) {
+      if (!runs[i][0]) continue;
+      const counts = runs.slice(i, i + 5).map(run => run[2]);
+      if (!finderRatio(counts)) continue;
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      const centerX = Math.floor(runs[i + 2][1] + runs[i + 2][2] / 2);
+      const vertical = crossCheck(matrix, centerX, y, 0, 1, total);
+      if (!vertical) continue;
+      const horizontal = crossCheck(matrix, centerX, Math.floor(vertical.center), 1, 0, total);
+      if (!horizontal) continue;
+      record(horizontal.center, vertical.center, (vertical.total + horizontal.total) / 14);
+    }
+  }
+  return candidates;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * The three candidates that best form the corners of a square grid, as
+ * top-left, top-right and bottom-left in the code's own orientation.
+ */
+const pickFinderPatterns = (candidates: FinderCandidate[]): [FinderCandidate, FinderCandidate, FinderCandidate] | null => {
+  const confirmed = candidates.filter(c => c.hits >= 2);
+  const pool = (confirmed.length >= 3 ? confirmed : candidates).sort((a, b) => b.hits - a.hits).slice(0, 12);
+  let best: { score: number; corners: [FinderCandidate, FinderCandidate, FinderCandidate] } | null = null;
+
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      for (let k = j + 1; k < pool.length; k++) {
+        const three = [pool[i], pool[j], pool[k]];
+        const sizes = three.map(c => c.moduleSize);
+        if (Math.max(...sizes) > 1.5 * Math.min(...sizes)) continue;
+        // The corner opposite the longest side is the top-left
+        const sides = [distance(three[1], three[2]), distance(three[0], three[2]), distance(three[0], three[1])];
+        const corner = sides.indexOf(Math.max(...sides));
+        const topLeft = three[corner];
+        let [a, b] = three.filter((_, n) => n !== corner);
+        const legA = distance(topLeft, a);
+        const legB = distance(topLeft, b);
+        if (Math.min(legA, legB) < 10 * Math.min(...sizes)) continue;
+        // Right angle and equal legs score 0
+        const score = Math.abs(sides[corner] ** 2 - legA ** 2 - legB ** 2) / sides[corner] ** 2 + Math.abs(legA - legB) / Math.max(legA, legB);
+        if (score > 0.5 || (best && score >= best.score)) continue;
+        // Going from top-right to bottom-left turns clockwise in image coordinates
+        const cross = (a.x - topLeft.x) * (b.y - topLeft.y) - (a.y - topLeft.y) * (b.x - topLeft.x);
+        if (cross < 0) [a, b] = [b, a];
+        best = { score, corners: [topLeft, a, b] };
+      }
+    }
+  }
+  return best?.corners ?? null;
+};
+
+/**
+ * Width of a finder pattern in pixels, measured through its centre towards
+ * another point. It is seven modules across whatever the angle, unlike the
+ * row and column runs, which stretch as the code turns.
+ */
+const finderWidthTowards = (matrix: BitMatrix, from: Point, to: Point) => {
+  const length = distance(from, to);
+  const edge = (sign: number) => {
+    let changes = 0;
+    let wasDark = true;
+    for (let t = 0; t < length / 2; t++) {
+      const x = Math.floor(from.x + (sign * t * (to.x - from.x)) / length);
+      const y = Math.floor(from.y + (sign * t * (to.y - from.y)) / length);
+      if (x < 0 || y < 0 || x >= matrix.width || y >= matrix.height) return null;
+      const dark = isDark(matrix, x, y);
+      // Dark centre, light ring, dark ring: the third change leaves the pattern
+      if (dark !== wasDark && ++changes === 3) return t - 0.5;
+      wasDark = dark;
+    }
+    return null;
+  };
+  const forward = edge(1);
+  const backward = edge(-1);
+  return forward === null || backward === null ? null : forward + backward;
+};
+
+/** Module size along the code's own axes, falling back to the row and column estimate. */
+const moduleSizeOf = (matrix: BitMatrix, [topLeft, topRight, bottomLeft]: FinderCandidate[]) => {
+  const widths = [
+    finderWidthTowards(matrix, topLeft, topRight),
+    finderWidthTowards(matrix, topRight, topLeft),
+    finderWidthTowards(matrix, topLeft, bottomLeft),
+    finderWidthTowards(matrix, bottomLeft, topLeft),
+  ].filter((width): width is number => width !== null);
+  if (widths.length === 0) return (topLeft.moduleSize + topRight.moduleSize + bottomLeft.moduleSize) / 3;
+  return widths.reduce((sum, width) => sum + width, 0) / widths.length / 7;
+};
+
+// --- Grid ---
+
+/** Maps module coordinates (column, row) to picture coordinates. */
+type Transform = (column: number, row: number) => Point;
+
+/**
+ * The perspective transform that best takes module positions to picture
+ * points, by least squares over four or more pairs. Both sides are scaled
+ * to around one first so the equations stay well conditioned.
+ */
+const perspectiveTransform = (from: Point[], to: Point[]): Transform | null => {
+  const centre = {
+    x: to.reduce((sum, point) => sum + point.x, 0) / to.length,
+    y: to.reduce((sum, point) => sum + point.y, 0) / to.length,
+  };
+  const spread = to.reduce((sum, point) => sum + distance(point, centre), 0) / to.length || 1;
+  const scale = Math.max(...from.map(point => Math.max(point.x, point.y)));
+
+  // Two equations per pair in the eight unknowns of the homography, as normal equations
+  const normal = Array.from({ length: 8 }, () => new Array<number>(9).fill(0));
+  const addEquation = (row: number[]) => {
+    for (let i = 0; i < 8; i++) {
+      for (let j = 0; j < 9; j++) normal[i][j] += row[i] * row[j];
+    }
+  };
+  from.forEach((src, i) => {
+    const u = src.x / scale;
+    const v = src.y / scale;
+    const x = (to[i].x - centre.x) / spread;
+    const y = (to[i].y - centre.y) / spread;
+    addEquation([u, v, 1, 0, 0, 0, -u * x, -v * x, x]);
+    addEquation([0, 0, 0, u, v, 1, -u * y, -v * y, y]);
+  });
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) if (Math.abs(normal[r][col]) > Math.abs(normal[pivot][col])) pivot = r;
+    if (Math.abs(normal[pivot][col]) < 1e-12) return null;
+    [normal[col], normal[pivot]] = [normal[pivot], normal[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = normal[r][col] / normal[col][col];
+      for (let c = col; c < 9; c++) normal[r][c] -= factor * normal[col][c];
+    }
+  }
+  const h = normal.map((row, i) => row[8] / row[i]);
+  return (column, row) => {
+    const u = column / scale;
+    const v = row / scale;
+    const w = h[6] * u + h[7] * v + 1;
+    return {
+      x: centre.x + ((h[0] * u + h[1] * v + h[2]) / w) * spread,
+      y: centre.y + ((h[3] * u + h[4] * v + h[5]) / w) * spread,
+    };
+  };
+};
+
+/**
+ * Looks for an alignment pattern within `radius` modules of where it is
+ * expected: a dark centre, a light ring one module out and a dark ring two
+ * modules out. The rings are sampled along the code's own axes (one module
+ * each), so this works at any rotation.
+ */
+const findAlignmentPattern = (matrix: BitMatrix, estimate: Point, unitX: Point, unitY: Point, radius: number): Point | null => {
+  const offsets: [number, number, boolean][] = [[0, 0, true]];
+  for (let dy = -2; dy <= 2; dy++) {
+    for (let dx = -2; dx <= 2; dx++) {
+      const ring = Math.max(Math.abs(dx), Math.abs(dy));
+      if (ring > 0 && (dx === 0 || dy === 0 || Math.abs(dx) === Math.abs(dy))) offsets.push([dx, dy, ring === 2]);
+    }
+  }
+
+  const moduleSize = (Math.hypot(unitX.x, unitX.y) + Math.hypot(unitY.x, unitY.y)) / 2;
+  const reach = Math.ceil(moduleSize * radius);
+  let bestScore = offsets.length - 2; // allow one wrong sample
+  let matches: Point[] = [];
+  for (let y = Math.round(estimate.y) - reach; y <= Math.round(estimate.y) + reach; y++) {
+    for (let x = Math.round(estimate.x) - reach; x <= Math.round(estimate.x) + reach; x++) {
+      let score = 0;
+      offsets.forEach(([dx, dy, dark]) => {
+        const px = Math.round(x + dx * unitX.x + dy * unitY.x);
+        const py = Math.round(y + dx * unitX.y + dy * unitY.y);
+        if (px >= 0 && py >= 0 && px < matrix.width && py < matrix.height && isDark(matrix, px, py) === dark) score++;
+      });
+      if (score > bestScore) {
+        bestScore = score;
+        matches = [{ x, y }];
+      } else if (score === bestScore) {
+        matches.push({ x, y });
+      }
+    }
+  }
+  if (matches.length === 0) return null;
+
+  // The best-scoring pixels nearest the estimate, averaged to find the centre
+  const nearest = matches.reduce((a, b) => (distance(a, estimate) <= distance(b, estimate) ? a : b));
+  const cluster = matches.filter(point => distance(point, nearest) <= moduleSize);
+  return {
+    x: cluster.reduce((sum, point) => sum + point.x, 0) / cluster.length,
+    y: cluster.reduce((sum, point) => sum + point.y, 0) / cluster.length,
+  };
+};
+
+/**
+ * Transforms worth trying for a symbol of this version. The first follows
+ * the alignment patterns: each is looked for where the fit so far puts it,
+ * nearest the top-left first, and added to the fit when found, so the
+ * mapping keeps up with a photo's perspective across large symbols. The
+ * last takes the code to be a flat parallelogram through the three finder
+ * patterns.
+ */
+const gridTransforms = (matrix: BitMatrix, corners: FinderCandidate[], version: number): Transform[] => {
+  const [topLeft, topRight, bottomLeft] = corners;
+  const size = symbolSize(version);
+  const from: Point[] = [{ x: 3.5, y: 3.5 }, { x: size - 3.5, y: 3.5 }, { x: 3.5, y: size - 3.5 }];
+  const to: Point[] = [topLeft, topRight, bottomLeft];
+  const affine = perspectiveTransform(
+    [...from, { x: size - 3.5, y: size - 3.5 }],
+    [...to, { x: topRight.x + bottomLeft.x - topLeft.x, y: topRight.y + bottomLeft.y - topLeft.y }],
+  );
+  if (!affine) return [];
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  const centres: Point[] = [];
+  positions.forEach((row, i) => positions.forEach((col, j) => {
+    if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) centres.push({ x: col + 0.5, y: row + 0.5 });
+  }));
+  centres.sort((a, b) => a.x + a.y - b.x - b.y);
+
+  let fitted = affine;
+  centres.forEach(centre => {
+    const estimate = fitted(centre.x, centre.y);
+    const right = fitted(centre.x + 1, centre.y);
+    const down = fitted(centre.x, centre.y + 1);
+    const unitX = { x: right.x - estimate.x, y: right.y - estimate.y };
+    const unitY = { x: down.x - estimate.x, y: down.y - estimate.y };
+    // The first guess comes from the corners alone, so it gets more room
+    const found = findAlignmentPattern(matrix, estimate, unitX, unitY, from.length === 3 ? 6 : 3);
+    if (!found) return;
+    from.push(centre);
+    to.push(found);
+    fitted = perspectiveTransform(from, to) ?? fitted;
+  });
+  return fitted === affine ? [affine] : [fitted, affine];
+};
+
+const sampleGrid = (matrix: BitMatrix, transform: Transform, size: number): boolean[][] =>
+  Array.from({ length: size }, (_, row) => Array.from({ length: size }, (_, column) => {
+    const { x, y } = transform(column + 0.5, row + 0.5);
+    const px = Math.floor(x);
+    const py = Math.floor(y);
+    return px >= 0 && py >= 0 && px < matrix.width && py < matrix.height && isDark(matrix, px, py);
+  }));
+
+// --- Format & Version ---
+
+const bitCount = (value: number) => {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+};
+
+const readBits = (modules: boolean[][], positions: [number, number][]) =>
+  positions.reduce((bits, [r, c], i) => (modules[r][c] ? bits | (1 << i) : bits), 0);
+
+/** The error correction level and mask, from whichever copy of the format bits reads closest to a valid value. */
+const readFormat = (modules: boolean[][]): { ecc: ErrorCorrection; mask: number } | null => {
+  const copies = formatBitPositions(modules.length).map(positions => readBits(modules, positions));
+  let best: { ecc: ErrorCorrection; mask: number } | null = null;
+  let fewestErrors = 4; // at most three wrong bits are corrected
+  for (const ecc of Object.keys(FORMAT_BITS) as ErrorCorrection[]) {
+    for (let mask = 0; mask < MASKS.length; mask++) {
+      const expected = formatInformation(FORMAT_BITS[ecc], mask);
+      const errors = Math.min(...copies.map(bits => bitCount(bits ^ expected)));
+      if (errors < fewestErrors) {
+        fewestErrors = errors;
+        best = { ecc, mask };
+      }
+    }
+  }
+  return best;
+};
+
+/** The version stored in a symbol of version 7 or later, or null when neither copy is readable. */
+const readVersion = (modules: boolean[][]) => {
+  const copies = versionBitPositions(modules.length).map(positions => readBits(modules, positions));
+  for (let version = 7; version <= MAX_VERSION; version++) {
+    const expected = versionInformation(version);
+    if (copies.some(bits => bitCount(bits ^ expected) <= 3)) return version;
+  }
+  return null;
+};
+
+// --- Error Correction ---
+// Reed-Solomon decoding over GF(256): syndromes, Berlekamp-Massey for the
+// error locator, a Chien search for the positions and Forney's formula for
+// the values. Polynomials here are lowest power first.
+
+const gfInverse = (a: number) => GF_EXP[255 - GF_LOG[a]];
+
+const evaluate = (poly: number[], x: number) => {
+  let result = 0;
+  for (let i = poly.length - 1; i >= 0; i--) result = gfMultiply(result, x) ^ poly[i];
+  return result;
+};
+
+/** Corrects a block in place (highest power first, as read). Returns false when there are too many errors. */
+const correctBlock = (block: number[], eccCount: number) => {
+  const n = block.length;
+  const codeword = [...block].reverse();
+  const syndromes = Array.from({ length: eccCount }, (_, i) => evaluate(codeword, GF_EXP[i]));
+  if (syndromes.every(s => s === 0)) return true;
+
+  let locator = [1];
+  let previous = [1];
+  let length = 0;
+  let shift = 1;
+  let previousDiscrepancy = 1;
+  for (let i = 0; i < eccCount; i++) {
+    let discrepancy = syndromes[i];
+    for (let j = 1; j <= length; j++) discrepancy ^= gfMultiply(locator[j] ?? 0, syndromes[i - j]);
+    if (discrepancy === 0) {
+      shift++;
+      continue;
+    }
+    const factor = gfMultiply(discrepancy, gfInverse(previousDiscrepancy));
+    const next = [...locator];
+    previous.forEach((coefficient, j) => {
+      next[j + shift] = (next[j + shift] ?? 0) ^ gfMultiply(factor, coefficient);
+    });
+    if (2 * length <= i) {
+      previous = locator;
+      length = i + 1 - length;
+      previousDiscrepancy = discrepancy;
+      shift = 1;
+    } else {
+      shift++;
+    }
+    locator = next;
+  }
+  if (2 * length > eccCount) return false;
+
+  const positions: number[] = [];
+  for (let power = 0; power < n; power++) {
+    if (evaluate(locator, gfInverse(GF_EXP[power])) === 0) positions.push(power);
+  }
+  if (positions.length !== length) return false;
+
+  // Error evaluator: syndromes times locator, cut to eccCount terms
+  const evaluator = new Array<number>(eccCount).fill(0);
+  syndromes.forEach((s, i) => locator.forEach((l, j) => {
+    if (i + j < eccCount) evaluator[i + j] ^= gfMultiply(s, l);
+  }));
+
+  positions.forEach(power => {
+    const inverse = gfInverse(GF_EXP[power]);
+    let denominator = 1;
+    positions.forEach(other => {
+      if (other !== power) denominator = gfMultiply(denominator, 1 ^ gfMultiply(GF_EXP[other], inverse));
+    });
+    block[n - 1 - power] ^= gfMultiply(evaluate(evaluator, inverse), gfInverse(denominator));
+  });
+  return true;
+};
+
+// --- Reading ---
+
+/** Data codewords from the interleaved codewords, after correcting each block. */
+const correctedData = (codewords: number[], version: number, ecc: ErrorCorrection): number[] | null => {
+  const { totalCodewords, blocks: blockCount, eccPerBlock } = blockLayout(version, ecc);
+  const shortBlocks = blockCount - (totalCodewords % blockCount);
+  const shortDataLength = Math.floor(totalCodewords / blockCount) - eccPerBlock;
+  const blocks = Array.from({ length: blockCount }, (_, i) => ({
+    data: [] as number[],
+    ecc: [] as number[],
+    dataLength: shortDataLength + (i < shortBlocks ? 0 : 1),
+  }));
+
+  let k = 0;
+  for (let i = 0; i <= shortDataLength; i++) {
+    blocks.forEach(block => { if (i < block.dataLength) block.data.push(codewords[k++]); });
+  }
+  for (let i = 0; i < eccPerBlock; i++) blocks.forEach(block => block.ecc.push(codewords[k++]));
+
+  const data: number[] = [];
+  for (const block of blocks) {
+    const full = [...block.data, ...block.ecc];
+    if (!correctBlock(full, eccPerBlock)) return null;
+    data.push(...full.slice(0, block.dataLength));
+  }
+  return data;
+};
+
+const MODE_ECI = 0x7;
+
+/** The text of the data codewords. Kanji segments are not supported. */
+const parseSegments = (data: number[], version: number): string | null => {
+  let position = 0;
+  const read = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++, position++) {
+      const byte = data[position >>> 3];
+      value = (value << 1) | (byte === undefined ? 0 : (byte >>> (7 - (position & 7))) & 1);
+    }
+    return value;
+  };
+  const remaining = () => data.length * 8 - position;
+
+  let text = '';
+  while (remaining() >= 4) {
+    const mode = read(4);
+    if (mode === 0) break;
+    if (mode === MODE_ECI) {
+      // Only the assignment number is skipped; text is taken as UTF-8 anyway
+      const first = read(8);
+      if ((first & 0x80) !== 0) read((first & 0x40) === 0 ? 8 : 16);
+      continue;
+    }
+    if (mode !== MODE_NUMERIC && mode !== MODE_ALPHANUMERIC && mode !== MODE_BYTE) return null;
+    const count = read(countBits(mode, version));
+
+    if (mode === MODE_NUMERIC) {
+      for (let left = count; left > 0; left -= 3) {
+        const digits = Math.min(3, left);
+        text += String(read([0, 4, 7, 10][digits])).padStart(digits, '0');
+      }
+    } else if (mode === MODE_ALPHANUMERIC) {
+      for (let left = count; left > 0; left -= 2) {
+        if (left === 1) {
+          text += ALPHANUMERIC_CHARSET[read(6)] ?? '';
+        } else {
+          const pair = read(11);
+          text += (ALPHANUMERIC_CHARSET[Math.floor(pair / 45)] ?? '') + (ALPHANUMERIC_CHARSET[pair % 45] ?? '');
+        }
+      }
+    } else {
+      const bytes = new Uint8Array(count);
+      for (let i = 0; i < count; i++) bytes[i] = read(8);
+      text += new TextDecoder().decode(bytes);
+    }
+    if (remaining() < 0) return null;
+  }
+  return text;
+};
+
+/** Decodes a grid of modules (quiet zone removed, true is dark), or null when it does not read as a QR code. */
+export const readQrModules = (modules: boolean[][]): QrDecoded | null => {
+  const size = modules.length;
+  const version = size >= symbolSize(7) ? readVersion(modules) : (size - 17) / 4;
+  if (version === null || !Number.isInteger(version) || symbolSize(version) !== size) return null;
+  const format = readFormat(modules);
+  if (!format) return null;
+
+  const mask = MASKS[format.mask];
+  const codewords: number[] = [];
+  let current = 0;
+  dataModuleOrder(functionModules(version)).forEach(([r, c], i) => {
+    current = (current << 1) | (modules[r][c] !== mask(r, c) ? 1 : 0);
+    if ((i & 7) === 7) {
+      codewords.push(current);
+      current = 0;
+    }
+  });
+
+  const data = correctedData(codewords.slice(0, blockLayout(version, format.ecc).totalCodewords), version, format.ecc);
+  const text = data && parseSegments(data, version);
+  return text === null || text === undefined ? null : { text, version };
+};
+
+/** Finds and decodes a QR code in the picture, or returns null when none can be read. */
+export const decodeQr = (image: QrImage): QrDecoded | null => {
+  const { width, height } = image;
+  if (width < 21 || height < 21) return null;
+  const matrix: BitMatrix = { width, height, dark: binarize(luminance(image), width, height) };
+  const corners = pickFinderPatterns(findFinderCandidates(matrix));
+  if (!corners) return null;
+
+  const [topLeft, topRight, bottomLeft] = corners;
+  const moduleSize = moduleSizeOf(matrix, corners);
+  const modulesAcross = (distance(topLeft, topRight) + distance(topLeft, bottomLeft)) / 2 / moduleSize + 7;
+  const estimated = Math.min(MAX_VERSION, Math.max(1, Math.round((modulesAcross - 17) / 4)));
+
+  // The estimate can be a version off on a skewed photo; from version 7 the symbol says which it is
+  const versions = [estimated, estimated - 1, estimated + 1].filter(v => v >= 1 && v <= MAX_VERSION);
+  const tried = new Set<number>();
+  for (let i = 0; i < versions.length; i++) {
+    const version = versions[i];
+    if (tried.has(version)) continue;
+    tried.add(version);
+    for (const transform of gridTransforms(matrix, corners, version)) {
+      const modules = sampleGrid(matrix, transform, symbolSize(version));
+      const decoded = readQrModules(modules);
+      if (decoded) return decoded;
+      const stated = version >= 7 ? readVersion(modules) : null;
+      if (stated !== null && !tried.has(stated)) versions.splice(i + 1, 0, stated);
+    }
+  }
+  return null;
+};
+
+// --- Scanning ---
+// Camera frames and picked images go to the browser's own BarcodeDetector
+// where there is one, as it is faster and copes with harder photos, and to
+// decodeQr otherwise.
+
+interface NativeBarcodeDetector {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+interface NativeBarcodeDetectorClass {
+  new (options: { formats: string[] }): NativeBarcodeDetector;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+let nativeDetector: Promise<NativeBarcodeDetector | null> | null = null;
+
+const getNativeDetector = () => {
+  nativeDetector ??= (async () => {
+    // Not in the TypeScript DOM library yet
+    const Detector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorClass }).BarcodeDetector;
+    try {
+      return Detector && (await Detector.getSupportedFormats()).includes('qr_code') ? new Detector({ formats: ['qr_code'] }) : null;
+    } catch (e) {
+      return null;
+    }
+  })();
+  return nativeDetector;
+};
+
+// Photos are scaled down first; a QR code only needs a few pixels per module
+const MAX_SCAN_SIZE = 1024;
+
+/** The text of the QR codes found in a video frame or image (the built-in reader finds at most one). */
+export const scanForQr = async (source: HTMLVideoElement | ImageBitmap): Promise<string[]> => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!width || !height) return [];
+
+  const detector = await getNativeDetector();
+  if (detector) {
+    try {
+      return (await detector.detect(source)).map(code => code.rawValue);
+    } catch (e) {
+      // Fall back to the built-in reader
+    }
+  }
+
+  const scale = Math.min(1, MAX_SCAN_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return [];
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const decoded = decodeQr(context.getImageData(0, 0, canvas.width, canvas.height));
+  return decoded ? [decoded.text] : [];
+};
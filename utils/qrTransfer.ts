@@ -0,0 +1,273 @@
+import { BondRun } from './bondStore';
+import { ALPHANUMERIC_CHARSET } from './qrCode';
+import { ParsedImport, parseRunRecords } from './transfer';
+
+// --- QR Transfer ---
+// Moves a portfolio from one device to another with no network: the sender
+// shows its bonds as QR codes and the receiver scans them. Runs go as
+// ranges with their details listed once, deflated, then written in Base45
+// so every frame fits QR alphanumeric mode. A small list fits one code;
+// larger ones are split into chunks shown one after another.
+//
+// Each frame reads PBT1:<set>:<index>/<total>:<checksum>:<chunk>. The set
+// is the CRC-32 of the whole payload and the checksum covers the frame's
+// own header and chunk, so a damaged or stray frame is refused, the
+// receiver can tell which chunks are still missing, and the reassembled
+// payload is checked once more before it is opened.
+
+export const TRANSFER_PREFIX = 'PBT1';
+
+const PAYLOAD_VERSION = 1;
+
+// Base45 characters per frame. One code up to the single-frame limit; above
+// it chunks small enough for a phone camera to read off another screen.
+export const MAX_SINGLE_FRAME = 1000;
+export const CHUNK_LENGTH = 280;
+
+// The first payload byte says how the rest is packed
+const PACKED_RAW = 0;
+const PACKED_DEFLATE = 1;
+
+// --- Checksums ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** CRC-32 of the text's characters, as eight upper-case hex digits. */
+export const crc32 = (text: string) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < text.length; i++) crc = CRC_TABLE[(crc ^ text.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).toUpperCase().padStart(8, '0');
+};
+
+// --- Base45 ---
+// RFC 9285: two bytes become three characters of the QR alphanumeric set.
+
+export const encodeBase45 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 2) {
+    if (i + 1 < bytes.length) {
+      const value = bytes[i] * 256 + bytes[i + 1];
+      text += ALPHANUMERIC_CHARSET[value % 45] + ALPHANUMERIC_CHARSET[Math.floor(value / 45) % 45] + ALPHANUMERIC_CHARSET[Math.floor(value / 2025)];
+    } else {
+      text += ALPHANUMERIC_CHARSET[bytes[i] % 45] + ALPHANUMERIC_CHARSET[Math.floor(bytes[i] / 45)];
+    }
+  }
+  return text;
+};
+
+/** The bytes, or null when the text is not valid Base45. */
+export const decodeBase45 = (text: string): Uint8Array | null => {
+  if (text.length % 3 === 1) return null;
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const digits = [...text.slice(i, i + 3)].map(char => ALPHANUMERIC_CHARSET.indexOf(char));
+    if (digits.includes(-1)) return null;
+    const value = digits.reduce((sum, digit, k) => sum + digit * 45 ** k, 0);
+    if (digits.length === 3) {
+      if (value > 0xffff) return null;
+      bytes.push(value >> 8, value & 0xff);
+    } else {
+      if (value > 0xff) return null;
+      bytes.push(value);
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+// --- Errors ---
+
+export type TransferProblem = 'missing' | 'checksum' | 'damaged' | 'no-deflate' | 'newer';
+
+const PROBLEM_MESSAGES: Record<TransferProblem, string> = {
+  missing: 'Some parts of the transfer are still missing.',
+  checksum: 'The transfer failed its checksum. Scan it again.',
+  damaged: 'The transferred data is damaged.',
+  'no-deflate': 'This browser cannot unpack compressed transfers.',
+  newer: 'The transfer was made by a newer version of the app.',
+};
+
+/** Thrown by openTransfer; `problem` lets the interface word it in the chosen language. */
+export class TransferError extends Error {
+  constructor(public problem: TransferProblem) {
+    super(PROBLEM_MESSAGES[problem]);
+  }
+}
+
+// --- Packing ---
+// Bonds usually come in sheets that share their details, so each distinct
+// set of details is listed once and runs refer to it by index. Starts are
+// stored as the difference from the previous run, which deflates far
+// better than seven-digit numbers.
+
+interface TransferPayload {
+  v: number;
+  name: string;
+  details: [string, number, string, string][]; // series, denomination, acquired at, notes
+  runs: number[]; // detail index, start offset, length - 1, repeated
+}
+
+const streamBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const canDeflate = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const packRuns = async (runs: BondRun[], name: string) => {
+  const details: TransferPayload['details'] = [];
+  const detailIndex = new Map<string, number>();
+  const packed: number[] = [];
+  let previous = 0;
+  runs.forEach(run => {
+    const key = JSON.stringify([run.series, run.denomination, run.acquiredAt, run.notes]);
+    let index = detailIndex.get(key);
+    if (index === undefined) {
+      index = details.length;
+      detailIndex.set(key, index);
+      details.push([run.series, run.denomination, run.acquiredAt, run.notes]);
+    }
+    packed.push(index, run.start - previous, run.end - run.start);
+    previous = run.start;
+  });
+
+  const payload: TransferPayload = { v: PAYLOAD_VERSION, name, details, runs: packed };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  // Deflate is left out where the browser cannot do it; the receiver handles both
+  const body = canDeflate() ? await streamBytes(json, new CompressionStream('deflate-raw')) : json;
+  const bytes = new Uint8Array(body.length + 1);
+  bytes[0] = canDeflate() ? PACKED_DEFLATE : PACKED_RAW;
+  bytes.set(body, 1);
+  return encodeBase45(bytes);
+};
+
+const isPayload = (value: unknown): value is TransferPayload => {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Record<string, unknown>;
+  return payload.v === PAYLOAD_VERSION
+    && typeof payload.name === 'string'
+    && Array.isArray(payload.details) && payload.details.every(detail => Array.isArray(detail) && detail.length === 4)
+    && Array.isArray(payload.runs) && payload.runs.length % 3 === 0 && payload.runs.every(Number.isInteger);
+};
+
+const unpackRuns = async (text: string): Promise<{ name: string; parsed: ParsedImport }> => {
+  const bytes = decodeBase45(text);
+  if (!bytes || bytes.length === 0) throw new TransferError('damaged');
+  let json: Uint8Array;
+  if (bytes[0] === PACKED_DEFLATE) {
+    if (!canDeflate()) throw new TransferError('no-deflate');
+    try {
+      json = await streamBytes(bytes.subarray(1), new DecompressionStream('deflate-raw'));
+    } catch (e) {
+      throw new TransferError('damaged');
+    }
+  } else if (bytes[0] === PACKED_RAW) {
+    json = bytes.subarray(1);
+  } else {
+    throw new TransferError('newer');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch (e) {
+    throw new TransferError('damaged');
+  }
+  if (!isPayload(payload)) throw new TransferError('newer');
+
+  // Back to the records exportJson writes, so they are checked the same way as a file
+  const records: unknown[] = [];
+  let start = 0;
+  for (let i = 0; i < payload.runs.length; i += 3) {
+    const [detail, offset, extra] = payload.runs.slice(i, i + 3);
+    const [series, denomination, acquiredAt, notes] = payload.details[detail] ?? [];
+    start += offset;
+    records.push({ series, start, end: start + extra, denomination, acquiredAt, notes });
+  }
+  return { name: payload.name, parsed: parseRunRecords(records) };
+};
+
+// --- Sending ---
+
+const frameHeader = (set: string, index: number, total: number) => `${set}:${index}/${total}`;
+
+/** The frames to show for these runs; a single frame when the list is small enough. */
+export const createTransferFrames = async (runs: BondRun[], portfolioName: string): Promise<string[]> => {
+  const payload = await packRuns(runs, portfolioName);
+  const set = crc32(payload);
+  const chunks: string[] = [];
+  if (payload.length <= MAX_SINGLE_FRAME) chunks.push(payload);
+  else for (let i = 0; i < payload.length; i += CHUNK_LENGTH) chunks.push(payload.slice(i, i + CHUNK_LENGTH));
+
+  return chunks.map((chunk, i) => {
+    const header = frameHeader(set, i + 1, chunks.length);
+    return `${TRANSFER_PREFIX}:${header}:${crc32(`${header}:${chunk}`)}:${chunk}`;
+  });
+};
+
+// --- Receiving ---
+
+export interface TransferReceiver {
+  set: string;
+  total: number;
+  chunks: (string | null)[];
+  corrupt: number[]; // chunks (from 1) whose last copy failed its checksum and which are still missing
+}
+
+export type FrameOutcome =
+  | 'added' // a new chunk of the current transfer
+  | 'duplicate' // a chunk already received
+  | 'corrupt' // a frame that failed its checksum
+  | 'restarted' // the first chunk of a different transfer, which replaces the one in progress
+  | 'other-transfer' // a later chunk of a different transfer, ignored so a stray frame cannot drop the one in progress
+  | 'foreign'; // not a transfer frame at all
+
+const FRAME_PATTERN = /^PBT1:([0-9A-F]{8}):(\d{1,5})\/(\d{1,5}):([0-9A-F]{8}):(.*)$/s;
+
+/** Takes in one scanned frame. The receiver is never changed in place. */
+export const receiveFrame = (receiver: TransferReceiver | null, text: string): { receiver: TransferReceiver | null; outcome: FrameOutcome } => {
+  const match = FRAME_PATTERN.exec(text);
+  if (!match) return { receiver, outcome: 'foreign' };
+  const [, set, indexText, totalText, checksum, chunk] = match;
+  const index = Number(indexText);
+  const total = Number(totalText);
+  if (total < 1 || index < 1 || index > total) return { receiver, outcome: 'corrupt' };
+
+  const sameSet = receiver !== null && receiver.set === set && receiver.total === total;
+  if (crc32(`${frameHeader(set, index, total)}:${chunk}`) !== checksum) {
+    if (!sameSet || receiver.chunks[index - 1] !== null || receiver.corrupt.includes(index)) return { receiver, outcome: 'corrupt' };
+    return { receiver: { ...receiver, corrupt: [...receiver.corrupt, index].sort((a, b) => a - b) }, outcome: 'corrupt' };
+  }
+
+  if (!sameSet && receiver !== null && index !== 1) return { receiver, outcome: 'other-transfer' };
+  const current = sameSet ? receiver : { set, total, chunks: new Array<string | null>(total).fill(null), corrupt: [] };
+  if (current.chunks[index - 1] !== null) return { receiver: current, outcome: 'duplicate' };
+  const chunks = [...current.chunks];
+  chunks[index - 1] = chunk;
+  return {
+    receiver: { ...current, chunks, corrupt: current.corrupt.filter(n => n !== index) },
+    outcome: sameSet || receiver === null ? 'added' : 'restarted',
+  };
+};
+
+/** Chunks not received yet, numbered from 1. */
+export const missingChunks = (receiver: TransferReceiver) =>
+  receiver.chunks.flatMap((chunk, i) => (chunk === null ? [i + 1] : []));
+
+export const receivedChunks = (receiver: TransferReceiver) => receiver.chunks.filter(chunk => chunk !== null).length;
+
+/**
+ * The portfolio name and bonds from a receiver holding every chunk. Throws
+ * a TransferError when the payload fails its checksum or cannot be read.
+ */
+export const openTransfer = async (receiver: TransferReceiver): Promise<{ name: string; parsed: ParsedImport }> => {
+  if (missingChunks(receiver).length > 0) throw new TransferError('missing');
+  const payload = receiver.chunks.join('');
+  if (crc32(payload) !== receiver.set) throw new TransferError('checksum');
+  return unpackRuns(payload);
+};
@@ -0,0 +1,386 @@
+import { formatBondNumber, formatBondRange } from './bondNumbers';
+import { BondRun, countBonds, runSize } from './bondStore';
+import { DrawMatch, TIER_LABELS, formatTaka } from './draws';
+import { PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, PdfFont, PdfPage, buildPdf, fitPdfText, pdfTextWidth } from './pdf';
+
+// --- Portfolio Report ---
+// A report of the bonds shown in the list, built once and then laid out
+// either as a page for the browser to print or as a PDF. Bonds are listed
+// per series, as individual numbers or as ranges of consecutive numbers.
+
+export type ReportLayout = 'numbers' | 'ranges';
+
+export interface ReportOptions {
+  owner: string;
+  layout: ReportLayout;
+  includeNotes: boolean;
+  includeWinners: boolean;
+}
+
+const REPORT_OPTIONS_KEY = 'report_options';
+
+export const DEFAULT_REPORT_OPTIONS: ReportOptions = {
+  owner: '',
+  layout: 'ranges',
+  includeNotes: true,
+  includeWinners: true,
+};
+
+// Beyond this, listing every number makes a report nobody would print; ranges are used instead
+export const MAX_LISTED_NUMBERS = 20000;
+
+export const loadReportOptions = (): ReportOptions => {
+  const saved = localStorage.getItem(REPORT_OPTIONS_KEY);
+  if (!saved) return DEFAULT_REPORT_OPTIONS;
+  try {
+    const parsed = JSON.parse(saved) as Partial<ReportOptions>;
+    return {
+      owner: typeof parsed.owner === 'string' ? parsed.owner : DEFAULT_REPORT_OPTIONS.owner,
+      layout: parsed.layout === 'numbers' ? 'numbers' : 'ranges',
+      includeNotes: parsed.includeNotes !== false,
+      includeWinners: parsed.includeWinners !== false,
+    };
+  } catch (e) {
+    console.error("Failed to load report options", e);
+    return DEFAULT_REPORT_OPTIONS;
+  }
+};
+
+export const saveReportOptions = (options: ReportOptions) => {
+  localStorage.setItem(REPORT_OPTIONS_KEY, JSON.stringify(options));
+};
+
+export interface ReportBlock {
+  series: string;
+  portfolio: string; // '' outside the combined view
+  count: number;
+  faceValue: number;
+  cells: string[]; // numbers or ranges
+}
+
+export interface ReportNote {
+  range: string;
+  series: string;
+  notes: string;
+}
+
+export interface ReportWinner {
+  number: string;
+  series: string;
+  drawNumber: number;
+  drawDate: string;
+  tier: string;
+  prize: number;
+}
+
+export interface Report {
+  owner: string;
+  generatedAt: string; // local date and time, as shown
+  scope: string; // the portfolio, or all of them
+  filter: string; // the list search, '' when everything is shown
+  layout: ReportLayout; // ranges when there were too many bonds to list
+  count: number;
+  faceValue: number;
+  blocks: ReportBlock[];
+  notes: ReportNote[] | null; // null when the section is left out
+  winners: ReportWinner[] | null;
+}
+
+interface ReportSource {
+  runs: BondRun[];
+  matches: DrawMatch[];
+  options: ReportOptions;
+  scope: string;
+  filter: string;
+  portfolioNameOf: (id: string) => string;
+}
+
+const localTimestamp = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Touching runs joined into ranges, whatever their details. */
+const rangesOf = (runs: BondRun[]) => {
+  const ranges: [number, number][] = [];
+  runs.forEach(run => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] + 1 === run.start) last[1] = run.end;
+    else ranges.push([run.start, run.end]);
+  });
+  return ranges;
+};
+
+const blockCells = (runs: BondRun[], layout: ReportLayout) => {
+  if (layout === 'ranges') return rangesOf(runs).map(([start, end]) => formatBondRange(start, end));
+  const cells: string[] = [];
+  runs.forEach(run => {
+    for (let n = run.start; n <= run.end; n++) cells.push(formatBondNumber(n));
+  });
+  return cells;
+};
+
+export const createReport = ({ runs, matches, options, scope, filter, portfolioNameOf }: ReportSource, now = new Date()): Report => {
+  const count = countBonds(runs);
+  const layout = options.layout === 'numbers' && count <= MAX_LISTED_NUMBERS ? 'numbers' : 'ranges';
+
+  // Runs arrive sorted by series within each portfolio
+  const groups = new Map<string, BondRun[]>();
+  runs.forEach(run => {
+    const key = `${run.portfolioId ?? ''}/${run.series}`;
+    const group = groups.get(key);
+    if (group) group.push(run);
+    else groups.set(key, [run]);
+  });
+  const blocks = [...groups.values()].map((group): ReportBlock => ({
+    series: group[0].series,
+    portfolio: group[0].portfolioId !== undefined ? portfolioNameOf(group[0].portfolioId) : '',
+    count: countBonds(group),
+    faceValue: group.reduce((sum, run) => sum + runSize(run) * run.denomination, 0),
+    cells: blockCells(group, layout),
+  }));
+
+  const notes = options.includeNotes
+    ? runs.filter(run => run.notes).map(run => ({ range: formatBondRange(run.start, run.end), series: run.series, notes: run.notes }))
+    : null;
+  const winners = options.includeWinners
+    ? matches.map(match => ({
+      number: match.bond.number,
+      series: match.bond.series,
+      drawNumber: match.drawNumber,
+      drawDate: match.drawDate,
+      tier: TIER_LABELS[match.tier],
+      prize: match.prize,
+    }))
+    : null;
+
+  return {
+    owner: options.owner.trim(),
+    generatedAt: localTimestamp(now),
+    scope,
+    filter,
+    layout,
+    count,
+    faceValue: runs.reduce((sum, run) => sum + runSize(run) * run.denomination, 0),
+    blocks,
+    notes,
+    winners,
+  };
+};
+
+export const reportFilename = (report: Report, extension: string) =>
+  `prize-bond-report-${report.generatedAt.replace(/[: ]/g, '-')}.${extension}`;
+
+const plural = (count: number, noun: string) => `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+
+const blockTitle = (block: ReportBlock) =>
+  [block.series ? `Series ${block.series}` : 'No series', block.portfolio].filter(Boolean).join(' · ');
+
+// --- Print Page ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const REPORT_STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { font: 10pt/1.4 system-ui, sans-serif; color: #0f172a; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  h2 { font-size: 12pt; margin: 16pt 0 6pt; border-bottom: 1px solid #cbd5e1; padding-bottom: 3pt; }
+  h3 { font-size: 10pt; margin: 10pt 0 4pt; break-after: avoid; }
+  h3 span, .meta { color: #475569; font-weight: normal; }
+  .meta p { margin: 0; }
+  .totals { margin-top: 6pt; font-weight: 600; }
+  .cells { display: grid; gap: 1pt 10pt; font: 9pt ui-monospace, monospace; }
+  .cells.numbers { grid-template-columns: repeat(auto-fill, minmax(9ch, 1fr)); }
+  .cells.ranges { grid-template-columns: repeat(auto-fill, minmax(17ch, 1fr)); }
+  table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+  th, td { text-align: left; padding: 2pt 6pt 2pt 0; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { font-size: 8pt; text-transform: uppercase; color: #475569; }
+  tr { break-inside: avoid; }
+  .mono { font-family: ui-monospace, monospace; }
+  .right { text-align: right; }
+`;
+
+/** A standalone page for the browser to print (or save as PDF). */
+export const reportHtml = (report: Report): string => {
+  const header = `
+    <h1>Prize Bond Report</h1>
+    <div class="meta">
+      ${report.owner ? `<p>Owner: ${escapeHtml(report.owner)}</p>` : ''}
+      <p>Generated ${escapeHtml(report.generatedAt)} · ${escapeHtml(report.scope)}</p>
+      ${report.filter ? `<p>Filtered by: ${escapeHtml(report.filter)}</p>` : ''}
+    </div>
+    <p class="totals">${plural(report.count, 'bond')} · ${formatTaka(report.faceValue)} face value · ${plural(report.blocks.length, 'series')}</p>`;
+
+  const blocks = report.blocks.map(block => `
+    <h3>${escapeHtml(blockTitle(block))} <span>· ${plural(block.count, 'bond')} · ${formatTaka(block.faceValue)}</span></h3>
+    <div class="cells ${report.layout}">${block.cells.map(cell => `<span>${cell}</span>`).join('')}</div>`).join('');
+
+  const notes = report.notes && report.notes.length > 0 ? `
+    <h2>Notes</h2>
+    <table>
+      <thead><tr><th>Bonds</th><th>Series</th><th>Note</th></tr></thead>
+      <tbody>${report.notes.map(note => `<tr><td class="mono">${note.range}</td><td>${escapeHtml(note.series)}</td><td>${escapeHtml(note.notes)}</td></tr>`).join('')}</tbody>
+    </table>` : '';
+
+  const winners = report.winners && report.winners.length > 0 ? `
+    <h2>Winning Bonds</h2>
+    <table>
+      <thead><tr><th>Number</th><th>Series</th><th>Draw</th><th>Date</th><th>Prize</th><th class="right">Amount</th></tr></thead>
+      <tbody>${report.winners.map(win => `<tr><td class="mono">${win.number}</td><td>${escapeHtml(win.series)}</td><td>#${win.drawNumber}</td><td>${win.drawDate}</td><td>${win.tier}</td><td class="right mono">${formatTaka(win.prize)}</td></tr>`).join('')}</tbody>
+    </table>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Prize Bond Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+${header}
+<h2>Bonds</h2>
+${report.blocks.length > 0 ? blocks : '<p>No bonds match.</p>'}
+${notes}
+${winners}
+</body>
+</html>`;
+};
+
+// --- PDF ---
+// The standard PDF fonts have no taka sign, so amounts are written as "Tk".
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PDF_PAGE_WIDTH - MARGIN * 2;
+const CELL_SIZE = 9;
+const CELL_GAP = 12;
+
+const pdfAmount = (amount: number) => `Tk ${amount.toLocaleString('en-IN')}`;
+
+interface TableColumn {
+  title: string;
+  width: number;
+  font: PdfFont;
+  align?: 'right';
+}
+
+export const reportPdf = (report: Report): Uint8Array => {
+  const pages: PdfPage[] = [];
+  let page: PdfPage = [];
+  let y = 0;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    y = PDF_PAGE_HEIGHT - MARGIN;
+  };
+  // Starts a new page unless `height` more points fit above the footer
+  const ensure = (height: number) => {
+    if (y - height < MARGIN + 16) newPage();
+  };
+  const text = (x: number, value: string, font: PdfFont, size: number, gray?: number) =>
+    page.push({ kind: 'text', x, y, text: value, font, size, gray });
+  const rule = () => page.push({ kind: 'rule', x1: MARGIN, y1: y, x2: PDF_PAGE_WIDTH - MARGIN, y2: y });
+
+  const heading = (title: string) => {
+    ensure(40);
+    y -= 22;
+    text(MARGIN, title, 'bold', 13);
+    y -= 6;
+    rule();
+    y -= 4;
+  };
+
+  const table = (columns: TableColumn[], rows: string[][]) => {
+    const row = (cells: string[], header: boolean) => {
+      ensure(14);
+      y -= 12;
+      let x = MARGIN;
+      columns.forEach((column, i) => {
+        const font = header ? 'bold' : column.font;
+        const size = header ? 7.5 : 8.5;
+        const value = fitPdfText(cells[i], font, size, column.width - 6);
+        const left = column.align === 'right' ? x + column.width - 6 - pdfTextWidth(value, font, size) : x;
+        text(left, value, font, size, header ? 0.4 : undefined);
+        x += column.width;
+      });
+    };
+    row(columns.map(column => column.title.toUpperCase()), true);
+    rows.forEach(cells => row(cells, false));
+  };
+
+  newPage();
+
+  // Header
+  y -= 18;
+  text(MARGIN, 'Prize Bond Report', 'bold', 18);
+  const meta = [
+    report.owner && `Owner: ${report.owner}`,
+    `Generated ${report.generatedAt} · ${report.scope}`,
+    report.filter && `Filtered by: ${report.filter}`,
+  ].filter(Boolean) as string[];
+  meta.forEach(line => {
+    y -= 14;
+    text(MARGIN, fitPdfText(line, 'regular', 10, CONTENT_WIDTH), 'regular', 10, 0.3);
+  });
+  y -= 18;
+  text(MARGIN, `${plural(report.count, 'bond')} · ${pdfAmount(report.faceValue)} face value · ${plural(report.blocks.length, 'series')}`, 'bold', 11);
+
+  heading('Bonds');
+  if (report.blocks.length === 0) {
+    y -= 14;
+    text(MARGIN, 'No bonds match.', 'regular', 10);
+  }
+  const cellWidth = pdfTextWidth(report.layout === 'numbers' ? formatBondNumber(0) : formatBondRange(0, 1), 'mono', CELL_SIZE) + CELL_GAP;
+  const perLine = Math.max(1, Math.floor((CONTENT_WIDTH + CELL_GAP) / cellWidth));
+  report.blocks.forEach(block => {
+    ensure(34);
+    y -= 18;
+    const title = blockTitle(block);
+    text(MARGIN, title, 'bold', 10);
+    text(MARGIN + pdfTextWidth(title, 'bold', 10) + 6, `· ${plural(block.count, 'bond')} · ${pdfAmount(block.faceValue)}`, 'regular', 9, 0.4);
+    y -= 2;
+    for (let i = 0; i < block.cells.length; i += perLine) {
+      ensure(12);
+      y -= 11;
+      block.cells.slice(i, i + perLine).forEach((cell, j) => text(MARGIN + j * cellWidth, cell, 'mono', CELL_SIZE));
+    }
+  });
+
+  if (report.notes && report.notes.length > 0) {
+    heading('Notes');
+    table(
+      [
+        { title: 'Bonds', width: 100, font: 'mono' },
+        { title: 'Series', width: 60, font: 'regular' },
+        { title: 'Note', width: CONTENT_WIDTH - 160, font: 'regular' },
+      ],
+      report.notes.map(note => [note.range, note.series, note.notes]),
+    );
+  }
+
+  if (report.winners && report.winners.length > 0) {
+    heading('Winning Bonds');
+    table(
+      [
+        { title: 'Number', width: 80, font: 'mono' },
+        { title: 'Series', width: 60, font: 'regular' },
+        { title: 'Draw', width: 60, font: 'regular' },
+        { title: 'Date', width: 80, font: 'regular' },
+        { title: 'Prize', width: 90, font: 'regular' },
+        { title: 'Amount', width: CONTENT_WIDTH - 370, font: 'mono', align: 'right' },
+      ],
+      report.winners.map(win => [win.number, win.series, `#${win.drawNumber}`, win.drawDate, win.tier, pdfAmount(win.prize)]),
+    );
+  }
+
+  // Footer
+  pages.forEach((items, i) => {
+    items.push({ kind: 'text', x: MARGIN, y: MARGIN - 10, text: `Prize Bond Report · ${report.generatedAt}`, font: 'regular', size: 8, gray: 0.5 });
+    const label = `Page ${i + 1} of ${pages.length}`;
+    items.push({ kind: 'text', x: PDF_PAGE_WIDTH - MARGIN - pdfTextWidth(label, 'regular', 8), y: MARGIN - 10, text: label, font: 'regular', size: 8, gray: 0.5 });
+  });
+
+  return buildPdf(pages, 'Prize Bond Report');
+};
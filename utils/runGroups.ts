@@ -0,0 +1,122 @@
+import { formatBondRange } from './bondNumbers';
+import { BondListing, BondRun, listingSlice } from './bondStore';
+
+// --- Consecutive Runs ---
+// Bonds are usually bought in sheets of consecutive numbers. The grouped
+// view shows each unbroken stretch of numbers as one row, whatever the
+// details of the bonds in it, so a run split by a note still shows as one
+// range. Groups never cross series or portfolios.
+
+export type ListView = 'flat' | 'grouped';
+
+const LIST_VIEW_KEY = 'list_view';
+
+export const loadListView = (): ListView => (localStorage.getItem(LIST_VIEW_KEY) === 'grouped' ? 'grouped' : 'flat');
+
+export const saveListView = (view: ListView) => {
+  localStorage.setItem(LIST_VIEW_KEY, view);
+};
+
+export interface RunGroup {
+  series: string;
+  portfolioId?: string;
+  start: number;
+  end: number;
+  first: number; // listing position of the group's first bond
+}
+
+export const groupSize = (group: RunGroup) => group.end - group.start + 1;
+
+// Stays the same while the group's bonds are filtered or edited, unlike its position
+export const groupKey = (group: RunGroup) => `${group.portfolioId ?? ''}/${group.series}:${group.start}`;
+
+/** The listing's runs with touching neighbours in the same series and portfolio merged. */
+export const listingGroups = (listing: BondListing): RunGroup[] => {
+  const groups: RunGroup[] = [];
+  listing.runs.forEach((run, i) => {
+    const last = groups[groups.length - 1];
+    if (last && last.series === run.series && last.portfolioId === run.portfolioId && last.end + 1 === run.start) {
+      last.end = run.end;
+    } else {
+      groups.push({
+        series: run.series,
+        start: run.start,
+        end: run.end,
+        first: listing.offsets[i],
+        ...(run.portfolioId !== undefined && { portfolioId: run.portfolioId }),
+      });
+    }
+  });
+  return groups;
+};
+
+/** The listed numbers as `start-end` ranges, which bond input reads back as the same bonds. */
+export const listingRanges = (listing: BondListing): string[] =>
+  listingGroups(listing).map(group => formatBondRange(group.start, group.end));
+
+/** The runs making up a group, with their own details. */
+export const groupRuns = (listing: BondListing, group: RunGroup): BondRun[] =>
+  listingSlice(listing, group.first, group.first + groupSize(group) - 1);
+
+// --- Grouped Rows ---
+// The rows of the grouped view: one per group, followed by one per bond
+// while a group is expanded. Addressed by position like a listing, so an
+// expanded group of any size costs nothing until its rows are scrolled to.
+// A group of a single bond is shown as that bond.
+
+export interface GroupedRows {
+  groups: RunGroup[];
+  offsets: number[]; // offsets[i] = row of groups[i]
+  expanded: Set<string>;
+  total: number;
+}
+
+export type GroupedRow =
+  | { kind: 'group'; group: RunGroup; isExpanded: boolean }
+  | { kind: 'bond'; index: number; isNested: boolean }; // index: listing position
+
+const rowCount = (group: RunGroup, expanded: Set<string>) => {
+  const size = groupSize(group);
+  if (size === 1) return 1;
+  return expanded.has(groupKey(group)) ? size + 1 : 1;
+};
+
+export const createGroupedRows = (groups: RunGroup[], expanded: Set<string>): GroupedRows => {
+  const offsets: number[] = [];
+  let total = 0;
+  groups.forEach(group => {
+    offsets.push(total);
+    total += rowCount(group, expanded);
+  });
+  return { groups, offsets, expanded, total };
+};
+
+/** Index of the last of the ascending `values` not above `target`. */
+const lastAtOrBefore = (values: number[], target: number) => {
+  let lo = 0;
+  let hi = values.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (values[mid] <= target) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+};
+
+export const groupedRowAt = (rows: GroupedRows, index: number): GroupedRow => {
+  const i = lastAtOrBefore(rows.offsets, index);
+  const group = rows.groups[i];
+  const offset = index - rows.offsets[i];
+  if (groupSize(group) === 1) return { kind: 'bond', index: group.first, isNested: false };
+  if (offset === 0) return { kind: 'group', group, isExpanded: rows.expanded.has(groupKey(group)) };
+  return { kind: 'bond', index: group.first + offset - 1, isNested: true };
+};
+
+/** The row showing a listing position: the bond's own row when its group is open, otherwise the group's. */
+export const groupedRowOf = (rows: GroupedRows, index: number): number => {
+  if (rows.groups.length === 0) return -1;
+  const i = lastAtOrBefore(rows.groups.map(group => group.first), index);
+  const group = rows.groups[i];
+  const isOpen = groupSize(group) > 1 && rows.expanded.has(groupKey(group));
+  return rows.offsets[i] + (isOpen ? index - group.first + 1 : 0);
+};
@@ -0,0 +1,57 @@
+import { Bond } from './bonds';
+import { BondRun } from './bondStore';
+import { Interval, clipIntervals, findInterval, mergeIntervals, subtractIntervals } from './intervals';
+
+// --- Bond Selection ---
+// Selected bonds are kept as merged intervals per portfolio and series, so
+// selecting everything a search matched costs one entry per run. A selection
+// names bonds rather than rows, which keeps it intact while the list is
+// filtered or re-sorted; bonds that are later deleted simply drop out.
+
+export type Selection = Record<string, Interval[]>;
+
+export const EMPTY_SELECTION: Selection = {};
+
+// Runs in a single portfolio view carry no portfolio id, so the key is just the series there
+const selectionKey = (item: { series: string; portfolioId?: string }) => `${item.portfolioId ?? ''}\u0000${item.series}`;
+
+const groupIntervals = (runs: BondRun[]) => {
+  const groups = new Map<string, Interval[]>();
+  runs.forEach(run => {
+    const key = selectionKey(run);
+    groups.set(key, [...(groups.get(key) ?? []), [run.start, run.end]]);
+  });
+  return groups;
+};
+
+export const addToSelection = (selection: Selection, runs: BondRun[]): Selection => {
+  const next = { ...selection };
+  groupIntervals(runs).forEach((intervals, key) => {
+    next[key] = mergeIntervals([...(next[key] ?? []), ...intervals]);
+  });
+  return next;
+};
+
+export const removeFromSelection = (selection: Selection, runs: BondRun[]): Selection => {
+  const next = { ...selection };
+  groupIntervals(runs).forEach((intervals, key) => {
+    if (!next[key]) return;
+    const remaining = subtractIntervals(next[key], mergeIntervals(intervals));
+    if (remaining.length > 0) next[key] = remaining;
+    else delete next[key];
+  });
+  return next;
+};
+
+export const isSelected = (selection: Selection, bond: Bond): boolean => {
+  const intervals = selection[selectionKey(bond)];
+  return !!intervals && findInterval(intervals, parseInt(bond.number, 10)) >= 0;
+};
+
+/** The selected parts of `runs`, keeping each run's attributes. */
+export const selectedRuns = (runs: BondRun[], selection: Selection): BondRun[] =>
+  runs.flatMap(run => {
+    const intervals = selection[selectionKey(run)];
+    if (!intervals) return [];
+    return clipIntervals(intervals, [run.start, run.end]).map(([start, end]) => ({ ...run, start, end }));
+  });
@@ -0,0 +1,56 @@
+/// <reference types="vite/client" />
+
+// --- Service Worker Registration ---
+// The worker (serviceWorker.js) caches each build for offline use. A newer
+// build installs in the background and waits; the page is told so it can
+// ask before switching, since switching reloads the page.
+
+// Deploys are noticed on the next navigation; a page left open also checks this often
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface ServiceWorkerCallbacks {
+  /** The first build has been cached; the app now works without a connection. */
+  onOfflineReady: () => void;
+  /** A newer build is waiting. `apply` switches to it and reloads the page. */
+  onUpdateReady: (apply: () => void) => void;
+}
+
+const applyUpdate = (worker: ServiceWorker) => () => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.postMessage({ type: 'SKIP_WAITING' });
+};
+
+// A worker can already be installing when registration resolves and still raise updatefound
+const watched = new WeakSet<ServiceWorker>();
+
+const watchInstalling = (registration: ServiceWorkerRegistration, callbacks: ServiceWorkerCallbacks) => {
+  const worker = registration.installing;
+  if (!worker || watched.has(worker)) return;
+  watched.add(worker);
+  worker.addEventListener('statechange', () => {
+    if (worker.state !== 'installed') return;
+    // Without a controller this is the first install rather than an update
+    if (navigator.serviceWorker.controller) callbacks.onUpdateReady(applyUpdate(worker));
+    else callbacks.onOfflineReady();
+  });
+};
+
+/** Registers the worker in production builds; the dev server is never cached. */
+export const registerServiceWorker = async (callbacks: ServiceWorkerCallbacks) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    callbacks.onUpdateReady(applyUpdate(registration.waiting));
+  }
+  watchInstalling(registration, callbacks);
+  registration.addEventListener('updatefound', () => watchInstalling(registration, callbacks));
+
+  const checkForUpdate = () => {
+    if (navigator.onLine) registration.update().catch(() => {});
+  };
+  setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') checkForUpdate();
+  });
+};
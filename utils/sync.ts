@@ -0,0 +1,227 @@
+import { BondRun, indexBySeries, normalizeRuns } from './bondStore';
+import { createId } from './ids';
+import { Interval, mergeIntervals, subtractIntervals } from './intervals';
+import { Holdings, Portfolio, defaultPortfolio } from './portfolios';
+import {
+  BondDetails,
+  INITIAL_STAMP_TIME,
+  NO_CHANGES,
+  Stamp,
+  SyncChanges,
+  SYNC_PROBLEMS,
+  SyncPortfolio,
+  SyncProblem,
+  SyncResponse,
+  SyncRun,
+  isEmptyChanges,
+  isSyncResponse,
+  sameDetails
+} from './syncProtocol';
+
+// --- Device Sync ---
+// Sync is optional and offline-first. Every local change is recorded as
+// stamped runs (see syncProtocol.ts) in a pending queue that survives
+// restarts; an exchange pushes the queue and pulls whatever other devices
+// changed since the last cursor. The app keeps working from local storage
+// whether or not the server can be reached.
+
+export interface SyncState {
+  code: string;
+  deviceId: string;
+  cursor: number;
+  lastSyncedAt: string | null;
+  pending: SyncChanges[]; // oldest first; each batch is one recorded change
+}
+
+export type SyncPhase = 'idle' | 'syncing' | 'offline' | 'error';
+
+export const SYNC_API = '/api/sync';
+
+// Edits go out shortly after the last one; other devices' edits are picked up on this interval
+export const SYNC_DELAY_MS = 3000;
+export const SYNC_INTERVAL_MS = 60 * 1000;
+
+/** Pairs this device. Everything it already holds is queued under the initial stamp. */
+export const createSyncState = (code: string, holdings: Holdings, portfolios: Portfolio[]): SyncState => {
+  const deviceId = createId();
+  const stamp: Stamp = { at: INITIAL_STAMP_TIME, device: deviceId };
+  const initial: SyncChanges = {
+    runs: changedRuns({}, holdings, stamp),
+    portfolios: changedPortfolios([], portfolios, stamp),
+  };
+  return { code, deviceId, cursor: 0, lastSyncedAt: null, pending: isEmptyChanges(initial) ? [] : [initial] };
+};
+
+export const parseStoredSyncState = (stored: unknown): SyncState | null => {
+  if (!stored || typeof stored !== 'object') return null;
+  const state = stored as Record<string, unknown>;
+  if (typeof state.code !== 'string' || typeof state.deviceId !== 'string' || !Number.isInteger(state.cursor)) return null;
+  return {
+    code: state.code,
+    deviceId: state.deviceId,
+    cursor: state.cursor as number,
+    lastSyncedAt: typeof state.lastSyncedAt === 'string' ? state.lastSyncedAt : null,
+    pending: Array.isArray(state.pending) ? state.pending as SyncChanges[] : [],
+  };
+};
+
+export const pendingChangeCount = (state: SyncState) => state.pending.reduce((sum, batch) => sum + batch.runs.length + batch.portfolios.length, 0);
+
+// --- Recording Changes ---
+
+const detailsOf = (run: BondRun | null): BondDetails | null =>
+  run ? { denomination: run.denomination, acquiredAt: run.acquiredAt, notes: run.notes } : null;
+
+/** The stretches of one series whose details differ between two run lists, with their new details. */
+const changedInSeries = (before: BondRun[], after: BondRun[]): { interval: Interval; details: BondDetails | null }[] => {
+  const bounds = [...new Set([...before, ...after].flatMap(run => [run.start, run.end + 1]))].sort((a, b) => a - b);
+  const changes: { interval: Interval; details: BondDetails | null }[] = [];
+  let i = 0;
+  let j = 0;
+
+  for (let k = 0; k < bounds.length - 1; k++) {
+    const from = bounds[k];
+    const to = bounds[k + 1] - 1;
+    while (i < before.length && before[i].end < from) i++;
+    while (j < after.length && after[j].end < from) j++;
+    const old = detailsOf(i < before.length && before[i].start <= from ? before[i] : null);
+    const now = detailsOf(j < after.length && after[j].start <= from ? after[j] : null);
+    if (sameDetails(old, now)) continue;
+
+    const last = changes[changes.length - 1];
+    if (last && last.interval[1] === from - 1 && sameDetails(last.details, now)) last.interval[1] = to;
+    else changes.push({ interval: [from, to], details: now });
+  }
+
+  return changes;
+};
+
+/** Every bond whose details differ between two holdings, stamped. Untouched portfolios are skipped by reference. */
+export const changedRuns = (prev: Holdings, next: Holdings, stamp: Stamp): SyncRun[] => {
+  const ids = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  const runs: SyncRun[] = [];
+  ids.forEach(portfolioId => {
+    if (prev[portfolioId] === next[portfolioId]) return;
+    const before = indexBySeries(prev[portfolioId] ?? []);
+    const after = indexBySeries(next[portfolioId] ?? []);
+    new Set([...before.keys(), ...after.keys()]).forEach(series => {
+      changedInSeries(before.get(series) ?? [], after.get(series) ?? []).forEach(({ interval: [start, end], details }) => {
+        runs.push({ portfolioId, series, start, end, details, ...stamp });
+      });
+    });
+  });
+  return runs;
+};
+
+/** Portfolios created, renamed or deleted between two lists, stamped. */
+export const changedPortfolios = (prev: Portfolio[], next: Portfolio[], stamp: Stamp): SyncPortfolio[] => {
+  const before = new Map(prev.map(p => [p.id, p]));
+  const records: SyncPortfolio[] = [];
+  next.forEach(portfolio => {
+    const old = before.get(portfolio.id);
+    before.delete(portfolio.id);
+    if (!old || old.name !== portfolio.name) records.push({ ...portfolio, deleted: false, ...stamp });
+  });
+  before.forEach(portfolio => records.push({ ...portfolio, deleted: true, ...stamp }));
+  return records;
+};
+
+// --- Applying Changes ---
+
+/** Overwrites the numbers each run covers with its details, or removes them. */
+export const applySyncRuns = (holdings: Holdings, runs: SyncRun[]): Holdings => {
+  if (runs.length === 0) return holdings;
+  const byPortfolio = new Map<string, SyncRun[]>();
+  runs.forEach(run => {
+    const list = byPortfolio.get(run.portfolioId);
+    if (list) list.push(run);
+    else byPortfolio.set(run.portfolioId, [run]);
+  });
+
+  const next = { ...holdings };
+  byPortfolio.forEach((incoming, portfolioId) => {
+    const covered = new Map<string, Interval[]>();
+    incoming.forEach(run => {
+      const list = covered.get(run.series);
+      if (list) list.push([run.start, run.end]);
+      else covered.set(run.series, [[run.start, run.end]]);
+    });
+    covered.forEach((intervals, series) => covered.set(series, mergeIntervals(intervals)));
+
+    const kept = (next[portfolioId] ?? []).flatMap(run => {
+      const remove = covered.get(run.series);
+      if (!remove) return [run];
+      return subtractIntervals([[run.start, run.end]], remove).map(([start, end]) => ({ ...run, start, end }));
+    });
+    const added: BondRun[] = incoming.flatMap(({ series, start, end, details }) => (details ? [{ series, start, end, ...details }] : []));
+    const runsLeft = normalizeRuns([...kept, ...added]);
+
+    if (runsLeft.length > 0 || next[portfolioId]) next[portfolioId] = runsLeft;
+  });
+  return next;
+};
+
+/** Adds, renames and removes portfolios; there is always at least one left. */
+export const applySyncPortfolios = (portfolios: Portfolio[], records: SyncPortfolio[]): Portfolio[] => {
+  if (records.length === 0) return portfolios;
+  const next = [...portfolios];
+  records.forEach(({ id, name, createdAt, deleted }) => {
+    const index = next.findIndex(p => p.id === id);
+    if (deleted) {
+      if (index >= 0) next.splice(index, 1);
+    } else if (index >= 0) {
+      next[index] = { ...next[index], name };
+    } else {
+      next.push({ id, name, createdAt });
+    }
+  });
+  return next.length > 0 ? next : [defaultPortfolio()];
+};
+
+// --- Server ---
+
+// What the server answered, or what went wrong before or after it did
+export type SyncFailure = SyncProblem | 'server' | 'reply' | 'unreachable';
+
+/** Thrown by the requests below; `problem` lets the interface word it in the chosen language. */
+export class SyncError extends Error {
+  constructor(public problem: SyncFailure) {
+    super(problem);
+  }
+}
+
+const post = (path: string, init: RequestInit = {}) =>
+  fetch(`${SYNC_API}${path}`, { ...init, method: 'POST' }).catch(() => {
+    throw new SyncError('unreachable');
+  });
+
+const readProblem = async (response: Response): Promise<SyncFailure> => {
+  const body = await response.json().catch(() => null) as { problem?: unknown } | null;
+  return SYNC_PROBLEMS.find(problem => problem === body?.problem) ?? 'server';
+};
+
+/** Asks the server for a new, empty sync space and returns its code. */
+export const requestSyncCode = async (): Promise<string> => {
+  const response = await post('/spaces');
+  if (!response.ok) throw new SyncError(await readProblem(response));
+  const { code } = await response.json().catch(() => ({})) as { code?: unknown };
+  if (typeof code !== 'string') throw new SyncError('reply');
+  return code;
+};
+
+/** Pushes `changes` and pulls everything changed on the server since `since`. */
+export const exchangeChanges = async (code: string, since: number, changes: SyncChanges = NO_CHANGES): Promise<SyncResponse> => {
+  const response = await post('/exchange', {
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${code}` },
+    body: JSON.stringify({ since, changes }),
+  });
+  if (!response.ok) throw new SyncError(await readProblem(response));
+  const result: unknown = await response.json().catch(() => null);
+  if (!isSyncResponse(result)) throw new SyncError('reply');
+  return result;
+};
+
+/** Throws when no space uses this code. Pulls nothing: the cursor is past any real one. */
+export const verifySyncCode = async (code: string) => {
+  await exchangeChanges(code, Number.MAX_SAFE_INTEGER);
+};
@@ -0,0 +1,209 @@
+import { Interval } from './intervals';
+
+// --- Sync Protocol ---
+// Shared by the app and the sync Worker (worker/index.ts), so it only
+// depends on plain data. Devices exchange changes as stamped runs: a range
+// of numbers in one series of one portfolio, the details every bond in it
+// now has (null once deleted) and when and where that was decided.
+//
+// Conflicts are resolved per bond: each number takes the state from the
+// newest stamp covering it, so edits to different bonds of the same run on
+// two devices both survive, and of two edits to the same bond the later
+// one wins. Deletions are kept as runs without details, so an old copy of a
+// bond cannot bring it back.
+
+export interface BondDetails {
+  denomination: number;
+  acquiredAt: string;
+  notes: string;
+}
+
+export interface Stamp {
+  at: string; // ISO time of the edit on the device that made it
+  device: string; // breaks ties between edits made in the same millisecond
+}
+
+export interface SyncRun extends Stamp {
+  portfolioId: string;
+  series: string;
+  start: number;
+  end: number;
+  details: BondDetails | null; // null: the bonds were deleted
+}
+
+export interface SyncPortfolio extends Stamp {
+  id: string;
+  name: string;
+  createdAt: string;
+  deleted: boolean;
+}
+
+export interface SyncChanges {
+  runs: SyncRun[];
+  portfolios: SyncPortfolio[];
+}
+
+export const NO_CHANGES: SyncChanges = { runs: [], portfolios: [] };
+
+export interface SyncRequest {
+  since: number; // the cursor from the previous exchange; 0 pulls everything
+  changes: SyncChanges;
+}
+
+export interface SyncResponse {
+  cursor: number;
+  changes: SyncChanges; // everything changed on the server after `since`, own changes included
+}
+
+// Failed requests are answered with `{ error, problem }`: an English message
+// for anyone reading the API, and a code the app words itself
+export type SyncProblem = 'code-required' | 'unreadable' | 'unknown-code' | 'method' | 'not-found';
+
+export const SYNC_PROBLEMS: SyncProblem[] = ['code-required', 'unreadable', 'unknown-code', 'method', 'not-found'];
+
+// Data written before a device joined sync; anything edited since wins over it
+export const INITIAL_STAMP_TIME = new Date(0).toISOString();
+
+export const compareStamps = (a: Stamp, b: Stamp) =>
+  a.at !== b.at ? (a.at < b.at ? -1 : 1) : a.device !== b.device ? (a.device < b.device ? -1 : 1) : 0;
+
+export const sameDetails = (a: BondDetails | null, b: BondDetails | null) =>
+  a === b || (!!a && !!b && a.denomination === b.denomination && a.acquiredAt === b.acquiredAt && a.notes === b.notes);
+
+const sameState = (a: SyncRun, b: SyncRun) => sameDetails(a.details, b.details) && compareStamps(a, b) === 0;
+
+const groupKey = (run: SyncRun) => `${run.portfolioId}\u0000${run.series}`;
+
+/** Resolves one series of one portfolio; see `resolveRuns`. */
+const resolveGroup = (runs: SyncRun[]): SyncRun[] => {
+  const sorted = [...runs].sort((a, b) => a.start - b.start);
+  const bounds = [...new Set(sorted.flatMap(run => [run.start, run.end + 1]))].sort((a, b) => a - b);
+  const result: SyncRun[] = [];
+  let active: SyncRun[] = [];
+  let next = 0;
+
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const [from, to]: Interval = [bounds[i], bounds[i + 1] - 1];
+    while (next < sorted.length && sorted[next].start <= from) active.push(sorted[next++]);
+    active = active.filter(run => run.end >= from);
+    if (active.length === 0) continue;
+
+    const winner = active.reduce((best, run) => (compareStamps(run, best) > 0 ? run : best));
+    const last = result[result.length - 1];
+    if (last && last.end === from - 1 && sameState(last, winner)) last.end = to;
+    else result.push({ ...winner, start: from, end: to });
+  }
+
+  return result;
+};
+
+/**
+ * Combines overlapping stamped runs bond by bond: every number takes the
+ * state of the newest run covering it. The result is sorted by portfolio,
+ * series and start, has no overlaps, and merges touching runs only when
+ * they share both details and stamp, so no bond's stamp is lost.
+ */
+export const resolveRuns = (runs: SyncRun[]): SyncRun[] => {
+  const groups = new Map<string, SyncRun[]>();
+  runs.forEach(run => {
+    const group = groups.get(groupKey(run));
+    if (group) group.push(run);
+    else groups.set(groupKey(run), [run]);
+  });
+  return [...groups.keys()].sort().flatMap(key => resolveGroup(groups.get(key)!));
+};
+
+/** Keeps the newest record of each portfolio. */
+export const resolvePortfolios = (portfolios: SyncPortfolio[]): SyncPortfolio[] => {
+  const newest = new Map<string, SyncPortfolio>();
+  portfolios.forEach(portfolio => {
+    const known = newest.get(portfolio.id);
+    if (!known || compareStamps(portfolio, known) > 0) newest.set(portfolio.id, portfolio);
+  });
+  return [...newest.values()];
+};
+
+/** Several batches of changes as one, as sent in a single exchange. */
+export const combineChanges = (batches: SyncChanges[]): SyncChanges => ({
+  runs: resolveRuns(batches.flatMap(batch => batch.runs)),
+  portfolios: resolvePortfolios(batches.flatMap(batch => batch.portfolios)),
+});
+
+export const isEmptyChanges = (changes: SyncChanges) => changes.runs.length === 0 && changes.portfolios.length === 0;
+
+// --- Validation ---
+// The Worker checks every request with these; the app checks responses.
+
+const MAX_NUMBER = 9_999_999;
+
+const isStamp = (value: Record<string, unknown>) =>
+  typeof value.at === 'string' && typeof value.device === 'string' && value.device.length > 0;
+
+const isDetails = (value: unknown): value is BondDetails => {
+  if (!value || typeof value !== 'object') return false;
+  const details = value as Record<string, unknown>;
+  return typeof details.denomination === 'number' && details.denomination > 0
+    && typeof details.acquiredAt === 'string'
+    && typeof details.notes === 'string';
+};
+
+const isSyncRun = (value: unknown): value is SyncRun => {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return isStamp(run)
+    && typeof run.portfolioId === 'string' && run.portfolioId.length > 0
+    && typeof run.series === 'string'
+    && Number.isInteger(run.start) && Number.isInteger(run.end)
+    && (run.start as number) >= 0 && (run.end as number) <= MAX_NUMBER
+    && (run.start as number) <= (run.end as number)
+    && (run.details === null || isDetails(run.details));
+};
+
+const isSyncPortfolio = (value: unknown): value is SyncPortfolio => {
+  if (!value || typeof value !== 'object') return false;
+  const portfolio = value as Record<string, unknown>;
+  return isStamp(portfolio)
+    && typeof portfolio.id === 'string' && portfolio.id.length > 0
+    && typeof portfolio.name === 'string'
+    && typeof portfolio.createdAt === 'string'
+    && typeof portfolio.deleted === 'boolean';
+};
+
+export const isSyncChanges = (value: unknown): value is SyncChanges => {
+  if (!value || typeof value !== 'object') return false;
+  const changes = value as Record<string, unknown>;
+  return Array.isArray(changes.runs) && changes.runs.every(isSyncRun)
+    && Array.isArray(changes.portfolios) && changes.portfolios.every(isSyncPortfolio);
+};
+
+export const isSyncRequest = (value: unknown): value is SyncRequest => {
+  if (!value || typeof value !== 'object') return false;
+  const request = value as Record<string, unknown>;
+  return Number.isInteger(request.since) && (request.since as number) >= 0 && isSyncChanges(request.changes);
+};
+
+export const isSyncResponse = (value: unknown): value is SyncResponse => {
+  if (!value || typeof value !== 'object') return false;
+  const response = value as Record<string, unknown>;
+  return Number.isInteger(response.cursor) && isSyncChanges(response.changes);
+};
+
+// --- Sync Codes ---
+// A sync code is the only credential: whoever has it can read and change
+// the synced bonds. 16 characters of Crockford base32 (80 random bits),
+// shown in groups of four. Letters that look like digits are read as those
+// digits, so a code copied by hand still works.
+
+const CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+export const SYNC_CODE_LENGTH = 16;
+
+export const createSyncCode = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(SYNC_CODE_LENGTH)), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+
+/** The canonical code, or null when the input cannot be one. */
+export const normalizeSyncCode = (input: string): string | null => {
+  const code = input.toUpperCase().replace(/[\s-]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1');
+  return code.length === SYNC_CODE_LENGTH && [...code].every(char => CODE_ALPHABET.includes(char)) ? code : null;
+};
+
+export const formatSyncCode = (code: string) => code.match(/.{1,4}/g)?.join('-') ?? code;
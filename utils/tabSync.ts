@@ -0,0 +1,89 @@
+import { ActivityEntry } from './activity';
+import { Claims } from './claims';
+import { SyncFailure, SyncPhase, SyncState } from './sync';
+import { SyncChanges, combineChanges } from './syncProtocol';
+
+// --- Open Tabs ---
+// Every tab keeps the bonds in memory and writes its own changes to
+// IndexedDB. To stay consistent, a tab broadcasts each change as stamped
+// runs (the same records device sync uses) and applies what the others
+// send. Two tabs changing the same bond at once are resolved per bond by
+// stamp, exactly like two devices, so all tabs end up with the same bonds.
+//
+// Only one tab, the one holding a Web Lock, talks to the sync server;
+// the others pass their changes to it through the channel.
+
+const CHANNEL_NAME = 'prize_bond_manager';
+const SYNC_LEADER_LOCK = 'prize_bond_manager_sync';
+
+// Long enough for every tab to have seen a change; after that, stamps are no longer needed to merge
+const RECENT_CHANGES_MS = 60 * 1000;
+
+export type TabMessage =
+  | { type: 'changes'; changes: SyncChanges }
+  // The leader's sync state, or a pairing change made in another tab
+  | { type: 'sync'; state: SyncState | null; phase: SyncPhase; error: SyncFailure | null }
+  // Asks the leader for an exchange now
+  | { type: 'sync-now' }
+  // Claims are not synced between devices; tabs simply take the latest set
+  | { type: 'claims'; claims: Claims }
+  // Every tab keeps the whole log, so each new entry goes to all of them
+  | { type: 'activity'; entry: ActivityEntry }
+  // Storage was replaced (encryption, recovery); other tabs must load it again
+  | { type: 'reload' };
+
+export interface TabChannel {
+  post: (message: TabMessage) => void;
+  close: () => void;
+}
+
+/** A no-op channel where BroadcastChannel is missing; each tab then works on its own. */
+export const openTabChannel = (onMessage: (message: TabMessage) => void): TabChannel => {
+  if (typeof BroadcastChannel === 'undefined') return { post: () => {}, close: () => {} };
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => onMessage(event.data);
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+/**
+ * Calls `onLeader` once this tab becomes the sync leader, which may be
+ * right away or when the current leader closes. The returned function gives
+ * up the lock (or the wait for it).
+ */
+export const claimSyncLeadership = (onLeader: () => void): (() => void) => {
+  if (!navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+  const controller = new AbortController();
+  navigator.locks.request(SYNC_LEADER_LOCK, { signal: controller.signal }, () => {
+    onLeader();
+    // Held until this tab goes away or aborts
+    return new Promise<void>(resolve => controller.signal.addEventListener('abort', () => resolve()));
+  }).catch(() => {}); // aborted while waiting
+  return () => controller.abort();
+};
+
+// --- Recent Changes ---
+// Each tab remembers the changes of the last minute, its own and received,
+// resolved per bond. Applying them after a received change settles every
+// bond touched recently to the newest stamp, whichever tab it came from.
+
+export interface RecentChanges {
+  batches: { receivedAt: number; changes: SyncChanges }[];
+}
+
+export const NO_RECENT_CHANGES: RecentChanges = { batches: [] };
+
+/** Adds a batch, drops expired ones, and returns the resolved state of everything still recent. */
+export const rememberChanges = (recent: RecentChanges, changes: SyncChanges, now = Date.now()): { recent: RecentChanges; resolved: SyncChanges } => {
+  const batches = [...recent.batches.filter(batch => now - batch.receivedAt < RECENT_CHANGES_MS), { receivedAt: now, changes }];
+  return { recent: { batches }, resolved: combineChanges(batches.map(batch => batch.changes)) };
+};
+
+/** Bonds touched by a batch, for the indicator. */
+export const changedBondCount = (changes: SyncChanges) =>
+  changes.runs.reduce((sum, run) => sum + run.end - run.start + 1, 0);
@@ -0,0 +1,381 @@
+import { BOND_NUMBER_LENGTH, formatBondRange, isValidBondNumber, matchBondRange } from './bondNumbers';
+import { BatchDetails, DEFAULT_DENOMINATION, migrateBonds, normalizeSeries } from './bonds';
+import {
+  BondRun,
+  addRuns,
+  indexBySeries,
+  normalizeRuns,
+  removeInterval,
+  runSize,
+  runsFromBonds,
+  sameAttributes
+} from './bondStore';
+import { Interval, intervalsSize, mergeIntervals, subtractIntervals } from './intervals';
+import { normalizeBondInput } from './numerals';
+
+// --- Import / Export ---
+// CSV and JSON carry every bond field; plain text carries numbers and ranges
+// only, in the same format the add panel accepts. Imports are parsed into
+// runs first and compared against the current holdings before anything is
+// applied.
+
+export type ExportFormat = 'csv' | 'json' | 'txt';
+
+export const EXPORT_FORMAT = 'prize-bond-export';
+const EXPORT_VERSION = 1;
+
+const CSV_COLUMNS = ['number', 'series', 'denomination', 'acquired_at', 'notes'];
+
+const MAX_BOND_NUMBER = 10 ** BOND_NUMBER_LENGTH - 1;
+
+export type ImportProblem =
+  | 'number' | 'no-number' | 'denomination' | 'date' | 'record' | 'start-end' | 'range'
+  | 'json' | 'not-records' | 'no-data';
+
+export interface InvalidRow {
+  line: number;
+  text: string;
+  problem: ImportProblem; // worded by the interface, with `values` filled in
+  values: Record<string, string | number>;
+}
+
+type RowProblem = Pick<InvalidRow, 'problem' | 'values'>;
+
+export interface ParsedImport {
+  runs: BondRun[];
+  invalid: InvalidRow[];
+  repeated: number; // bonds listed more than once within the file
+}
+
+export interface ImportConflict {
+  series: string;
+  start: number;
+  end: number;
+  existing: BondRun;
+  incoming: BondRun;
+}
+
+export interface ImportPreview {
+  newCount: number;
+  duplicateCount: number;
+  conflictCount: number;
+  conflicts: ImportConflict[];
+}
+
+export type ImportMode = 'merge-keep' | 'merge-overwrite' | 'replace';
+
+// --- Export ---
+
+const csvCell = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportCsv = (runs: BondRun[]) => {
+  const lines = [CSV_COLUMNS.join(',')];
+  // Consecutive bonds with the same details share one `start-end` row, so
+  // large holdings stay a manageable size
+  runs.forEach(run => {
+    lines.push([
+      formatBondRange(run.start, run.end),
+      csvCell(run.series),
+      String(run.denomination),
+      run.acquiredAt,
+      csvCell(run.notes),
+    ].join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const exportJson = (runs: BondRun[]) => JSON.stringify({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  runs,
+}, null, 2);
+
+/** Numbers and ranges across all series, readable by the add panel. */
+export const exportText = (runs: BondRun[]) =>
+  mergeIntervals(runs.map(r => [r.start, r.end] as Interval))
+    .map(([start, end]) => formatBondRange(start, end))
+    .join(', ');
+
+export const exportBonds = (runs: BondRun[], format: ExportFormat) =>
+  format === 'csv' ? exportCsv(runs) : format === 'json' ? exportJson(runs) : exportText(runs);
+
+// --- Parsing ---
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180 quoting). Each row keeps the
+ * line number it started on.
+ */
+const parseCsvRows = (text: string): { line: number; cells: string[] }[] => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      cells.push(cell);
+      if (cells.some(c => c.trim())) rows.push({ line: rowLine, cells });
+      cells = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+
+  cells.push(cell);
+  if (cells.some(c => c.trim())) rows.push({ line: rowLine, cells });
+  return rows;
+};
+
+const HEADER_ALIASES: Record<string, string> = {
+  number: 'number', bond: 'number', bond_number: 'number', bondnumber: 'number',
+  series: 'series',
+  denomination: 'denomination', value: 'denomination',
+  acquired_at: 'acquiredAt', acquiredat: 'acquiredAt', acquired: 'acquiredAt', date: 'acquiredAt',
+  notes: 'notes', note: 'notes',
+};
+
+const isIsoDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+/**
+ * Removes bonds that appear earlier in the same import, so the result never
+ * holds one bond twice.
+ */
+const dedupeIncoming = (runs: BondRun[]): { runs: BondRun[]; repeated: number } => {
+  const seen = new Map<string, Interval[]>();
+  const result: BondRun[] = [];
+  let repeated = 0;
+
+  runs.forEach(run => {
+    const covered = seen.get(run.series) ?? [];
+    const fresh = subtractIntervals([[run.start, run.end]], covered);
+    repeated += runSize(run) - intervalsSize(fresh);
+    fresh.forEach(([start, end]) => result.push({ ...run, start, end }));
+    seen.set(run.series, mergeIntervals([...covered, [run.start, run.end]]));
+  });
+
+  return { runs: normalizeRuns(result), repeated };
+};
+
+export const parseCsvImport = (text: string): ParsedImport => {
+  const rows = parseCsvRows(text);
+  const invalid: InvalidRow[] = [];
+  const runs: BondRun[] = [];
+
+  // Without a recognised header the columns are taken in export order
+  let columns = ['number', 'series', 'denomination', 'acquiredAt', 'notes'];
+  const first = rows[0]?.cells.map(c => c.trim().toLowerCase().replace(/\s+/g, '_'));
+  if (first && first.some(c => HEADER_ALIASES[c] === 'number')) {
+    columns = first.map(c => HEADER_ALIASES[c] ?? '');
+    rows.shift();
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const field = (name: string) => {
+      const at = columns.indexOf(name);
+      return at === -1 ? '' : (cells[at] ?? '').trim();
+    };
+    const text = cells.join(',');
+
+    const number = normalizeBondInput(field('number')).trim();
+    const range = matchBondRange(number);
+    if (!range && !isValidBondNumber(number)) {
+      invalid.push(number
+        ? { line, text, problem: 'number', values: { text: number, length: BOND_NUMBER_LENGTH } }
+        : { line, text, problem: 'no-number', values: {} });
+      return;
+    }
+
+    const denominationText = field('denomination');
+    const denomination = denominationText ? Number(denominationText.replace(/,/g, '')) : DEFAULT_DENOMINATION;
+    if (!Number.isFinite(denomination) || denomination <= 0) {
+      invalid.push({ line, text, problem: 'denomination', values: { value: denominationText } });
+      return;
+    }
+
+    const acquiredAt = field('acquiredAt');
+    if (acquiredAt && !isIsoDate(acquiredAt)) {
+      invalid.push({ line, text, problem: 'date', values: { value: acquiredAt } });
+      return;
+    }
+
+    const [start, end] = range ?? [parseInt(number, 10), parseInt(number, 10)];
+    runs.push({ series: normalizeSeries(field('series')), start, end, denomination, acquiredAt, notes: field('notes') });
+  });
+
+  const deduped = dedupeIncoming(runs);
+  return { runs: deduped.runs, invalid, repeated: deduped.repeated };
+};
+
+const validateRun = (value: unknown): BondRun | RowProblem => {
+  if (!value || typeof value !== 'object') return { problem: 'record', values: {} };
+  const run = value as Record<string, unknown>;
+  if (!Number.isInteger(run.start) || !Number.isInteger(run.end)) return { problem: 'start-end', values: {} };
+  const start = run.start as number;
+  const end = run.end as number;
+  if (start < 0 || end > MAX_BOND_NUMBER || start > end) return { problem: 'range', values: { range: `${start}-${end}` } };
+  const denomination = run.denomination ?? DEFAULT_DENOMINATION;
+  if (typeof denomination !== 'number' || denomination <= 0) return { problem: 'denomination', values: { value: String(denomination) } };
+  const acquiredAt = typeof run.acquiredAt === 'string' ? run.acquiredAt : '';
+  if (acquiredAt && !isIsoDate(acquiredAt)) return { problem: 'date', values: { value: acquiredAt } };
+
+  return {
+    series: typeof run.series === 'string' ? normalizeSeries(run.series) : '',
+    start,
+    end,
+    denomination,
+    acquiredAt,
+    notes: typeof run.notes === 'string' ? run.notes : '',
+  };
+};
+
+/**
+ * Reads this app's JSON export, a recovery backup (`{ runs }`) or a plain
+ * array of numbers or bond records as saved by older versions.
+ */
+export const parseJsonImport = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { runs: [], invalid: [{ line: 1, text: '', problem: 'json', values: {} }], repeated: 0 };
+  }
+
+  if (Array.isArray(data)) {
+    const bonds = migrateBonds(data);
+    const invalid: InvalidRow[] = [];
+    const valid = bonds.filter((bond, i) => {
+      if (isValidBondNumber(bond.number)) return true;
+      invalid.push({ line: i + 1, text: bond.number, problem: 'number', values: { text: bond.number, length: BOND_NUMBER_LENGTH } });
+      return false;
+    });
+    if (bonds.length < data.length) {
+      invalid.push({ line: 0, text: '', problem: 'not-records', values: { count: data.length - bonds.length } });
+    }
+    const deduped = dedupeIncoming(runsFromBonds(valid));
+    return { runs: deduped.runs, invalid, repeated: deduped.repeated };
+  }
+
+  const records = data && typeof data === 'object' ? (data as { runs?: unknown }).runs : undefined;
+  if (!Array.isArray(records)) {
+    return { runs: [], invalid: [{ line: 1, text: '', problem: 'no-data', values: {} }], repeated: 0 };
+  }
+  return parseRunRecords(records);
+};
+
+/** Bond records as written by exportJson, checked one by one. */
+export const parseRunRecords = (records: unknown[]): ParsedImport => {
+  const invalid: InvalidRow[] = [];
+  const runs: BondRun[] = [];
+  records.forEach((record, i) => {
+    const result = validateRun(record);
+    if ('problem' in result) invalid.push({ line: i + 1, text: JSON.stringify(record), ...result });
+    else runs.push(result);
+  });
+
+  const deduped = dedupeIncoming(runs);
+  return { runs: deduped.runs, invalid, repeated: deduped.repeated };
+};
+
+/** Plain numbers and ranges; metadata comes from the current batch details. */
+export const parseTextImport = (text: string, details: BatchDetails): ParsedImport => {
+  const invalid: InvalidRow[] = [];
+  const runs: BondRun[] = [];
+  const series = normalizeSeries(details.series);
+
+  normalizeBondInput(text).split(/\r?\n/).forEach((lineText, index) => {
+    lineText.split(/[,\s]+/).map(s => s.trim()).filter(Boolean).forEach(segment => {
+      const range = matchBondRange(segment);
+      if (range || isValidBondNumber(segment)) {
+        const [start, end] = range ?? [parseInt(segment, 10), parseInt(segment, 10)];
+        runs.push({ series, start, end, denomination: details.denomination, acquiredAt: details.acquiredAt, notes: '' });
+      } else {
+        invalid.push({ line: index + 1, text: segment, problem: 'number', values: { text: segment, length: BOND_NUMBER_LENGTH } });
+      }
+    });
+  });
+
+  const deduped = dedupeIncoming(runs);
+  return { runs: deduped.runs, invalid, repeated: deduped.repeated };
+};
+
+export const parseImportFile = (filename: string, text: string, details: BatchDetails): ParsedImport => {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith('.json')) return parseJsonImport(text);
+  if (lower.endsWith('.csv')) return parseCsvImport(text);
+  // Unknown extensions are sniffed: JSON starts with a bracket
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return parseJsonImport(text);
+  return parseTextImport(text, details);
+};
+
+// --- Preview & Apply ---
+
+/** Compares incoming runs with the holdings, bond by bond. */
+export const previewImport = (existing: BondRun[], incoming: BondRun[]): ImportPreview => {
+  const bySeries = indexBySeries(existing);
+  let duplicateCount = 0;
+  let conflictCount = 0;
+  const conflicts: ImportConflict[] = [];
+  let incomingCount = 0;
+
+  incoming.forEach(run => {
+    incomingCount += runSize(run);
+    (bySeries.get(run.series) ?? []).forEach(held => {
+      const start = Math.max(held.start, run.start);
+      const end = Math.min(held.end, run.end);
+      if (start > end) return;
+      if (sameAttributes(held, run)) {
+        duplicateCount += end - start + 1;
+      } else {
+        conflictCount += end - start + 1;
+        conflicts.push({ series: run.series, start, end, existing: held, incoming: run });
+      }
+    });
+  });
+
+  return {
+    newCount: incomingCount - duplicateCount - conflictCount,
+    duplicateCount,
+    conflictCount,
+    conflicts,
+  };
+};
+
+/**
+ * merge-keep adds only bonds not already held; merge-overwrite also takes
+ * the imported details for bonds that are held; replace discards the
+ * current holdings.
+ */
+export const applyImport = (existing: BondRun[], incoming: BondRun[], mode: ImportMode): BondRun[] => {
+  if (mode === 'replace') return normalizeRuns(incoming);
+
+  if (mode === 'merge-overwrite') {
+    let remaining = existing;
+    incoming.forEach(run => {
+      remaining = removeInterval(remaining, run.series, [run.start, run.end]);
+    });
+    return normalizeRuns([...remaining, ...incoming]);
+  }
+
+  return addRuns(existing, incoming).runs;
+};
@@ -0,0 +1,118 @@
+import { BondRun, runSize } from './bondStore';
+
+// --- Portfolio Valuation ---
+// Face value is the sum of bond denominations. Every change to the holdings
+// is snapshotted so the value can be reported over time.
+
+export interface ValueBreakdownRow {
+  key: string;
+  count: number;
+  value: number;
+}
+
+export interface PortfolioSummary {
+  count: number;
+  faceValue: number;
+  byDenomination: ValueBreakdownRow[];
+  bySeries: ValueBreakdownRow[];
+}
+
+export interface ValueSnapshot {
+  date: string; // ISO date (YYYY-MM-DD)
+  count: number;
+  faceValue: number;
+}
+
+export interface QuarterValue {
+  quarter: string; // e.g. "2026 Q3"
+  count: number;
+  faceValue: number;
+  change: number;
+}
+
+export const VALUE_HISTORY_STORAGE_KEY = 'prize_value_history';
+
+const breakdown = (runs: BondRun[], keyOf: (run: BondRun) => string): Map<string, ValueBreakdownRow> => {
+  const rows = new Map<string, ValueBreakdownRow>();
+  runs.forEach(run => {
+    const key = keyOf(run);
+    const row = rows.get(key) ?? { key, count: 0, value: 0 };
+    row.count += runSize(run);
+    row.value += runSize(run) * run.denomination;
+    rows.set(key, row);
+  });
+  return rows;
+};
+
+export const summarizePortfolio = (runs: BondRun[]): PortfolioSummary => {
+  const byDenomination = [...breakdown(runs, r => String(r.denomination)).values()]
+    .sort((a, b) => Number(a.key) - Number(b.key));
+  const bySeries = [...breakdown(runs, r => r.series).values()]
+    .sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    count: byDenomination.reduce((sum, row) => sum + row.count, 0),
+    faceValue: byDenomination.reduce((sum, row) => sum + row.value, 0),
+    byDenomination,
+    bySeries,
+  };
+};
+
+/** Also reads the copy kept in the encrypted store. */
+export const parseStoredValueHistory = (stored: unknown): ValueSnapshot[] => Array.isArray(stored) ? stored : [];
+
+export const loadValueHistory = (): ValueSnapshot[] => {
+  const saved = localStorage.getItem(VALUE_HISTORY_STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    return parseStoredValueHistory(JSON.parse(saved));
+  } catch (e) {
+    console.error("Failed to load value history", e);
+    return [];
+  }
+};
+
+export const saveValueHistory = (history: ValueSnapshot[]) => {
+  localStorage.setItem(VALUE_HISTORY_STORAGE_KEY, JSON.stringify(history));
+};
+
+/**
+ * Appends a snapshot of the current totals. Only the last snapshot per day
+ * is kept, and unchanged totals (or an empty starting portfolio) are not
+ * recorded.
+ */
+export const recordSnapshot = (history: ValueSnapshot[], snapshot: ValueSnapshot): ValueSnapshot[] => {
+  const last = history[history.length - 1];
+  if (!last && snapshot.count === 0) return history;
+  if (last && last.count === snapshot.count && last.faceValue === snapshot.faceValue) return history;
+  if (last && last.date === snapshot.date) return [...history.slice(0, -1), snapshot];
+  return [...history, snapshot];
+};
+
+const quarterOf = (isoDate: string) => {
+  const [year, month] = isoDate.split('-').map(Number);
+  return `${year} Q${Math.floor((month - 1) / 3) + 1}`;
+};
+
+/**
+ * Collapses the snapshot history to the closing totals of each quarter,
+ * newest first.
+ */
+export const valueByQuarter = (history: ValueSnapshot[]): QuarterValue[] => {
+  const closing = new Map<string, ValueSnapshot>();
+  history.forEach(snapshot => closing.set(quarterOf(snapshot.date), snapshot));
+
+  let previous = 0;
+  const quarters: QuarterValue[] = [];
+  closing.forEach((snapshot, quarter) => {
+    quarters.push({
+      quarter,
+      count: snapshot.count,
+      faceValue: snapshot.faceValue,
+      change: snapshot.faceValue - previous,
+    });
+    previous = snapshot.faceValue;
+  });
+
+  return quarters.reverse();
+};
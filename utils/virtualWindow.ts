@@ -0,0 +1,49 @@
+// --- Windowed List Geometry ---
+// Fixed-height rows, rendered only around the viewport. Browsers cap element
+// heights (roughly 16-33M px), so very long lists are mapped onto a shorter
+// scroll range and row positions are scaled to match.
+
+export const MAX_SCROLL_HEIGHT = 8_000_000;
+
+export interface VirtualWindow {
+  scrollHeight: number;
+  first: number; // first rendered index
+  last: number; // last rendered index (inclusive), -1 when empty
+  top: (index: number) => number; // row offset within the scroll content
+}
+
+const scrollRatio = (total: number, rowHeight: number, viewportHeight: number) => {
+  const contentHeight = total * rowHeight;
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const ratio = scrollHeight > viewportHeight
+    ? Math.max(1, (contentHeight - viewportHeight) / (scrollHeight - viewportHeight))
+    : 1;
+  return { scrollHeight, ratio };
+};
+
+export const computeWindow = (
+  total: number,
+  rowHeight: number,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan = 6
+): VirtualWindow => {
+  const { scrollHeight, ratio } = scrollRatio(total, rowHeight, viewportHeight);
+  const virtualTop = scrollTop * ratio;
+
+  const first = Math.max(0, Math.floor(virtualTop / rowHeight) - overscan);
+  const last = Math.min(total - 1, Math.ceil((virtualTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    scrollHeight,
+    first,
+    last,
+    top: (index) => scrollTop + index * rowHeight - virtualTop,
+  };
+};
+
+/** The scrollTop that puts `index` at the top of the viewport. */
+export const scrollTopForIndex = (index: number, total: number, rowHeight: number, viewportHeight: number) => {
+  const { ratio } = scrollRatio(total, rowHeight, viewportHeight);
+  return (index * rowHeight) / ratio;
+};
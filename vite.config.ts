@@ -1,15 +1,69 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/** Files below `dir`, as paths relative to it with forward slashes. */
+const listFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory()
+          ? listFiles(path.join(dir, entry.name)).map(file => `${entry.name}/${file}`)
+          : [entry.name])
+    : [];
+
+// Browsers that run service workers all read woff2, so the woff fallbacks are not cached
+const isPrecached = (file: string) => !file.endsWith('.map') && !file.endsWith('.woff');
+
+/**
+ * Emits sw.js from serviceWorker.js with the build's file list filled in.
+ * The version is a hash of every cached file, so a deploy that changes
+ * nothing does not prompt for an update.
+ */
+const serviceWorker = (): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const files = new Map<string, string | Uint8Array>();
+      for (const file of Object.keys(bundle)) {
+        const output = bundle[file];
+        files.set(file, output.type === 'chunk' ? output.code : output.source);
+      }
+      for (const file of listFiles(publicDir)) {
+        files.set(file, fs.readFileSync(path.join(publicDir, file)));
+      }
+
+      const precached = [...files.keys()].filter(isPrecached).sort();
+      const hash = createHash('sha256');
+      for (const file of precached) hash.update(file).update(files.get(file)!);
+
+      const urls = precached.map(file => (file === 'index.html' ? '/' : `/${file}`));
+      const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf-8')
+        .replace('self.__PRECACHE_URLS__', JSON.stringify(urls))
+        .replace('self.__BUILD_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The sync API runs in `npm run dev:api` (wrangler, port 8787)
+        proxy: {
+          '/api': 'http://localhost:8787',
+        },
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,222 @@
+import { DurableObject } from 'cloudflare:workers';
+import {
+  SyncChanges,
+  SyncPortfolio,
+  SyncResponse,
+  SyncProblem,
+  SyncRun,
+  compareStamps,
+  createSyncCode,
+  isSyncRequest,
+  normalizeSyncCode,
+  resolveRuns,
+  sameDetails
+} from '../utils/syncProtocol';
+
+// --- Sync API ---
+// Serves /api/sync next to the static app. Each sync space is a Durable
+// Object named after a hash of its code, holding the resolved state of every
+// bond any of its devices ever touched in SQLite. Rows carry the sequence
+// number of the exchange that last changed them, so a pull is every row
+// newer than the device's cursor.
+//
+//   POST /api/sync/spaces     creates a space and returns its code
+//   POST /api/sync/exchange   pushes changes, pulls changes since a cursor
+//                             (Authorization: Bearer <code>)
+
+interface Env {
+  SYNC_SPACES: DurableObjectNamespace<SyncSpace>;
+}
+
+interface RunRow extends Record<string, SqlStorageValue> {
+  portfolio: string;
+  series: string;
+  start_number: number;
+  end_number: number;
+  denomination: number | null; // null for deleted bonds
+  acquired_at: string | null;
+  notes: string | null;
+  at: string;
+  device: string;
+  seq: number;
+}
+
+interface PortfolioRow extends Record<string, SqlStorageValue> {
+  id: string;
+  name: string;
+  created_at: string;
+  deleted: number;
+  at: string;
+  device: string;
+  seq: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value INTEGER NOT NULL);
+  CREATE TABLE IF NOT EXISTS runs (
+    portfolio TEXT NOT NULL, series TEXT NOT NULL, start_number INTEGER NOT NULL, end_number INTEGER NOT NULL,
+    denomination REAL, acquired_at TEXT, notes TEXT,
+    at TEXT NOT NULL, device TEXT NOT NULL, seq INTEGER NOT NULL,
+    PRIMARY KEY (portfolio, series, start_number)
+  );
+  CREATE INDEX IF NOT EXISTS runs_by_seq ON runs (seq);
+  CREATE TABLE IF NOT EXISTS portfolios (
+    id TEXT PRIMARY KEY, name TEXT NOT NULL, created_at TEXT NOT NULL, deleted INTEGER NOT NULL,
+    at TEXT NOT NULL, device TEXT NOT NULL, seq INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS portfolios_by_seq ON portfolios (seq);
+`;
+
+const fromRunRow = (row: RunRow): SyncRun => ({
+  portfolioId: row.portfolio,
+  series: row.series,
+  start: row.start_number,
+  end: row.end_number,
+  details: row.denomination === null
+    ? null
+    : { denomination: row.denomination, acquiredAt: row.acquired_at ?? '', notes: row.notes ?? '' },
+  at: row.at,
+  device: row.device,
+});
+
+const fromPortfolioRow = (row: PortfolioRow): SyncPortfolio => ({
+  id: row.id,
+  name: row.name,
+  createdAt: row.created_at,
+  deleted: row.deleted === 1,
+  at: row.at,
+  device: row.device,
+});
+
+const sameRow = (a: SyncRun, b: SyncRun) =>
+  a.end === b.end && compareStamps(a, b) === 0 && sameDetails(a.details, b.details);
+
+export class SyncSpace extends DurableObject<Env> {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+    this.sql.exec(SCHEMA);
+  }
+
+  private readMeta(key: string): number | null {
+    const row = this.sql.exec<{ value: number }>('SELECT value FROM meta WHERE key = ?', key).toArray()[0];
+    return row ? row.value : null;
+  }
+
+  private writeMeta(key: string, value: number) {
+    this.sql.exec('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', key, value);
+  }
+
+  create() {
+    if (this.readMeta('seq') === null) this.writeMeta('seq', 0);
+  }
+
+  /** Resolves incoming runs against the stored ones and rewrites only the rows that changed. */
+  private mergeRuns(incoming: SyncRun[], seq: number) {
+    const groups = new Map<string, SyncRun[]>();
+    incoming.forEach(run => {
+      const key = JSON.stringify([run.portfolioId, run.series]);
+      groups.set(key, [...(groups.get(key) ?? []), run]);
+    });
+
+    groups.forEach((runs, key) => {
+      const [portfolio, series] = JSON.parse(key) as [string, string];
+      const stored = this.sql
+        .exec<RunRow>('SELECT * FROM runs WHERE portfolio = ? AND series = ?', portfolio, series)
+        .toArray()
+        .map(fromRunRow);
+      const previous = new Map(stored.map(run => [run.start, run]));
+
+      resolveRuns([...stored, ...runs]).forEach(run => {
+        const old = previous.get(run.start);
+        previous.delete(run.start);
+        if (old && sameRow(old, run)) return;
+        this.sql.exec(
+          'INSERT OR REPLACE INTO runs VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          portfolio, series, run.start, run.end,
+          run.details?.denomination ?? null, run.details?.acquiredAt ?? null, run.details?.notes ?? null,
+          run.at, run.device, seq
+        );
+      });
+      // Resolution never shrinks what the rows cover, so a vanished row was absorbed by a rewritten neighbour
+      previous.forEach(run => {
+        this.sql.exec('DELETE FROM runs WHERE portfolio = ? AND series = ? AND start_number = ?', portfolio, series, run.start);
+      });
+    });
+  }
+
+  private mergePortfolios(incoming: SyncPortfolio[], seq: number) {
+    incoming.forEach(portfolio => {
+      const row = this.sql.exec<PortfolioRow>('SELECT * FROM portfolios WHERE id = ?', portfolio.id).toArray()[0];
+      if (row && compareStamps(portfolio, fromPortfolioRow(row)) <= 0) return;
+      this.sql.exec(
+        'INSERT OR REPLACE INTO portfolios VALUES (?, ?, ?, ?, ?, ?, ?)',
+        portfolio.id, portfolio.name, portfolio.createdAt, portfolio.deleted ? 1 : 0, portfolio.at, portfolio.device, seq
+      );
+    });
+  }
+
+  /** Null when the space was never created, i.e. the code is wrong. */
+  exchange(since: number, changes: SyncChanges): SyncResponse | null {
+    const current = this.readMeta('seq');
+    if (current === null) return null;
+
+    let cursor = current;
+    if (changes.runs.length > 0 || changes.portfolios.length > 0) {
+      cursor = current + 1;
+      this.ctx.storage.transactionSync(() => {
+        this.mergeRuns(changes.runs, cursor);
+        this.mergePortfolios(changes.portfolios, cursor);
+        this.writeMeta('seq', cursor);
+      });
+    }
+
+    return {
+      cursor,
+      changes: {
+        runs: this.sql.exec<RunRow>('SELECT * FROM runs WHERE seq > ? ORDER BY portfolio, series, start_number', since).toArray().map(fromRunRow),
+        portfolios: this.sql.exec<PortfolioRow>('SELECT * FROM portfolios WHERE seq > ?', since).toArray().map(fromPortfolioRow),
+      },
+    };
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' } });
+
+const fail = (status: number, problem: SyncProblem, error: string) => json({ error, problem }, status);
+
+/** The code itself is never stored; the space is found by its hash. */
+const spaceFor = async (env: Env, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  const name = [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return env.SYNC_SPACES.get(env.SYNC_SPACES.idFromName(name));
+};
+
+const handleExchange = async (request: Request, env: Env) => {
+  const code = normalizeSyncCode(request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '');
+  if (!code) return fail(401, 'code-required', 'A valid sync code is required.');
+
+  const body: unknown = await request.json().catch(() => null);
+  if (!isSyncRequest(body)) return fail(400, 'unreadable', 'The changes sent could not be read.');
+
+  const result = await (await spaceFor(env, code)).exchange(body.since, body.changes);
+  return result ? json(result) : fail(404, 'unknown-code', 'No devices use this sync code.');
+};
+
+export default {
+  async fetch(request, env) {
+    const { pathname } = new URL(request.url);
+    if (request.method !== 'POST') return fail(405, 'method', 'Use POST.');
+
+    if (pathname === '/api/sync/spaces') {
+      const code = createSyncCode();
+      await (await spaceFor(env, code)).create();
+      return json({ code });
+    }
+    if (pathname === '/api/sync/exchange') return handleExchange(request, env);
+    return fail(404, 'not-found', 'Not found.');
+  },
+} satisfies ExportedHandler<Env>;